@@ -1,12 +1,31 @@
+import crypto from 'node:crypto'
 import fs from 'node:fs/promises'
+import path from 'node:path'
+import { promisify } from 'node:util'
 import express from 'express'
 import { Transform } from 'node:stream'
 
+const scrypt = promisify(crypto.scrypt)
+
 // Constants
 const isProduction = process.env.NODE_ENV === 'production'
 const port = process.env.PORT || 5173
 const base = process.env.BASE || '/'
 const ABORT_DELAY = 10000
+// Store of the single, anonymous user from before accounts; the first account to register takes it over
+const DATA_FILE = process.env.DATA_FILE || './data/store.json'
+const AUTH_FILE = process.env.AUTH_FILE || './data/auth.json'
+const LEDGER_DIR = process.env.LEDGER_DIR || './data/ledgers'
+const SESSION_COOKIE = 'sid'
+const CSRF_COOKIE = 'csrfToken'
+const SESSION_MAX_AGE = 30 * 24 * 60 * 60 * 1000
+const USERNAME_PATTERN = /^[a-z0-9_.-]{3,32}$/
+const PASSWORD_MIN_LENGTH = 8
+const PASSWORD_MAX_LENGTH = 256
+const MEMBER_ROLES = ['viewer', 'editor']
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS']
+const SORT_FIELDS = ['date', 'amount', 'category', 'description']
+const STORAGE_KEY_PATTERN = /^[a-zA-Z][\w-]*$/
 
 // Cached production assets
 const templateHtml = isProduction
@@ -34,24 +53,785 @@ if (!isProduction) {
   app.use(base, sirv('./dist/client', { extensions: [] }))
 }
 
+/**
+ * Load the SSR entry module, which also exposes the shared model and controller
+ * @returns {Promise<typeof import('./src/entry-server.tsx')>}
+ */
+async function loadServerEntry() {
+  return isProduction
+    ? await import('./dist/server/entry-server.js')
+    : await vite.ssrLoadModule('/src/entry-server.tsx')
+}
+
+// File-backed stores - JSON documents on disk: one store per ledger, keeping every storage key,
+// plus the accounts file. Changes to a file run one at a time, each reading the file and writing it
+// back as one step, so concurrent requests never overwrite each other's changes. Checks that depend on
+// the document (a free username, a transaction that exists) belong inside that step too, and slow work
+// such as password hashing before it.
+const fileQueues = new Map()
+
+/**
+ * Read a JSON document, or null when the file does not exist yet
+ */
+async function readJsonFile(file) {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf-8'))
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error
+    return null
+  }
+}
+
+/**
+ * Run a task once every earlier task on the same file has settled
+ */
+function queueFileTask(file, task) {
+  const result = (fileQueues.get(file) ?? Promise.resolve()).then(task)
+  const settled = result.catch(() => {})
+  fileQueues.set(file, settled)
+  settled.then(() => fileQueues.get(file) === settled && fileQueues.delete(file))
+  return result
+}
+
+/**
+ * Replace a JSON document atomically; only called from a queued task
+ */
+async function replaceJsonFile(file, data) {
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  const tmpFile = `${file}.tmp`
+  await fs.writeFile(tmpFile, JSON.stringify(data, null, 2))
+  await fs.rename(tmpFile, file)
+}
+
+/**
+ * Read-modify-write a JSON document as one queued step. update gets the document (null when the file
+ * does not exist yet) and returns the new one, or undefined to leave the file as is; resolves to the
+ * document as it ends up
+ */
+function updateJsonFile(file, update) {
+  return queueFileTask(file, async () => {
+    const current = await readJsonFile(file)
+    const next = await update(current)
+    if (next === undefined) return current
+    await replaceJsonFile(file, next)
+    return next
+  })
+}
+
+/**
+ * Write a JSON document, after the changes already queued for it
+ */
+function writeJsonFile(file, data) {
+  return updateJsonFile(file, () => data)
+}
+
+/**
+ * Path of a ledger's store document; ledger ids are generated UUIDs, never user input
+ */
+function getLedgerFile(ledgerId) {
+  return path.join(LEDGER_DIR, `${ledgerId}.json`)
+}
+
+/**
+ * Read a ledger's store document, seeding it with the default transactions on first use. Files are
+ * replaced atomically, so reads need not wait for queued changes.
+ */
+async function readStore(ledgerId) {
+  return (await readJsonFile(getLedgerFile(ledgerId))) ?? updateStore(ledgerId, () => undefined)
+}
+
+/**
+ * Read-modify-write a ledger's store document as one step (see updateJsonFile), seeding it with the
+ * default transactions on first use
+ */
+async function updateStore(ledgerId, update) {
+  const { FinancialController } = await loadServerEntry()
+  return updateJsonFile(getLedgerFile(ledgerId), (saved) => {
+    const store = saved ?? {
+      transactions: FinancialController.serializeTransactions(
+        FinancialController.getDefaultTransactions()
+      ),
+    }
+    const next = update(store)
+    // A new store is written even when the update leaves it as is, so the seed sticks
+    return next === undefined && !saved ? store : next
+  })
+}
+
+/**
+ * Write a ledger's store document
+ */
+function writeStore(ledgerId, store) {
+  return writeJsonFile(getLedgerFile(ledgerId), store)
+}
+
+/**
+ * Transactions of a store document as models, migrating older payloads
+ */
+function getStoredTransactions(FinancialController, store) {
+  return Object.hasOwn(store, 'transactions')
+    ? FinancialController.deserializeTransactions(store.transactions)
+    : []
+}
+
+/**
+ * The store document with the given transaction models as a versioned payload. Stored records
+ * that fail validation were skipped on load, so they are moved to the quarantine instead of lost
+ */
+function setStoredTransactions(FinancialController, store, transactions) {
+  const { quarantined } = Object.hasOwn(store, 'transactions')
+    ? FinancialController.partitionTransactions(store.transactions)
+    : { quarantined: [] }
+  return {
+    ...store,
+    transactions: FinancialController.serializeTransactions(transactions),
+    ...(quarantined.length > 0 && {
+      quarantinedTransactions: [
+        ...FinancialController.restoreQuarantine(store.quarantinedTransactions),
+        ...quarantined,
+      ],
+    }),
+  }
+}
+
+/**
+ * Load all transactions of a ledger as models
+ */
+async function loadTransactions(ledgerId) {
+  const { FinancialController } = await loadServerEntry()
+  return getStoredTransactions(FinancialController, await readStore(ledgerId))
+}
+
+/**
+ * Read-modify-write a ledger's transactions as one step, so concurrent changes (and the ids they
+ * allocate) never collide. update gets the models and the store document and returns the new list,
+ * or undefined to leave them as they are
+ */
+async function updateTransactions(ledgerId, update) {
+  const { FinancialController } = await loadServerEntry()
+  await updateStore(ledgerId, (store) => {
+    const transactions = update(getStoredTransactions(FinancialController, store), store)
+    return transactions && setStoredTransactions(FinancialController, store, transactions)
+  })
+}
+
+/**
+ * Validate a transaction request body against the shared transaction schema,
+ * returning an error payload with the failing fields, or null
+ */
+async function validateTransactionBody(body) {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { error: 'Request body must be a JSON object' }
+  }
+  const { ValidationService } = await loadServerEntry()
+  const fields = ValidationService.validateTransaction(body)
+  return ValidationService.isValid(fields) ? null : { error: 'Invalid transaction', fields }
+}
+
+/**
+ * Validate a whole transactions payload, as the client's storage adapter saves it, against the same
+ * schema, returning an error payload with the failing records and their fields, or null
+ */
+async function validateTransactionsPayload(payload) {
+  const { FinancialController, ValidationService } = await loadServerEntry()
+  let quarantined
+  try {
+    ({ quarantined } = FinancialController.partitionTransactions(payload))
+  } catch {
+    return { error: 'Invalid transactions payload' }
+  }
+  if (quarantined.length === 0) return null
+  return {
+    error: 'Invalid transaction',
+    records: quarantined.map((record) => ({ id: record?.id, fields: ValidationService.validateTransaction(record ?? {}) })),
+  }
+}
+
+/**
+ * Version of a stored value, as a strong ETag: a hash of its JSON, so any change gives a new one
+ */
+function getStorageTag(value) {
+  return `"${crypto.createHash('sha1').update(JSON.stringify(value)).digest('base64url')}"`
+}
+
+/**
+ * Versions of the keys of a preloaded snapshot, so the client's first saves are checked too
+ */
+function getStorageTags(snapshot) {
+  return Object.fromEntries(Object.entries(snapshot).map(([key, value]) => [key, getStorageTag(value)]))
+}
+
+/**
+ * Whether a storage write's preconditions hold for the current version of its key (null when the
+ * key does not exist); a write without preconditions always applies
+ */
+function matchesStorageTag(req, current) {
+  const ifMatch = req.get('If-Match')
+  const ifNoneMatch = req.get('If-None-Match')
+  if (ifMatch !== undefined && (current === null || (ifMatch !== '*' && ifMatch !== current))) return false
+  if (ifNoneMatch === '*' && current !== null) return false
+  return true
+}
+
+/**
+ * Period options from the query string: custom range bounds and week/fiscal year starts
+ */
+function getPeriodOptions(query) {
+  const { from, to, weekStart = 0, fiscalYearStart = 0 } = query
+  return {
+    weekStart: Number(weekStart) || 0,
+    fiscalYearStartMonth: Number(fiscalYearStart) || 0,
+    from: from ? String(from) : undefined,
+    to: to ? String(to) : undefined,
+  }
+}
+
+/**
+ * Embed data as a JSON script tag; "<" is escaped so the payload can never close the tag
+ */
+function renderDataScript(id, data) {
+  if (!data) return ''
+  const json = JSON.stringify(data).replace(/</g, '\\u003c')
+  return `<script id="${id}" type="application/json">${json}</script>`
+}
+
+// Accounts - users, their sessions and the ledgers they can open, kept in AUTH_FILE. Each user owns
+// one ledger and can share it with others as a viewer (read-only) or an editor.
+
+/**
+ * Read the accounts document
+ */
+async function readAuth() {
+  return (await readJsonFile(AUTH_FILE)) ?? { users: [], sessions: {}, ledgers: [] }
+}
+
+/**
+ * Read-modify-write the accounts document as one step (see updateJsonFile); resolves to the document
+ * as it ends up
+ */
+function updateAuth(update) {
+  return updateJsonFile(AUTH_FILE, (saved) => update(saved ?? { users: [], sessions: {}, ledgers: [] }))
+}
+
+/**
+ * Hash a password with scrypt and a random salt, as "salt:hash" in hex
+ */
+async function hashPassword(password) {
+  const salt = crypto.randomBytes(16)
+  const hash = await scrypt(password, salt, 64)
+  return `${salt.toString('hex')}:${hash.toString('hex')}`
+}
+
+/**
+ * Check a password against a stored hash in constant time
+ */
+async function verifyPassword(password, stored) {
+  const [salt, hash] = stored.split(':')
+  const expected = Buffer.from(hash, 'hex')
+  const actual = await scrypt(password, Buffer.from(salt, 'hex'), expected.length)
+  return crypto.timingSafeEqual(actual, expected)
+}
+
+// Checked against when the username does not exist, so sign-in takes as long either way
+const DUMMY_PASSWORD_HASH = await hashPassword(crypto.randomUUID())
+
+/**
+ * Sessions are stored by the hash of their id, so a leaked accounts file cannot be replayed
+ */
+function hashToken(token) {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Compare two tokens in constant time
+ */
+function tokensMatch(actual, expected) {
+  const a = Buffer.from(String(actual))
+  const b = Buffer.from(String(expected))
+  return a.length === b.length && crypto.timingSafeEqual(a, b)
+}
+
+/**
+ * Parse a Cookie header into name/value pairs
+ */
+function parseCookies(header = '') {
+  return Object.fromEntries(header.split(';').flatMap((part) => {
+    const index = part.indexOf('=')
+    if (index === -1) return []
+    try {
+      return [[part.slice(0, index).trim(), decodeURIComponent(part.slice(index + 1).trim())]]
+    } catch {
+      return []
+    }
+  }))
+}
+
+/**
+ * Role of a user on a ledger: 'owner', their member role, or null without access
+ */
+function getLedgerRole(ledger, userId) {
+  if (!ledger) return null
+  if (ledger.ownerId === userId) return 'owner'
+  return ledger.members.find((m) => m.userId === userId)?.role ?? null
+}
+
+/**
+ * Request auth context for a session: the accounts document, the user and the ledger they have open.
+ * Access to a shared ledger can be revoked, in which case the user is back on their own.
+ */
+function getAuthContext(auth, sessionKey) {
+  const session = auth.sessions[sessionKey]
+  const user = session && session.expiresAt > Date.now() && auth.users.find((u) => u.id === session.userId)
+  if (!user) return null
+
+  const shared = auth.ledgers.find((l) => l.id === session.ledgerId)
+  const role = getLedgerRole(shared, user.id)
+  const ledger = role ? { id: shared.id, role } : { id: user.ledgerId, role: 'owner' }
+  return { auth, sessionKey, session, user, ledger }
+}
+
+/**
+ * Add a session on the user's own ledger to the accounts document, dropping expired sessions; called
+ * from an updateAuth step. Returns the session id, its CSRF token and the new document.
+ */
+function addSession(auth, user) {
+  const sid = crypto.randomBytes(32).toString('hex')
+  const csrfToken = crypto.randomBytes(32).toString('hex')
+  const now = Date.now()
+  const sessions = Object.fromEntries(Object.entries(auth.sessions).filter(([, s]) => s.expiresAt > now))
+  sessions[hashToken(sid)] = { userId: user.id, ledgerId: user.ledgerId, csrfToken, expiresAt: now + SESSION_MAX_AGE }
+  return { sid, csrfToken, auth: { ...auth, sessions } }
+}
+
+/**
+ * Send the cookies of a stored session and get its auth context. The session id goes in an HttpOnly
+ * cookie; the CSRF token in a readable one, which the client echoes in the X-CSRF-Token header.
+ */
+function startSession(req, res, { sid, csrfToken, auth }) {
+  const options = { path: base, maxAge: SESSION_MAX_AGE, sameSite: 'lax', secure: req.secure }
+  res.cookie(SESSION_COOKIE, sid, { ...options, httpOnly: true })
+  res.cookie(CSRF_COOKIE, csrfToken, options)
+  return getAuthContext(auth, hashToken(sid))
+}
+
+/**
+ * The signed-in user as the client sees it: their name, the open ledger, the ledgers they can
+ * switch to, and the members of the open ledger when they own it. Null when signed out.
+ */
+function getAuthUser(context) {
+  if (!context) return null
+  const { auth, user, ledger } = context
+  const username = (id) => auth.users.find((u) => u.id === id)?.username ?? ''
+  const describe = (l) => ({ id: l.id, owner: username(l.ownerId), role: getLedgerRole(l, user.id) })
+  const open = auth.ledgers.find((l) => l.id === ledger.id)
+
+  return {
+    username: user.username,
+    ledger: describe(open),
+    ledgers: auth.ledgers.filter((l) => getLedgerRole(l, user.id)).map(describe),
+    members: ledger.role === 'owner'
+      ? open.members.map((m) => ({ username: username(m.userId), role: m.role }))
+      : [],
+  }
+}
+
+/**
+ * Username (trimmed, lower-case) and password from a request body
+ */
+function getCredentials(body) {
+  return {
+    username: String(body?.username ?? '').trim().toLowerCase(),
+    password: String(body?.password ?? ''),
+  }
+}
+
+/**
+ * Require a signed-in user
+ */
+function requireUser(req, res, next) {
+  if (!req.auth) return res.status(401).json({ error: 'Authentication required' })
+  next()
+}
+
+/**
+ * Require the session's CSRF token in the X-CSRF-Token header on requests that change data
+ */
+function requireCsrf(req, res, next) {
+  if (SAFE_METHODS.includes(req.method) || tokensMatch(req.get('X-CSRF-Token') ?? '', req.auth.session.csrfToken)) {
+    return next()
+  }
+  res.status(403).json({ error: 'Invalid CSRF token' })
+}
+
+/**
+ * Require write access to the open ledger on requests that change data; viewers can only read
+ */
+function requireEditor(req, res, next) {
+  if (SAFE_METHODS.includes(req.method) || req.auth.ledger.role !== 'viewer') return next()
+  res.status(403).json({ error: 'This ledger is shared with you read-only' })
+}
+
+/**
+ * Require ownership of the open ledger, to manage who it is shared with
+ */
+function requireOwner(req, res, next) {
+  if (req.auth.ledger.role === 'owner') return next()
+  res.status(403).json({ error: 'Only the owner can share this ledger' })
+}
+
+/**
+ * Sign-in and registration take JSON only, which a cross-site form cannot send
+ */
+function requireJson(req, res, next) {
+  if (req.is('application/json')) return next()
+  res.status(415).json({ error: 'Content-Type must be application/json' })
+}
+
+// Attach the signed-in user and the ledger they have open to every request
+app.use(async (req, _res, next) => {
+  const sid = parseCookies(req.headers.cookie)[SESSION_COOKIE]
+  if (sid) req.auth = getAuthContext(await readAuth(), hashToken(sid))
+  next()
+})
+
+// Accounts API - registration, sign-in and ledger sharing
+const authApi = express.Router()
+
+authApi.get('/me', requireUser, (req, res) => {
+  res.json(getAuthUser(req.auth))
+})
+
+authApi.post('/register', requireJson, async (req, res) => {
+  const { username, password } = getCredentials(req.body)
+  if (!USERNAME_PATTERN.test(username)) {
+    return res.status(400).json({ error: 'Username must be 3-32 lower-case letters, digits, ".", "_" or "-"' })
+  }
+  if (password.length < PASSWORD_MIN_LENGTH || password.length > PASSWORD_MAX_LENGTH) {
+    return res.status(400).json({ error: `Password must have ${PASSWORD_MIN_LENGTH} to ${PASSWORD_MAX_LENGTH} characters` })
+  }
+
+  const user = { id: crypto.randomUUID(), username, passwordHash: await hashPassword(password), ledgerId: crypto.randomUUID() }
+  let session = null
+  let isFirst = false
+  await updateAuth((auth) => {
+    if (auth.users.some((u) => u.username === username)) return undefined
+    isFirst = auth.users.length === 0
+    session = addSession({
+      ...auth,
+      users: [...auth.users, user],
+      ledgers: [...auth.ledgers, { id: user.ledgerId, ownerId: user.id, members: [] }],
+    }, user)
+    return session.auth
+  })
+  if (!session) return res.status(409).json({ error: 'Username already taken' })
+
+  // The first account takes over the data kept before there were accounts; nobody else can open
+  // its ledger, and its owner only gets the session cookie below
+  if (isFirst) {
+    const legacy = await readJsonFile(DATA_FILE)
+    if (legacy) await writeStore(user.ledgerId, legacy)
+  }
+
+  req.auth = startSession(req, res, session)
+  res.status(201).json(getAuthUser(req.auth))
+})
+
+authApi.post('/login', requireJson, async (req, res) => {
+  const { username, password } = getCredentials(req.body)
+  const user = (await readAuth()).users.find((u) => u.username === username)
+  const valid = password.length <= PASSWORD_MAX_LENGTH
+    && await verifyPassword(password, user?.passwordHash ?? DUMMY_PASSWORD_HASH)
+  if (!user || !valid) return res.status(401).json({ error: 'Invalid username or password' })
+
+  let session
+  await updateAuth((auth) => {
+    session = addSession(auth, user)
+    return session.auth
+  })
+  req.auth = startSession(req, res, session)
+  res.json(getAuthUser(req.auth))
+})
+
+authApi.post('/logout', requireUser, requireCsrf, async (req, res) => {
+  const { sessionKey } = req.auth
+  await updateAuth((auth) => {
+    const { [sessionKey]: _ended, ...sessions } = auth.sessions
+    return { ...auth, sessions }
+  })
+  res.clearCookie(SESSION_COOKIE, { path: base })
+  res.clearCookie(CSRF_COOKIE, { path: base })
+  res.status(204).end()
+})
+
+// Open another ledger the user has access to, for this session
+authApi.put('/ledger', requireUser, requireCsrf, async (req, res) => {
+  const { sessionKey, user } = req.auth
+  let found = false
+  const auth = await updateAuth((auth) => {
+    const ledger = auth.ledgers.find((l) => l.id === req.body?.ledgerId)
+    const session = auth.sessions[sessionKey]
+    found = Boolean(session && getLedgerRole(ledger, user.id))
+    if (!found) return undefined
+    return { ...auth, sessions: { ...auth.sessions, [sessionKey]: { ...session, ledgerId: ledger.id } } }
+  })
+  if (!found) return res.status(404).json({ error: 'Ledger not found' })
+  res.json(getAuthUser(getAuthContext(auth, sessionKey)))
+})
+
+// Share the open ledger with another user, or change their role
+authApi.put('/members/:username', requireUser, requireCsrf, requireOwner, async (req, res) => {
+  const { sessionKey, user, ledger } = req.auth
+  const role = req.body?.role
+  if (!MEMBER_ROLES.includes(role)) {
+    return res.status(400).json({ error: `role must be one of ${MEMBER_ROLES.join(', ')}` })
+  }
+
+  let found = false
+  const auth = await updateAuth((auth) => {
+    const member = auth.users.find((u) => u.username === req.params.username.toLowerCase())
+    found = Boolean(member) && member.id !== user.id
+    if (!found) return undefined
+    return {
+      ...auth,
+      ledgers: auth.ledgers.map((l) => l.id !== ledger.id ? l : {
+        ...l,
+        members: [...l.members.filter((m) => m.userId !== member.id), { userId: member.id, role }],
+      }),
+    }
+  })
+  if (!found) return res.status(404).json({ error: 'User not found' })
+  res.json(getAuthUser(getAuthContext(auth, sessionKey)))
+})
+
+// Stop sharing the open ledger with a user
+authApi.delete('/members/:username', requireUser, requireCsrf, requireOwner, async (req, res) => {
+  const { sessionKey, ledger } = req.auth
+  const auth = await updateAuth((auth) => {
+    const member = auth.users.find((u) => u.username === req.params.username.toLowerCase())
+    if (!member) return undefined
+    return {
+      ...auth,
+      ledgers: auth.ledgers.map((l) => l.id !== ledger.id ? l : {
+        ...l,
+        members: l.members.filter((m) => m.userId !== member.id),
+      }),
+    }
+  })
+  res.json(getAuthUser(getAuthContext(auth, sessionKey)))
+})
+
+// Transactions REST API, on the ledger the signed-in user has open
+const api = express.Router()
+api.use(express.json({ strict: false, limit: '5mb' }))
+api.use('/auth', authApi)
+api.use(requireUser, requireCsrf, requireEditor)
+
+api.get('/transactions', async (req, res) => {
+  const { FinancialController } = await loadServerEntry()
+  const { search = '', period = 'all', type, category, account, sort = 'date', order = 'desc' } = req.query
+  if (!SORT_FIELDS.includes(sort) || !['asc', 'desc'].includes(order)) {
+    return res.status(400).json({ error: `sort must be one of ${SORT_FIELDS.join(', ')} and order asc or desc` })
+  }
+
+  let transactions = FinancialController.filterTransactions(
+    await loadTransactions(req.auth.ledger.id),
+    String(search),
+    String(period),
+    account ? Number(account) : null,
+    getPeriodOptions(req.query)
+  )
+  if (type) transactions = transactions.filter((t) => t.type === type)
+  if (category) transactions = transactions.filter((t) => t.category === category)
+
+  res.json(FinancialController.sortTransactions(transactions, { field: sort, direction: order }))
+})
+
+api.get('/transactions/:id', async (req, res) => {
+  const transaction = (await loadTransactions(req.auth.ledger.id)).find((t) => t.id === Number(req.params.id))
+  if (!transaction) return res.status(404).json({ error: 'Transaction not found' })
+  res.json(transaction)
+})
+
+api.post('/transactions', async (req, res) => {
+  const invalid = await validateTransactionBody(req.body)
+  if (invalid) return res.status(400).json(invalid)
+
+  const { TransactionModel, FinancialController } = await loadServerEntry()
+  let transaction
+  await updateTransactions(req.auth.ledger.id, (transactions, store) => {
+    const id = Math.max(0, ...transactions.map((t) => t.id)) + 1
+    // New transactions go through the user's categorization rules, as in the app
+    transaction = FinancialController.applyCategorizationRules(
+      TransactionModel.fromJSON({ ...req.body, id }),
+      FinancialController.restoreCategorizationRules(store.categorizationRules)
+    )
+    return [...transactions, transaction]
+  })
+  res.status(201).json(transaction)
+})
+
+api.put('/transactions/:id', async (req, res) => {
+  const invalid = await validateTransactionBody(req.body)
+  if (invalid) return res.status(400).json(invalid)
+
+  const { TransactionModel } = await loadServerEntry()
+  const id = Number(req.params.id)
+  const transaction = TransactionModel.fromJSON({ ...req.body, id })
+  let found = false
+  await updateTransactions(req.auth.ledger.id, (transactions) => {
+    found = transactions.some((t) => t.id === id)
+    return found ? transactions.map((t) => (t.id === id ? transaction : t)) : undefined
+  })
+  if (!found) return res.status(404).json({ error: 'Transaction not found' })
+  res.json(transaction)
+})
+
+api.delete('/transactions/:id', async (req, res) => {
+  const id = Number(req.params.id)
+  let found = false
+  await updateTransactions(req.auth.ledger.id, (transactions) => {
+    found = transactions.some((t) => t.id === id)
+    return found ? transactions.filter((t) => t.id !== id) : undefined
+  })
+  if (!found) return res.status(404).json({ error: 'Transaction not found' })
+  res.status(204).end()
+})
+
+api.delete('/transactions', async (req, res) => {
+  await updateTransactions(req.auth.ledger.id, () => [])
+  res.status(204).end()
+})
+
+// Key-value access used by the client-side server storage adapter
+api.param('key', (req, res, next, key) => {
+  if (!STORAGE_KEY_PATTERN.test(key)) return res.status(400).json({ error: 'Invalid storage key' })
+  next()
+})
+
+api.get('/storage', async (req, res) => {
+  res.json(Object.keys(await readStore(req.auth.ledger.id)))
+})
+
+api.get('/storage/:key', async (req, res) => {
+  const store = await readStore(req.auth.ledger.id)
+  if (!Object.hasOwn(store, req.params.key)) {
+    return res.status(404).json({ error: 'Storage key not found' })
+  }
+  res.set('ETag', getStorageTag(store[req.params.key])).json(store[req.params.key])
+})
+
+// The client saves each key on its own, often several at once, so each change applies to the store
+// as it is when its turn comes. A save that names the version it replaces (If-Match, or
+// If-None-Match: * for a new key) is refused when another tab or editor changed the key since.
+api.put('/storage/:key', async (req, res) => {
+  // Transactions saved as a whole are held to the same schema as those sent to /transactions
+  if (req.params.key === 'transactions') {
+    const invalid = await validateTransactionsPayload(req.body)
+    if (invalid) return res.status(400).json(invalid)
+  }
+
+  const { key } = req.params
+  let current = null
+  let conflict = false
+  const store = await updateStore(req.auth.ledger.id, (store) => {
+    current = Object.hasOwn(store, key) ? getStorageTag(store[key]) : null
+    conflict = !matchesStorageTag(req, current)
+    return conflict ? undefined : { ...store, [key]: req.body }
+  })
+  if (conflict) {
+    if (current) res.set('ETag', current)
+    return res.status(412).json({ error: 'Storage key was changed by someone else' })
+  }
+  res.set('ETag', getStorageTag(store[key])).status(204).end()
+})
+
+api.delete('/storage/:key', async (req, res) => {
+  await updateStore(req.auth.ledger.id, ({ [req.params.key]: _removed, ...store }) => store)
+  res.status(204).end()
+})
+
+api.get('/summary', async (req, res) => {
+  const { FinancialController } = await loadServerEntry()
+  const store = await readStore(req.auth.ledger.id)
+  const { search = '', period = 'all', base: baseCurrency = store.baseCurrency ?? 'BRL', account } = req.query
+  const rates = store.exchangeRates
+    ? FinancialController.deserializeExchangeRates(store.exchangeRates)
+    : []
+  const accounts = store.accounts
+    ? FinancialController.deserializeAccounts(store.accounts)
+    : FinancialController.getDefaultAccounts()
+  const allTransactions = await loadTransactions(req.auth.ledger.id)
+  const accountId = account ? Number(account) : null
+  const periodOptions = getPeriodOptions(req.query)
+  const { converted, unconverted } = FinancialController.convertTransactions(
+    FinancialController.filterTransactions(allTransactions, String(search), String(period), accountId, periodOptions),
+    String(baseCurrency),
+    rates
+  )
+
+  // Totals of the equivalent previous period, for period-over-period deltas
+  const range = FinancialController.getDateRange(String(period), periodOptions)
+  const previousRange = range && FinancialController.getPreviousRange(String(period), range)
+  let previous = null
+  if (previousRange) {
+    const matching = FinancialController.filterTransactions(allTransactions, String(search), 'all', accountId)
+    const { converted: previousConverted } = FinancialController.convertTransactions(
+      FinancialController.filterByDateRange(matching, previousRange),
+      String(baseCurrency),
+      rates
+    )
+    const { totalIncome, totalExpense, balance } = FinancialController.calculateSummary(previousConverted)
+    previous = { ...previousRange, totalIncome, totalExpense, balance }
+  }
+
+  res.json({
+    baseCurrency: String(baseCurrency),
+    ...FinancialController.calculateSummary(converted),
+    categories: FinancialController.groupByCategory(converted),
+    tags: FinancialController.groupByTag(converted),
+    unconvertedIds: unconverted.map((t) => t.id),
+    accounts: FinancialController.getAccountBalances(allTransactions, accounts, rates),
+    previous,
+  })
+})
+
+api.use((error, _req, res, _next) => {
+  console.error(error)
+  res.status(500).json({ error: 'Internal server error' })
+})
+
+app.use(`${base}api`, api)
+
 // Serve HTML
-app.use('*all', async (req, res) => {
+// Mounted without a path pattern, so a malformed escape reaches the router as an unknown page (404)
+app.use(async (req, res) => {
   try {
     const url = req.originalUrl.replace(base, '')
 
     /** @type {string} */
     let template
-    /** @type {import('./src/entry-server.ts').render} */
-    let render
     if (!isProduction) {
       // Always read fresh template in development
       template = await fs.readFile('./index.html', 'utf-8')
       template = await vite.transformIndexHtml(url, template)
-      render = (await vite.ssrLoadModule('/src/entry-server.tsx')).render
     } else {
       template = templateHtml
-      render = (await import('./dist/server/entry-server.js')).render
     }
+    const { render, resolveLocale, resolveRoute, resolveBackend, preloadData } = await loadServerEntry()
+    const user = getAuthUser(req.auth)
+    // Data kept on the server belongs to an account, so visitors using the server backend sign in first
+    if (!user && resolveBackend(req.headers) === 'server' && resolveRoute(url) !== 'login') {
+      return res.redirect(302, `${base}login`)
+    }
+
+    const locale = resolveLocale(req.headers)
+    // Read the data before rendering so the first byte already holds the real summary and table
+    const preloaded = user ? preloadData(req.headers, await readStore(req.auth.ledger.id)) : null
+    template = template
+      .replace(/<html lang="[^"]*">/, `<html lang="${locale}">`)
+      .replace('<!--app-data-->', renderDataScript('app-data', preloaded)
+        + renderDataScript('app-versions', preloaded && getStorageTags(preloaded))
+        + renderDataScript('app-user', user))
 
     let didError = false
 
@@ -62,8 +842,13 @@ app.use('*all', async (req, res) => {
         res.send('<h1>Something went wrong</h1>')
       },
       onShellReady() {
-        res.status(didError ? 500 : 200)
-        res.set({ 'Content-Type': 'text/html' })
+        res.status(didError ? 500 : resolveRoute(url) === 'notFound' ? 404 : 200)
+        res.set({
+          'Content-Type': 'text/html',
+          Vary: 'Accept-Language, Cookie',
+          // The page carries the stored data, so shared caches must not keep it
+          'Cache-Control': 'private, no-store',
+        })
 
         const [htmlStart, htmlEnd] = template.split(`<!--app-html-->`)
 
@@ -85,7 +870,7 @@ app.use('*all', async (req, res) => {
         didError = true
         console.error(error)
       },
-    })
+    }, locale, preloaded, user)
 
     setTimeout(() => abort(), ABORT_DELAY)
   } catch (e) {
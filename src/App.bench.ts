@@ -0,0 +1,83 @@
+import { bench, describe } from 'vitest';
+import { FinancialController } from './controller/FinancialController';
+import { generateTransactions } from './__fixtures__/transactions';
+
+const HISTORY_SIZE = 50_000;
+
+const transactions = generateTransactions(HISTORY_SIZE);
+const sorted = FinancialController.sortTransactions(transactions);
+
+const lastQuarter = { weekStart: 0, fiscalYearStartMonth: 0, from: '2025-10-01', to: '2025-12-31' };
+
+// Each of these runs once per debounced keystroke or filter change; a frame at 60 fps is 16ms
+describe(`filtering ${HISTORY_SIZE.toLocaleString('en-US')} transactions`, () => {
+  bench('free text', () => {
+    FinancialController.filterTransactions(sorted, 'mercado', 'all');
+  });
+
+  bench('field query', () => {
+    FinancialController.filterTransactions(sorted, 'category:alimentacao amount>100 -uber', 'all');
+  });
+
+  bench('tag', () => {
+    FinancialController.filterTransactions(sorted, 'tag:viagem-2025', 'all');
+  });
+
+  bench('period', () => {
+    FinancialController.filterTransactions(sorted, '', 'custom', null, lastQuarter);
+  });
+
+  bench('account', () => {
+    FinancialController.filterTransactions(sorted, '', 'all', 2);
+  });
+
+  bench('search, period and account', () => {
+    FinancialController.filterTransactions(sorted, 'mercado', 'custom', 1, lastQuarter);
+  });
+});
+
+describe(`sorting ${HISTORY_SIZE.toLocaleString('en-US')} transactions`, () => {
+  bench('by date', () => {
+    FinancialController.sortTransactions(transactions);
+  });
+
+  bench('by amount', () => {
+    FinancialController.sortTransactions(transactions, { field: 'amount', direction: 'desc' });
+  });
+
+  bench('by description', () => {
+    FinancialController.sortTransactions(transactions, { field: 'description', direction: 'asc' });
+  });
+});
+
+describe(`aggregating ${HISTORY_SIZE.toLocaleString('en-US')} transactions`, () => {
+  const { converted } = FinancialController.convertTransactions(transactions, 'BRL', []);
+
+  bench('summary', () => {
+    FinancialController.calculateSummary(converted);
+  });
+
+  bench('category chart', () => {
+    FinancialController.groupByCategory(converted);
+  });
+
+  bench('cash flow timeline', () => {
+    FinancialController.groupByPeriod(converted, 'month');
+  });
+
+  bench('tag report', () => {
+    FinancialController.groupByTag(converted);
+  });
+});
+
+describe(`table rows of ${HISTORY_SIZE.toLocaleString('en-US')} transactions`, () => {
+  const expanded = new Set(sorted.filter(t => t.isSplit()).map(t => t.id));
+
+  bench('every split collapsed', () => {
+    FinancialController.getTableRows(sorted, new Set());
+  });
+
+  bench('every split expanded', () => {
+    FinancialController.getTableRows(sorted, expanded);
+  });
+});
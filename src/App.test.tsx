@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { renderToString } from 'react-dom/server';
+import FinanceDashboard from './App';
+import { FinancialController } from './controller/FinancialController';
+import { PAGE_SIZE } from './constants';
+import { generateTransactions } from './__fixtures__/transactions';
+
+describe('FinanceDashboard', () => {
+  it('renders one page of rows, however long the history', () => {
+    const transactions = generateTransactions(50_000);
+    const html = renderToString(
+      <FinanceDashboard
+        initialUrl="/transactions?period=all"
+        preloadedData={{ transactions: FinancialController.serializeTransactions(transactions) }}
+      />
+    );
+    const dataRows = html.match(/<tr[\s>]/g)!.length - 1; // minus the header row
+    expect(dataRows).toBe(PAGE_SIZE);
+  });
+});
@@ -1,483 +1,1052 @@
-import React, { useState, useMemo, useEffect } from 'react';
-import { PieChart, Pie, Cell, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { Search, Plus, Edit2, Trash2, Moon, Sun, TrendingUp, TrendingDown, Wallet } from 'lucide-react';
-
-// ==================== UTILS ====================
-/**
- * Check if code is running on client-side
- */
-const isClient = typeof window !== 'undefined';
-
-// ==================== TYPES ====================
-type TransactionType = 'income' | 'expense';
-
-interface ITransaction {
-  id: number;
-  type: TransactionType;
-  amount: number;
-  category: string;
-  description: string;
-  date: Date;
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import {
+  PieChart, Pie, Cell, BarChart, Bar, ComposedChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import {
+  Search, Plus, Edit2, Trash2, Moon, Sun, TrendingUp, TrendingDown, Wallet, Download, Upload, Repeat, SkipForward,
+  ArrowLeftRight, Undo2, Redo2, X, ChevronDown, Split, Paperclip, StickyNote, AlertTriangle, Tags, Wand2, Printer,
+  DatabaseBackup, Users, LogOut, ChevronLeft, ChevronRight,
+} from 'lucide-react';
+import { SearchQuery, type ISearchError } from './searchQuery';
+import { isClient } from './utils';
+import type {
+  TransactionType, IAttachment, RecurrenceEnd, FormField, ValidationErrors, IFormData, ISummary, PeriodPreset,
+  IStatement, IPeriodSettings, IPeriodOptions, TimelineGranularity, ICashFlowPoint, ITagData, ICategoryData,
+  ICategoryState, StorageBackend, CsvTransaction, StatementFormat, IAccount, IAccountBalance, IBudgetStatus,
+  IGoalStatus, Locale, AppRoute, ILocationState, StorageSnapshot, IAppData, HistoryAction, IBackupFile, RestoreMode,
+  MergeReport, IHistoryState, IHistoryToast, MemberRole, IAuthUser, AuthMode, ICredentials, SortField,
+  ITransactionSort, TableMode, IPieData,
+} from './types';
+import {
+  DEFAULT_CURRENCY, CURRENCIES, DEFAULT_LOCALE, DEFAULT_ACCOUNT_ID, DEFAULT_PERIOD_SETTINGS,
+  DEFAULT_TRANSACTION_SORT, PAGE_SIZE, VIRTUAL_ROW_HEIGHT, VIRTUAL_VIEWPORT_HEIGHT, VIRTUAL_OVERSCAN,
+  SEARCH_DEBOUNCE_MS, NOTES_MAX_LENGTH, TAG_MAX_LENGTH, ATTACHMENT_MAX_SIZE, EMPTY_HISTORY, TOAST_DURATION_MS,
+  DEFAULT_CATEGORY_COLOR,
+} from './constants';
+import { I18nService } from './i18n/I18nService';
+import { AccountModel } from './models/AccountModel';
+import { BudgetModel } from './models/BudgetModel';
+import { CategorizationRuleModel } from './models/CategorizationRuleModel';
+import { CategoryModel } from './models/CategoryModel';
+import { ExchangeRateModel } from './models/ExchangeRateModel';
+import { RecurrenceModel } from './models/RecurrenceModel';
+import { SavingsGoalModel } from './models/SavingsGoalModel';
+import { TransactionModel } from './models/TransactionModel';
+import { ApiService } from './services/ApiService';
+import { AttachmentService } from './services/AttachmentService';
+import { BackupService } from './services/BackupService';
+import { HistoryService } from './services/HistoryService';
+import { RouterService } from './services/RouterService';
+import { StorageService } from './services/StorageService';
+import { ValidationService } from './services/ValidationService';
+import { FinancialController } from './controller/FinancialController';
+import {
+  STORAGE_BACKEND_LABELS, RECURRENCE_LABELS, TYPE_BADGE_CLASSES, TYPE_AMOUNT_CLASSES, PERIOD_LABELS,
+  TIMELINE_GRANULARITY_LABELS, TABLE_MODE_LABELS, WEEKDAYS, MONTHS,
+} from './components/labels';
+import { AccountPanel } from './components/AccountPanel';
+import { BackupManager } from './components/BackupManager';
+import { BudgetPanel } from './components/BudgetPanel';
+import { CategorizationRuleManager } from './components/CategorizationRuleManager';
+import { CategoryBadge } from './components/CategoryBadge';
+import { CategoryManager } from './components/CategoryManager';
+import { CsvImportWizard } from './components/CsvImportWizard';
+import { ExchangeRateEditor } from './components/ExchangeRateEditor';
+import { FieldError } from './components/FieldError';
+import { GoalPanel } from './components/GoalPanel';
+import { HistoryToast } from './components/HistoryToast';
+import { LedgerSharing } from './components/LedgerSharing';
+import { LoginPage } from './components/LoginPage';
+import { PeriodDelta } from './components/PeriodDelta';
+import { PrintableReport } from './components/PrintableReport';
+import { RouteLink } from './components/RouteLink';
+import { SearchQueryErrors } from './components/SearchQueryErrors';
+import { SortableHeader } from './components/SortableHeader';
+import { SplitEditor } from './components/SplitEditor';
+import { SplitLineRow } from './components/SplitLineRow';
+import { TagReport } from './components/TagReport';
+
+interface IFinanceDashboardProps {
+  initialLocale?: Locale;
+  initialUrl?: string;
+  // Snapshot the server rendered with, so the first paint already has the real data
+  preloadedData?: StorageSnapshot;
+  // Null when nobody is signed in, or the server is not in use
+  initialUser?: IAuthUser | null;
 }
 
-interface IFormData {
-  type: TransactionType;
-  amount: string;
-  category: string;
-  description: string;
-  date: string;
-}
-
-interface ISummary {
-  balance: number;
-  highestExpense: ITransaction | null;
-  dominantCategory: { category: string; total: number } | null;
-  totalIncome: number;
-  totalExpense: number;
-}
+const createEmptyFormData = (): IFormData => ({
+  type: 'expense',
+  amount: '',
+  category: '',
+  description: '',
+  date: new Date().toISOString().split('T')[0],
+  currency: DEFAULT_CURRENCY,
+  accountId: String(DEFAULT_ACCOUNT_ID),
+  toAccountId: '',
+  recurrence: 'none',
+  recurrenceEnd: 'never',
+  recurrenceEndDate: '',
+  recurrenceCount: '',
+  editScope: 'this',
+  splits: [],
+  tags: '',
+  notes: '',
+  attachments: [],
+});
 
-interface ICategoryData {
-  category: string;
-  income: number;
-  expense: number;
-}
-
-interface IPieData {
-  name: string;
-  value: number;
-  [key: string]: string | number; // Index signature for Recharts compatibility
-}
+// Main Dashboard View Component with SSR support
+export default function FinanceDashboard({
+  initialLocale = DEFAULT_LOCALE,
+  initialUrl = '/',
+  preloadedData,
+  initialUser = null,
+}: IFinanceDashboardProps) {
+  // State management with SSR-safe initialization
+  // The locale comes from the request (cookie or Accept-Language) so SSR and hydration agree
+  const [locale, setLocale] = useState<Locale>(initialLocale);
+  // Route and filters come from the request URL on the server and the address bar on the client
+  const [initialLocation] = useState<ILocationState>(() => RouterService.parse(initialUrl));
+  const [route, setRoute] = useState<AppRoute>(initialLocation.route);
+  // Data preloaded by the server renders on the first paint and is hydrated as is
+  const [initialData] = useState<IAppData | null>(() => preloadedData ? FinancialController.restoreAppData(preloadedData) : null);
+  const [isDarkMode, setIsDarkMode] = useState<boolean>(initialData?.isDarkMode ?? false);
+  const [transactions, setTransactions] = useState<TransactionModel[]>(initialData?.transactions ?? []);
+  const [quarantined, setQuarantined] = useState<any[]>(initialData?.quarantined ?? []);
+  const [recurrences, setRecurrences] = useState<RecurrenceModel[]>(initialData?.recurrences ?? []);
+  const [budgets, setBudgets] = useState<BudgetModel[]>(initialData?.budgets ?? []);
+  const [savingsGoals, setSavingsGoals] = useState<SavingsGoalModel[]>(initialData?.savingsGoals ?? []);
+  const [categorizationRules, setCategorizationRules] = useState<CategorizationRuleModel[]>(
+    initialData?.categorizationRules ?? []
+  );
+  const [categories, setCategories] = useState<CategoryModel[]>(() => initialData?.categories ?? FinancialController.getDefaultCategories());
+  const [accounts, setAccounts] = useState<AccountModel[]>(() => initialData?.accounts ?? FinancialController.getDefaultAccounts());
+  const [accountFilter, setAccountFilter] = useState<number | null>(null);
+  const [showCategoryManager, setShowCategoryManager] = useState<boolean>(false);
+  const [pieParent, setPieParent] = useState<string | null>(null);
+  const [baseCurrency, setBaseCurrency] = useState<string>(initialData?.baseCurrency ?? DEFAULT_CURRENCY);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRateModel[]>(initialData?.exchangeRates ?? []);
+  const [showRatesEditor, setShowRatesEditor] = useState<boolean>(false);
+  const [showRuleManager, setShowRuleManager] = useState<boolean>(false);
+  const [showBackupManager, setShowBackupManager] = useState<boolean>(false);
+  const [user, setUser] = useState<IAuthUser | null>(initialUser);
+  const [showLedgerSharing, setShowLedgerSharing] = useState<boolean>(false);
+  // What is typed in the search box; searchTerm follows it once typing pauses
+  const [searchInput, setSearchInput] = useState<string>(initialLocation.searchTerm);
+  const [searchTerm, setSearchTerm] = useState<string>(initialLocation.searchTerm);
+  const [periodFilter, setPeriodFilter] = useState<PeriodPreset>(initialLocation.periodFilter);
+  const [customRange, setCustomRange] = useState<{ from: string; to: string }>(initialLocation.customRange);
+  const [periodSettings, setPeriodSettings] = useState<IPeriodSettings>(initialData?.periodSettings ?? DEFAULT_PERIOD_SETTINGS);
+  const [timelineGranularity, setTimelineGranularity] = useState<TimelineGranularity>('week');
+  const [sort, setSort] = useState<ITransactionSort>(DEFAULT_TRANSACTION_SORT);
+  const [tableMode, setTableMode] = useState<TableMode>('paginated');
+  const [page, setPage] = useState<number>(0);
+  const [scrollTop, setScrollTop] = useState<number>(0);
+  const tableRef = useRef<HTMLDivElement>(null);
+  const [expandedIds, setExpandedIds] = useState<Set<number>>(new Set());
+  const [showModal, setShowModal] = useState<boolean>(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [formData, setFormData] = useState<IFormData>(createEmptyFormData);
+  // Field errors show once the form was submitted, then follow every change
+  const [showFormErrors, setShowFormErrors] = useState<boolean>(false);
+  const [isHydrated, setIsHydrated] = useState<boolean>(false);
+  const [storageBackend, setStorageBackend] = useState<StorageBackend>('server');
+  const [showImportWizard, setShowImportWizard] = useState<boolean>(false);
+  const [history, setHistory] = useState<IHistoryState>(EMPTY_HISTORY);
+  const [toast, setToast] = useState<IHistoryToast | null>(null);
+  const isReloading = useRef<boolean>(false);
 
-// ==================== MODEL ====================
-// Transaction Model - Represents a financial transaction with business logic
-class TransactionModel implements ITransaction {
-  id: number;
-  type: TransactionType;
-  amount: number;
-  category: string;
-  description: string;
-  date: Date;
-
-  constructor(id: number, type: TransactionType, amount: number | string, category: string, description: string, date: string | Date) {
-    this.id = id;
-    this.type = type;
-    this.amount = typeof amount === 'string' ? parseFloat(amount) : amount;
-    this.category = category;
-    this.description = description;
-    this.date = typeof date === 'string' ? new Date(date) : date;
-  }
+  // Hydration effect - load data only on client-side
+  useEffect(() => {
+    const backend = StorageService.getBackend();
+    setStorageBackend(backend);
+    setHistory(HistoryService.load());
+    StorageService.setReadOnly(user?.ledger.role === 'viewer');
+
+    // Server data belongs to an account; without one the server has sent this visitor to sign in
+    if (backend === 'server' && !user) return;
+
+    // The server preloads from its own store, so that data is current only for the server backend
+    if (initialData && backend === 'server') {
+      setIsHydrated(true);
+      return;
+    }
 
-  // Check if transaction matches search term
-  matchesSearch(searchTerm: string): boolean {
-    const term = searchTerm.toLowerCase();
-    return (
-      this.description.toLowerCase().includes(term) ||
-      this.category.toLowerCase().includes(term)
-    );
-  }
+    FinancialController.loadAppData()
+      .then(data => {
+        applyAppData(data);
+        setIsHydrated(true);
+      })
+      // Stay unhydrated so unreadable data is never overwritten by the sync effects
+      .catch(error => console.error('Error loading data:', error));
+  }, []);
 
-  // Check if transaction is within date range
-  isInDateRange(startDate: Date, endDate: Date): boolean {
-    return this.date >= startDate && this.date <= endDate;
-  }
+  // Sync dark mode to the storage backend (client-side only)
+  useEffect(() => {
+    if (!isHydrated) return;
+    FinancialController.saveDarkMode(isDarkMode).catch(handleSaveError);
+  }, [isDarkMode, isHydrated, storageBackend]);
 
-  // Format amount for display
-  getFormattedAmount(): string {
-    return new Intl.NumberFormat('pt-BR', {
-      style: 'currency',
-      currency: 'BRL'
-    }).format(this.amount);
-  }
+  // Sync transactions to the storage backend (client-side only)
+  useEffect(() => {
+    if (!isHydrated) return;
+    FinancialController.saveTransactions(transactions).catch(handleSaveError);
+  }, [transactions, isHydrated, storageBackend]);
 
-  // Format date for display
-  getFormattedDate(): string {
-    return this.date.toLocaleDateString('pt-BR');
-  }
+  // Sync recurrence rules to the storage backend (client-side only)
+  useEffect(() => {
+    if (!isHydrated) return;
+    FinancialController.saveRecurrences(recurrences).catch(handleSaveError);
+  }, [recurrences, isHydrated, storageBackend]);
 
-  // Serialize for storage
-  toJSON(): any {
-    return {
-      id: this.id,
-      type: this.type,
-      amount: this.amount,
-      category: this.category,
-      description: this.description,
-      date: this.date.toISOString()
-    };
-  }
+  // Drop stored receipts that no transaction, quarantined record or undoable change lists any more
+  useEffect(() => {
+    if (!isHydrated) return;
+    const entries = [...history.undo, ...history.redo];
+    AttachmentService.prune(FinancialController.getAttachmentIds([
+      ...transactions, ...quarantined, ...entries.flatMap(entry => [...entry.removed, ...entry.added]),
+    ]));
+  }, [isHydrated, storageBackend]);
 
-  // Deserialize from storage
-  static fromJSON(json: any): TransactionModel {
-    return new TransactionModel(
-      json.id,
-      json.type,
-      json.amount,
-      json.category,
-      json.description,
-      json.date
-    );
-  }
-}
+  // Sync budgets to the storage backend (client-side only)
+  useEffect(() => {
+    if (!isHydrated) return;
+    FinancialController.saveBudgets(budgets).catch(handleSaveError);
+  }, [budgets, isHydrated, storageBackend]);
 
-// ==================== SERVICE ====================
-// Storage Service - Handles all sessionStorage operations with SSR support
-class StorageService {
-  private static readonly STORAGE_KEYS = Object.freeze({
-    DARK_MODE: 'darkMode',
-    TRANSACTIONS: 'transactions',
-  });
+  // Sync savings goals to the storage backend (client-side only)
+  useEffect(() => {
+    if (!isHydrated) return;
+    FinancialController.saveSavingsGoals(savingsGoals).catch(handleSaveError);
+  }, [savingsGoals, isHydrated, storageBackend]);
 
-  /**
-   * Save data to sessionStorage (client-side only)
-   */
-  static saveToStorage(key: string, value: any): void {
-    if (!isClient) return;
+  // Sync categorization rules to the storage backend (client-side only)
+  useEffect(() => {
+    if (!isHydrated) return;
+    FinancialController.saveCategorizationRules(categorizationRules).catch(handleSaveError);
+  }, [categorizationRules, isHydrated, storageBackend]);
 
-    try {
-      sessionStorage.setItem(key, JSON.stringify(value));
-    } catch (error) {
-      console.error(`Error saving ${key} to storage:`, error);
-    }
-  }
+  // Sync categories to the storage backend (client-side only)
+  useEffect(() => {
+    if (!isHydrated) return;
+    FinancialController.saveCategories(categories).catch(handleSaveError);
+  }, [categories, isHydrated, storageBackend]);
 
-  /**
-   * Load data from sessionStorage with default fallback (client-side only)
-   */
-  static loadFromStorage<T>(key: string, defaultValue: T): T {
-    if (!isClient) return defaultValue;
-
-    try {
-      const saved = sessionStorage.getItem(key);
-      return saved ? JSON.parse(saved) : defaultValue;
-    } catch (error) {
-      console.error(`Error loading ${key} from storage:`, error);
-      return defaultValue;
-    }
-  }
+  // Sync quarantined records to the storage backend (client-side only)
+  useEffect(() => {
+    if (!isHydrated) return;
+    FinancialController.saveQuarantine(quarantined).catch(handleSaveError);
+  }, [quarantined, isHydrated, storageBackend]);
 
-  /**
-   * Clear all app data from storage (client-side only)
-   */
-  static clearStorage(): void {
-    if (!isClient) return;
+  // Sync accounts to the storage backend (client-side only)
+  useEffect(() => {
+    if (!isHydrated) return;
+    FinancialController.saveAccounts(accounts).catch(handleSaveError);
+  }, [accounts, isHydrated, storageBackend]);
 
-    try {
-      sessionStorage.removeItem(this.STORAGE_KEYS.DARK_MODE);
-      sessionStorage.removeItem(this.STORAGE_KEYS.TRANSACTIONS);
-    } catch (error) {
-      console.error('Error clearing storage:', error);
-    }
-  }
+  // Mirror the route and filters in the address bar; a URL that matches no route is left as typed
+  useEffect(() => {
+    if (route.name === 'notFound') return;
+    RouterService.updateHistory(RouterService.format({ route, searchTerm, periodFilter, customRange }), true);
+  }, [route, searchTerm, periodFilter, customRange]);
 
-  /**
-   * Get storage keys
-   */
-  static getKeys() {
-    return this.STORAGE_KEYS;
-  }
-}
+  // Back and forward restore the route and filters of that history entry
+  useEffect(() => {
+    const handlePopState = () => {
+      const location = RouterService.parse(RouterService.getCurrentUrl());
+      setRoute(location.route);
+      setSearchInput(location.searchTerm);
+      setSearchTerm(location.searchTerm);
+      setPeriodFilter(location.periodFilter);
+      setCustomRange(location.customRange);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
 
-// ==================== CONTROLLER ====================
-// Financial Controller - Business logic and calculations
-class FinancialController {
-  // Calculate total balance
-  static calculateBalance(transactions: TransactionModel[]): number {
-    return transactions.reduce((acc, t) => {
-      return t.type === 'income' ? acc + t.amount : acc - t.amount;
-    }, 0);
-  }
+  // Keep the undo history for the rest of the session (client-side only)
+  useEffect(() => {
+    if (!isHydrated) return;
+    HistoryService.save(history);
+  }, [history, isHydrated]);
 
-  // Get highest expense transaction
-  static getHighestExpense(transactions: TransactionModel[]): TransactionModel | null {
-    const expenses = transactions.filter(t => t.type === 'expense');
-    if (expenses.length === 0) return null;
-    return expenses.reduce((max, t) => t.amount > max.amount ? t : max);
-  }
+  // The toast hides itself after a while; a newer change restarts the timer
+  useEffect(() => {
+    if (!toast) return;
+    const timer = setTimeout(() => setToast(null), TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [toast]);
 
-  // Get category with most spending
-  static getDominantCategory(transactions: TransactionModel[]): { category: string; total: number } | null {
-    const expenses = transactions.filter(t => t.type === 'expense');
-    if (expenses.length === 0) return null;
+  // Ctrl+Z undoes and Ctrl+Shift+Z (or Ctrl+Y) redoes; text fields keep their own undo.
+  // Registered on every render so the handlers see the current data.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
 
-    const categoryTotals = expenses.reduce((acc, t) => {
-      acc[t.category] = (acc[t.category] || 0) + t.amount;
-      return acc;
-    }, {} as Record<string, number>);
+  // Filter only once typing pauses, so large lists do not refilter on every keystroke
+  useEffect(() => {
+    if (searchInput === searchTerm) return;
+    const timer = setTimeout(() => setSearchTerm(searchInput), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
 
-    return Object.entries(categoryTotals)
-      .reduce((max, [cat, total]) =>
-        total > max.total ? { category: cat, total } : max,
-        { category: '', total: 0 }
-      );
-  }
+  // A new search, filter or sort starts again from the first row
+  useEffect(() => {
+    setPage(0);
+    setScrollTop(0);
+    if (tableRef.current) tableRef.current.scrollTop = 0;
+  }, [searchTerm, periodFilter, customRange, accountFilter, sort, tableMode]);
 
-  // Group transactions by category for charts
-  static groupByCategory(transactions: TransactionModel[]): ICategoryData[] {
-    const grouped = transactions.reduce((acc, t) => {
-      if (!acc[t.category]) {
-        acc[t.category] = { category: t.category, income: 0, expense: 0 };
-      }
-      if (t.type === 'income') {
-        acc[t.category].income += t.amount;
+  // The edit route opens the form once its transaction is loaded; leaving the route closes it
+  useEffect(() => {
+    if (!isHydrated) return;
+    if (route.name === 'editTransaction') {
+      if (editingId === route.id) return;
+      const transaction = transactions.find(t => t.id === route.id);
+      if (transaction) {
+        openEditForm(transaction);
       } else {
-        acc[t.category].expense += t.amount;
+        navigate({ name: 'transactions' }, true);
       }
-      return acc;
-    }, {} as Record<string, ICategoryData>);
-
-    return Object.values(grouped);
-  }
-
-  // Get date range based on filter
-  static getDateRange(filter: string): { start: Date; end: Date } {
-    const now = new Date();
-    const end = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59);
-    let start: Date;
-
-    switch (filter) {
-      case 'day':
-        start = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 0, 0, 0);
-        break;
-      case 'week':
-        const dayOfWeek = now.getDay();
-        start = new Date(now.getFullYear(), now.getMonth(), now.getDate() - dayOfWeek, 0, 0, 0);
-        break;
-      case 'month':
-        start = new Date(now.getFullYear(), now.getMonth(), 1, 0, 0, 0);
-        break;
-      case 'year':
-        start = new Date(now.getFullYear(), 0, 1, 0, 0, 0);
-        break;
-      default:
-        start = new Date(2000, 0, 1);
+    } else if (editingId !== null) {
+      closeForm();
     }
+  }, [route, transactions, editingId, isHydrated]);
 
-    return { start, end };
-  }
-
-  // Filter transactions based on search and period
-  static filterTransactions(
-    transactions: TransactionModel[],
-    searchTerm: string,
-    periodFilter: string
-  ): TransactionModel[] {
-    let filtered = transactions;
-
-    if (searchTerm) {
-      filtered = filtered.filter(t => t.matchesSearch(searchTerm));
-    }
-
-    if (periodFilter !== 'all') {
-      const { start, end } = this.getDateRange(periodFilter);
-      filtered = filtered.filter(t => t.isInDateRange(start, end));
-    }
+  // Imported or older transactions may use categories that do not exist yet
+  useEffect(() => {
+    if (!isHydrated) return;
+    const ensured = FinancialController.ensureCategories(categories, transactions);
+    if (ensured !== categories) setCategories(ensured);
+  }, [transactions, categories, isHydrated]);
 
-    return filtered.sort((a, b) => b.date.getTime() - a.date.getTime());
-  }
+  // Sync currency settings to the storage backend (client-side only)
+  useEffect(() => {
+    if (!isHydrated) return;
+    FinancialController.saveBaseCurrency(baseCurrency).catch(handleSaveError);
+    FinancialController.saveExchangeRates(exchangeRates).catch(handleSaveError);
+  }, [baseCurrency, exchangeRates, isHydrated, storageBackend]);
 
-  // Calculate summary statistics
-  static calculateSummary(transactions: TransactionModel[]): ISummary {
-    const balance = this.calculateBalance(transactions);
-    const highestExpense = this.getHighestExpense(transactions);
-    const dominantCategory = this.getDominantCategory(transactions);
-    const totalIncome = transactions
-      .filter(t => t.type === 'income')
-      .reduce((sum, t) => sum + t.amount, 0);
-    const totalExpense = transactions
-      .filter(t => t.type === 'expense')
-      .reduce((sum, t) => sum + t.amount, 0);
-
-    return { balance, highestExpense, dominantCategory, totalIncome, totalExpense };
-  }
+  // Sync period settings to the storage backend (client-side only)
+  useEffect(() => {
+    if (!isHydrated) return;
+    FinancialController.savePeriodSettings(periodSettings).catch(handleSaveError);
+  }, [periodSettings, isHydrated, storageBackend]);
+
+  const periodOptions = useMemo<IPeriodOptions>(() => {
+    return { ...periodSettings, ...customRange };
+  }, [periodSettings, customRange]);
+
+  // Syntax errors in the search box, shown as the user types; the valid terms still filter
+  const searchErrors = useMemo<ISearchError[]>(() => {
+    return SearchQuery.parse(searchInput).errors;
+  }, [searchInput]);
+
+  // A report covers its whole month, whatever the period filter
+  const activePeriod = useMemo<{ filter: PeriodPreset; options: IPeriodOptions }>(() => {
+    if (route.name !== 'report') return { filter: periodFilter, options: periodOptions };
+    const month = String(route.month).padStart(2, '0');
+    const lastDay = new Date(route.year, route.month, 0).getDate();
+    return {
+      filter: 'custom',
+      options: { ...periodSettings, from: `${route.year}-${month}-01`, to: `${route.year}-${month}-${lastDay}` },
+    };
+  }, [route, periodFilter, periodOptions, periodSettings]);
 
-  // Format currency
-  static formatCurrency(value: number): string {
-    return new Intl.NumberFormat('pt-BR', {
-      style: 'currency',
-      currency: 'BRL'
-    }).format(value);
-  }
+  // Convert into the base currency at each transaction's date before aggregating
+  const conversion = useMemo(() => {
+    return FinancialController.convertTransactions(transactions, baseCurrency, exchangeRates);
+  }, [transactions, baseCurrency, exchangeRates]);
 
-  // Save dark mode to storage
-  static saveDarkMode(isDark: boolean): void {
-    StorageService.saveToStorage(StorageService.getKeys().DARK_MODE, isDark);
-  }
+  const convertedById = useMemo(() => {
+    return new Map(conversion.converted.map(t => [t.id, t]));
+  }, [conversion]);
 
-  // Load dark mode from storage
-  static loadDarkMode(): boolean {
-    return StorageService.loadFromStorage<boolean>(StorageService.getKeys().DARK_MODE, false);
-  }
+  // Sort only when the data or the sort column changes; filtering keeps this order
+  const sortedTransactions = useMemo(() => {
+    return FinancialController.sortTransactions(transactions, sort, locale, t => convertedById.get(t.id)?.amount ?? t.amount);
+  }, [transactions, sort, locale, convertedById]);
 
-  // Save transactions to storage
-  static saveTransactions(transactions: TransactionModel[]): void {
-    StorageService.saveToStorage(
-      StorageService.getKeys().TRANSACTIONS,
-      transactions.map(t => t.toJSON())
+  // Filter transactions using controller
+  const filteredTransactions = useMemo(() => {
+    return FinancialController.filterTransactions(
+      sortedTransactions, searchTerm, activePeriod.filter, accountFilter, activePeriod.options
     );
-  }
-
-  // Load transactions from storage
-  static loadTransactions(): TransactionModel[] {
-    const saved = StorageService.loadFromStorage<any[]>(StorageService.getKeys().TRANSACTIONS, []);
-    if (saved.length > 0) {
-      return saved.map(TransactionModel.fromJSON);
+  }, [sortedTransactions, searchTerm, activePeriod, accountFilter]);
+
+  const pageCount = Math.max(1, Math.ceil(filteredTransactions.length / PAGE_SIZE));
+  // Deleting rows can leave the page past the end
+  const currentPage = Math.min(page, pageCount - 1);
+
+  // Expanded split transactions add their lines, so the virtualized list windows over rows, not transactions
+  const virtualRows = useMemo(() => {
+    return tableMode === 'virtual' ? FinancialController.getTableRows(filteredTransactions, expandedIds) : [];
+  }, [filteredTransactions, expandedIds, tableMode]);
+
+  // Rows to render: the current page, or the rows of the virtualized list around the scroll position,
+  // with the height of the rows left out as padding above and below
+  const tableWindow = useMemo(() => {
+    if (tableMode === 'paginated') {
+      const first = currentPage * PAGE_SIZE;
+      const pageRows = filteredTransactions.slice(first, first + PAGE_SIZE);
+      return {
+        first,
+        count: pageRows.length,
+        rows: FinancialController.getTableRows(pageRows, expandedIds),
+        paddingTop: 0,
+        paddingBottom: 0,
+      };
     }
-    return this.getDefaultTransactions();
-  }
-
-  // Get default transactions
-  private static getDefaultTransactions(): TransactionModel[] {
-    return [
-      new TransactionModel(1, 'income', 5000, 'Salário', 'Salário mensal', '2025-11-01'),
-      new TransactionModel(2, 'expense', 1200, 'Moradia', 'Aluguel', '2025-11-05'),
-      new TransactionModel(3, 'expense', 450, 'Alimentação', 'Supermercado', '2025-11-06'),
-      new TransactionModel(4, 'expense', 200, 'Transporte', 'Combustível', '2025-11-04'),
-      new TransactionModel(5, 'income', 800, 'Freelance', 'Projeto web', '2025-11-03'),
-      new TransactionModel(6, 'expense', 150, 'Lazer', 'Cinema e jantar', '2025-11-02'),
-    ];
-  }
-}
 
-// ==================== VIEW ====================
-// Main Dashboard View Component with SSR support
-export default function FinanceDashboard() {
-  // State management with SSR-safe initialization
-  const [isDarkMode, setIsDarkMode] = useState<boolean>(false);
-  const [transactions, setTransactions] = useState<TransactionModel[]>([]);
-  const [searchTerm, setSearchTerm] = useState<string>('');
-  const [periodFilter, setPeriodFilter] = useState<string>('month');
-  const [showModal, setShowModal] = useState<boolean>(false);
-  const [editingId, setEditingId] = useState<number | null>(null);
-  const [formData, setFormData] = useState<IFormData>({
-    type: 'expense',
-    amount: '',
-    category: '',
-    description: '',
-    date: new Date().toISOString().split('T')[0]
-  });
-  const [isHydrated, setIsHydrated] = useState<boolean>(false);
+    const total = virtualRows.length;
+    const first = Math.max(0, Math.floor(scrollTop / VIRTUAL_ROW_HEIGHT) - VIRTUAL_OVERSCAN);
+    const last = Math.min(total, Math.ceil((scrollTop + VIRTUAL_VIEWPORT_HEIGHT) / VIRTUAL_ROW_HEIGHT) + VIRTUAL_OVERSCAN);
+    return {
+      first,
+      count: last - first,
+      rows: virtualRows.slice(first, last),
+      paddingTop: first * VIRTUAL_ROW_HEIGHT,
+      paddingBottom: Math.max(0, total - last) * VIRTUAL_ROW_HEIGHT,
+    };
+  }, [filteredTransactions, virtualRows, expandedIds, tableMode, currentPage, scrollTop]);
 
-  const categories: Record<TransactionType, string[]> = {
-    income: ['Salário', 'Freelance', 'Investimentos', 'Outros'],
-    expense: ['Moradia', 'Alimentação', 'Transporte', 'Lazer', 'Saúde', 'Educação', 'Outros']
-  };
+  // Account balances cover all transactions, whatever the filters
+  const accountBalances = useMemo<IAccountBalance[]>(() => {
+    return FinancialController.getAccountBalances(transactions, accounts, exchangeRates);
+  }, [transactions, accounts, exchangeRates]);
 
-  // Hydration effect - load data only on client-side
-  useEffect(() => {
-    setIsDarkMode(FinancialController.loadDarkMode());
-    setTransactions(FinancialController.loadTransactions());
-    setIsHydrated(true);
-  }, []);
+  const usedAccountIds = useMemo(() => {
+    return new Set(transactions.flatMap(t => t.toAccountId === undefined ? [t.accountId] : [t.accountId, t.toAccountId]));
+  }, [transactions]);
 
-  // Sync dark mode to sessionStorage (client-side only)
-  useEffect(() => {
-    if (!isHydrated) return;
-    FinancialController.saveDarkMode(isDarkMode);
-  }, [isDarkMode, isHydrated]);
+  // New and imported transactions go to the filtered account, or the first one
+  const defaultAccount = accounts.find(a => a.id === accountFilter) ?? accounts[0];
 
-  // Sync transactions to sessionStorage (client-side only)
-  useEffect(() => {
-    if (!isHydrated) return;
-    FinancialController.saveTransactions(transactions);
-  }, [transactions, isHydrated]);
+  const convertedTransactions = useMemo(() => {
+    return filteredTransactions.flatMap(t => convertedById.get(t.id) ?? []);
+  }, [filteredTransactions, convertedById]);
 
-  // Filter transactions using controller
-  const filteredTransactions = useMemo(() => {
-    return FinancialController.filterTransactions(transactions, searchTerm, periodFilter);
-  }, [transactions, searchTerm, periodFilter]);
+  const unconvertedCount = filteredTransactions.length - convertedTransactions.length;
 
   // Calculate summary using controller
   const summary = useMemo<ISummary>(() => {
-    return FinancialController.calculateSummary(filteredTransactions);
-  }, [filteredTransactions]);
+    return FinancialController.calculateSummary(convertedTransactions);
+  }, [convertedTransactions]);
+
+  // Goals count every linked transaction and contribution, independent of the period filter
+  const goalStatuses = useMemo<IGoalStatus[]>(() => {
+    return FinancialController.getGoalStatuses(conversion.converted, savingsGoals);
+  }, [conversion, savingsGoals]);
+
+  // Same search and account over the equivalent previous period, for the deltas on the summary cards
+  const previousPeriod = useMemo(() => {
+    const range = FinancialController.getDateRange(activePeriod.filter, activePeriod.options);
+    const previous = range && FinancialController.getPreviousRange(activePeriod.filter, range);
+    if (!previous) return null;
+
+    const matching = FinancialController.filterTransactions(transactions, searchTerm, 'all', accountFilter);
+    const converted = FinancialController.filterByDateRange(matching, previous).flatMap(t => convertedById.get(t.id) ?? []);
+    return {
+      label: FinancialController.getPeriodLabel(activePeriod.filter, previous, locale),
+      summary: FinancialController.calculateSummary(converted),
+    };
+  }, [transactions, searchTerm, activePeriod, accountFilter, convertedById, locale]);
 
   // Prepare chart data
+  // Subcategories roll up into their parent in the bar chart
   const chartData = useMemo<ICategoryData[]>(() => {
-    return FinancialController.groupByCategory(filteredTransactions);
-  }, [filteredTransactions]);
+    return FinancialController.groupByCategory(convertedTransactions, { categories, parent: null })
+      .map(data => ({ ...data, category: I18nService.translateCategory(locale, data.category) }));
+  }, [convertedTransactions, categories, locale]);
+
+  // Cash flow over time for the filtered transactions, in the base currency
+  const timelineData = useMemo<ICashFlowPoint[]>(() => {
+    return FinancialController.groupByPeriod(convertedTransactions, timelineGranularity, periodSettings.weekStart);
+  }, [convertedTransactions, timelineGranularity, periodSettings.weekStart]);
+
+  // Built only on the printable statement route, from every transaction in its month or year
+  const statement = useMemo<IStatement | null>(() => {
+    return route.name === 'statement' ? FinancialController.buildStatement(conversion, route.year, route.month) : null;
+  }, [route, conversion]);
+
+  const tagData = useMemo<ITagData[]>(() => {
+    return FinancialController.groupByTag(convertedTransactions);
+  }, [convertedTransactions]);
+
+  const allTags = useMemo(() => FinancialController.getAllTags(transactions), [transactions]);
+
+  // Only worked out while the rule manager is open
+  const categorizationPreview = useMemo(
+    () => showRuleManager ? FinancialController.previewCategorization(transactions, categorizationRules) : [],
+    [showRuleManager, transactions, categorizationRules]
+  );
+
+  const categorizationSuggestions = useMemo(
+    () => showRuleManager ? FinancialController.suggestCategorizationRules(transactions, categorizationRules) : [],
+    [showRuleManager, transactions, categorizationRules]
+  );
 
+  // The tag filter is a tag: term of the search, so it shows in the query and the URL
+  const activeTag = searchInput.match(/(?:^|\s)tag:#?(\S+)/)?.[1] ?? '';
+
+  // The pie chart shows top-level categories, or one parent's subcategories once drilled into
   const pieData = useMemo<IPieData[]>(() => {
-    const expenses = filteredTransactions.filter(t => t.type === 'expense');
-    const grouped = expenses.reduce((acc, t) => {
-      acc[t.category] = (acc[t.category] || 0) + t.amount;
-      return acc;
-    }, {} as Record<string, number>);
+    const expenses = convertedTransactions.filter(t => t.type === 'expense');
+    return FinancialController.groupByCategory(expenses, { categories, parent: pieParent }).map(({ category, expense }) => ({
+      name: I18nService.translateCategory(locale, category),
+      value: expense,
+      category,
+      color: FinancialController.findCategory(categories, 'expense', category)?.color ?? DEFAULT_CATEGORY_COLOR,
+    }));
+  }, [convertedTransactions, categories, pieParent, locale]);
+
+  // Budgets always track the current month, independent of the period filter
+  const budgetStatuses = useMemo<IBudgetStatus[]>(() => {
+    return FinancialController.getBudgetStatuses(conversion.converted, budgets);
+  }, [conversion, budgets]);
+
+  const isEditingOccurrence = transactions.some(t => t.id === editingId && t.isRecurring());
+
+  // Editing only this occurrence leaves its rule, and so the recurrence fields, alone
+  const formErrors = useMemo<ValidationErrors<FormField>>(() => {
+    const recurrence = isEditingOccurrence && formData.editScope === 'this' ? 'none' : formData.recurrence;
+    return ValidationService.validateForm({ ...formData, recurrence }, categories);
+  }, [formData, categories, isEditingOccurrence]);
+
+  const fieldError = (field: FormField) => showFormErrors ? formErrors[field] : undefined;
+  const inputBorder = (field: FormField) => fieldError(field)
+    ? 'border-red-400'
+    : isDarkMode ? 'border-gray-600' : 'border-gray-200';
+
+  const t = I18nService.getTranslator(locale);
+  const formatCurrency = (value: number) => FinancialController.formatCurrency(value, baseCurrency, locale);
+
+  const accountName = (id?: number) => accounts.find(a => a.id === id)?.name ?? '-';
+
+  // 2023-01-01 was a Sunday, so day n of that week is weekday n
+  const weekdayName = (day: number) => new Date(2023, 0, 1 + day).toLocaleDateString(locale, { weekday: 'long' });
+  const formatBucket = (period: string) => {
+    const date = new Date(`${period}T00:00:00Z`);
+    return timelineGranularity === 'month'
+      ? date.toLocaleDateString(locale, { month: 'short', year: '2-digit', timeZone: 'UTC' })
+      : date.toLocaleDateString(locale, { day: '2-digit', month: '2-digit', timeZone: 'UTC' });
+  };
+  const monthName = (month: number) => new Date(2023, month, 1).toLocaleDateString(locale, { month: 'long' });
 
-    return Object.entries(grouped).map(([name, value]) => ({ name, value }));
-  }, [filteredTransactions]);
+  const categoryLabel = (type: TransactionType, name: string) =>
+    FinancialController.getCategoryPath(categories, type, name)
+      .map(part => I18nService.translateCategory(locale, part))
+      .join(' › ');
 
-  const COLORS = ['#3b82f6', '#8b5cf6', '#ec4899', '#f59e0b', '#10b981', '#ef4444', '#06b6d4'];
+  const appData = (): IAppData => ({
+    isDarkMode, transactions, quarantined, recurrences, budgets, categories, accounts, baseCurrency, exchangeRates, periodSettings,
+    categorizationRules, savingsGoals,
+  });
+
+  const applyAppData = (data: Partial<IAppData>) => {
+    if (data.isDarkMode !== undefined) setIsDarkMode(data.isDarkMode);
+    if (data.transactions) setTransactions(data.transactions);
+    if (data.quarantined) setQuarantined(data.quarantined);
+    if (data.recurrences) setRecurrences(data.recurrences);
+    if (data.budgets) setBudgets(data.budgets);
+    if (data.categories) setCategories(data.categories);
+    if (data.accounts) setAccounts(data.accounts);
+    if (data.baseCurrency !== undefined) setBaseCurrency(data.baseCurrency);
+    if (data.exchangeRates) setExchangeRates(data.exchangeRates);
+    if (data.periodSettings) setPeriodSettings(data.periodSettings);
+    if (data.categorizationRules) setCategorizationRules(data.categorizationRules);
+    if (data.savingsGoals) setSavingsGoals(data.savingsGoals);
+  };
+
+  // Another tab or ledger editor saved first: reload their data rather than overwrite it
+  const handleSaveError = (error: unknown) => {
+    if (!StorageService.isConflict(error) || isReloading.current) return;
+    isReloading.current = true;
+    window.alert(t('alert.storageConflict'));
+    window.location.reload();
+  };
+
+  // Apply a change to the data and record it, so it can be undone from the toast or with Ctrl+Z
+  const commitChange = (action: HistoryAction, next: Partial<IAppData>) => {
+    const entry = FinancialController.recordChange(appData(), next, action);
+    if (!entry) return;
+    applyAppData(next);
+    setHistory(HistoryService.push(history, entry));
+    setToast({ id: Date.now(), action, undone: false });
+  };
+
+  const handleUndo = () => {
+    const result = HistoryService.undo(history);
+    if (!result) return;
+    applyAppData(FinancialController.undoChange(transactions, result.entry));
+    setHistory(result.history);
+    setToast({ id: Date.now(), action: result.entry.action, undone: true });
+  };
+
+  const handleRedo = () => {
+    const result = HistoryService.redo(history);
+    if (!result) return;
+    applyAppData(FinancialController.redoChange(transactions, result.entry));
+    setHistory(result.history);
+    setToast({ id: Date.now(), action: result.entry.action, undone: false });
+  };
 
   // Event handlers
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (!ValidationService.isValid(formErrors)) {
+      setShowFormErrors(true);
+      return;
+    }
+
+    const editing = transactions.find(t => t.id === editingId);
+    const action: HistoryAction = editingId !== null ? 'update' : 'create';
+
+    if (editing?.isRecurring() && formData.editScope === 'future') {
+      const updated = FinancialController.updateFutureOccurrences(transactions, recurrences, editing, formData);
+      commitChange(action, { transactions: updated.transactions, recurrences: updated.rules });
+      resetForm();
+      return;
+    }
+
+    if (!editing?.isRecurring() && formData.recurrence !== 'none') {
+      // A repeating entry becomes a rule whose first occurrence replaces the edited transaction
+      const updated = FinancialController.addRecurrence(
+        transactions.filter(t => t.id !== editingId), recurrences, formData
+      );
+      commitChange(action, { transactions: updated.transactions, recurrences: updated.rules });
+      resetForm();
+      return;
+    }
+
     let updatedTransactions: TransactionModel[];
 
+    const { category, splits } = FinancialController.getFormCategories(formData);
+
     if (editingId !== null) {
       updatedTransactions = transactions.map(t =>
         t.id === editingId
-          ? new TransactionModel(t.id, formData.type, formData.amount, formData.category, formData.description, formData.date)
+          ? new TransactionModel(t.id, formData.type, formData.amount, category, formData.description, formData.date, {
+            ...t.getDetails(),
+            currency: formData.currency,
+            ...FinancialController.getFormAccounts(formData),
+            splits,
+            ...FinancialController.getFormAnnotations(formData),
+          })
           : t
       );
     } else {
       const newId = Math.max(0, ...transactions.map(t => t.id)) + 1;
       updatedTransactions = [...transactions, new TransactionModel(
-        newId, formData.type, formData.amount, formData.category, formData.description, formData.date
+        newId, formData.type, formData.amount, category, formData.description, formData.date,
+        {
+          currency: formData.currency,
+          ...FinancialController.getFormAccounts(formData),
+          splits,
+          ...FinancialController.getFormAnnotations(formData),
+        }
       )];
     }
 
-    setTransactions(updatedTransactions);
+    commitChange(action, { transactions: updatedTransactions });
     resetForm();
   };
 
+  // Routes are pushed onto the history; filters only replace the current entry (see the sync effect)
+  const navigate = (next: AppRoute, replace = false) => {
+    RouterService.updateHistory(RouterService.format({ route: next, searchTerm, periodFilter, customRange }), replace);
+    setRoute(next);
+  };
+
+  // Editing goes through the edit route, so the open form can be bookmarked
   const handleEdit = (transaction: TransactionModel) => {
+    navigate({ name: 'editTransaction', id: transaction.id });
+  };
+
+  const openEditForm = (transaction: TransactionModel) => {
     setEditingId(transaction.id);
+    const rule = recurrences.find(r => r.id === transaction.recurrenceId);
     setFormData({
+      ...createEmptyFormData(),
       type: transaction.type,
       amount: transaction.amount.toString(),
       category: transaction.category,
+      splits: FinancialController.getSplitFormLines(transaction),
+      tags: transaction.tags?.join(' ') ?? '',
+      notes: transaction.notes ?? '',
+      attachments: transaction.attachments ?? [],
       description: transaction.description,
-      date: transaction.date.toISOString().split('T')[0]
+      date: transaction.date.toISOString().split('T')[0],
+      currency: transaction.currency,
+      accountId: String(transaction.accountId),
+      toAccountId: transaction.toAccountId !== undefined ? String(transaction.toAccountId) : '',
+      ...(rule && FinancialController.getRecurrenceFormFields(rule, transaction))
     });
     setShowModal(true);
   };
 
+  const handleNewTransaction = () => {
+    setFormData({
+      ...createEmptyFormData(),
+      accountId: String(defaultAccount.id),
+      currency: defaultAccount.currency,
+    });
+    setShowModal(true);
+  };
+
+  // Picking the source account also switches the amount to that account's currency
+  const handleChangeFormAccount = (accountId: string) => {
+    const account = accounts.find(a => a.id === Number(accountId));
+    setFormData({ ...formData, accountId, currency: account?.currency ?? formData.currency });
+  };
+
+  const handleSaveAccount = (data: Omit<IAccount, 'id'>, id: number | null) => {
+    setAccounts(FinancialController.upsertAccount(accounts, data, id));
+  };
+
+  const handleDeleteAccount = (id: number) => {
+    if (usedAccountIds.has(id) || accounts.length === 1) return;
+    setAccounts(accounts.filter(a => a.id !== id));
+    if (accountFilter === id) setAccountFilter(null);
+  };
+
+  // Deleting needs no confirmation: the toast offers to undo it
   const handleDelete = (id: number) => {
+    const deleted = transactions.find(t => t.id === id);
+    commitChange('delete', {
+      transactions: transactions.filter(t => t.id !== id),
+      // Deleting an occurrence also skips it, otherwise its rule would recreate it on the next load
+      ...(deleted?.isRecurring() && { recurrences: FinancialController.skipOccurrence(recurrences, deleted) }),
+    });
+  };
+
+  const handleSkipOccurrence = (occurrence: TransactionModel) => {
+    commitChange('skip', {
+      transactions: transactions.filter(t => t.id !== occurrence.id),
+      recurrences: FinancialController.skipOccurrence(recurrences, occurrence),
+    });
+  };
+
+  const handleClearData = async () => {
     if (!isClient) return;
 
-    if (window.confirm('Tem certeza que deseja excluir esta transação?')) {
-      const updatedTransactions = transactions.filter(t => t.id !== id);
-      setTransactions(updatedTransactions);
+    if (window.confirm(t('confirm.clear'))) {
+      await StorageService.clearStorage();
+      commitChange('clear', {
+        isDarkMode: false,
+        transactions: [],
+        quarantined: [],
+        recurrences: [],
+        budgets: [],
+        categories: FinancialController.getDefaultCategories(),
+        accounts: FinancialController.getDefaultAccounts(),
+        baseCurrency: DEFAULT_CURRENCY,
+        exchangeRates: [],
+        periodSettings: DEFAULT_PERIOD_SETTINGS,
+        categorizationRules: [],
+        savingsGoals: [],
+      });
+      setAccountFilter(null);
+      setPieParent(null);
     }
   };
 
-  const handleClearData = () => {
+  // Drill into a slice that has subcategories
+  const handlePieClick = (data: IPieData) => {
+    if (pieParent !== null) return;
+    const category = FinancialController.findCategory(categories, 'expense', data.category);
+    if (category && categories.some(c => c.parentId === category.id)) setPieParent(category.name);
+  };
+
+  const categoryState = (): ICategoryState => ({ categories, transactions, rules: recurrences, budgets, categorizationRules });
+
+  const applyCategoryState = (state: ICategoryState) => {
+    commitChange('categories', {
+      categories: state.categories,
+      transactions: state.transactions,
+      recurrences: state.rules,
+      budgets: state.budgets,
+      categorizationRules: state.categorizationRules,
+    });
+  };
+
+  const handleRenameCategory = (id: number, name: string) => {
+    const category = categories.find(c => c.id === id);
+    if (category && FinancialController.findCategory(categories, category.type, name.trim())) {
+      window.alert(t('categories.duplicate', { name: name.trim() }));
+      return;
+    }
+    applyCategoryState(FinancialController.renameCategory(categoryState(), id, name));
+    if (pieParent === category?.name) setPieParent(name.trim());
+  };
+
+  const handleMergeCategory = (sourceId: number, targetId: number) => {
+    const source = categories.find(c => c.id === sourceId);
+    const target = categories.find(c => c.id === targetId);
+    if (!source || !target) return;
+
+    const params = { source: categoryLabel(source.type, source.name), target: categoryLabel(target.type, target.name) };
+    if (window.confirm(t('categories.confirmMerge', params))) {
+      applyCategoryState(FinancialController.mergeCategories(categoryState(), sourceId, targetId));
+      setPieParent(null);
+    }
+  };
+
+  // Clicking the sorted column flips its direction; another column starts with the latest or largest first,
+  // and texts from A to Z
+  const handleSort = (field: SortField) => {
+    if (sort.field === field) {
+      setSort({ field, direction: sort.direction === 'asc' ? 'desc' : 'asc' });
+    } else {
+      setSort({ field, direction: field === 'date' || field === 'amount' ? 'desc' : 'asc' });
+    }
+  };
+
+  // Rules only fill in new transactions, once the description or amount has been typed
+  const handleApplyRulesToForm = () => {
+    if (editingId === null) setFormData(FinancialController.applyRulesToForm(formData, categorizationRules));
+  };
+
+  const handleApplyCategorization = () => {
+    const changed = new Map(categorizationPreview.map(({ after }) => [after.id, after]));
+    commitChange('recategorize', { transactions: transactions.map(t => changed.get(t.id) ?? t) });
+  };
+
+  const handleToggleSplit = (id: number) => {
+    const next = new Set(expandedIds);
+    if (!next.delete(id)) next.add(id);
+    setExpandedIds(next);
+  };
+
+  const handleExportCsv = () => {
     if (!isClient) return;
 
-    if (window.confirm('Tem certeza que deseja limpar todos os dados? Esta ação não pode ser desfeita.')) {
-      StorageService.clearStorage();
-      setIsDarkMode(false);
-      setTransactions([]);
+    const csv = FinancialController.exportToCsv(filteredTransactions);
+    // The BOM makes spreadsheet apps read accented characters as UTF-8
+    const blob = new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `transacoes-${new Date().toISOString().split('T')[0]}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // The backup carries every storage payload and the attached files, so it can be restored anywhere
+  const handleDownloadBackup = async () => {
+    if (!isClient) return;
+
+    const data = appData();
+    const attachments = await AttachmentService.exportFiles(FinancialController.getAttachmentIds(data.transactions));
+    const backup = BackupService.create(FinancialController.createBackupSnapshot(data), attachments);
+    const blob = new Blob([JSON.stringify(backup)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = BackupService.getFileName();
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Either way the restore is one undoable change; a merge reports what it added, updated and skipped
+  const handleRestoreBackup = async (backup: IBackupFile, mode: RestoreMode): Promise<MergeReport | null> => {
+    await AttachmentService.importFiles(backup.attachments);
+    const restored = FinancialController.restoreAppData(backup.data);
+
+    if (mode === 'replace') {
+      commitChange('restore', restored);
+      setAccountFilter(null);
+      setPieParent(null);
+      return null;
+    }
+
+    const { data, report } = FinancialController.mergeAppData(appData(), restored);
+    commitChange('restore', data);
+    return report;
+  };
+
+  const handleImportCsv = (rows: CsvTransaction[]) => {
+    const firstId = Math.max(0, ...transactions.map(t => t.id)) + 1;
+    const imported = rows.map((row, index) => new TransactionModel(
+      firstId + index, row.type, row.amount, row.category, row.description, row.date,
+      { currency: row.currency, accountId: defaultAccount.id }
+    )).map(t => FinancialController.applyCategorizationRules(t, categorizationRules));
+    commitChange('import', { transactions: [...transactions, ...imported] });
+    setShowImportWizard(false);
+  };
+
+  const handleImportStatement = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const format: StatementFormat = file.name.toLowerCase().endsWith('.qif') ? 'qif' : 'ofx';
+    const entries = FinancialController.parseStatement(await file.text(), format);
+    const { added, duplicates } = FinancialController.importStatement(transactions, entries, defaultAccount.id);
+
+    const categorized = added.map(t => FinancialController.applyCategorizationRules(t, categorizationRules));
+    commitChange('import', { transactions: [...transactions, ...categorized] });
+    window.alert(t('alert.statementImported', { added: added.length, duplicates }));
+  };
+
+  // Switching backends carries the data in memory over to the new one through the sync effects
+  const handleChangeStorageBackend = async (backend: StorageBackend) => {
+    // The server keeps data per account, so an anonymous visitor signs in first
+    if (backend === 'server' && !user) {
+      StorageService.setBackend(backend);
+      window.location.assign(RouterService.getPath({ name: 'login' }));
+      return;
+    }
+    // The sync effects write the app data into the new backend; receipts are copied over first
+    await AttachmentService.copyToBackend(FinancialController.getAttachmentIds(transactions), backend);
+    StorageService.setBackend(backend);
+    setStorageBackend(backend);
+  };
+
+  // Signing in moves this browser to the server backend, then reloads so the server renders the account's data
+  const handleSignIn = async (mode: AuthMode, credentials: ICredentials) => {
+    await (mode === 'register' ? ApiService.register(credentials) : ApiService.login(credentials));
+    StorageService.setBackend('server');
+    window.location.assign(RouterService.getPath({ name: 'dashboard' }));
+  };
+
+  const handleContinueLocally = () => {
+    StorageService.setBackend('local');
+    window.location.assign(RouterService.getPath({ name: 'dashboard' }));
+  };
+
+  const handleSignOut = async () => {
+    await ApiService.logout();
+    window.location.assign(RouterService.getPath({ name: 'login' }));
+  };
+
+  // Another ledger means other data, so the page is rendered again from the server
+  const handleSwitchLedger = async (ledgerId: string) => {
+    await ApiService.switchLedger(ledgerId);
+    window.location.reload();
+  };
+
+  const handleShareLedger = async (username: string, role: MemberRole) => {
+    setUser(await ApiService.setMember(username, role));
+  };
+
+  const handleUnshareLedger = async (username: string) => {
+    setUser(await ApiService.removeMember(username));
+  };
+
+  const handleTagFilter = (tag: string) => {
+    const rest = searchInput.replace(/(?:^|\s)tag:\S+/g, '').trim();
+    const next = tag ? `${rest} tag:${tag}`.trim() : rest;
+    setSearchInput(next);
+    setSearchTerm(next);
+  };
+
+  const handleAddAttachments = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+
+    const added: IAttachment[] = [];
+    for (const file of files) {
+      if (!ValidationService.isAcceptedAttachmentType(file.type) || file.size > ATTACHMENT_MAX_SIZE) {
+        window.alert(t('attachments.rejected', { name: file.name, max: ATTACHMENT_MAX_SIZE / 1024 / 1024 }));
+        continue;
+      }
+      try {
+        added.push(await AttachmentService.save(file));
+      } catch (error) {
+        console.error(`Error saving attachment ${file.name}:`, error);
+        window.alert(t('attachments.saveFailed', { name: file.name }));
+      }
+    }
+    if (added.length > 0) {
+      setFormData(current => ({ ...current, attachments: [...current.attachments, ...added] }));
     }
   };
 
+  const handleOpenAttachment = async (attachment: IAttachment) => {
+    if (!(await AttachmentService.open(attachment))) {
+      window.alert(t('attachments.missing', { name: attachment.name }));
+    }
+  };
+
+  const handleChangeLocale = (newLocale: Locale) => {
+    I18nService.saveLocale(newLocale);
+    setLocale(newLocale);
+  };
+
   const handleToggleDarkMode = () => {
     const newDarkMode = !isDarkMode;
     setIsDarkMode(newDarkMode);
   };
 
-  const resetForm = () => {
-    setFormData({
-      type: 'expense',
-      amount: '',
-      category: '',
-      description: '',
-      date: new Date().toISOString().split('T')[0]
-    });
+  const closeForm = () => {
+    setFormData(createEmptyFormData());
+    setShowFormErrors(false);
     setEditingId(null);
     setShowModal(false);
   };
 
+  const resetForm = () => {
+    closeForm();
+    if (route.name === 'editTransaction') navigate({ name: 'transactions' });
+  };
+
+  const isReport = route.name === 'report';
+  const showOverview = route.name === 'dashboard' || isReport;
+  const navLinkClass = (active: boolean) => `px-3 py-2 text-sm rounded-lg transition-colors ${active
+    ? isDarkMode ? 'bg-gray-700 text-white' : 'bg-blue-100 text-blue-700'
+    : isDarkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'
+    }`;
+
+  if (route.name === 'login') {
+    return (
+      <>
+        <style>{APP_STYLES}</style>
+        <LoginPage
+          isDarkMode={isDarkMode}
+          locale={locale}
+          onSubmit={handleSignIn}
+          onContinueLocally={handleContinueLocally}
+        />
+      </>
+    );
+  }
+
+  // The statement replaces the whole dashboard, so only the report itself gets printed
+  if (route.name === 'statement' && statement) {
+    return (
+      <>
+        <style>{APP_STYLES}</style>
+        <PrintableReport
+          locale={locale}
+          statement={statement}
+          year={route.year}
+          month={route.month}
+          baseCurrency={baseCurrency}
+          categories={categories}
+          accounts={accounts}
+          onNavigate={navigate}
+        />
+      </>
+    );
+  }
+
   // Render
   return (
     <>
@@ -493,17 +1062,145 @@ export default function FinanceDashboard() {
                   <Wallet className="w-6 h-6 text-white" />
                 </div>
                 <h1 className={`text-2xl font-bold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
-                  Finanças Pessoais
+                  {t('app.title')}
                 </h1>
+                <nav className="flex items-center gap-1 ml-4">
+                  <RouteLink route={{ name: 'dashboard' }} onNavigate={navigate} className={navLinkClass(route.name === 'dashboard')}>
+                    {t('nav.dashboard')}
+                  </RouteLink>
+                  <RouteLink
+                    route={{ name: 'transactions' }}
+                    onNavigate={navigate}
+                    className={navLinkClass(route.name === 'transactions' || route.name === 'editTransaction')}
+                  >
+                    {t('nav.transactions')}
+                  </RouteLink>
+                  <RouteLink route={RouterService.getReportRoute()} onNavigate={navigate} className={navLinkClass(isReport)}>
+                    {t('nav.reports')}
+                  </RouteLink>
+                </nav>
               </div>
               <div className="flex items-center gap-3">
+                {user ? (
+                  <>
+                    <span
+                      className={`text-sm font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}
+                      title={t('auth.signedInAs', { username: user.username })}
+                    >
+                      {user.username}
+                    </span>
+                    <button
+                      onClick={() => setShowLedgerSharing(true)}
+                      className={`p-2 rounded-lg transition-all ${isDarkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                        }`}
+                      title={t('header.ledgers')}
+                    >
+                      <Users className="w-5 h-5" />
+                    </button>
+                    <button
+                      onClick={handleSignOut}
+                      className={`p-2 rounded-lg transition-all ${isDarkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                        }`}
+                      title={t('auth.signOut')}
+                    >
+                      <LogOut className="w-5 h-5" />
+                    </button>
+                  </>
+                ) : (
+                  <RouteLink route={{ name: 'login' }} onNavigate={navigate} className="text-sm text-blue-500 hover:underline">
+                    {t('auth.signIn')}
+                  </RouteLink>
+                )}
+                <select
+                  value={locale}
+                  onChange={(e) => handleChangeLocale(e.target.value as Locale)}
+                  className={`px-3 py-2 text-sm rounded-lg border ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-gray-50 border-gray-200 text-gray-900'
+                    } focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                  title={t('header.locale')}
+                >
+                  {I18nService.LOCALES.map(value => (
+                    <option key={value} value={value}>{I18nService.LOCALE_LABELS[value]}</option>
+                  ))}
+                </select>
+                <select
+                  value={storageBackend}
+                  onChange={(e) => handleChangeStorageBackend(e.target.value as StorageBackend)}
+                  className={`px-3 py-2 text-sm rounded-lg border ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-gray-50 border-gray-200 text-gray-900'
+                    } focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                  title={t('header.storage')}
+                >
+                  {Object.entries(STORAGE_BACKEND_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{t(label)}</option>
+                  ))}
+                </select>
+                <select
+                  value={baseCurrency}
+                  onChange={(e) => setBaseCurrency(e.target.value)}
+                  className={`px-3 py-2 text-sm rounded-lg border ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-gray-50 border-gray-200 text-gray-900'
+                    } focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                  title={t('header.baseCurrency')}
+                >
+                  {CURRENCIES.map(currency => (
+                    <option key={currency} value={currency}>{currency}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => setShowCategoryManager(true)}
+                  className={`p-2 rounded-lg transition-all ${isDarkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  title={t('header.categories')}
+                >
+                  <Tags className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={() => setShowRuleManager(true)}
+                  className={`p-2 rounded-lg transition-all ${isDarkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  title={t('header.rules')}
+                >
+                  <Wand2 className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={() => setShowBackupManager(true)}
+                  className={`p-2 rounded-lg transition-all ${isDarkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  title={t('header.backup')}
+                >
+                  <DatabaseBackup className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={() => setShowRatesEditor(true)}
+                  className={`p-2 rounded-lg transition-all ${isDarkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  title={t('header.exchangeRates')}
+                >
+                  <ArrowLeftRight className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={handleUndo}
+                  disabled={history.undo.length === 0}
+                  className={`p-2 rounded-lg transition-all disabled:opacity-40 ${isDarkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  title={t('history.undoTitle')}
+                >
+                  <Undo2 className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={handleRedo}
+                  disabled={history.redo.length === 0}
+                  className={`p-2 rounded-lg transition-all disabled:opacity-40 ${isDarkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  title={t('history.redoTitle')}
+                >
+                  <Redo2 className="w-5 h-5" />
+                </button>
                 <button
                   onClick={handleClearData}
                   className={`px-3 py-2 text-sm rounded-lg transition-all ${isDarkMode ? 'bg-red-600 text-white hover:bg-red-700' : 'bg-red-100 text-red-700 hover:bg-red-200'
                     }`}
-                  title="Limpar todos os dados"
+                  title={t('header.clearDataTitle')}
                 >
-                  Limpar Dados
+                  {t('header.clearData')}
                 </button>
                 <button
                   onClick={handleToggleDarkMode}
@@ -518,211 +1215,661 @@ export default function FinanceDashboard() {
         </header>
 
         <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-          {/* Summary Cards */}
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-            <div className={`summary-card ${isDarkMode ? 'bg-gray-800' : 'bg-white'} rounded-2xl p-6 shadow-lg hover:shadow-xl`}>
-              <div className="flex items-center justify-between mb-2">
-                <span className={`text-sm font-medium ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>Saldo Atual</span>
-                <Wallet className={`w-5 h-5 ${summary.balance >= 0 ? 'text-green-500' : 'text-red-500'}`} />
-              </div>
-              <p className={`text-3xl font-bold ${summary.balance >= 0 ? 'text-green-500' : 'text-red-500'}`}>
-                {FinancialController.formatCurrency(summary.balance)}
-              </p>
+          {user && user.ledger.role !== 'owner' && (
+            <div className={`flex items-center gap-2 rounded-xl px-4 py-3 mb-6 text-sm ${isDarkMode ? 'bg-blue-900/40 text-blue-300' : 'bg-blue-50 text-blue-800'}`}>
+              <Users className="w-4 h-4" />
+              {t(user.ledger.role === 'viewer' ? 'auth.readOnlyBanner' : 'auth.sharedBanner', { owner: user.ledger.owner })}
             </div>
+          )}
 
-            <div className={`summary-card ${isDarkMode ? 'bg-gray-800' : 'bg-white'} rounded-2xl p-6 shadow-lg hover:shadow-xl`}>
-              <div className="flex items-center justify-between mb-2">
-                <span className={`text-sm font-medium ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>Receitas</span>
-                <TrendingUp className="w-5 h-5 text-blue-500" />
-              </div>
-              <p className={`text-3xl font-bold ${isDarkMode ? 'text-blue-400' : 'text-blue-600'}`}>
-                {FinancialController.formatCurrency(summary.totalIncome)}
-              </p>
+          {unconvertedCount > 0 && (
+            <div className={`flex items-center gap-2 rounded-xl px-4 py-3 mb-6 text-sm ${isDarkMode ? 'bg-yellow-900/40 text-yellow-300' : 'bg-yellow-50 text-yellow-800'}`}>
+              <AlertTriangle className="w-4 h-4" />
+              {t('summary.unconverted', { count: unconvertedCount, currency: baseCurrency })}
             </div>
+          )}
 
-            <div className={`summary-card ${isDarkMode ? 'bg-gray-800' : 'bg-white'} rounded-2xl p-6 shadow-lg hover:shadow-xl`}>
-              <div className="flex items-center justify-between mb-2">
-                <span className={`text-sm font-medium ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>Despesas</span>
-                <TrendingDown className="w-5 h-5 text-red-500" />
-              </div>
-              <p className={`text-3xl font-bold ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>
-                {FinancialController.formatCurrency(summary.totalExpense)}
-              </p>
+          {quarantined.length > 0 && (
+            <div className={`flex items-center gap-2 rounded-xl px-4 py-3 mb-6 text-sm ${isDarkMode ? 'bg-red-900/40 text-red-300' : 'bg-red-50 text-red-800'}`}>
+              <AlertTriangle className="w-4 h-4" />
+              {t('validation.quarantined', { count: quarantined.length })}
             </div>
-
-            <div className={`summary-card ${isDarkMode ? 'bg-gray-800' : 'bg-white'} rounded-2xl p-6 shadow-lg hover:shadow-xl`}>
-              <div className="flex items-center justify-between mb-2">
-                <span className={`text-sm font-medium ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>Maior Gasto</span>
-                <TrendingDown className="w-5 h-5 text-orange-500" />
-              </div>
-              <p className={`text-2xl font-bold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
-                {summary.highestExpense ? FinancialController.formatCurrency(summary.highestExpense.amount) : 'N/A'}
-              </p>
-              <p className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'} mt-1`}>
-                {summary.highestExpense?.category || '-'}
-              </p>
+          )}
+
+          {route.name === 'notFound' && (
+            <div className={`${isDarkMode ? 'bg-gray-800' : 'bg-white'} rounded-2xl p-12 shadow-lg text-center`}>
+              <p className={`text-lg mb-4 ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>{t('notFound.message')}</p>
+              <RouteLink route={{ name: 'dashboard' }} onNavigate={navigate} className="text-blue-500 hover:underline">
+                {t('notFound.back')}
+              </RouteLink>
             </div>
-          </div>
-
-          {/* Charts Section */}
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
-            <div className={`${isDarkMode ? 'bg-gray-800' : 'bg-white'} rounded-2xl p-6 shadow-lg`}>
-              <h2 className={`text-xl font-bold mb-4 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
-                Gastos por Categoria
+          )}
+
+          {route.name === 'report' && (
+            <div className="flex items-center gap-2 mb-6">
+              <RouteLink
+                route={{ name: 'report', year: route.month === 1 ? route.year - 1 : route.year, month: route.month === 1 ? 12 : route.month - 1 }}
+                onNavigate={navigate}
+                className={`p-2 rounded-lg ${isDarkMode ? 'text-gray-300 hover:bg-gray-800' : 'text-gray-700 hover:bg-white'}`}
+                title={t('reports.previous')}
+              >
+                <ChevronLeft className="w-5 h-5" />
+              </RouteLink>
+              <h2 className={`text-2xl font-bold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+                {t('reports.title', {
+                  month: new Date(route.year, route.month - 1, 1).toLocaleDateString(locale, { month: 'long', year: 'numeric' }),
+                })}
               </h2>
-              <ResponsiveContainer width="100%" height={300}>
-                <PieChart>
-                  <Pie
-                    data={pieData}
-                    cx="50%"
-                    cy="50%"
-                    labelLine={false}
-                    label={({ name, percent }) => {
-                      const pct = (percent ?? 0) * 100;
-                      return `${name} ${pct.toFixed(0)}%`;
-                    }}
-                    outerRadius={100}
-                    fill="#8884d8"
-                    dataKey="value"
-                  >
-                    {pieData.map((_, index) => (
-                      <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                    ))}
-                  </Pie>
-                  <Tooltip formatter={(value: number) => FinancialController.formatCurrency(value)} />
-                </PieChart>
-              </ResponsiveContainer>
+              <RouteLink
+                route={{ name: 'report', year: route.month === 12 ? route.year + 1 : route.year, month: route.month === 12 ? 1 : route.month + 1 }}
+                onNavigate={navigate}
+                className={`p-2 rounded-lg ${isDarkMode ? 'text-gray-300 hover:bg-gray-800' : 'text-gray-700 hover:bg-white'}`}
+                title={t('reports.next')}
+              >
+                <ChevronRight className="w-5 h-5" />
+              </RouteLink>
+              <RouteLink
+                route={{ name: 'statement', year: route.year, month: route.month }}
+                onNavigate={navigate}
+                className={`ml-auto inline-flex items-center gap-2 px-3 py-2 text-sm rounded-lg ${isDarkMode ? 'text-gray-300 hover:bg-gray-800' : 'text-gray-700 hover:bg-white'}`}
+                title={t('statement.open')}
+              >
+                <Printer className="w-5 h-5" />
+                {t('statement.open')}
+              </RouteLink>
             </div>
+          )}
+
+          {showOverview && (
+            <>
+              {/* Summary Cards */}
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+                <div className={`summary-card ${isDarkMode ? 'bg-gray-800' : 'bg-white'} rounded-2xl p-6 shadow-lg hover:shadow-xl`}>
+                  <div className="flex items-center justify-between mb-2">
+                    <span className={`text-sm font-medium ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>{t('summary.balance')}</span>
+                    <Wallet className={`w-5 h-5 ${summary.balance >= 0 ? 'text-green-500' : 'text-red-500'}`} />
+                  </div>
+                  <p className={`text-3xl font-bold ${summary.balance >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                    {formatCurrency(summary.balance)}
+                  </p>
+                  {previousPeriod && (
+                    <PeriodDelta
+                      locale={locale}
+                      change={FinancialController.getChange(summary.balance, previousPeriod.summary.balance)}
+                      period={previousPeriod.label}
+                      positiveIsGood
+                    />
+                  )}
+                </div>
 
-            <div className={`${isDarkMode ? 'bg-gray-800' : 'bg-white'} rounded-2xl p-6 shadow-lg`}>
-              <h2 className={`text-xl font-bold mb-4 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
-                Receitas vs Despesas
-              </h2>
-              <ResponsiveContainer width="100%" height={300}>
-                <BarChart data={chartData}>
-                  <CartesianGrid strokeDasharray="3 3" stroke={isDarkMode ? '#374151' : '#e5e7eb'} />
-                  <XAxis dataKey="category" stroke={isDarkMode ? '#9ca3af' : '#6b7280'} />
-                  <YAxis stroke={isDarkMode ? '#9ca3af' : '#6b7280'} />
-                  <Tooltip
-                    formatter={(value: number) => FinancialController.formatCurrency(value)}
-                    contentStyle={{
-                      backgroundColor: isDarkMode ? '#1f2937' : '#ffffff',
-                      border: 'none',
-                      borderRadius: '8px',
-                      color: isDarkMode ? '#ffffff' : '#000000'
-                    }}
-                  />
-                  <Legend />
-                  <Bar dataKey="income" fill="#3b82f6" name="Receitas" radius={[8, 8, 0, 0]} />
-                  <Bar dataKey="expense" fill="#ef4444" name="Despesas" radius={[8, 8, 0, 0]} />
-                </BarChart>
-              </ResponsiveContainer>
-            </div>
-          </div>
+                <div className={`summary-card ${isDarkMode ? 'bg-gray-800' : 'bg-white'} rounded-2xl p-6 shadow-lg hover:shadow-xl`}>
+                  <div className="flex items-center justify-between mb-2">
+                    <span className={`text-sm font-medium ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>{t('summary.income')}</span>
+                    <TrendingUp className="w-5 h-5 text-blue-500" />
+                  </div>
+                  <p className={`text-3xl font-bold ${isDarkMode ? 'text-blue-400' : 'text-blue-600'}`}>
+                    {formatCurrency(summary.totalIncome)}
+                  </p>
+                  {previousPeriod && (
+                    <PeriodDelta
+                      locale={locale}
+                      change={FinancialController.getChange(summary.totalIncome, previousPeriod.summary.totalIncome)}
+                      period={previousPeriod.label}
+                      positiveIsGood
+                    />
+                  )}
+                </div>
 
-          {/* Filters and Actions */}
-          <div className={`${isDarkMode ? 'bg-gray-800' : 'bg-white'} rounded-2xl p-6 shadow-lg mb-8`}>
-            <div className="flex flex-col md:flex-row gap-4 mb-6">
-              <div className="flex-1 relative">
-                <Search className={`absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 ${isDarkMode ? 'text-gray-400' : 'text-gray-400'}`} />
-                <input
-                  type="text"
-                  placeholder="Buscar transações..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className={`w-full pl-10 pr-4 py-2.5 rounded-lg border ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400' : 'bg-gray-50 border-gray-200 text-gray-900'
-                    } focus:outline-none focus:ring-2 focus:ring-blue-500`}
-                />
+                <div className={`summary-card ${isDarkMode ? 'bg-gray-800' : 'bg-white'} rounded-2xl p-6 shadow-lg hover:shadow-xl`}>
+                  <div className="flex items-center justify-between mb-2">
+                    <span className={`text-sm font-medium ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>{t('summary.expense')}</span>
+                    <TrendingDown className="w-5 h-5 text-red-500" />
+                  </div>
+                  <p className={`text-3xl font-bold ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>
+                    {formatCurrency(summary.totalExpense)}
+                  </p>
+                  {previousPeriod && (
+                    <PeriodDelta
+                      locale={locale}
+                      change={FinancialController.getChange(summary.totalExpense, previousPeriod.summary.totalExpense)}
+                      period={previousPeriod.label}
+                      positiveIsGood={false}
+                    />
+                  )}
+                </div>
+
+                <div className={`summary-card ${isDarkMode ? 'bg-gray-800' : 'bg-white'} rounded-2xl p-6 shadow-lg hover:shadow-xl`}>
+                  <div className="flex items-center justify-between mb-2">
+                    <span className={`text-sm font-medium ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>{t('summary.highestExpense')}</span>
+                    <TrendingDown className="w-5 h-5 text-orange-500" />
+                  </div>
+                  <p className={`text-2xl font-bold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+                    {summary.highestExpense ? formatCurrency(summary.highestExpense.amount) : t('summary.notAvailable')}
+                  </p>
+                  <p className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'} mt-1`}>
+                    {summary.highestExpense ? categoryLabel('expense', summary.highestExpense.category) : '-'}
+                  </p>
+                </div>
               </div>
-              <div className="flex gap-2">
-                <select
-                  value={periodFilter}
-                  onChange={(e) => setPeriodFilter(e.target.value)}
-                  className={`px-4 py-2.5 rounded-lg border ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-gray-50 border-gray-200 text-gray-900'
-                    } focus:outline-none focus:ring-2 focus:ring-blue-500`}
-                >
-                  <option value="all">Todos</option>
-                  <option value="day">Hoje</option>
-                  <option value="week">Semana</option>
-                  <option value="month">Mês</option>
-                  <option value="year">Ano</option>
-                </select>
-                <button
-                  onClick={() => setShowModal(true)}
-                  className="flex items-center gap-2 px-6 py-2.5 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-lg hover:from-blue-600 hover:to-purple-700 transition-all shadow-md hover:shadow-lg"
-                >
-                  <Plus className="w-5 h-5" />
-                  Nova Transação
-                </button>
+            </>
+          )}
+
+          {route.name === 'dashboard' && (
+            <>
+              {/* Savings Goals */}
+              <GoalPanel
+                isDarkMode={isDarkMode}
+                locale={locale}
+                currency={baseCurrency}
+                statuses={goalStatuses}
+                transactions={conversion.converted}
+                onSave={(goal, id) => setSavingsGoals(FinancialController.upsertGoal(savingsGoals, goal, id))}
+                onFund={(id, funding) => setSavingsGoals(FinancialController.fundGoal(savingsGoals, id, funding))}
+                onDelete={(id) => setSavingsGoals(savingsGoals.filter(g => g.id !== id))}
+              />
+
+              {/* Accounts */}
+              <AccountPanel
+                isDarkMode={isDarkMode}
+                locale={locale}
+                balances={accountBalances}
+                selectedId={accountFilter}
+                usedIds={usedAccountIds}
+                onSelect={setAccountFilter}
+                onSave={handleSaveAccount}
+                onDelete={handleDeleteAccount}
+              />
+
+              {/* Budgets */}
+              <BudgetPanel
+                isDarkMode={isDarkMode}
+                locale={locale}
+                currency={baseCurrency}
+                statuses={budgetStatuses}
+                categories={FinancialController.getCategoryOptions(categories, 'expense').map(c => c.name)}
+                onSave={(budget) => setBudgets(FinancialController.upsertBudget(budgets, budget))}
+                onDelete={(id) => setBudgets(budgets.filter(b => b.id !== id))}
+              />
+            </>
+          )}
+
+          {showOverview && (
+            <>
+              {/* Charts Section */}
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+                <div className={`${isDarkMode ? 'bg-gray-800' : 'bg-white'} rounded-2xl p-6 shadow-lg`}>
+                  <h2 className={`flex items-center gap-2 text-xl font-bold mb-4 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+                    {pieParent !== null && (
+                      <button
+                        onClick={() => setPieParent(null)}
+                        className={`p-1 rounded-lg ${isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+                        title={t('charts.back')}
+                      >
+                        <ChevronLeft className="w-5 h-5" />
+                      </button>
+                    )}
+                    {pieParent === null
+                      ? t('charts.byCategory')
+                      : t('charts.byCategoryIn', { category: I18nService.translateCategory(locale, pieParent) })}
+                  </h2>
+                  <ResponsiveContainer width="100%" height={300}>
+                    <PieChart>
+                      <Pie
+                        data={pieData}
+                        cx="50%"
+                        cy="50%"
+                        labelLine={false}
+                        label={({ name, percent }) => {
+                          const pct = (percent ?? 0) * 100;
+                          return `${name} ${pct.toFixed(0)}%`;
+                        }}
+                        outerRadius={100}
+                        fill="#8884d8"
+                        dataKey="value"
+                        onClick={(_, index) => handlePieClick(pieData[index])}
+                      >
+                        {pieData.map((entry) => (
+                          <Cell key={entry.category} fill={entry.color} />
+                        ))}
+                      </Pie>
+                      <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+                    </PieChart>
+                  </ResponsiveContainer>
+                </div>
+
+                <div className={`${isDarkMode ? 'bg-gray-800' : 'bg-white'} rounded-2xl p-6 shadow-lg`}>
+                  <h2 className={`text-xl font-bold mb-4 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+                    {t('charts.incomeVsExpense')}
+                  </h2>
+                  <ResponsiveContainer width="100%" height={300}>
+                    <BarChart data={chartData}>
+                      <CartesianGrid strokeDasharray="3 3" stroke={isDarkMode ? '#374151' : '#e5e7eb'} />
+                      <XAxis dataKey="category" stroke={isDarkMode ? '#9ca3af' : '#6b7280'} />
+                      <YAxis stroke={isDarkMode ? '#9ca3af' : '#6b7280'} />
+                      <Tooltip
+                        formatter={(value) => formatCurrency(Number(value))}
+                        contentStyle={{
+                          backgroundColor: isDarkMode ? '#1f2937' : '#ffffff',
+                          border: 'none',
+                          borderRadius: '8px',
+                          color: isDarkMode ? '#ffffff' : '#000000'
+                        }}
+                      />
+                      <Legend />
+                      <Bar dataKey="income" fill="#3b82f6" name={t('summary.income')} radius={[8, 8, 0, 0]} />
+                      <Bar dataKey="expense" fill="#ef4444" name={t('summary.expense')} radius={[8, 8, 0, 0]} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
               </div>
-            </div>
 
-            {/* Transactions Table */}
-            <div className="overflow-x-auto">
-              <table className="w-full">
-                <thead>
-                  <tr className={`${isDarkMode ? 'bg-gray-700' : 'bg-gray-50'}`}>
-                    <th className={`px-4 py-3 text-left text-sm font-semibold ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>Data</th>
-                    <th className={`px-4 py-3 text-left text-sm font-semibold ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>Descrição</th>
-                    <th className={`px-4 py-3 text-left text-sm font-semibold ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>Categoria</th>
-                    <th className={`px-4 py-3 text-left text-sm font-semibold ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>Tipo</th>
-                    <th className={`px-4 py-3 text-right text-sm font-semibold ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>Valor</th>
-                    <th className={`px-4 py-3 text-right text-sm font-semibold ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>Ações</th>
-                  </tr>
-                </thead>
-                <tbody className="divide-y divide-gray-200">
-                  {filteredTransactions.map((transaction) => (
-                    <tr key={transaction.id} className={`${isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-50'} transition-colors`}>
-                      <td className={`px-4 py-3 text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
-                        {transaction.getFormattedDate()}
-                      </td>
-                      <td className={`px-4 py-3 text-sm font-medium ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
-                        {transaction.description}
-                      </td>
-                      <td className={`px-4 py-3 text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
-                        {transaction.category}
-                      </td>
-                      <td className="px-4 py-3">
-                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${transaction.type === 'income' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
-                          }`}>
-                          {transaction.type === 'income' ? 'Receita' : 'Despesa'}
-                        </span>
-                      </td>
-                      <td className={`px-4 py-3 text-sm text-right font-semibold ${transaction.type === 'income' ? 'text-green-600' : 'text-red-600'
-                        }`}>
-                        {transaction.getFormattedAmount()}
-                      </td>
-                      <td className="px-4 py-3 text-right">
-                        <div className="flex justify-end gap-2">
-                          <button
-                            onClick={() => handleEdit(transaction)}
-                            className={`p-1.5 rounded-lg transition-colors ${isDarkMode ? 'hover:bg-gray-600 text-blue-400' : 'hover:bg-blue-50 text-blue-600'
-                              }`}
+              {/* Cash Flow Timeline */}
+              <div className={`${isDarkMode ? 'bg-gray-800' : 'bg-white'} rounded-2xl p-6 shadow-lg mb-8`}>
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className={`text-xl font-bold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+                    {t('charts.cashFlow')}
+                  </h2>
+                  <select
+                    value={timelineGranularity}
+                    onChange={(e) => setTimelineGranularity(e.target.value as TimelineGranularity)}
+                    className={`px-3 py-2 rounded-lg border text-sm ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-gray-50 border-gray-200 text-gray-900'
+                      } focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                  >
+                    {Object.entries(TIMELINE_GRANULARITY_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{t(label)}</option>
+                    ))}
+                  </select>
+                </div>
+                <ResponsiveContainer width="100%" height={300}>
+                  <ComposedChart data={timelineData}>
+                    <CartesianGrid strokeDasharray="3 3" stroke={isDarkMode ? '#374151' : '#e5e7eb'} />
+                    <XAxis dataKey="period" tickFormatter={formatBucket} stroke={isDarkMode ? '#9ca3af' : '#6b7280'} />
+                    <YAxis stroke={isDarkMode ? '#9ca3af' : '#6b7280'} />
+                    <Tooltip
+                      formatter={(value) => formatCurrency(Number(value))}
+                      labelFormatter={(label) => formatBucket(String(label))}
+                      contentStyle={{
+                        backgroundColor: isDarkMode ? '#1f2937' : '#ffffff',
+                        border: 'none',
+                        borderRadius: '8px',
+                        color: isDarkMode ? '#ffffff' : '#000000'
+                      }}
+                    />
+                    <Legend />
+                    <Bar dataKey="income" fill="#3b82f6" name={t('summary.income')} radius={[4, 4, 0, 0]} />
+                    <Bar dataKey="expense" fill="#ef4444" name={t('summary.expense')} radius={[4, 4, 0, 0]} />
+                    <Line type="monotone" dataKey="net" stroke="#f59e0b" name={t('charts.net')} dot={false} />
+                    <Line type="monotone" dataKey="balance" stroke="#10b981" strokeWidth={2} name={t('charts.runningBalance')} dot={false} />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+
+              {/* Spending by Tag */}
+              {tagData.length > 0 && (
+                <TagReport
+                  isDarkMode={isDarkMode}
+                  locale={locale}
+                  currency={baseCurrency}
+                  tags={tagData}
+                  activeTag={activeTag}
+                  onSelect={handleTagFilter}
+                />
+              )}
+            </>
+          )}
+
+          {route.name !== 'notFound' && (
+            <>
+              {/* Filters and Actions */}
+              <div className={`${isDarkMode ? 'bg-gray-800' : 'bg-white'} rounded-2xl p-6 shadow-lg mb-8`}>
+                <div className="flex flex-col md:flex-row gap-4 mb-6">
+                  <div className="flex-1">
+                    <div className="relative">
+                      <Search className={`absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 ${isDarkMode ? 'text-gray-400' : 'text-gray-400'}`} />
+                      <input
+                        type="text"
+                        placeholder={t('filters.search')}
+                        title={t('filters.searchHelp')}
+                        value={searchInput}
+                        onChange={(e) => setSearchInput(e.target.value)}
+                        aria-invalid={searchErrors.length > 0}
+                        className={`w-full pl-10 pr-4 py-2.5 rounded-lg border ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400' : 'bg-gray-50 border-gray-200 text-gray-900'
+                          } ${searchErrors.length > 0 ? 'border-red-400' : ''} focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                      />
+                    </div>
+                    {searchErrors.length > 0 && (
+                      <SearchQueryErrors isDarkMode={isDarkMode} locale={locale} query={searchInput} errors={searchErrors} />
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    {!isReport && (
+                      <>
+                        <select
+                          value={periodFilter}
+                          onChange={(e) => setPeriodFilter(e.target.value as PeriodPreset)}
+                          className={`px-4 py-2.5 rounded-lg border ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-gray-50 border-gray-200 text-gray-900'
+                            } focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                        >
+                          {Object.entries(PERIOD_LABELS).map(([value, label]) => (
+                            <option key={value} value={value}>{t(label)}</option>
+                          ))}
+                        </select>
+                        {periodFilter === 'custom' && (
+                          <>
+                            <input
+                              type="date"
+                              value={customRange.from}
+                              onChange={(e) => setCustomRange({ ...customRange, from: e.target.value })}
+                              className={`px-4 py-2.5 rounded-lg border ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-gray-50 border-gray-200 text-gray-900'
+                            } focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                              title={t('period.from')}
+                            />
+                            <input
+                              type="date"
+                              value={customRange.to}
+                              onChange={(e) => setCustomRange({ ...customRange, to: e.target.value })}
+                              className={`px-4 py-2.5 rounded-lg border ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-gray-50 border-gray-200 text-gray-900'
+                            } focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                              title={t('period.to')}
+                            />
+                          </>
+                        )}
+                        {periodFilter === 'week' && (
+                          <select
+                            value={periodSettings.weekStart}
+                            onChange={(e) => setPeriodSettings({ ...periodSettings, weekStart: Number(e.target.value) })}
+                            className={`px-4 py-2.5 rounded-lg border ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-gray-50 border-gray-200 text-gray-900'
+                            } focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                            title={t('period.weekStart')}
                           >
-                            <Edit2 className="w-4 h-4" />
-                          </button>
-                          <button
-                            onClick={() => handleDelete(transaction.id)}
-                            className={`p-1.5 rounded-lg transition-colors ${isDarkMode ? 'hover:bg-gray-600 text-red-400' : 'hover:bg-red-50 text-red-600'
-                              }`}
+                            {WEEKDAYS.map(day => (
+                              <option key={day} value={day}>{weekdayName(day)}</option>
+                            ))}
+                          </select>
+                        )}
+                        {periodFilter === 'fiscalYear' && (
+                          <select
+                            value={periodSettings.fiscalYearStartMonth}
+                            onChange={(e) => setPeriodSettings({ ...periodSettings, fiscalYearStartMonth: Number(e.target.value) })}
+                            className={`px-4 py-2.5 rounded-lg border ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-gray-50 border-gray-200 text-gray-900'
+                            } focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                            title={t('period.fiscalYearStart')}
                           >
-                            <Trash2 className="w-4 h-4" />
-                          </button>
-                        </div>
-                      </td>
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
-              {filteredTransactions.length === 0 && (
-                <div className="text-center py-12">
-                  <p className={`text-lg ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-                    Nenhuma transação encontrada
-                  </p>
+                            {MONTHS.map(month => (
+                              <option key={month} value={month}>{monthName(month)}</option>
+                            ))}
+                          </select>
+                        )}
+                      </>
+                    )}
+                    <select
+                      value={accountFilter ?? ''}
+                      onChange={(e) => setAccountFilter(e.target.value === '' ? null : Number(e.target.value))}
+                      className={`px-4 py-2.5 rounded-lg border ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-gray-50 border-gray-200 text-gray-900'
+                        } focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                    >
+                      <option value="">{t('accounts.all')}</option>
+                      {accounts.map(account => (
+                        <option key={account.id} value={account.id}>{account.name}</option>
+                      ))}
+                    </select>
+                    {allTags.length > 0 && (
+                      <select
+                        value={allTags.includes(activeTag) ? activeTag : ''}
+                        onChange={(e) => handleTagFilter(e.target.value)}
+                        className={`px-4 py-2.5 rounded-lg border ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-gray-50 border-gray-200 text-gray-900'
+                          } focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                      >
+                        <option value="">{t('tags.all')}</option>
+                        {allTags.map(tag => (
+                          <option key={tag} value={tag}>#{tag}</option>
+                        ))}
+                      </select>
+                    )}
+                    <button
+                      onClick={handleExportCsv}
+                      className={`flex items-center gap-2 px-4 py-2.5 rounded-lg border ${isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+                        } transition-colors`}
+                      title={t('actions.exportCsvTitle')}
+                    >
+                      <Download className="w-5 h-5" />
+                      CSV
+                    </button>
+                    <button
+                      onClick={() => setShowImportWizard(true)}
+                      className={`flex items-center gap-2 px-4 py-2.5 rounded-lg border ${isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+                        } transition-colors`}
+                      title={t('actions.importCsvTitle')}
+                    >
+                      <Upload className="w-5 h-5" />
+                      {t('actions.import')}
+                    </button>
+                    <label
+                      className={`flex items-center gap-2 px-4 py-2.5 rounded-lg border cursor-pointer ${isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+                        } transition-colors`}
+                      title={t('actions.importStatementTitle')}
+                    >
+                      <Upload className="w-5 h-5" />
+                      OFX/QIF
+                      <input type="file" accept=".ofx,.qif" onChange={handleImportStatement} className="hidden" />
+                    </label>
+                    <button
+                      onClick={handleNewTransaction}
+                      className="flex items-center gap-2 px-6 py-2.5 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-lg hover:from-blue-600 hover:to-purple-700 transition-all shadow-md hover:shadow-lg"
+                    >
+                      <Plus className="w-5 h-5" />
+                      {t('actions.newTransaction')}
+                    </button>
+                  </div>
                 </div>
-              )}
-            </div>
-          </div>
+
+                {/* Transactions Table */}
+                <div
+                  ref={tableRef}
+                  onScroll={tableMode === 'virtual' ? (e) => setScrollTop(e.currentTarget.scrollTop) : undefined}
+                  className={tableMode === 'virtual' ? 'overflow-auto' : 'overflow-x-auto'}
+                  style={tableMode === 'virtual' ? { maxHeight: VIRTUAL_VIEWPORT_HEIGHT } : undefined}
+                >
+                  <table className="w-full">
+                    <thead className={tableMode === 'virtual' ? 'sticky top-0 z-10' : undefined}>
+                      <tr className={`${isDarkMode ? 'bg-gray-700' : 'bg-gray-50'}`}>
+                        <SortableHeader isDarkMode={isDarkMode} field="date" label={t('field.date')} sort={sort} onSort={handleSort} />
+                        <SortableHeader isDarkMode={isDarkMode} field="description" label={t('field.description')} sort={sort} onSort={handleSort} />
+                        <SortableHeader isDarkMode={isDarkMode} field="category" label={t('field.category')} sort={sort} onSort={handleSort} />
+                        <th className={`px-4 py-3 text-left text-sm font-semibold ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>{t('field.account')}</th>
+                        <th className={`px-4 py-3 text-left text-sm font-semibold ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>{t('field.type')}</th>
+                        <SortableHeader isDarkMode={isDarkMode} field="amount" label={t('field.amount')} sort={sort} onSort={handleSort} align="right" />
+                        <th className={`px-4 py-3 text-right text-sm font-semibold ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>{t('table.actions')}</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {tableWindow.paddingTop > 0 && <tr aria-hidden="true" style={{ height: tableWindow.paddingTop }} />}
+                      {tableWindow.rows.map(({ transaction, splitIndex }) => splitIndex !== undefined ? (
+                        <SplitLineRow
+                          key={`${transaction.id}-${splitIndex}`}
+                          isDarkMode={isDarkMode}
+                          locale={locale}
+                          transaction={convertedById.get(transaction.id) ?? transaction}
+                          splitIndex={splitIndex}
+                          categories={categories}
+                          height={tableMode === 'virtual' ? VIRTUAL_ROW_HEIGHT : undefined}
+                        />
+                      ) : (
+                        <tr
+                          key={transaction.id}
+                          className={`${isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-50'} transition-colors`}
+                          style={tableMode === 'virtual' ? { height: VIRTUAL_ROW_HEIGHT } : undefined}
+                        >
+                          <td className={`px-4 py-3 text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                            {transaction.getFormattedDate(locale)}
+                          </td>
+                          <td className={`px-4 py-3 text-sm font-medium ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+                            <span className="inline-flex items-center gap-1.5">
+                              {transaction.description}
+                              {transaction.isRecurring() && (
+                                <span title={recurrences.find(r => r.id === transaction.recurrenceId)?.getLabel(locale)}>
+                                  <Repeat className={`w-3.5 h-3.5 ${isDarkMode ? 'text-purple-400' : 'text-purple-600'}`} />
+                                </span>
+                              )}
+                              {transaction.notes && (
+                                <span title={transaction.notes}>
+                                  <StickyNote className={`w-3.5 h-3.5 ${isDarkMode ? 'text-yellow-400' : 'text-yellow-600'}`} />
+                                </span>
+                              )}
+                              {transaction.attachments && (
+                                <button
+                                  onClick={() => handleOpenAttachment(transaction.attachments![0])}
+                                  className={`inline-flex items-center text-xs ${isDarkMode ? 'text-gray-400 hover:text-white' : 'text-gray-500 hover:text-gray-900'}`}
+                                  title={transaction.attachments.map(a => a.name).join('\n')}
+                                >
+                                  <Paperclip className="w-3.5 h-3.5" />
+                                  {transaction.attachments.length > 1 && transaction.attachments.length}
+                                </button>
+                              )}
+                            </span>
+                            {transaction.tags && (
+                              <span className="flex flex-wrap gap-1 mt-1">
+                                {transaction.tags.map(tag => (
+                                  <button
+                                    key={tag}
+                                    onClick={() => handleTagFilter(tag)}
+                                    className={`px-1.5 py-0.5 rounded text-xs font-normal ${isDarkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                                      }`}
+                                  >
+                                    #{tag}
+                                  </button>
+                                ))}
+                              </span>
+                            )}
+                          </td>
+                          <td className={`px-4 py-3 text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                            {transaction.isTransfer() ? '-' : transaction.splits ? (
+                              <button
+                                onClick={() => handleToggleSplit(transaction.id)}
+                                className={`inline-flex items-center gap-1.5 ${isDarkMode ? 'hover:text-white' : 'hover:text-gray-900'}`}
+                                aria-expanded={expandedIds.has(transaction.id)}
+                              >
+                                {expandedIds.has(transaction.id) ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                                {t('table.split', { count: transaction.splits.length })}
+                              </button>
+                            ) : (
+                              <CategoryBadge
+                                category={FinancialController.findCategory(categories, transaction.type, transaction.category)}
+                                label={categoryLabel(transaction.type, transaction.category)}
+                              />
+                            )}
+                          </td>
+                          <td className={`px-4 py-3 text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                            {transaction.isTransfer()
+                              ? `${accountName(transaction.accountId)} → ${accountName(transaction.toAccountId)}`
+                              : accountName(transaction.accountId)}
+                          </td>
+                          <td className="px-4 py-3">
+                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${TYPE_BADGE_CLASSES[transaction.type]}`}>
+                              {t(`type.${transaction.type}`)}
+                            </span>
+                          </td>
+                          <td className={`px-4 py-3 text-sm text-right font-semibold ${TYPE_AMOUNT_CLASSES[transaction.type]}`}>
+                            {convertedById.has(transaction.id) && transaction.currency !== baseCurrency ? (
+                              <>
+                                {convertedById.get(transaction.id)!.getFormattedAmount(locale)}
+                                <span className={`block text-xs font-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                                  {transaction.getFormattedAmount(locale)}
+                                </span>
+                              </>
+                            ) : transaction.getFormattedAmount(locale)}
+                          </td>
+                          <td className="px-4 py-3 text-right">
+                            <div className="flex justify-end gap-2">
+                              <button
+                                onClick={() => handleEdit(transaction)}
+                                className={`p-1.5 rounded-lg transition-colors ${isDarkMode ? 'hover:bg-gray-600 text-blue-400' : 'hover:bg-blue-50 text-blue-600'
+                                  }`}
+                              >
+                                <Edit2 className="w-4 h-4" />
+                              </button>
+                              {transaction.isRecurring() && (
+                                <button
+                                  onClick={() => handleSkipOccurrence(transaction)}
+                                  className={`p-1.5 rounded-lg transition-colors ${isDarkMode ? 'hover:bg-gray-600 text-purple-400' : 'hover:bg-purple-50 text-purple-600'
+                                    }`}
+                                  title={t('table.skipOccurrence')}
+                                >
+                                  <SkipForward className="w-4 h-4" />
+                                </button>
+                              )}
+                              <button
+                                onClick={() => handleDelete(transaction.id)}
+                                className={`p-1.5 rounded-lg transition-colors ${isDarkMode ? 'hover:bg-gray-600 text-red-400' : 'hover:bg-red-50 text-red-600'
+                                  }`}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                      {tableWindow.paddingBottom > 0 && <tr aria-hidden="true" style={{ height: tableWindow.paddingBottom }} />}
+                    </tbody>
+                  </table>
+                  {filteredTransactions.length === 0 && (
+                    <div className="text-center py-12">
+                      <p className={`text-lg ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                        {t('table.empty')}
+                      </p>
+                    </div>
+                  )}
+                </div>
+                {filteredTransactions.length > 0 && (
+                  <div className={`flex flex-wrap items-center justify-between gap-4 mt-4 text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                    <div className="flex items-center gap-3">
+                      <span>
+                        {tableMode === 'paginated'
+                          ? t('table.showing', {
+                            from: tableWindow.first + 1,
+                            to: tableWindow.first + tableWindow.count,
+                            total: filteredTransactions.length,
+                          })
+                          : t('table.total', { total: filteredTransactions.length })}
+                      </span>
+                      <select
+                        value={tableMode}
+                        onChange={(e) => setTableMode(e.target.value as TableMode)}
+                        className={`px-3 py-1.5 rounded-lg border ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-gray-50 border-gray-200 text-gray-900'
+                          } focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                        title={t('table.mode')}
+                      >
+                        {Object.entries(TABLE_MODE_LABELS).map(([value, label]) => (
+                          <option key={value} value={value}>{t(label)}</option>
+                        ))}
+                      </select>
+                    </div>
+                    {tableMode === 'paginated' && pageCount > 1 && (
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => setPage(currentPage - 1)}
+                          disabled={currentPage === 0}
+                          className={`p-1.5 rounded-lg transition-colors disabled:opacity-40 ${isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+                          title={t('table.previousPage')}
+                        >
+                          <ChevronLeft className="w-4 h-4" />
+                        </button>
+                        <span>{t('table.page', { page: currentPage + 1, pages: pageCount })}</span>
+                        <button
+                          onClick={() => setPage(currentPage + 1)}
+                          disabled={currentPage === pageCount - 1}
+                          className={`p-1.5 rounded-lg transition-colors disabled:opacity-40 ${isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+                          title={t('table.nextPage')}
+                        >
+                          <ChevronRight className="w-4 h-4" />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            </>
+          )}
         </main>
 
         {/* Modal */}
@@ -730,86 +1877,332 @@ export default function FinanceDashboard() {
           <div className="modal-backdrop fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
             <div className={`modal-content ${isDarkMode ? 'bg-gray-800' : 'bg-white'} rounded-2xl p-6 w-full max-w-md shadow-2xl`}>
               <h2 className={`text-2xl font-bold mb-6 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
-                {editingId !== null ? 'Editar Transação' : 'Nova Transação'}
+                {editingId !== null ? t('form.editTitle') : t('form.newTitle')}
               </h2>
-              <form onSubmit={handleSubmit} className="space-y-4">
+              <form onSubmit={handleSubmit} noValidate className="space-y-4">
+                {isEditingOccurrence && (
+                  <div className={`flex gap-4 text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        checked={formData.editScope === 'this'}
+                        onChange={() => setFormData({ ...formData, editScope: 'this' })}
+                      />
+                      {t('form.scopeThis')}
+                    </label>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        checked={formData.editScope === 'future'}
+                        onChange={() => setFormData({ ...formData, editScope: 'future' })}
+                      />
+                      {t('form.scopeFuture')}
+                    </label>
+                  </div>
+                )}
+
                 <div>
                   <label className={`block text-sm font-medium mb-2 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
-                    Tipo
+                    {t('field.type')}
                   </label>
                   <select
                     value={formData.type}
-                    onChange={(e) => setFormData({ ...formData, type: e.target.value as TransactionType, category: '' })}
+                    onChange={(e) => setFormData({ ...formData, type: e.target.value as TransactionType, category: '', splits: [] })}
                     className={`w-full px-4 py-2.5 rounded-lg border ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-gray-50 border-gray-200 text-gray-900'
                       } focus:outline-none focus:ring-2 focus:ring-blue-500`}
                     required
                   >
-                    <option value="expense">Despesa</option>
-                    <option value="income">Receita</option>
+                    <option value="expense">{t('type.expense')}</option>
+                    <option value="income">{t('type.income')}</option>
+                    <option value="transfer">{t('type.transfer')}</option>
                   </select>
                 </div>
 
                 <div>
                   <label className={`block text-sm font-medium mb-2 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
-                    Categoria
+                    {formData.type === 'transfer' ? t('form.fromAccount') : t('field.account')}
                   </label>
                   <select
-                    value={formData.category}
-                    onChange={(e) => setFormData({ ...formData, category: e.target.value })}
-                    className={`w-full px-4 py-2.5 rounded-lg border ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-gray-50 border-gray-200 text-gray-900'
+                    value={formData.accountId}
+                    onChange={(e) => handleChangeFormAccount(e.target.value)}
+                    className={`w-full px-4 py-2.5 rounded-lg border ${isDarkMode ? 'bg-gray-700 text-white' : 'bg-gray-50 text-gray-900'} ${inputBorder('accountId')
                       } focus:outline-none focus:ring-2 focus:ring-blue-500`}
                     required
                   >
-                    <option value="">Selecione...</option>
-                    {categories[formData.type].map(cat => (
-                      <option key={cat} value={cat}>{cat}</option>
+                    {accounts.map(account => (
+                      <option key={account.id} value={account.id}>{account.name}</option>
                     ))}
                   </select>
+                  <FieldError locale={locale} code={fieldError('accountId')} />
                 </div>
 
+                {formData.type === 'transfer' ? (
+                  <div>
+                    <label className={`block text-sm font-medium mb-2 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                      {t('form.toAccount')}
+                    </label>
+                    <select
+                      value={formData.toAccountId}
+                      onChange={(e) => setFormData({ ...formData, toAccountId: e.target.value })}
+                      className={`w-full px-4 py-2.5 rounded-lg border ${isDarkMode ? 'bg-gray-700 text-white' : 'bg-gray-50 text-gray-900'} ${inputBorder('toAccountId')
+                        } focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                      required
+                    >
+                      <option value="">{t('form.select')}</option>
+                      {accounts.filter(account => String(account.id) !== formData.accountId).map(account => (
+                        <option key={account.id} value={account.id}>{account.name}</option>
+                      ))}
+                    </select>
+                    <FieldError locale={locale} code={fieldError('toAccountId')} />
+                  </div>
+                ) : formData.splits.length > 0 ? (
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className={`text-sm font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                        {t('split.title')}
+                      </label>
+                      <button
+                        type="button"
+                        onClick={() => setFormData({ ...formData, category: formData.splits[0].category, splits: [] })}
+                        className={`text-sm ${isDarkMode ? 'text-blue-400 hover:text-blue-300' : 'text-blue-600 hover:text-blue-700'}`}
+                      >
+                        {t('split.remove')}
+                      </button>
+                    </div>
+                    <SplitEditor
+                      isDarkMode={isDarkMode}
+                      locale={locale}
+                      currency={formData.currency}
+                      amount={formData.amount}
+                      lines={formData.splits}
+                      options={FinancialController.getCategoryOptions(categories, formData.type).map(cat => ({
+                        value: cat.name,
+                        label: categoryLabel(cat.type, cat.name),
+                      }))}
+                      onChange={(splits) => setFormData({ ...formData, splits })}
+                    />
+                    <FieldError locale={locale} code={fieldError('splits')} />
+                  </div>
+                ) : (
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className={`text-sm font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                        {t('field.category')}
+                      </label>
+                      <button
+                        type="button"
+                        onClick={() => setFormData({
+                          ...formData,
+                          splits: [{ category: formData.category, amount: formData.amount }, { category: '', amount: '' }],
+                        })}
+                        className={`flex items-center gap-1 text-sm ${isDarkMode ? 'text-blue-400 hover:text-blue-300' : 'text-blue-600 hover:text-blue-700'}`}
+                      >
+                        <Split className="w-4 h-4" />
+                        {t('split.add')}
+                      </button>
+                    </div>
+                    <select
+                      value={formData.category}
+                      onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+                      className={`w-full px-4 py-2.5 rounded-lg border ${isDarkMode ? 'bg-gray-700 text-white' : 'bg-gray-50 text-gray-900'} ${inputBorder('category')
+                        } focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                      required
+                    >
+                      <option value="">{t('form.select')}</option>
+                      {FinancialController.getCategoryOptions(categories, formData.type, formData.category).map(cat => (
+                        <option key={cat.id} value={cat.name}>{categoryLabel(cat.type, cat.name)}</option>
+                      ))}
+                    </select>
+                    <FieldError locale={locale} code={fieldError('category')} />
+                  </div>
+                )}
+
                 <div>
                   <label className={`block text-sm font-medium mb-2 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
-                    Valor
+                    {t('field.amount')}
                   </label>
-                  <input
-                    type="number"
-                    step="0.01"
-                    value={formData.amount}
-                    onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
-                    className={`w-full px-4 py-2.5 rounded-lg border ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-gray-50 border-gray-200 text-gray-900'
-                      } focus:outline-none focus:ring-2 focus:ring-blue-500`}
-                    required
-                  />
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={formData.amount}
+                      onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                      onBlur={handleApplyRulesToForm}
+                      className={`flex-1 px-4 py-2.5 rounded-lg border ${isDarkMode ? 'bg-gray-700 text-white' : 'bg-gray-50 text-gray-900'} ${inputBorder('amount')
+                        } focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                      required
+                    />
+                    <select
+                      value={formData.currency}
+                      onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                      className={`px-3 py-2.5 rounded-lg border ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-gray-50 border-gray-200 text-gray-900'
+                        } focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                    >
+                      {CURRENCIES.map(currency => (
+                        <option key={currency} value={currency}>{currency}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <FieldError locale={locale} code={fieldError('amount')} />
                 </div>
 
                 <div>
                   <label className={`block text-sm font-medium mb-2 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
-                    Descrição
+                    {t('field.description')}
                   </label>
                   <input
                     type="text"
                     value={formData.description}
                     onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                    className={`w-full px-4 py-2.5 rounded-lg border ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-gray-50 border-gray-200 text-gray-900'
+                    onBlur={handleApplyRulesToForm}
+                    className={`w-full px-4 py-2.5 rounded-lg border ${isDarkMode ? 'bg-gray-700 text-white' : 'bg-gray-50 text-gray-900'} ${inputBorder('description')
                       } focus:outline-none focus:ring-2 focus:ring-blue-500`}
                     required
                   />
+                  <FieldError locale={locale} code={fieldError('description')} />
                 </div>
 
                 <div>
                   <label className={`block text-sm font-medium mb-2 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
-                    Data
+                    {t('field.date')}
                   </label>
                   <input
                     type="date"
                     value={formData.date}
                     onChange={(e) => setFormData({ ...formData, date: e.target.value })}
-                    className={`w-full px-4 py-2.5 rounded-lg border ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-gray-50 border-gray-200 text-gray-900'
+                    className={`w-full px-4 py-2.5 rounded-lg border ${isDarkMode ? 'bg-gray-700 text-white' : 'bg-gray-50 text-gray-900'} ${inputBorder('date')
                       } focus:outline-none focus:ring-2 focus:ring-blue-500`}
                     required
                   />
+                  <FieldError locale={locale} code={fieldError('date')} />
+                </div>
+
+                <div>
+                  <label className={`block text-sm font-medium mb-2 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                    {t('field.tags')}
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.tags}
+                    onChange={(e) => setFormData({ ...formData, tags: e.target.value })}
+                    placeholder={t('form.tagsPlaceholder')}
+                    className={`w-full px-4 py-2.5 rounded-lg border ${isDarkMode ? 'bg-gray-700 text-white' : 'bg-gray-50 text-gray-900'} ${inputBorder('tags')
+                      } focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                  />
+                  <FieldError locale={locale} code={fieldError('tags')} max={TAG_MAX_LENGTH} />
                 </div>
 
+                <div>
+                  <label className={`block text-sm font-medium mb-2 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                    {t('field.notes')}
+                  </label>
+                  <textarea
+                    value={formData.notes}
+                    onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                    rows={2}
+                    className={`w-full px-4 py-2.5 rounded-lg border ${isDarkMode ? 'bg-gray-700 text-white' : 'bg-gray-50 text-gray-900'} ${inputBorder('notes')
+                      } focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                  />
+                  <FieldError locale={locale} code={fieldError('notes')} max={NOTES_MAX_LENGTH} />
+                </div>
+
+                <div>
+                  <label className={`block text-sm font-medium mb-2 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                    {t('field.attachments')}
+                  </label>
+                  {formData.attachments.length > 0 && (
+                    <ul className="space-y-1 mb-2">
+                      {formData.attachments.map(attachment => (
+                        <li key={attachment.id} className={`flex items-center gap-2 text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                          <Paperclip className="w-4 h-4 shrink-0" />
+                          <button type="button" onClick={() => handleOpenAttachment(attachment)} className="truncate hover:underline">
+                            {attachment.name}
+                          </button>
+                          <span className={`text-xs ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+                            {Math.max(1, Math.round(attachment.size / 1024))} KB
+                          </span>
+                          <button
+                            type="button"
+                            onClick={() => setFormData({ ...formData, attachments: formData.attachments.filter(a => a !== attachment) })}
+                            className={`ml-auto p-1 rounded-lg transition-colors ${isDarkMode ? 'hover:bg-gray-600 text-red-400' : 'hover:bg-red-50 text-red-600'}`}
+                            title={t('attachments.remove')}
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <label
+                    className={`inline-flex items-center gap-2 px-3 py-2 rounded-lg border text-sm cursor-pointer ${isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+                      } transition-colors`}
+                  >
+                    <Upload className="w-4 h-4" />
+                    {t('attachments.add')}
+                    <input type="file" accept="image/*,application/pdf" multiple onChange={handleAddAttachments} className="hidden" />
+                  </label>
+                  <FieldError locale={locale} code={fieldError('attachments')} />
+                </div>
+
+                {(!isEditingOccurrence || formData.editScope === 'future') && (
+                  <div>
+                    <label className={`block text-sm font-medium mb-2 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                      {t('form.recurrence')}
+                    </label>
+                    <select
+                      value={formData.recurrence}
+                      onChange={(e) => setFormData({ ...formData, recurrence: e.target.value as IFormData['recurrence'] })}
+                      className={`w-full px-4 py-2.5 rounded-lg border ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-gray-50 border-gray-200 text-gray-900'
+                        } focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                    >
+                      {Object.entries(RECURRENCE_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>{t(label)}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                {(!isEditingOccurrence || formData.editScope === 'future') && formData.recurrence !== 'none' && (
+                  <div className="flex gap-2">
+                    <select
+                      value={formData.recurrenceEnd}
+                      onChange={(e) => setFormData({ ...formData, recurrenceEnd: e.target.value as RecurrenceEnd })}
+                      className={`flex-1 px-4 py-2.5 rounded-lg border ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-gray-50 border-gray-200 text-gray-900'
+                        } focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                    >
+                      <option value="never">{t('form.endNever')}</option>
+                      <option value="date">{t('form.endDate')}</option>
+                      <option value="count">{t('form.endCount')}</option>
+                    </select>
+                    {formData.recurrenceEnd === 'date' && (
+                      <input
+                        type="date"
+                        value={formData.recurrenceEndDate}
+                        min={formData.date}
+                        onChange={(e) => setFormData({ ...formData, recurrenceEndDate: e.target.value })}
+                        className={`flex-1 px-4 py-2.5 rounded-lg border ${isDarkMode ? 'bg-gray-700 text-white' : 'bg-gray-50 text-gray-900'} ${inputBorder('recurrenceEndDate')
+                          } focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                        required
+                      />
+                    )}
+                    {formData.recurrenceEnd === 'count' && (
+                      <input
+                        type="number"
+                        min="1"
+                        step="1"
+                        value={formData.recurrenceCount}
+                        onChange={(e) => setFormData({ ...formData, recurrenceCount: e.target.value })}
+                        className={`flex-1 px-4 py-2.5 rounded-lg border ${isDarkMode ? 'bg-gray-700 text-white' : 'bg-gray-50 text-gray-900'} ${inputBorder('recurrenceCount')
+                          } focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                        required
+                      />
+                    )}
+                  </div>
+                )}
+                {(!isEditingOccurrence || formData.editScope === 'future') && formData.recurrence !== 'none' && (
+                  <FieldError locale={locale} code={fieldError('recurrenceEndDate') ?? fieldError('recurrenceCount')} />
+                )}
+
                 <div className="flex gap-3 pt-4">
                   <button
                     type="button"
@@ -817,27 +2210,110 @@ export default function FinanceDashboard() {
                     className={`flex-1 px-4 py-2.5 rounded-lg border ${isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
                       } transition-colors`}
                   >
-                    Cancelar
+                    {t('form.cancel')}
                   </button>
                   <button
                     type="submit"
                     className="flex-1 px-4 py-2.5 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-lg hover:from-blue-600 hover:to-purple-700 transition-all shadow-md"
                   >
-                    {editingId !== null ? 'Atualizar' : 'Criar'}
+                    {editingId !== null ? t('form.update') : t('form.create')}
                   </button>
                 </div>
               </form>
             </div>
           </div>
         )}
+
+        {/* Category Manager */}
+        {showCategoryManager && (
+          <CategoryManager
+            isDarkMode={isDarkMode}
+            locale={locale}
+            categories={categories}
+            onCreate={(data) => setCategories(FinancialController.createCategory(categories, data))}
+            onUpdate={(id, changes) => setCategories(FinancialController.updateCategory(categories, id, changes))}
+            onRename={handleRenameCategory}
+            onMerge={handleMergeCategory}
+            onClose={() => setShowCategoryManager(false)}
+          />
+        )}
+
+        {/* Categorization Rule Manager */}
+        {showRuleManager && (
+          <CategorizationRuleManager
+            isDarkMode={isDarkMode}
+            locale={locale}
+            rules={categorizationRules}
+            categories={categories}
+            suggestions={categorizationSuggestions}
+            preview={categorizationPreview}
+            onChange={setCategorizationRules}
+            onApplyPreview={handleApplyCategorization}
+            onClose={() => setShowRuleManager(false)}
+          />
+        )}
+
+        {/* Backup Manager */}
+        {showBackupManager && (
+          <BackupManager
+            isDarkMode={isDarkMode}
+            locale={locale}
+            onDownload={handleDownloadBackup}
+            onRestore={handleRestoreBackup}
+            onClose={() => setShowBackupManager(false)}
+          />
+        )}
+
+        {/* Ledger Sharing */}
+        {showLedgerSharing && user && (
+          <LedgerSharing
+            isDarkMode={isDarkMode}
+            locale={locale}
+            user={user}
+            onSwitchLedger={handleSwitchLedger}
+            onShare={handleShareLedger}
+            onUnshare={handleUnshareLedger}
+            onClose={() => setShowLedgerSharing(false)}
+          />
+        )}
+
+        {/* Exchange Rate Editor */}
+        {showRatesEditor && (
+          <ExchangeRateEditor
+            isDarkMode={isDarkMode}
+            locale={locale}
+            rates={exchangeRates}
+            onChange={setExchangeRates}
+            onClose={() => setShowRatesEditor(false)}
+          />
+        )}
+
+        {/* CSV Import Wizard */}
+        {showImportWizard && (
+          <CsvImportWizard
+            isDarkMode={isDarkMode}
+            locale={locale}
+            onImport={handleImportCsv}
+            onClose={() => setShowImportWizard(false)}
+          />
+        )}
+
+        {toast && (
+          <HistoryToast
+            key={toast.id}
+            isDarkMode={isDarkMode}
+            locale={locale}
+            toast={toast}
+            onUndo={handleUndo}
+            onRedo={handleRedo}
+            onClose={() => setToast(null)}
+          />
+        )}
       </div>
     </>
   );
 }
 
-// ============================================================================
-// STYLES
-// ============================================================================
 const APP_STYLES = `
   /* Global Styles */
   ::-webkit-scrollbar { width: 10px; height: 10px; }
@@ -860,4 +2336,12 @@ const APP_STYLES = `
   input:focus, select:focus { outline: none; ring: 2px; ring-color: #3b82f6; }
   button:active { transform: scale(0.98); }
   html { scroll-behavior: smooth; }
+  /* Printable statement */
+  @media print {
+    @page { size: A4; margin: 15mm; }
+    * { transition: none !important; }
+    thead { display: table-header-group; }
+    tr { break-inside: avoid; }
+    .statement-section h2 { break-after: avoid; }
+  }
 `;
@@ -0,0 +1,37 @@
+import { TransactionModel } from '../models/TransactionModel';
+
+const EXPENSES = [
+  ['Moradia', 'Aluguel'], ['Alimentação', 'Supermercado'], ['Alimentação', 'Restaurante'], ['Transporte', 'Combustível'],
+  ['Transporte', 'Uber'], ['Lazer', 'Cinema e jantar'], ['Saúde', 'Farmácia'], ['Educação', 'Curso online'],
+];
+
+const INCOMES = [['Salário', 'Salário mensal'], ['Freelance', 'Projeto web'], ['Investimentos', 'Dividendos']];
+
+const TAGS = ['viagem-2025', 'trabalho', 'casa', 'presente'];
+
+// A large, varied history for benchmarks: the same transactions on every run (a seeded generator),
+// recorded in date order over 2024 and 2025, a few of them split, tagged or with notes
+export function generateTransactions(count: number): TransactionModel[] {
+  let seed = 42;
+  const random = () => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647;
+  };
+  const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)];
+  const start = Date.UTC(2024, 0, 1);
+
+  return Array.from({ length: count }, (_, index) => {
+    const income = random() < 0.15;
+    const [category, description] = pick(income ? INCOMES : EXPENSES);
+    const amount = Math.round(random() * (income ? 8000 : 600) * 100) / 100 + 1;
+    const date = new Date(start + Math.floor((index + random() * 10) * 730 / count) * 86400000);
+    const split = !income && amount > 10 && random() < 0.05;
+
+    return new TransactionModel(index + 1, income ? 'income' : 'expense', amount, category, `${description} ${index + 1}`, date, {
+      accountId: random() < 0.8 ? 1 : 2,
+      splits: split ? [{ category, amount: Math.round((amount - 1) * 100) / 100 }, { category: 'Lazer', amount: 1 }] : undefined,
+      tags: random() < 0.1 ? [pick(TAGS)] : undefined,
+      notes: random() < 0.05 ? 'Pago no cartão' : undefined,
+    });
+  });
+}
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { Edit2, Trash2 } from 'lucide-react';
+import type { AccountType, IAccount, IAccountBalance, Locale } from '../types';
+import { DEFAULT_CURRENCY, CURRENCIES } from '../constants';
+import { I18nService } from '../i18n/I18nService';
+import { AccountModel } from '../models/AccountModel';
+import { FinancialController } from '../controller/FinancialController';
+import { ACCOUNT_TYPE_LABELS } from './labels';
+
+interface IAccountPanelProps {
+  isDarkMode: boolean;
+  locale: Locale;
+  balances: IAccountBalance[];
+  selectedId: number | null;
+  usedIds: Set<number>;
+  onSelect: (id: number | null) => void;
+  onSave: (account: Omit<IAccount, 'id'>, id: number | null) => void;
+  onDelete: (id: number) => void;
+}
+
+// Account Panel - Balance of each account; selecting one filters the transaction list
+export function AccountPanel({ isDarkMode, locale, balances, selectedId, usedIds, onSelect, onSave, onDelete }: IAccountPanelProps) {
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [name, setName] = useState<string>('');
+  const [type, setType] = useState<AccountType>('checking');
+  const [openingBalance, setOpeningBalance] = useState<string>('');
+  const [currency, setCurrency] = useState<string>(DEFAULT_CURRENCY);
+
+  const t = I18nService.getTranslator(locale);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setType('checking');
+    setOpeningBalance('');
+    setCurrency(DEFAULT_CURRENCY);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({ name, type, openingBalance: parseFloat(openingBalance) || 0, currency }, editingId);
+    resetForm();
+  };
+
+  const handleEdit = (account: AccountModel) => {
+    setEditingId(account.id);
+    setName(account.name);
+    setType(account.type);
+    setOpeningBalance(account.openingBalance.toString());
+    setCurrency(account.currency);
+  };
+
+  const inputClass = `px-3 py-2 rounded-lg border text-sm ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-gray-50 border-gray-200 text-gray-900'
+    } focus:outline-none focus:ring-2 focus:ring-blue-500`;
+
+  return (
+    <div className={`${isDarkMode ? 'bg-gray-800' : 'bg-white'} rounded-2xl p-6 shadow-lg mb-8`}>
+      <h2 className={`text-xl font-bold mb-4 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+        {t('accounts.title')}
+      </h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        {balances.map(({ account, balance, unconverted }) => {
+          const selected = account.id === selectedId;
+          const locked = usedIds.has(account.id) || balances.length === 1;
+          return (
+            <div
+              key={account.id}
+              onClick={() => onSelect(selected ? null : account.id)}
+              className={`p-4 rounded-xl border cursor-pointer transition-colors ${selected
+                ? 'border-blue-500 ring-2 ring-blue-500'
+                : isDarkMode ? 'border-gray-700 hover:border-gray-500' : 'border-gray-200 hover:border-gray-400'
+                }`}
+            >
+              <div className="flex items-start justify-between">
+                <div>
+                  <p className={`font-medium ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>{account.name}</p>
+                  <p className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    {t(ACCOUNT_TYPE_LABELS[account.type])} · {account.currency}
+                  </p>
+                </div>
+                <span className={`flex gap-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); handleEdit(account); }}
+                    className="p-1 hover:text-blue-500"
+                    title={t('accounts.edit')}
+                  >
+                    <Edit2 className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onDelete(account.id); }}
+                    disabled={locked}
+                    className="p-1 hover:text-red-500 disabled:opacity-40 disabled:hover:text-inherit"
+                    title={locked ? t('accounts.inUse') : t('accounts.delete')}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </span>
+              </div>
+              <p className={`text-2xl font-bold mt-2 ${balance < 0 ? 'text-red-600' : isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+                {FinancialController.formatCurrency(balance, account.currency, locale)}
+              </p>
+              {unconverted > 0 && (
+                <p className="text-xs text-yellow-500 mt-1">{t('accounts.unconverted', { count: unconverted })}</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex flex-col md:flex-row gap-2">
+        <input
+          type="text"
+          placeholder={t('accounts.name')}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className={`flex-1 ${inputClass}`}
+          required
+        />
+        <select value={type} onChange={(e) => setType(e.target.value as AccountType)} className={inputClass}>
+          {(Object.keys(ACCOUNT_TYPE_LABELS) as AccountType[]).map(value => (
+            <option key={value} value={value}>{t(ACCOUNT_TYPE_LABELS[value])}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          step="0.01"
+          placeholder={t('accounts.openingBalance')}
+          value={openingBalance}
+          onChange={(e) => setOpeningBalance(e.target.value)}
+          className={`flex-1 ${inputClass}`}
+        />
+        <select value={currency} onChange={(e) => setCurrency(e.target.value)} className={inputClass}>
+          {CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+        </select>
+        <button
+          type="submit"
+          className="px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-lg hover:from-blue-600 hover:to-purple-700 transition-all shadow-md text-sm"
+        >
+          {t('accounts.save')}
+        </button>
+        {editingId !== null && (
+          <button
+            type="button"
+            onClick={resetForm}
+            className={`px-4 py-2 rounded-lg text-sm ${isDarkMode ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-700'}`}
+          >
+            {t('form.cancel')}
+          </button>
+        )}
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { Download, Upload } from 'lucide-react';
+import type { Locale, IBackupFile, RestoreMode, BackupEntity, MergeReport } from '../types';
+import { I18nService } from '../i18n/I18nService';
+import { BackupError, BackupService } from '../services/BackupService';
+import { RESTORE_MODE_LABELS, RESTORE_MODE_HELP, BACKUP_ENTITY_LABELS, BACKUP_ERROR_LABELS } from './labels';
+
+interface IBackupManagerProps {
+  isDarkMode: boolean;
+  locale: Locale;
+  onDownload: () => void;
+  onRestore: (backup: IBackupFile, mode: RestoreMode) => Promise<MergeReport | null>; // null after a replace
+  onClose: () => void;
+}
+
+// Backup Manager - Download a backup file, or restore one by replacing or merging with the current data
+export function BackupManager({ isDarkMode, locale, onDownload, onRestore, onClose }: IBackupManagerProps) {
+  const t = I18nService.getTranslator(locale);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [report, setReport] = useState<MergeReport | null>(null);
+  const [restored, setRestored] = useState<boolean>(false);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const backup = BackupService.parse(await file.text());
+      const date = backup.createdAt ? new Date(backup.createdAt).toLocaleString(locale) : file.name;
+      if (mode === 'replace' && !window.confirm(t('backup.confirmReplace', { date }))) return;
+      setReport(await onRestore(backup, mode));
+      setRestored(true);
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      window.alert(t(BACKUP_ERROR_LABELS[error instanceof BackupError ? error.code : 'invalidFile']));
+    }
+  };
+
+  const textClass = isDarkMode ? 'text-gray-300' : 'text-gray-700';
+  const mutedClass = `text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`;
+  const headingClass = `text-sm font-semibold uppercase mb-2 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`;
+
+  return (
+    <div className="modal-backdrop fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className={`modal-content ${isDarkMode ? 'bg-gray-800' : 'bg-white'} rounded-2xl p-6 w-full max-w-xl max-h-[90vh] overflow-y-auto shadow-2xl`}>
+        <h2 className={`text-2xl font-bold mb-6 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+          {t('backup.title')}
+        </h2>
+
+        <div className="mb-6">
+          <p className={`${mutedClass} mb-3`}>{t('backup.downloadHelp')}</p>
+          <button
+            type="button"
+            onClick={onDownload}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-lg text-sm"
+          >
+            <Download className="w-4 h-4" />
+            {t('backup.download')}
+          </button>
+        </div>
+
+        <div className="mb-6">
+          <h3 className={headingClass}>{t('backup.restore')}</h3>
+          <div className="space-y-2 mb-3">
+            {(['merge', 'replace'] as RestoreMode[]).map(option => (
+              <label key={option} className={`flex gap-2 text-sm cursor-pointer ${textClass}`}>
+                <input
+                  type="radio"
+                  name="restoreMode"
+                  checked={mode === option}
+                  onChange={() => setMode(option)}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="font-medium">{t(RESTORE_MODE_LABELS[option])}</span>
+                  <span className={`block ${mutedClass}`}>{t(RESTORE_MODE_HELP[option])}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+          <label className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm cursor-pointer ${isDarkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}>
+            <Upload className="w-4 h-4" />
+            {t('backup.chooseFile')}
+            <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+          </label>
+        </div>
+
+        {restored && !report && <p className="text-sm text-green-500 mb-6">{t('backup.replaced')}</p>}
+
+        {report && (
+          <div className="mb-6">
+            <h3 className={headingClass}>{t('backup.report')}</h3>
+            <table>
+              <thead>
+                <tr className={mutedClass}>
+                  <th className="text-left font-medium py-1"></th>
+                  <th className="text-right font-medium py-1">{t('backup.added')}</th>
+                  <th className="text-right font-medium py-1">{t('backup.updated')}</th>
+                  <th className="text-right font-medium py-1">{t('backup.skipped')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(Object.keys(BACKUP_ENTITY_LABELS) as BackupEntity[]).map(entity => (
+                  <tr key={entity} className={`text-sm ${textClass}`}>
+                    <td className="py-1">{t(BACKUP_ENTITY_LABELS[entity])}</td>
+                    <td className="py-1 text-right">{report[entity].added}</td>
+                    <td className="py-1 text-right">{report[entity].updated}</td>
+                    <td className="py-1 text-right">{report[entity].skipped}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={onClose}
+          className={`w-full px-4 py-2.5 rounded-lg border ${isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+            } transition-colors`}
+        >
+          {t('backup.close')}
+        </button>
+      </div>
+    </div>
+  );
+}
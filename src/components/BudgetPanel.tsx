@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Edit2, Trash2 } from 'lucide-react';
+import type { IBudget, BudgetState, IBudgetStatus, Locale } from '../types';
+import { I18nService } from '../i18n/I18nService';
+import { FinancialController } from '../controller/FinancialController';
+
+interface IBudgetPanelProps {
+  isDarkMode: boolean;
+  locale: Locale;
+  currency: string;
+  statuses: IBudgetStatus[];
+  categories: string[];
+  onSave: (budget: Omit<IBudget, 'id' | 'startMonth'>) => void;
+  onDelete: (id: number) => void;
+}
+
+// Budget Panel - Spending against each category's monthly limit
+export function BudgetPanel({ isDarkMode, locale, currency, statuses, categories, onSave, onDelete }: IBudgetPanelProps) {
+  const [category, setCategory] = useState<string>('');
+  const [limit, setLimit] = useState<string>('');
+  const [rollover, setRollover] = useState<boolean>(false);
+
+  const t = I18nService.getTranslator(locale);
+  const monthLabel = new Date().toLocaleDateString(locale, { month: 'long', year: 'numeric' });
+  const format = (value: number) => FinancialController.formatCurrency(value, currency, locale);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({ category, limit: parseFloat(limit), rollover });
+    setCategory('');
+    setLimit('');
+    setRollover(false);
+  };
+
+  const handleEdit = (budget: IBudget) => {
+    setCategory(budget.category);
+    setLimit(budget.limit.toString());
+    setRollover(budget.rollover);
+  };
+
+  const barColor: Record<BudgetState, string> = {
+    ok: 'bg-green-500',
+    warning: 'bg-yellow-500',
+    exceeded: 'bg-red-500',
+  };
+
+  const inputClass = `px-3 py-2 rounded-lg border text-sm ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-gray-50 border-gray-200 text-gray-900'
+    } focus:outline-none focus:ring-2 focus:ring-blue-500`;
+
+  return (
+    <div className={`${isDarkMode ? 'bg-gray-800' : 'bg-white'} rounded-2xl p-6 shadow-lg mb-8`}>
+      <h2 className={`text-xl font-bold mb-4 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+        {t('budget.title', { month: monthLabel })}
+      </h2>
+
+      <div className="space-y-4 mb-6">
+        {statuses.map(({ budget, spent, available, remaining, ratio, state, carriedOver, dailyAllowance }) => (
+          <div key={budget.id}>
+            <div className="flex items-center justify-between text-sm mb-1">
+              <span className={`font-medium ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+                {I18nService.translateCategory(locale, budget.category)}
+                {state === 'warning' && <span className="ml-2 text-yellow-500">{t('budget.warning', { percent: (ratio * 100).toFixed(0) })}</span>}
+                {state === 'exceeded' && <span className="ml-2 text-red-500">{t('budget.exceeded')}</span>}
+              </span>
+              <span className={isDarkMode ? 'text-gray-300' : 'text-gray-600'}>
+                {format(spent)} / {format(available)}
+              </span>
+            </div>
+            <div className={`h-2.5 rounded-full overflow-hidden ${isDarkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+              <div className={`h-full ${barColor[state]}`} style={{ width: `${Math.min(100, ratio * 100)}%` }} />
+            </div>
+            <div className={`flex items-center justify-between text-xs mt-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              <span>
+                {remaining >= 0
+                  ? t('budget.remaining', { amount: format(remaining), daily: format(dailyAllowance) })
+                  : t('budget.over', { amount: format(-remaining) })}
+                {carriedOver > 0 && t('budget.carriedOver', { amount: format(carriedOver) })}
+              </span>
+              <span className="flex gap-1">
+                <button onClick={() => handleEdit(budget)} className="p-1 hover:text-blue-500" title={t('budget.edit')}>
+                  <Edit2 className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => onDelete(budget.id)} className="p-1 hover:text-red-500" title={t('budget.remove')}>
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </span>
+            </div>
+          </div>
+        ))}
+        {statuses.length === 0 && (
+          <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            {t('budget.empty')}
+          </p>
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex flex-col md:flex-row gap-2">
+        <select value={category} onChange={(e) => setCategory(e.target.value)} className={`flex-1 ${inputClass}`} required>
+          <option value="">{t('budget.category')}</option>
+          {categories.map(cat => (
+            <option key={cat} value={cat}>{I18nService.translateCategory(locale, cat)}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          step="0.01"
+          min="0.01"
+          placeholder={t('budget.limit')}
+          value={limit}
+          onChange={(e) => setLimit(e.target.value)}
+          className={`flex-1 ${inputClass}`}
+          required
+        />
+        <label className={`flex items-center gap-2 text-sm px-2 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+          <input type="checkbox" checked={rollover} onChange={(e) => setRollover(e.target.checked)} />
+          {t('budget.rollover')}
+        </label>
+        <button
+          type="submit"
+          className="px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-lg hover:from-blue-600 hover:to-purple-700 transition-all shadow-md text-sm"
+        >
+          {t('budget.save')}
+        </button>
+      </form>
+    </div>
+  );
+}
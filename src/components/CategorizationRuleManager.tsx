@@ -0,0 +1,273 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, ArrowUp, ArrowDown } from 'lucide-react';
+import type {
+  TransactionType, CategoryType, RuleMatchMode, ICategorizationChange, ICategorizationSuggestion, Locale,
+} from '../types';
+import { I18nService } from '../i18n/I18nService';
+import { CategorizationRuleModel } from '../models/CategorizationRuleModel';
+import { CategoryModel } from '../models/CategoryModel';
+import { ValidationService } from '../services/ValidationService';
+import { FinancialController } from '../controller/FinancialController';
+import { RULE_MATCH_LABELS } from './labels';
+
+interface ICategorizationRuleManagerProps {
+  isDarkMode: boolean;
+  locale: Locale;
+  rules: CategorizationRuleModel[];
+  categories: CategoryModel[];
+  suggestions: ICategorizationSuggestion[];
+  preview: ICategorizationChange[];
+  onChange: (rules: CategorizationRuleModel[]) => void;
+  onApplyPreview: () => void;
+  onClose: () => void;
+}
+
+// Categorization Rule Manager - Ordered rules, rules learned from history and a preview of re-running them
+export function CategorizationRuleManager({
+  isDarkMode, locale, rules, categories, suggestions, preview, onChange, onApplyPreview, onClose,
+}: ICategorizationRuleManagerProps) {
+  const t = I18nService.getTranslator(locale);
+  const [match, setMatch] = useState<RuleMatchMode>('contains');
+  const [pattern, setPattern] = useState<string>('');
+  const [minAmount, setMinAmount] = useState<string>('');
+  const [maxAmount, setMaxAmount] = useState<string>('');
+  const [type, setType] = useState<CategoryType>('expense');
+  const [category, setCategory] = useState<string>('');
+  const [tags, setTags] = useState<string>('');
+
+  const categoryLabel = (categoryType: TransactionType, name: string) =>
+    FinancialController.getCategoryPath(categories, categoryType, name)
+      .map(part => I18nService.translateCategory(locale, part))
+      .join(' › ');
+
+  const parseAmount = (value: string) => value === '' ? null : parseFloat(value);
+
+  // e.g. contains "uber", 10,00–50,00
+  const describe = (rule: CategorizationRuleModel) => {
+    const parts = [rule.pattern ? t(RULE_MATCH_LABELS[rule.match], { pattern: rule.pattern }) : t('rules.anyDescription')];
+    if (rule.minAmount !== null || rule.maxAmount !== null) {
+      parts.push(t('rules.amountRange', {
+        min: rule.minAmount !== null ? String(rule.minAmount) : '…',
+        max: rule.maxAmount !== null ? String(rule.maxAmount) : '…',
+      }));
+    }
+    return parts.join(' · ');
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!CategorizationRuleModel.isValidPattern(match, pattern)) {
+      window.alert(t('rules.invalidPattern'));
+      return;
+    }
+    const min = parseAmount(minAmount);
+    const max = parseAmount(maxAmount);
+    if (min !== null && max !== null && min > max) {
+      window.alert(t('rules.invalidRange'));
+      return;
+    }
+    onChange(FinancialController.addCategorizationRule(rules, {
+      match, pattern: pattern.trim(), minAmount: min, maxAmount: max, type, category,
+      tags: ValidationService.parseTags(tags),
+    }));
+    setPattern('');
+    setMinAmount('');
+    setMaxAmount('');
+    setTags('');
+  };
+
+  const handleAddSuggestion = (suggestion: ICategorizationSuggestion) => {
+    onChange(FinancialController.addCategorizationRule(rules, {
+      match: 'contains', pattern: suggestion.pattern, minAmount: null, maxAmount: null,
+      type: suggestion.type, category: suggestion.category, tags: [],
+    }));
+  };
+
+  const inputClass = `px-3 py-2 rounded-lg border text-sm ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-gray-50 border-gray-200 text-gray-900'
+    } focus:outline-none focus:ring-2 focus:ring-blue-500`;
+  const headingClass = `text-sm font-semibold uppercase mb-2 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`;
+  const mutedClass = `text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`;
+  const iconButtonClass = `p-1.5 rounded-lg disabled:opacity-40 ${isDarkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'}`;
+
+  return (
+    <div className="modal-backdrop fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className={`modal-content ${isDarkMode ? 'bg-gray-800' : 'bg-white'} rounded-2xl p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto shadow-2xl`}>
+        <h2 className={`text-2xl font-bold mb-2 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+          {t('rules.title')}
+        </h2>
+        <p className={`${mutedClass} mb-6`}>{t('rules.help')}</p>
+
+        <form onSubmit={handleCreate} className="flex flex-wrap gap-2 mb-6">
+          <select value={match} onChange={(e) => setMatch(e.target.value as RuleMatchMode)} className={inputClass}>
+            <option value="contains">{t('rules.match.contains.option')}</option>
+            <option value="regex">{t('rules.match.regex.option')}</option>
+          </select>
+          <input
+            type="text"
+            placeholder={t('rules.pattern')}
+            value={pattern}
+            onChange={(e) => setPattern(e.target.value)}
+            className={`flex-1 min-w-40 ${inputClass}`}
+          />
+          <input
+            type="number"
+            step="0.01"
+            placeholder={t('rules.minAmount')}
+            value={minAmount}
+            onChange={(e) => setMinAmount(e.target.value)}
+            className={`w-28 ${inputClass}`}
+          />
+          <input
+            type="number"
+            step="0.01"
+            placeholder={t('rules.maxAmount')}
+            value={maxAmount}
+            onChange={(e) => setMaxAmount(e.target.value)}
+            className={`w-28 ${inputClass}`}
+          />
+          <select
+            value={type}
+            onChange={(e) => { setType(e.target.value as CategoryType); setCategory(''); }}
+            className={inputClass}
+          >
+            <option value="expense">{t('type.expense')}</option>
+            <option value="income">{t('type.income')}</option>
+          </select>
+          <select value={category} onChange={(e) => setCategory(e.target.value)} className={inputClass} required>
+            <option value="">{t('form.select')}</option>
+            {FinancialController.getCategoryOptions(categories, type).map(cat => (
+              <option key={cat.id} value={cat.name}>{categoryLabel(cat.type, cat.name)}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            placeholder={t('form.tagsPlaceholder')}
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            className={`w-40 ${inputClass}`}
+            title={t('field.tags')}
+          />
+          <button
+            type="submit"
+            className="px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-lg text-sm"
+          >
+            {t('rules.add')}
+          </button>
+        </form>
+
+        <div className="mb-6">
+          <h3 className={headingClass}>{t('rules.list')}</h3>
+          {rules.length === 0 ? (
+            <p className={mutedClass}>{t('rules.empty')}</p>
+          ) : (
+            <div className="space-y-2">
+              {rules.map((rule, index) => (
+                <div key={rule.id} className={`flex flex-wrap items-center gap-2 text-sm ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+                  <span className={`w-6 text-right ${mutedClass}`}>{index + 1}.</span>
+                  <span className="flex-1 min-w-40">{describe(rule)}</span>
+                  <span className="font-medium">→ {categoryLabel(rule.type, rule.category)}</span>
+                  {rule.tags.map(tag => (
+                    <span key={tag} className={`px-2 py-0.5 rounded-full text-xs ${isDarkMode ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-600'}`}>
+                      #{tag}
+                    </span>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => onChange(FinancialController.moveCategorizationRule(rules, rule.id, -1))}
+                    disabled={index === 0}
+                    className={iconButtonClass}
+                    title={t('rules.moveUp')}
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onChange(FinancialController.moveCategorizationRule(rules, rule.id, 1))}
+                    disabled={index === rules.length - 1}
+                    className={iconButtonClass}
+                    title={t('rules.moveDown')}
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onChange(rules.filter(r => r.id !== rule.id))}
+                    className={`${iconButtonClass} hover:text-red-500`}
+                    title={t('rules.delete')}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {suggestions.length > 0 && (
+          <div className="mb-6">
+            <h3 className={headingClass}>{t('rules.suggestions')}</h3>
+            <div className="space-y-2">
+              {suggestions.map(suggestion => (
+                <div
+                  key={`${suggestion.type}|${suggestion.pattern}`}
+                  className={`flex flex-wrap items-center gap-2 text-sm ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}
+                >
+                  <span className="flex-1 min-w-40">
+                    {t('rules.match.contains', { pattern: suggestion.pattern })}
+                    {' → '}
+                    <span className="font-medium">{categoryLabel(suggestion.type, suggestion.category)}</span>
+                  </span>
+                  <span className={mutedClass}>{t('rules.suggestionCount', { count: suggestion.count })}</span>
+                  <button
+                    type="button"
+                    onClick={() => handleAddSuggestion(suggestion)}
+                    className={`${iconButtonClass} hover:text-blue-500`}
+                    title={t('rules.add')}
+                  >
+                    <Plus className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="mb-6">
+          <h3 className={headingClass}>{t('rules.preview')}</h3>
+          {preview.length === 0 ? (
+            <p className={mutedClass}>{t('rules.previewEmpty')}</p>
+          ) : (
+            <>
+              <div className="max-h-60 overflow-y-auto space-y-1 mb-3">
+                {preview.map(({ before, after }) => (
+                  <div key={before.id} className={`flex flex-wrap gap-2 text-sm ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+                    <span className={`w-24 ${mutedClass}`}>{before.getFormattedDate(locale)}</span>
+                    <span className="flex-1 min-w-40 truncate">{before.description}</span>
+                    <span className={mutedClass}>{categoryLabel(before.type, before.category)}</span>
+                    <span>→ {categoryLabel(after.type, after.category)}</span>
+                  </div>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={onApplyPreview}
+                className="px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-lg text-sm"
+              >
+                {t('rules.apply', { count: preview.length })}
+              </button>
+            </>
+          )}
+        </div>
+
+        <button
+          type="button"
+          onClick={onClose}
+          className={`w-full px-4 py-2.5 rounded-lg border ${isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+            } transition-colors`}
+        >
+          {t('categories.close')}
+        </button>
+      </div>
+    </div>
+  );
+}
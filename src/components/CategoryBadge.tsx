@@ -0,0 +1,20 @@
+import { Tag } from 'lucide-react';
+import { DEFAULT_CATEGORY_ICON, DEFAULT_CATEGORY_COLOR } from '../constants';
+import { CategoryModel } from '../models/CategoryModel';
+import { CATEGORY_ICONS } from './labels';
+
+interface ICategoryBadgeProps {
+  category?: CategoryModel;
+  label: string;
+}
+
+// Category Badge - Category icon in the category's color, followed by its label
+export function CategoryBadge({ category, label }: ICategoryBadgeProps) {
+  const Icon = CATEGORY_ICONS[category?.icon ?? DEFAULT_CATEGORY_ICON] ?? Tag;
+  return (
+    <span className="inline-flex items-center gap-1.5">
+      <Icon className="w-4 h-4 shrink-0" style={{ color: category?.color ?? DEFAULT_CATEGORY_COLOR }} />
+      {label}
+    </span>
+  );
+}
@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { Archive, ArchiveRestore } from 'lucide-react';
+import type { TransactionType, CategoryType, ICategory, CategoryChanges, Locale } from '../types';
+import { DEFAULT_CATEGORY_ICON } from '../constants';
+import { I18nService } from '../i18n/I18nService';
+import { CategoryModel } from '../models/CategoryModel';
+import { FinancialController } from '../controller/FinancialController';
+import { CATEGORY_ICONS } from './labels';
+import { CategoryBadge } from './CategoryBadge';
+
+interface ICategoryManagerProps {
+  isDarkMode: boolean;
+  locale: Locale;
+  categories: CategoryModel[];
+  onCreate: (data: Omit<ICategory, 'id' | 'archived'>) => void;
+  onUpdate: (id: number, changes: CategoryChanges) => void;
+  onRename: (id: number, name: string) => void;
+  onMerge: (sourceId: number, targetId: number) => void;
+  onClose: () => void;
+}
+
+// Category Manager - Create, rename, nest, merge and archive categories
+export function CategoryManager({ isDarkMode, locale, categories, onCreate, onUpdate, onRename, onMerge, onClose }: ICategoryManagerProps) {
+  const t = I18nService.getTranslator(locale);
+  const [name, setName] = useState<string>('');
+  const [type, setType] = useState<CategoryType>('expense');
+  const [parentId, setParentId] = useState<number | null>(null);
+  const [icon, setIcon] = useState<string>(DEFAULT_CATEGORY_ICON);
+  // null until picked, so each new category gets the next free palette color
+  const [color, setColor] = useState<string | null>(null);
+
+  const topLevel = (categoryType: TransactionType) =>
+    categories.filter(c => c.type === categoryType && !c.isSubcategory());
+
+  // Parents followed by their subcategories, archived ones included
+  const tree = (categoryType: TransactionType) =>
+    topLevel(categoryType).flatMap(parent => [parent, ...categories.filter(c => c.parentId === parent.id)]);
+
+  const label = (category: CategoryModel) =>
+    FinancialController.getCategoryPath(categories, category.type, category.name).join(' › ');
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (FinancialController.findCategory(categories, type, name.trim())) {
+      window.alert(t('categories.duplicate', { name: name.trim() }));
+      return;
+    }
+    onCreate({ name, type, parentId, icon, color: color ?? FinancialController.getNextCategoryColor(categories) });
+    setName('');
+    setColor(null);
+  };
+
+  const inputClass = `px-3 py-2 rounded-lg border text-sm ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-gray-50 border-gray-200 text-gray-900'
+    } focus:outline-none focus:ring-2 focus:ring-blue-500`;
+
+  return (
+    <div className="modal-backdrop fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className={`modal-content ${isDarkMode ? 'bg-gray-800' : 'bg-white'} rounded-2xl p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto shadow-2xl`}>
+        <h2 className={`text-2xl font-bold mb-6 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+          {t('categories.title')}
+        </h2>
+
+        <form onSubmit={handleCreate} className="flex flex-wrap gap-2 mb-6">
+          <input
+            type="text"
+            placeholder={t('categories.name')}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className={`flex-1 ${inputClass}`}
+            required
+          />
+          <select
+            value={type}
+            onChange={(e) => { setType(e.target.value as CategoryType); setParentId(null); }}
+            className={inputClass}
+          >
+            <option value="expense">{t('type.expense')}</option>
+            <option value="income">{t('type.income')}</option>
+          </select>
+          <select
+            value={parentId ?? ''}
+            onChange={(e) => setParentId(e.target.value === '' ? null : Number(e.target.value))}
+            className={inputClass}
+            title={t('categories.parent')}
+          >
+            <option value="">{t('categories.noParent')}</option>
+            {topLevel(type).map(parent => (
+              <option key={parent.id} value={parent.id}>{parent.name}</option>
+            ))}
+          </select>
+          <select value={icon} onChange={(e) => setIcon(e.target.value)} className={inputClass} title={t('categories.icon')}>
+            {Object.keys(CATEGORY_ICONS).map(iconName => <option key={iconName} value={iconName}>{iconName}</option>)}
+          </select>
+          <input
+            type="color"
+            value={color ?? FinancialController.getNextCategoryColor(categories)}
+            onChange={(e) => setColor(e.target.value)}
+            className="w-10 h-10 rounded-lg cursor-pointer"
+            title={t('categories.color')}
+          />
+          <button
+            type="submit"
+            className="px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-lg text-sm"
+          >
+            {t('categories.add')}
+          </button>
+        </form>
+
+        {(['expense', 'income'] as TransactionType[]).map(categoryType => (
+          <div key={categoryType} className="mb-6">
+            <h3 className={`text-sm font-semibold uppercase mb-2 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              {t(categoryType === 'income' ? 'summary.income' : 'summary.expense')}
+            </h3>
+            <div className="space-y-2">
+              {tree(categoryType).map(category => {
+                const hasChildren = categories.some(c => c.parentId === category.id);
+                return (
+                  <div
+                    key={category.id}
+                    className={`flex flex-wrap items-center gap-2 ${category.isSubcategory() ? 'pl-8' : ''} ${category.archived ? 'opacity-50' : ''}`}
+                  >
+                    <CategoryBadge category={category} label="" />
+                    <input
+                      type="color"
+                      value={category.color}
+                      onChange={(e) => onUpdate(category.id, { color: e.target.value })}
+                      className="w-8 h-8 rounded cursor-pointer"
+                      title={t('categories.color')}
+                    />
+                    <select
+                      value={category.icon}
+                      onChange={(e) => onUpdate(category.id, { icon: e.target.value })}
+                      className={inputClass}
+                      title={t('categories.icon')}
+                    >
+                      {Object.keys(CATEGORY_ICONS).map(iconName => <option key={iconName} value={iconName}>{iconName}</option>)}
+                    </select>
+                    <input
+                      key={category.name}
+                      type="text"
+                      defaultValue={category.name}
+                      onBlur={(e) => {
+                        const newName = e.target.value.trim();
+                        if (newName && newName !== category.name) onRename(category.id, newName);
+                        // A successful rename remounts this input; otherwise show the current name again
+                        e.target.value = category.name;
+                      }}
+                      className={`flex-1 min-w-32 ${inputClass}`}
+                      title={t('categories.name')}
+                    />
+                    <select
+                      value={category.parentId ?? ''}
+                      onChange={(e) => onUpdate(category.id, { parentId: e.target.value === '' ? null : Number(e.target.value) })}
+                      disabled={hasChildren}
+                      className={inputClass}
+                      title={t('categories.parent')}
+                    >
+                      <option value="">{t('categories.noParent')}</option>
+                      {topLevel(categoryType).filter(parent => parent !== category).map(parent => (
+                        <option key={parent.id} value={parent.id}>{parent.name}</option>
+                      ))}
+                    </select>
+                    <select
+                      value=""
+                      onChange={(e) => e.target.value !== '' && onMerge(category.id, Number(e.target.value))}
+                      className={inputClass}
+                    >
+                      <option value="">{t('categories.mergeInto')}</option>
+                      {tree(categoryType).filter(target => target !== category).map(target => (
+                        <option key={target.id} value={target.id}>{label(target)}</option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => onUpdate(category.id, { archived: !category.archived })}
+                      className={`p-2 rounded-lg ${isDarkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'}`}
+                      title={category.archived ? t('categories.unarchive') : t('categories.archive')}
+                    >
+                      {category.archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+
+        <button
+          type="button"
+          onClick={onClose}
+          className={`w-full px-4 py-2.5 rounded-lg border ${isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+            } transition-colors`}
+        >
+          {t('categories.close')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import React, { useState, useMemo } from 'react';
+import type {
+  CsvField, CsvDateFormat, DecimalSeparator, ICsvImportOptions, CsvTransaction, ICsvPreviewRow, Locale,
+} from '../types';
+import { I18nService } from '../i18n/I18nService';
+import { CsvService } from '../services/CsvService';
+import { FinancialController } from '../controller/FinancialController';
+import { CSV_FIELD_LABELS } from './labels';
+
+interface ICsvImportWizardProps {
+  isDarkMode: boolean;
+  locale: Locale;
+  onImport: (rows: CsvTransaction[]) => void;
+  onClose: () => void;
+}
+
+// CSV Import Wizard - File selection, column mapping and validated preview
+export function CsvImportWizard({ isDarkMode, locale, onImport, onClose }: ICsvImportWizardProps) {
+  const t = I18nService.getTranslator(locale);
+  const [rows, setRows] = useState<string[][] | null>(null);
+  const [options, setOptions] = useState<ICsvImportOptions>({
+    mapping: { date: null, description: null, category: null, type: null, amount: null, currency: null },
+    dateFormat: 'dd/mm/yyyy',
+    decimalSeparator: ',',
+    hasHeader: true,
+  });
+
+  const preview = useMemo<ICsvPreviewRow[]>(() => {
+    return rows ? FinancialController.buildCsvPreview(rows, options) : [];
+  }, [rows, options]);
+
+  const validRows = preview.filter(r => r.data !== null);
+  const columnCount = rows ? Math.max(...rows.map(r => r.length)) : 0;
+  const columnNames = rows && options.hasHeader
+    ? rows[0]
+    : Array.from({ length: columnCount }, (_, i) => t('csv.column', { index: i + 1 }));
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const parsed = CsvService.parse(await file.text());
+    setRows(parsed);
+    setOptions(prev => ({ ...prev, mapping: FinancialController.guessCsvMapping(parsed[0] ?? []) }));
+  };
+
+  const inputClass = `w-full px-3 py-2 rounded-lg border text-sm ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-gray-50 border-gray-200 text-gray-900'
+    } focus:outline-none focus:ring-2 focus:ring-blue-500`;
+  const labelClass = `block text-sm font-medium mb-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`;
+
+  return (
+    <div className="modal-backdrop fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className={`modal-content ${isDarkMode ? 'bg-gray-800' : 'bg-white'} rounded-2xl p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto shadow-2xl`}>
+        <h2 className={`text-2xl font-bold mb-6 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+          {t('csv.title')}
+        </h2>
+
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleFileChange}
+          className={`block w-full text-sm mb-6 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}
+        />
+
+        {rows && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-4 mb-4">
+              {(Object.keys(CSV_FIELD_LABELS) as CsvField[]).map(field => (
+                <div key={field}>
+                  <label className={labelClass}>{t(CSV_FIELD_LABELS[field])}</label>
+                  <select
+                    value={options.mapping[field] ?? ''}
+                    onChange={(e) => setOptions({
+                      ...options,
+                      mapping: { ...options.mapping, [field]: e.target.value === '' ? null : Number(e.target.value) },
+                    })}
+                    className={inputClass}
+                  >
+                    <option value="">{t('csv.ignore')}</option>
+                    {columnNames.map((name, index) => (
+                      <option key={index} value={index}>{name || t('csv.column', { index: index + 1 })}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+              <div>
+                <label className={labelClass}>{t('csv.dateFormat')}</label>
+                <select
+                  value={options.dateFormat}
+                  onChange={(e) => setOptions({ ...options, dateFormat: e.target.value as CsvDateFormat })}
+                  className={inputClass}
+                >
+                  <option value="dd/mm/yyyy">{t('csv.dateDmy')}</option>
+                  <option value="mm/dd/yyyy">{t('csv.dateMdy')}</option>
+                  <option value="yyyy-mm-dd">{t('csv.dateYmd')}</option>
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>{t('csv.decimalSeparator')}</label>
+                <select
+                  value={options.decimalSeparator}
+                  onChange={(e) => setOptions({ ...options, decimalSeparator: e.target.value as DecimalSeparator })}
+                  className={inputClass}
+                >
+                  <option value=",">{t('csv.comma')}</option>
+                  <option value=".">{t('csv.dot')}</option>
+                </select>
+              </div>
+              <label className={`flex items-center gap-2 text-sm mt-6 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                <input
+                  type="checkbox"
+                  checked={options.hasHeader}
+                  onChange={(e) => setOptions({ ...options, hasHeader: e.target.checked })}
+                />
+                {t('csv.hasHeader')}
+              </label>
+            </div>
+
+            <p className={`text-sm mb-2 ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+              {t('csv.validRows', { valid: validRows.length, total: preview.length })}
+            </p>
+            <div className="overflow-x-auto max-h-80 overflow-y-auto mb-6">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className={`${isDarkMode ? 'bg-gray-700 text-gray-300' : 'bg-gray-50 text-gray-700'}`}>
+                    <th className="px-3 py-2 text-left font-semibold">{t('csv.line')}</th>
+                    <th className="px-3 py-2 text-left font-semibold">{t('field.date')}</th>
+                    <th className="px-3 py-2 text-left font-semibold">{t('field.description')}</th>
+                    <th className="px-3 py-2 text-left font-semibold">{t('field.category')}</th>
+                    <th className="px-3 py-2 text-left font-semibold">{t('field.type')}</th>
+                    <th className="px-3 py-2 text-right font-semibold">{t('field.amount')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.map(row => (
+                    <tr key={row.line} className={isDarkMode ? 'text-gray-300' : 'text-gray-700'}>
+                      <td className="px-3 py-2">{row.line}</td>
+                      {row.data ? (
+                        <>
+                          <td className="px-3 py-2">{row.data.date.toLocaleDateString(locale, { timeZone: 'UTC' })}</td>
+                          <td className="px-3 py-2">{row.data.description}</td>
+                          <td className="px-3 py-2">{I18nService.translateCategory(locale, row.data.category)}</td>
+                          <td className="px-3 py-2">{t(`type.${row.data.type}`)}</td>
+                          <td className="px-3 py-2 text-right">{FinancialController.formatCurrency(row.data.amount, row.data.currency, locale)}</td>
+                        </>
+                      ) : (
+                        <td colSpan={5} className="px-3 py-2 text-red-500">{row.errors.map(error => t(error)).join(', ')}</td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className={`flex-1 px-4 py-2.5 rounded-lg border ${isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              } transition-colors`}
+          >
+            {t('form.cancel')}
+          </button>
+          <button
+            type="button"
+            disabled={validRows.length === 0}
+            onClick={() => onImport(validRows.map(r => r.data!))}
+            className="flex-1 px-4 py-2.5 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-lg hover:from-blue-600 hover:to-purple-700 transition-all shadow-md disabled:opacity-50"
+          >
+            {t('csv.import', { count: validRows.length })}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
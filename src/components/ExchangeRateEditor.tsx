@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { Trash2, Upload } from 'lucide-react';
+import type { IExchangeRate, Locale } from '../types';
+import { DEFAULT_CURRENCY, CURRENCIES } from '../constants';
+import { I18nService } from '../i18n/I18nService';
+import { ExchangeRateModel } from '../models/ExchangeRateModel';
+import { FinancialController } from '../controller/FinancialController';
+
+interface IExchangeRateEditorProps {
+  isDarkMode: boolean;
+  locale: Locale;
+  rates: ExchangeRateModel[];
+  onChange: (rates: ExchangeRateModel[]) => void;
+  onClose: () => void;
+}
+
+// Exchange Rate Editor - Dated rate table, editable by hand or imported from CSV
+export function ExchangeRateEditor({ isDarkMode, locale, rates, onChange, onClose }: IExchangeRateEditorProps) {
+  const t = I18nService.getTranslator(locale);
+  const [draft, setDraft] = useState<IExchangeRate>({
+    date: new Date().toISOString().split('T')[0],
+    from: 'USD',
+    to: DEFAULT_CURRENCY,
+    rate: 0,
+  });
+
+  const sortedRates = [...rates].sort((a, b) => b.date.localeCompare(a.date) || a.from.localeCompare(b.from));
+
+  // Adding a rate for an existing date and pair replaces it
+  const upsert = (list: ExchangeRateModel[], rate: ExchangeRateModel) => [
+    ...list.filter(r => !(r.date === rate.date && r.from === rate.from && r.to === rate.to)),
+    rate,
+  ];
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    onChange(upsert(rates, new ExchangeRateModel(draft.date, draft.from, draft.to, draft.rate)));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const imported = FinancialController.parseExchangeRatesCsv(await file.text());
+    onChange(imported.reduce(upsert, rates));
+    window.alert(t('rates.imported', { count: imported.length }));
+  };
+
+  const handleRateChange = (rate: ExchangeRateModel, value: string) => {
+    onChange(rates.map(r => r === rate ? new ExchangeRateModel(r.date, r.from, r.to, value) : r));
+  };
+
+  const inputClass = `px-3 py-2 rounded-lg border text-sm ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-gray-50 border-gray-200 text-gray-900'
+    } focus:outline-none focus:ring-2 focus:ring-blue-500`;
+
+  return (
+    <div className="modal-backdrop fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className={`modal-content ${isDarkMode ? 'bg-gray-800' : 'bg-white'} rounded-2xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto shadow-2xl`}>
+        <h2 className={`text-2xl font-bold mb-2 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+          {t('rates.title')}
+        </h2>
+        <p className={`text-sm mb-6 ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+          {t('rates.hint')}
+        </p>
+
+        <form onSubmit={handleAdd} className="flex flex-wrap gap-2 mb-6">
+          <input
+            type="date"
+            value={draft.date}
+            onChange={(e) => setDraft({ ...draft, date: e.target.value })}
+            className={inputClass}
+            required
+          />
+          <select value={draft.from} onChange={(e) => setDraft({ ...draft, from: e.target.value })} className={inputClass}>
+            {CURRENCIES.map(currency => <option key={currency} value={currency}>{currency}</option>)}
+          </select>
+          <span className={`self-center ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>→</span>
+          <select value={draft.to} onChange={(e) => setDraft({ ...draft, to: e.target.value })} className={inputClass}>
+            {CURRENCIES.map(currency => <option key={currency} value={currency}>{currency}</option>)}
+          </select>
+          <input
+            type="number"
+            step="any"
+            min="0"
+            placeholder={t('rates.rate')}
+            value={draft.rate || ''}
+            onChange={(e) => setDraft({ ...draft, rate: parseFloat(e.target.value) })}
+            className={`w-28 ${inputClass}`}
+            required
+          />
+          <button
+            type="submit"
+            disabled={draft.from === draft.to}
+            className="px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-lg text-sm disabled:opacity-50"
+          >
+            {t('rates.add')}
+          </button>
+          <label className={`flex items-center gap-2 px-4 py-2 rounded-lg border text-sm cursor-pointer ${isDarkMode ? 'border-gray-600 text-gray-300' : 'border-gray-200 text-gray-700'}`}>
+            <Upload className="w-4 h-4" />
+            CSV
+            <input type="file" accept=".csv,text/csv" onChange={handleImport} className="hidden" />
+          </label>
+        </form>
+
+        <table className="w-full text-sm mb-6">
+          <thead>
+            <tr className={`${isDarkMode ? 'bg-gray-700 text-gray-300' : 'bg-gray-50 text-gray-700'}`}>
+              <th className="px-3 py-2 text-left font-semibold">{t('field.date')}</th>
+              <th className="px-3 py-2 text-left font-semibold">{t('rates.pair')}</th>
+              <th className="px-3 py-2 text-right font-semibold">{t('rates.rate')}</th>
+              <th className="px-3 py-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {sortedRates.map(rate => (
+              <tr key={`${rate.date}-${rate.from}-${rate.to}`} className={isDarkMode ? 'text-gray-300' : 'text-gray-700'}>
+                <td className="px-3 py-2">{new Date(rate.date).toLocaleDateString(locale, { timeZone: 'UTC' })}</td>
+                <td className="px-3 py-2">{rate.from} → {rate.to}</td>
+                <td className="px-3 py-2 text-right">
+                  <input
+                    type="number"
+                    step="any"
+                    min="0"
+                    value={rate.rate}
+                    onChange={(e) => handleRateChange(rate, e.target.value)}
+                    className={`w-28 text-right ${inputClass}`}
+                  />
+                </td>
+                <td className="px-3 py-2 text-right">
+                  <button
+                    onClick={() => onChange(rates.filter(r => r !== rate))}
+                    className={isDarkMode ? 'text-red-400' : 'text-red-600'}
+                    title={t('rates.remove')}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {rates.length === 0 && (
+          <p className={`text-center text-sm mb-6 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            {t('rates.empty')}
+          </p>
+        )}
+
+        <button
+          type="button"
+          onClick={onClose}
+          className={`w-full px-4 py-2.5 rounded-lg border ${isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+            } transition-colors`}
+        >
+          {t('rates.close')}
+        </button>
+      </div>
+    </div>
+  );
+}
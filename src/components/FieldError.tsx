@@ -0,0 +1,18 @@
+import type { ValidationErrorCode, Locale } from '../types';
+import { DESCRIPTION_MAX_LENGTH } from '../constants';
+import { I18nService } from '../i18n/I18nService';
+import { VALIDATION_ERROR_LABELS } from './labels';
+
+interface IFieldErrorProps {
+  locale: Locale;
+  code?: ValidationErrorCode;
+  max?: number; // length limit named by tooLong; the description's by default
+}
+
+// Field Error - The message under a form field that failed validation
+export function FieldError({ locale, code, max = DESCRIPTION_MAX_LENGTH }: IFieldErrorProps) {
+  const t = I18nService.getTranslator(locale);
+  if (!code) return null;
+
+  return <p className="mt-1 text-xs text-red-500">{t(VALIDATION_ERROR_LABELS[code], { max })}</p>;
+}
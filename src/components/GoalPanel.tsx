@@ -0,0 +1,241 @@
+import React, { useState, useMemo } from 'react';
+import { Edit2, Trash2, X, Target } from 'lucide-react';
+import type { ISavingsGoal, GoalFields, GoalFunding, GoalPace, IGoalStatus, Locale } from '../types';
+import { I18nService } from '../i18n/I18nService';
+import { TransactionModel } from '../models/TransactionModel';
+import { FinancialController } from '../controller/FinancialController';
+import { GOAL_PACE_LABELS } from './labels';
+
+interface IGoalPanelProps {
+  isDarkMode: boolean;
+  locale: Locale;
+  currency: string;
+  statuses: IGoalStatus[];
+  transactions: TransactionModel[]; // candidates to link, in the base currency
+  onSave: (goal: GoalFields, id: number | null) => void;
+  onFund: (id: number, funding: GoalFunding) => void;
+  onDelete: (id: number) => void;
+}
+
+// Goal Panel - Savings goals as cards: progress, the monthly contribution still needed and whether the
+// current pace gets there, with the transactions and manual contributions that fund each goal
+export function GoalPanel({ isDarkMode, locale, currency, statuses, transactions, onSave, onFund, onDelete }: IGoalPanelProps) {
+  const t = I18nService.getTranslator(locale);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [name, setName] = useState<string>('');
+  const [targetAmount, setTargetAmount] = useState<string>('');
+  const [targetMonth, setTargetMonth] = useState<string>('');
+  const [contributions, setContributions] = useState<Record<number, string>>({});
+
+  const format = (value: number) => FinancialController.formatCurrency(value, currency, locale);
+  const formatMonth = (month: string) =>
+    new Date(`${month}-01T00:00:00Z`).toLocaleDateString(locale, { month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+  // Income and expenses can fund a goal (a salary set aside, a transfer to a savings account booked as an expense)
+  const linkable = useMemo(() => {
+    return transactions
+      .filter(tx => tx.type !== 'transfer')
+      .sort((a, b) => b.date.getTime() - a.date.getTime());
+  }, [transactions]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setTargetAmount('');
+    setTargetMonth('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({ name: name.trim(), targetAmount: parseFloat(targetAmount), targetMonth }, editingId);
+    resetForm();
+  };
+
+  const handleEdit = (goal: ISavingsGoal) => {
+    setEditingId(goal.id);
+    setName(goal.name);
+    setTargetAmount(goal.targetAmount.toString());
+    setTargetMonth(goal.targetMonth);
+  };
+
+  const handleContribute = (e: React.FormEvent, goal: ISavingsGoal) => {
+    e.preventDefault();
+    const amount = parseFloat(contributions[goal.id] ?? '');
+    if (!amount) return;
+    const date = new Date().toISOString().split('T')[0];
+    onFund(goal.id, { transactionIds: goal.transactionIds, contributions: [...goal.contributions, { date, amount }] });
+    setContributions({ ...contributions, [goal.id]: '' });
+  };
+
+  const paceColor: Record<GoalPace, { bar: string; text: string }> = {
+    reached: { bar: 'bg-green-500', text: 'text-green-500' },
+    onTrack: { bar: 'bg-blue-500', text: 'text-blue-500' },
+    behind: { bar: 'bg-yellow-500', text: 'text-yellow-500' },
+    overdue: { bar: 'bg-red-500', text: 'text-red-500' },
+  };
+
+  const inputClass = `px-3 py-2 rounded-lg border text-sm ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-gray-50 border-gray-200 text-gray-900'
+    } focus:outline-none focus:ring-2 focus:ring-blue-500`;
+  const mutedClass = `text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`;
+
+  return (
+    <div className={`${isDarkMode ? 'bg-gray-800' : 'bg-white'} rounded-2xl p-6 shadow-lg mb-8`}>
+      <h2 className={`flex items-center gap-2 text-xl font-bold mb-4 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+        <Target className="w-5 h-5" />
+        {t('goals.title')}
+      </h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        {statuses.map(({ goal, linked, saved, remaining, ratio, monthsLeft, requiredMonthly, monthlyAverage, projectedMonth, pace }) => (
+          <div key={goal.id} className={`rounded-xl border p-4 ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+            <div className="flex items-start justify-between mb-2">
+              <div>
+                <p className={`font-semibold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>{goal.name}</p>
+                <p className={mutedClass}>{t('goals.until', { month: formatMonth(goal.targetMonth) })}</p>
+              </div>
+              <span className="flex items-center gap-1">
+                <span className={`text-xs font-medium mr-1 ${paceColor[pace].text}`}>{t(GOAL_PACE_LABELS[pace])}</span>
+                <button onClick={() => handleEdit(goal)} className={`p-1 hover:text-blue-500 ${mutedClass}`} title={t('goals.edit')}>
+                  <Edit2 className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => onDelete(goal.id)} className={`p-1 hover:text-red-500 ${mutedClass}`} title={t('goals.remove')}>
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </span>
+            </div>
+
+            <div className={`flex items-center justify-between text-sm mb-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+              <span>{t('goals.progress', { saved: format(saved), target: format(goal.targetAmount) })}</span>
+              <span>{(Math.max(0, ratio) * 100).toFixed(0)}%</span>
+            </div>
+            <div className={`h-2.5 rounded-full overflow-hidden ${isDarkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+              <div className={`h-full ${paceColor[pace].bar}`} style={{ width: `${Math.min(100, Math.max(0, ratio) * 100)}%` }} />
+            </div>
+
+            <div className={`space-y-0.5 mt-2 ${mutedClass}`}>
+              {remaining > 0 && monthsLeft > 0 && (
+                <p>{t('goals.required', { amount: format(remaining), monthly: format(requiredMonthly), months: monthsLeft })}</p>
+              )}
+              {remaining > 0 && <p>{t('goals.average', { amount: format(monthlyAverage) })}</p>}
+              {remaining > 0 && projectedMonth && <p>{t('goals.projection', { month: formatMonth(projectedMonth) })}</p>}
+            </div>
+
+            <details className="mt-3">
+              <summary className={`cursor-pointer ${mutedClass}`}>
+                {t('goals.funding', { count: linked.length + goal.contributions.length })}
+              </summary>
+              <ul className={`mt-2 space-y-1 text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                {linked.map(tx => (
+                  <li key={`t${tx.id}`} className="flex items-center gap-2">
+                    <span className="flex-1 truncate">{tx.date.toISOString().split('T')[0]} · {tx.description}</span>
+                    <span>{format(tx.amount)}</span>
+                    <button
+                      onClick={() => onFund(goal.id, { transactionIds: goal.transactionIds.filter(id => id !== tx.id), contributions: goal.contributions })}
+                      className="p-1 hover:text-red-500"
+                      title={t('goals.unlink')}
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </li>
+                ))}
+                {goal.contributions.map((contribution, index) => (
+                  <li key={`c${index}`} className="flex items-center gap-2">
+                    <span className="flex-1 truncate">{contribution.date} · {t('goals.manual')}</span>
+                    <span>{format(contribution.amount)}</span>
+                    <button
+                      onClick={() => onFund(goal.id, { transactionIds: goal.transactionIds, contributions: goal.contributions.filter((_, i) => i !== index) })}
+                      className="p-1 hover:text-red-500"
+                      title={t('goals.removeContribution')}
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+
+              <select
+                value=""
+                onChange={(e) => onFund(goal.id, {
+                  transactionIds: [...goal.transactionIds, Number(e.target.value)],
+                  contributions: goal.contributions,
+                })}
+                className={`w-full mt-2 ${inputClass}`}
+              >
+                <option value="">{t('goals.linkTransaction')}</option>
+                {linkable.filter(tx => !goal.transactionIds.includes(tx.id)).map(tx => (
+                  <option key={tx.id} value={tx.id}>
+                    {tx.date.toISOString().split('T')[0]} · {tx.description} · {format(tx.amount)}
+                  </option>
+                ))}
+              </select>
+              <form onSubmit={(e) => handleContribute(e, goal)} className="flex gap-2 mt-2">
+                <input
+                  type="number"
+                  step="0.01"
+                  placeholder={t('goals.manual')}
+                  title={t('goals.manualHelp')}
+                  value={contributions[goal.id] ?? ''}
+                  onChange={(e) => setContributions({ ...contributions, [goal.id]: e.target.value })}
+                  className={`flex-1 min-w-0 ${inputClass}`}
+                  required
+                />
+                <button type="submit" className={`px-3 py-2 rounded-lg text-sm ${isDarkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}>
+                  {t('goals.contribute')}
+                </button>
+              </form>
+            </details>
+          </div>
+        ))}
+        {statuses.length === 0 && (
+          <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            {t('goals.empty')}
+          </p>
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex flex-col md:flex-row gap-2">
+        <input
+          type="text"
+          placeholder={t('goals.name')}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className={`flex-1 ${inputClass}`}
+          required
+        />
+        <input
+          type="number"
+          step="0.01"
+          min="0.01"
+          placeholder={t('goals.target')}
+          value={targetAmount}
+          onChange={(e) => setTargetAmount(e.target.value)}
+          className={`flex-1 ${inputClass}`}
+          required
+        />
+        <input
+          type="month"
+          value={targetMonth}
+          onChange={(e) => setTargetMonth(e.target.value)}
+          className={inputClass}
+          title={t('goals.targetMonth')}
+          required
+        />
+        <button
+          type="submit"
+          className="px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-lg hover:from-blue-600 hover:to-purple-700 transition-all shadow-md text-sm"
+        >
+          {t('goals.save')}
+        </button>
+        {editingId !== null && (
+          <button
+            type="button"
+            onClick={resetForm}
+            className={`px-4 py-2 rounded-lg border text-sm ${isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+          >
+            {t('goals.cancel')}
+          </button>
+        )}
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { X } from 'lucide-react';
+import type { Locale, IHistoryToast } from '../types';
+import { I18nService } from '../i18n/I18nService';
+import { HISTORY_ACTION_LABELS } from './labels';
+
+interface IHistoryToastProps {
+  isDarkMode: boolean;
+  locale: Locale;
+  toast: IHistoryToast;
+  onUndo: () => void;
+  onRedo: () => void;
+  onClose: () => void;
+}
+
+// History Toast - Names the last change and offers to undo it, or to redo it once undone
+export function HistoryToast({ isDarkMode, locale, toast, onUndo, onRedo, onClose }: IHistoryToastProps) {
+  const t = I18nService.getTranslator(locale);
+  const action = t(HISTORY_ACTION_LABELS[toast.action]);
+
+  return (
+    <div
+      role="status"
+      className={`fixed bottom-6 right-6 z-50 flex items-center gap-4 pl-4 pr-2 py-3 rounded-xl shadow-2xl ${isDarkMode ? 'bg-gray-700 text-white' : 'bg-gray-900 text-white'
+        }`}
+    >
+      <span className="text-sm">{toast.undone ? t('history.undone', { action }) : action}</span>
+      <button
+        onClick={toast.undone ? onRedo : onUndo}
+        className="text-sm font-semibold text-blue-300 hover:text-blue-200 transition-colors"
+      >
+        {toast.undone ? t('history.redo') : t('history.undo')}
+      </button>
+      <button onClick={onClose} className="p-1 rounded-lg hover:bg-white/10 transition-colors" title={t('history.dismiss')}>
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import type { Locale, MemberRole, ILedgerAccess, IAuthUser } from '../types';
+import { I18nService } from '../i18n/I18nService';
+import { ApiError } from '../services/ApiService';
+import { LEDGER_ROLE_LABELS } from './labels';
+
+interface ILedgerSharingProps {
+  isDarkMode: boolean;
+  locale: Locale;
+  user: IAuthUser;
+  onSwitchLedger: (ledgerId: string) => void;
+  onShare: (username: string, role: MemberRole) => Promise<void>;
+  onUnshare: (username: string) => Promise<void>;
+  onClose: () => void;
+}
+
+// Ledger Sharing - Switch between the ledgers shared with the user; the owner shares theirs as viewer or editor
+export function LedgerSharing({ isDarkMode, locale, user, onSwitchLedger, onShare, onUnshare, onClose }: ILedgerSharingProps) {
+  const t = I18nService.getTranslator(locale);
+  const [username, setUsername] = useState<string>('');
+  const [role, setRole] = useState<MemberRole>('viewer');
+
+  const describeLedger = (ledger: ILedgerAccess) => ledger.role === 'owner'
+    ? t('auth.ownLedger')
+    : t('auth.sharedLedger', { owner: ledger.owner, role: t(LEDGER_ROLE_LABELS[ledger.role]) });
+
+  // The server answers 404 for an unknown user (or the owner themselves)
+  const share = async (name: string, memberRole: MemberRole) => {
+    try {
+      await onShare(name, memberRole);
+      return true;
+    } catch (error) {
+      console.error('Error sharing ledger:', error);
+      window.alert(t(error instanceof ApiError && error.status === 404 ? 'auth.error.userNotFound' : 'auth.error.shareFailed', { username: name }));
+      return false;
+    }
+  };
+
+  const handleShare = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await share(username.trim(), role)) setUsername('');
+  };
+
+  const handleUnshare = async (name: string) => {
+    try {
+      await onUnshare(name);
+    } catch (error) {
+      console.error('Error unsharing ledger:', error);
+      window.alert(t('auth.error.shareFailed', { username: name }));
+    }
+  };
+
+  const inputClass = `px-3 py-2 text-sm rounded-lg border ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+    } focus:outline-none focus:ring-2 focus:ring-blue-500`;
+  const textClass = isDarkMode ? 'text-gray-300' : 'text-gray-700';
+  const mutedClass = `text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`;
+  const headingClass = `text-sm font-semibold uppercase mb-2 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`;
+  const memberRoles: MemberRole[] = ['viewer', 'editor'];
+
+  return (
+    <div className="modal-backdrop fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className={`modal-content ${isDarkMode ? 'bg-gray-800' : 'bg-white'} rounded-2xl p-6 w-full max-w-xl max-h-[90vh] overflow-y-auto shadow-2xl`}>
+        <h2 className={`text-2xl font-bold mb-2 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+          {t('header.ledgers')}
+        </h2>
+        <p className={`${mutedClass} mb-6`}>{t('auth.signedInAs', { username: user.username })}</p>
+
+        <div className="mb-6">
+          <h3 className={headingClass}>{t('auth.openLedger')}</h3>
+          <select
+            value={user.ledger.id}
+            onChange={(e) => onSwitchLedger(e.target.value)}
+            className={`w-full ${inputClass}`}
+          >
+            {user.ledgers.map(ledger => (
+              <option key={ledger.id} value={ledger.id}>{describeLedger(ledger)}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="mb-6">
+          <h3 className={headingClass}>{t('auth.members')}</h3>
+          {user.ledger.role !== 'owner' ? (
+            <p className={mutedClass}>{t('auth.ownerOnly')}</p>
+          ) : (
+            <>
+              {user.members.length === 0 && <p className={`${mutedClass} mb-3`}>{t('auth.noMembers')}</p>}
+              <ul className="space-y-2 mb-4">
+                {user.members.map(member => (
+                  <li key={member.username} className={`flex items-center gap-2 text-sm ${textClass}`}>
+                    <span className="flex-1 font-medium">{member.username}</span>
+                    <select
+                      value={member.role}
+                      onChange={(e) => share(member.username, e.target.value as MemberRole)}
+                      className={inputClass}
+                    >
+                      {memberRoles.map(value => (
+                        <option key={value} value={value}>{t(LEDGER_ROLE_LABELS[value])}</option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => handleUnshare(member.username)}
+                      className="p-2 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                      title={t('auth.unshare')}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              <form onSubmit={handleShare} className="flex gap-2">
+                <input
+                  type="text"
+                  required
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  placeholder={t('auth.username')}
+                  className={`flex-1 ${inputClass}`}
+                />
+                <select value={role} onChange={(e) => setRole(e.target.value as MemberRole)} className={inputClass}>
+                  {memberRoles.map(value => (
+                    <option key={value} value={value}>{t(LEDGER_ROLE_LABELS[value])}</option>
+                  ))}
+                </select>
+                <button type="submit" className="px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-lg text-sm">
+                  {t('auth.share')}
+                </button>
+              </form>
+              <p className={`${mutedClass} mt-2`}>{t('auth.shareHelp')}</p>
+            </>
+          )}
+        </div>
+
+        <button
+          type="button"
+          onClick={onClose}
+          className={`w-full px-4 py-2.5 rounded-lg border ${isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+            } transition-colors`}
+        >
+          {t('auth.close')}
+        </button>
+      </div>
+    </div>
+  );
+}
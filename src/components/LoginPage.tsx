@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Wallet } from 'lucide-react';
+import type { Locale, MessageKey, AuthMode, ICredentials } from '../types';
+import { PASSWORD_MIN_LENGTH } from '../constants';
+import { I18nService } from '../i18n/I18nService';
+import { ApiError } from '../services/ApiService';
+import { AUTH_ERROR_LABELS } from './labels';
+
+interface ILoginPageProps {
+  isDarkMode: boolean;
+  locale: Locale;
+  onSubmit: (mode: AuthMode, credentials: ICredentials) => Promise<void>;
+  onContinueLocally: () => void;
+}
+
+// Login Page - Sign in or create an account, or keep the data in this browser without one
+export function LoginPage({ isDarkMode, locale, onSubmit, onContinueLocally }: ILoginPageProps) {
+  const t = I18nService.getTranslator(locale);
+  const [mode, setMode] = useState<AuthMode>('login');
+  const [credentials, setCredentials] = useState<ICredentials>({ username: '', password: '' });
+  const [error, setError] = useState<MessageKey | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit(mode, credentials);
+    } catch (err) {
+      setError(err instanceof ApiError ? AUTH_ERROR_LABELS[err.status] ?? 'auth.error.failed' : 'auth.error.failed');
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClass = `w-full px-4 py-2.5 rounded-lg border ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+    } focus:outline-none focus:ring-2 focus:ring-blue-500`;
+  const labelClass = `block text-sm font-medium mb-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`;
+  const helpClass = `text-xs mt-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`;
+  const isRegister = mode === 'register';
+
+  return (
+    <div className={`min-h-screen flex items-center justify-center p-4 ${isDarkMode ? 'dark bg-gray-900' : 'bg-gradient-to-br from-blue-50 via-purple-50 to-pink-50'}`}>
+      <div className={`${isDarkMode ? 'bg-gray-800' : 'bg-white'} rounded-2xl p-8 w-full max-w-md shadow-2xl`}>
+        <div className="flex items-center gap-3 mb-6">
+          <div className={`p-2 rounded-xl ${isDarkMode ? 'bg-blue-600' : 'bg-gradient-to-br from-blue-500 to-purple-600'}`}>
+            <Wallet className="w-6 h-6 text-white" />
+          </div>
+          <h1 className={`text-2xl font-bold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>{t('app.title')}</h1>
+        </div>
+        <h2 className={`text-lg font-semibold mb-6 ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+          {t(isRegister ? 'auth.registerTitle' : 'auth.signInTitle')}
+        </h2>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="auth-username" className={labelClass}>{t('auth.username')}</label>
+            <input
+              id="auth-username"
+              type="text"
+              autoComplete="username"
+              autoCapitalize="none"
+              required
+              value={credentials.username}
+              onChange={(e) => setCredentials({ ...credentials, username: e.target.value })}
+              className={inputClass}
+            />
+            {isRegister && <p className={helpClass}>{t('auth.usernameHelp')}</p>}
+          </div>
+          <div>
+            <label htmlFor="auth-password" className={labelClass}>{t('auth.password')}</label>
+            <input
+              id="auth-password"
+              type="password"
+              autoComplete={isRegister ? 'new-password' : 'current-password'}
+              required
+              minLength={isRegister ? PASSWORD_MIN_LENGTH : undefined}
+              value={credentials.password}
+              onChange={(e) => setCredentials({ ...credentials, password: e.target.value })}
+              className={inputClass}
+            />
+            {isRegister && <p className={helpClass}>{t('auth.passwordHelp')}</p>}
+          </div>
+
+          {error && <p className="text-sm text-red-500" role="alert">{t(error)}</p>}
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full px-4 py-2.5 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-lg disabled:opacity-60"
+          >
+            {t(isRegister ? 'auth.register' : 'auth.signIn')}
+          </button>
+        </form>
+
+        <button
+          type="button"
+          onClick={() => {
+            setMode(isRegister ? 'login' : 'register');
+            setError(null);
+          }}
+          className="w-full mt-4 text-sm text-blue-500 hover:underline"
+        >
+          {t(isRegister ? 'auth.switchToSignIn' : 'auth.switchToRegister')}
+        </button>
+        <button
+          type="button"
+          onClick={onContinueLocally}
+          className={`w-full mt-2 text-sm hover:underline ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}
+        >
+          {t('auth.continueLocally')}
+        </button>
+      </div>
+    </div>
+  );
+}
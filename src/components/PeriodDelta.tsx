@@ -0,0 +1,25 @@
+import type { Locale } from '../types';
+import { I18nService } from '../i18n/I18nService';
+
+interface IPeriodDeltaProps {
+  locale: Locale;
+  change: number | null;
+  period: string;
+  positiveIsGood: boolean;
+}
+
+// Period Delta - Change of a summary total against the previous period
+export function PeriodDelta({ locale, change, period, positiveIsGood }: IPeriodDeltaProps) {
+  const t = I18nService.getTranslator(locale);
+  if (change === null) return null;
+
+  const formatted = change.toLocaleString(locale, { style: 'percent', maximumFractionDigits: 0, signDisplay: 'exceptZero' });
+  const good = change === 0 ? null : (change > 0) === positiveIsGood;
+  const color = good === null ? 'text-gray-500' : good ? 'text-green-500' : 'text-red-500';
+
+  return (
+    <p className={`text-xs mt-1 ${color}`}>
+      {t('summary.delta', { change: formatted, period })}
+    </p>
+  );
+}
@@ -0,0 +1,256 @@
+import { Printer, ChevronLeft } from 'lucide-react';
+import type { TransactionType, IDateRange, IStatement, Locale, MessageKey, AppRoute } from '../types';
+import { I18nService } from '../i18n/I18nService';
+import { AccountModel } from '../models/AccountModel';
+import { CategoryModel } from '../models/CategoryModel';
+import { TransactionModel } from '../models/TransactionModel';
+import { FinancialController } from '../controller/FinancialController';
+import { TYPE_AMOUNT_CLASSES } from './labels';
+import { RouteLink } from './RouteLink';
+
+interface IPrintableReportProps {
+  locale: Locale;
+  statement: IStatement;
+  year: number;
+  month: number | null;
+  baseCurrency: string;
+  categories: CategoryModel[];
+  accounts: AccountModel[];
+  onNavigate: (route: AppRoute) => void;
+}
+
+// Printable Report - Monthly or annual statement laid out for paper; "Download PDF" goes through the
+// browser's print dialog, so it works offline
+export function PrintableReport({ locale, statement, year, month, baseCurrency, categories, accounts, onNavigate }: IPrintableReportProps) {
+  const t = I18nService.getTranslator(locale);
+  const { summary, previousSummary } = statement;
+
+  const periodName = (range: IDateRange) => month === null
+    ? String(range.start.getUTCFullYear())
+    : range.start.toLocaleDateString(locale, { month: 'long', year: 'numeric', timeZone: 'UTC' });
+  const period = periodName(statement.range);
+  const previousPeriod = periodName(statement.previousRange);
+
+  const money = (value: number) => FinancialController.formatCurrency(value, baseCurrency, locale);
+
+  const formatChange = (current: number, previous: number) => {
+    const change = FinancialController.getChange(current, previous);
+    return change === null
+      ? '–'
+      : change.toLocaleString(locale, { style: 'percent', maximumFractionDigits: 0, signDisplay: 'exceptZero' });
+  };
+
+  const categoryLabel = (type: TransactionType, name: string) =>
+    FinancialController.getCategoryPath(categories, type, name)
+      .map(part => I18nService.translateCategory(locale, part))
+      .join(' › ');
+
+  const transactionCategory = (transaction: TransactionModel) => {
+    if (transaction.isTransfer()) return '-';
+    return transaction.getCategoryAmounts().map(line => categoryLabel(transaction.type, line.category)).join(', ');
+  };
+
+  const accountName = (transaction: TransactionModel) => {
+    const name = (id?: number) => accounts.find(a => a.id === id)?.name ?? '-';
+    return transaction.isTransfer() ? `${name(transaction.accountId)} → ${name(transaction.toAccountId)}` : name(transaction.accountId);
+  };
+
+  // Browsers name the saved PDF after the page title
+  const handleDownload = () => {
+    const title = document.title;
+    document.title = `${t('statement.fileName')}-${year}${month === null ? '' : `-${String(month).padStart(2, '0')}`}`;
+    window.print();
+    document.title = title;
+  };
+
+  const sectionClass = 'statement-section mb-8';
+  const headingClass = 'text-lg font-semibold text-gray-900 border-b-2 border-gray-900 pb-1 mb-3';
+  const headClass = 'text-left text-xs font-semibold uppercase text-gray-500 py-2 pr-3';
+  const cellClass = 'py-1.5 pr-3 text-sm text-gray-800';
+
+  const summaryRows: { label: MessageKey; current: number; previous: number }[] = [
+    { label: 'summary.income', current: summary.totalIncome, previous: previousSummary.totalIncome },
+    { label: 'summary.expense', current: summary.totalExpense, previous: previousSummary.totalExpense },
+    { label: 'statement.net', current: summary.balance, previous: previousSummary.balance },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-100 print:bg-white">
+      <div className="max-w-4xl mx-auto px-4 py-4 flex flex-wrap items-center gap-3 print:hidden">
+        <RouteLink
+          route={{ name: 'report', year, month: month ?? 1 }}
+          onNavigate={onNavigate}
+          className="inline-flex items-center gap-1 px-3 py-2 text-sm rounded-lg text-gray-700 hover:bg-white"
+        >
+          <ChevronLeft className="w-4 h-4" />
+          {t('statement.back')}
+        </RouteLink>
+        {month !== null && (
+          <RouteLink
+            route={{ name: 'statement', year, month: null }}
+            onNavigate={onNavigate}
+            className="px-3 py-2 text-sm rounded-lg text-gray-700 hover:bg-white"
+          >
+            {t('statement.annual', { year })}
+          </RouteLink>
+        )}
+        <span className="flex-1" />
+        <span className="text-xs text-gray-500 max-w-xs">{t('statement.downloadHint')}</span>
+        <button
+          onClick={handleDownload}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-lg text-sm"
+        >
+          <Printer className="w-4 h-4" />
+          {t('statement.download')}
+        </button>
+      </div>
+
+      <article className="max-w-4xl mx-auto bg-white shadow-lg rounded-lg p-10 mb-8 print:shadow-none print:rounded-none print:p-0 print:m-0 print:max-w-none">
+        <header className="mb-8">
+          <p className="text-sm text-gray-500">{t('app.title')}</p>
+          <h1 className="text-3xl font-bold text-gray-900">{t('statement.title', { period })}</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            {t('statement.generated', { date: new Date().toLocaleDateString(locale), currency: baseCurrency })}
+          </p>
+        </header>
+
+        <section className={sectionClass}>
+          <h2 className={headingClass}>{t('statement.summary')}</h2>
+          <table>
+            <thead>
+              <tr>
+                <th className={headClass}></th>
+                <th className={`${headClass} text-right`}>{period}</th>
+                <th className={`${headClass} text-right`}>{previousPeriod}</th>
+                <th className={`${headClass} text-right`}>{t('statement.change')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summaryRows.map(row => (
+                <tr key={row.label}>
+                  <td className={`${cellClass} font-medium`}>{t(row.label)}</td>
+                  <td className={`${cellClass} text-right`}>{money(row.current)}</td>
+                  <td className={`${cellClass} text-right text-gray-500`}>{money(row.previous)}</td>
+                  <td className={`${cellClass} text-right`}>{formatChange(row.current, row.previous)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-sm text-gray-600 mt-3">
+            {t('summary.highestExpense')}: {summary.highestExpense
+              ? `${summary.highestExpense.description} (${money(summary.highestExpense.amount)})`
+              : t('summary.notAvailable')}
+            {summary.dominantCategory && (
+              <> · {t('statement.dominantCategory', {
+                category: categoryLabel('expense', summary.dominantCategory.category),
+                amount: money(summary.dominantCategory.total),
+              })}</>
+            )}
+          </p>
+          {statement.unconverted > 0 && (
+            <p className="text-sm text-yellow-700 mt-2">
+              {t('summary.unconverted', { count: statement.unconverted, currency: baseCurrency })}
+            </p>
+          )}
+        </section>
+
+        <section className={sectionClass}>
+          <h2 className={headingClass}>{t('statement.categories')}</h2>
+          {statement.categories.length === 0 ? (
+            <p className="text-sm text-gray-500">{t('statement.empty')}</p>
+          ) : (
+            <table>
+              <thead>
+                <tr>
+                  <th className={headClass}>{t('field.category')}</th>
+                  <th className={headClass}>{t('field.type')}</th>
+                  <th className={`${headClass} text-right`}>{period}</th>
+                  <th className={`${headClass} text-right`}>{t('statement.share')}</th>
+                  <th className={`${headClass} text-right`}>{previousPeriod}</th>
+                  <th className={`${headClass} text-right`}>{t('statement.change')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {statement.categories.map(line => (
+                  <tr key={`${line.type}|${line.category}`}>
+                    <td className={cellClass}>{categoryLabel(line.type, line.category)}</td>
+                    <td className={cellClass}>{t(`type.${line.type}`)}</td>
+                    <td className={`${cellClass} text-right`}>{money(line.amount)}</td>
+                    <td className={`${cellClass} text-right`}>
+                      {line.share.toLocaleString(locale, { style: 'percent', maximumFractionDigits: 1 })}
+                    </td>
+                    <td className={`${cellClass} text-right text-gray-500`}>{money(line.previousAmount)}</td>
+                    <td className={`${cellClass} text-right`}>{formatChange(line.amount, line.previousAmount)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+
+        {statement.topExpenses.length > 0 && (
+          <section className={sectionClass}>
+            <h2 className={headingClass}>{t('statement.topExpenses')}</h2>
+            <table>
+              <thead>
+                <tr>
+                  <th className={headClass}>{t('field.date')}</th>
+                  <th className={headClass}>{t('field.description')}</th>
+                  <th className={headClass}>{t('field.category')}</th>
+                  <th className={`${headClass} text-right`}>{t('field.amount')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {statement.topExpenses.map(transaction => (
+                  <tr key={transaction.id}>
+                    <td className={cellClass}>{transaction.getFormattedDate(locale)}</td>
+                    <td className={cellClass}>{transaction.description}</td>
+                    <td className={cellClass}>{transactionCategory(transaction)}</td>
+                    <td className={`${cellClass} text-right`}>{transaction.getFormattedAmount(locale)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        )}
+
+        <section className={sectionClass}>
+          <h2 className={headingClass}>{t('statement.transactions', { count: statement.transactions.length })}</h2>
+          {statement.transactions.length === 0 ? (
+            <p className="text-sm text-gray-500">{t('statement.empty')}</p>
+          ) : (
+            <table>
+              <thead>
+                <tr>
+                  <th className={headClass}>{t('field.date')}</th>
+                  <th className={headClass}>{t('field.description')}</th>
+                  <th className={headClass}>{t('field.category')}</th>
+                  <th className={headClass}>{t('field.account')}</th>
+                  <th className={headClass}>{t('field.type')}</th>
+                  <th className={`${headClass} text-right`}>{t('field.amount')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {statement.transactions.map(transaction => (
+                  <tr key={transaction.id}>
+                    <td className={cellClass}>{transaction.getFormattedDate(locale)}</td>
+                    <td className={cellClass}>
+                      {transaction.description}
+                      {transaction.notes && <span className="block text-xs text-gray-500">{transaction.notes}</span>}
+                    </td>
+                    <td className={cellClass}>{transactionCategory(transaction)}</td>
+                    <td className={cellClass}>{accountName(transaction)}</td>
+                    <td className={cellClass}>{t(`type.${transaction.type}`)}</td>
+                    <td className={`${cellClass} text-right font-medium ${TYPE_AMOUNT_CLASSES[transaction.type]}`}>
+                      {transaction.getFormattedAmount(locale)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+      </article>
+    </div>
+  );
+}
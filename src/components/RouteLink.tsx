@@ -0,0 +1,26 @@
+import React from 'react';
+import type { AppRoute } from '../types';
+import { RouterService } from '../services/RouterService';
+
+interface IRouteLinkProps {
+  route: AppRoute;
+  onNavigate: (route: AppRoute) => void;
+  className?: string;
+  title?: string;
+  children: React.ReactNode;
+}
+
+// Route Link - Anchor that navigates in place; the real href keeps new tabs and the SSR markup working
+export function RouteLink({ route, onNavigate, className, title, children }: IRouteLinkProps) {
+  const handleClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
+    if (e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+    e.preventDefault();
+    onNavigate(route);
+  };
+
+  return (
+    <a href={RouterService.getPath(route)} onClick={handleClick} className={className} title={title}>
+      {children}
+    </a>
+  );
+}
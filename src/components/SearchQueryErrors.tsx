@@ -0,0 +1,43 @@
+import React from 'react';
+import type { ISearchError } from '../searchQuery';
+import type { Locale } from '../types';
+import { I18nService } from '../i18n/I18nService';
+import { SEARCH_ERROR_LABELS } from './labels';
+
+interface ISearchQueryErrorsProps {
+  isDarkMode: boolean;
+  locale: Locale;
+  query: string;
+  errors: ISearchError[];
+}
+
+// Search Query Errors - The query with its invalid parts underlined, followed by what is wrong with each
+export function SearchQueryErrors({ isDarkMode, locale, query, errors }: ISearchQueryErrorsProps) {
+  const t = I18nService.getTranslator(locale);
+  const sorted = [...errors].sort((a, b) => a.start - b.start);
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  sorted.forEach((error, index) => {
+    if (error.start < cursor) return;
+    parts.push(query.slice(cursor, error.start));
+    parts.push(
+      <mark key={index} className="bg-transparent text-red-500 underline decoration-wavy decoration-red-500">
+        {query.slice(error.start, error.end)}
+      </mark>
+    );
+    cursor = error.end;
+  });
+  parts.push(query.slice(cursor));
+
+  return (
+    <div className="mt-2 text-sm">
+      <p className={`font-mono whitespace-pre-wrap ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>{parts}</p>
+      <ul className="mt-1 text-xs text-red-500">
+        {sorted.map((error, index) => (
+          <li key={index}>{t(SEARCH_ERROR_LABELS[error.code], { term: query.slice(error.start, error.end) })}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
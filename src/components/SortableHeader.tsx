@@ -0,0 +1,33 @@
+import { ArrowUp, ArrowDown, ArrowUpDown } from 'lucide-react';
+import type { SortField, ITransactionSort } from '../types';
+
+interface ISortableHeaderProps {
+  isDarkMode: boolean;
+  field: SortField;
+  label: string;
+  sort: ITransactionSort;
+  onSort: (field: SortField) => void;
+  align?: 'left' | 'right';
+}
+
+// Sortable Header - Column header that sorts the table by its field; clicking again flips the direction
+export function SortableHeader({ isDarkMode, field, label, sort, onSort, align = 'left' }: ISortableHeaderProps) {
+  const isSorted = sort.field === field;
+  const Icon = !isSorted ? ArrowUpDown : sort.direction === 'asc' ? ArrowUp : ArrowDown;
+
+  return (
+    <th
+      aria-sort={isSorted ? (sort.direction === 'asc' ? 'ascending' : 'descending') : 'none'}
+      className={`px-4 py-3 ${align === 'right' ? 'text-right' : 'text-left'} text-sm font-semibold ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}
+    >
+      <button
+        type="button"
+        onClick={() => onSort(field)}
+        className={`inline-flex items-center gap-1 ${align === 'right' ? 'flex-row-reverse' : ''} hover:text-blue-500 transition-colors`}
+      >
+        {label}
+        <Icon className={`w-3.5 h-3.5 ${isSorted ? '' : 'opacity-40'}`} />
+      </button>
+    </th>
+  );
+}
@@ -0,0 +1,79 @@
+import { Plus, X } from 'lucide-react';
+import type { ISplitFormLine, Locale } from '../types';
+import { I18nService } from '../i18n/I18nService';
+import { FinancialController } from '../controller/FinancialController';
+
+interface ISplitEditorProps {
+  isDarkMode: boolean;
+  locale: Locale;
+  currency: string;
+  amount: string; // the transaction total, as typed in the form
+  lines: ISplitFormLine[];
+  options: { value: string; label: string }[];
+  onChange: (lines: ISplitFormLine[]) => void;
+}
+
+// Split Editor - Category lines of a split transaction, with what is left to assign of the total
+export function SplitEditor({ isDarkMode, locale, currency, amount, lines, options, onChange }: ISplitEditorProps) {
+  const t = I18nService.getTranslator(locale);
+  const total = parseFloat(amount);
+  const assigned = lines.reduce((sum, line) => sum + (parseFloat(line.amount) || 0), 0);
+  const remaining = Math.round((total - assigned) * 100) / 100;
+
+  const updateLine = (index: number, changes: Partial<ISplitFormLine>) => {
+    onChange(lines.map((line, i) => i === index ? { ...line, ...changes } : line));
+  };
+
+  return (
+    <div className="space-y-2">
+      {lines.map((line, index) => (
+        <div key={index} className="flex gap-2">
+          <select
+            value={line.category}
+            onChange={(e) => updateLine(index, { category: e.target.value })}
+            className={`flex-1 min-w-0 px-3 py-2 rounded-lg border ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-gray-50 border-gray-200 text-gray-900'
+              } focus:outline-none focus:ring-2 focus:ring-blue-500`}
+          >
+            <option value="">{t('form.select')}</option>
+            {options.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            step="0.01"
+            value={line.amount}
+            onChange={(e) => updateLine(index, { amount: e.target.value })}
+            className={`w-28 px-3 py-2 rounded-lg border ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-gray-50 border-gray-200 text-gray-900'
+              } focus:outline-none focus:ring-2 focus:ring-blue-500`}
+            title={t('field.amount')}
+          />
+          <button
+            type="button"
+            onClick={() => onChange(lines.filter((_, i) => i !== index))}
+            disabled={lines.length <= 2}
+            className={`p-2 rounded-lg transition-colors disabled:opacity-40 ${isDarkMode ? 'hover:bg-gray-600 text-red-400' : 'hover:bg-red-50 text-red-600'}`}
+            title={t('split.removeLine')}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center justify-between text-sm">
+        <button
+          type="button"
+          onClick={() => onChange([...lines, { category: '', amount: remaining > 0 ? remaining.toFixed(2) : '' }])}
+          className={`flex items-center gap-1 ${isDarkMode ? 'text-blue-400 hover:text-blue-300' : 'text-blue-600 hover:text-blue-700'}`}
+        >
+          <Plus className="w-4 h-4" />
+          {t('split.addLine')}
+        </button>
+        {Number.isFinite(total) && (
+          <span className={remaining === 0 ? (isDarkMode ? 'text-gray-400' : 'text-gray-500') : 'text-red-500'}>
+            {t('split.remaining', { amount: FinancialController.formatCurrency(remaining, currency, locale) })}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
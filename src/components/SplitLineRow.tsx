@@ -0,0 +1,40 @@
+import type { Locale } from '../types';
+import { I18nService } from '../i18n/I18nService';
+import { CategoryModel } from '../models/CategoryModel';
+import { TransactionModel } from '../models/TransactionModel';
+import { FinancialController } from '../controller/FinancialController';
+import { TYPE_AMOUNT_CLASSES } from './labels';
+import { CategoryBadge } from './CategoryBadge';
+
+interface ISplitLineRowProps {
+  isDarkMode: boolean;
+  locale: Locale;
+  transaction: TransactionModel; // in the display currency
+  splitIndex: number;
+  categories: CategoryModel[];
+  height?: number;
+}
+
+// Split Line Row - One category line of an expanded split transaction, under its parent row
+export function SplitLineRow({ isDarkMode, locale, transaction, splitIndex, categories, height }: ISplitLineRowProps) {
+  const { category, amount } = transaction.splits![splitIndex];
+  const label = FinancialController.getCategoryPath(categories, transaction.type, category)
+    .map(part => I18nService.translateCategory(locale, part))
+    .join(' › ');
+
+  return (
+    <tr className={isDarkMode ? 'bg-gray-900/40' : 'bg-gray-50/60'} style={height ? { height } : undefined}>
+      <td />
+      <td className={`pl-8 pr-4 py-2 text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>{transaction.description}</td>
+      <td className={`px-4 py-2 text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+        <CategoryBadge category={FinancialController.findCategory(categories, transaction.type, category)} label={label} />
+      </td>
+      <td />
+      <td />
+      <td className={`px-4 py-2 text-sm text-right ${TYPE_AMOUNT_CLASSES[transaction.type]}`}>
+        {FinancialController.formatCurrency(amount, transaction.currency, locale)}
+      </td>
+      <td />
+    </tr>
+  );
+}
@@ -0,0 +1,56 @@
+import type { ITagData, Locale } from '../types';
+import { I18nService } from '../i18n/I18nService';
+import { FinancialController } from '../controller/FinancialController';
+
+interface ITagReportProps {
+  isDarkMode: boolean;
+  locale: Locale;
+  currency: string;
+  tags: ITagData[];
+  activeTag: string;
+  onSelect: (tag: string) => void;
+}
+
+// Tag Report - Spending and income per tag in the current filters; selecting a tag filters by it
+export function TagReport({ isDarkMode, locale, currency, tags, activeTag, onSelect }: ITagReportProps) {
+  const t = I18nService.getTranslator(locale);
+  const format = (value: number) => FinancialController.formatCurrency(value, currency, locale);
+  const maxExpense = Math.max(...tags.map(tag => tag.expense));
+
+  return (
+    <div className={`${isDarkMode ? 'bg-gray-800' : 'bg-white'} rounded-2xl p-6 shadow-lg mb-8`}>
+      <h2 className={`text-xl font-bold mb-4 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+        {t('tags.report')}
+      </h2>
+      <div className="space-y-3">
+        {tags.map(({ tag, income, expense, count }) => (
+          <div key={tag}>
+            <div className="flex items-center justify-between gap-4 text-sm mb-1">
+              <button
+                onClick={() => onSelect(tag === activeTag ? '' : tag)}
+                className={`font-medium hover:underline ${tag === activeTag
+                  ? isDarkMode ? 'text-blue-400' : 'text-blue-600'
+                  : isDarkMode ? 'text-white' : 'text-gray-900'
+                  }`}
+              >
+                #{tag}
+              </button>
+              <span className={isDarkMode ? 'text-gray-400' : 'text-gray-500'}>
+                {t('tags.count', { count })}
+                {' · '}
+                <span className="text-red-500">{format(expense)}</span>
+                {income > 0 && <> {' · '}<span className="text-blue-500">{format(income)}</span></>}
+              </span>
+            </div>
+            <div className={`h-2 rounded-full ${isDarkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+              <div
+                className="h-2 rounded-full bg-red-500"
+                style={{ width: `${maxExpense > 0 ? (expense / maxExpense) * 100 : 0}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
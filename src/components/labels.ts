@@ -0,0 +1,185 @@
+import {
+  Wallet, Tag, House, Utensils, Car, Gamepad2, HeartPulse, GraduationCap, Briefcase, Laptop, PiggyBank, ShoppingCart,
+  Plane, Gift, Coffee, Shirt, Receipt, Zap, type LucideIcon,
+} from 'lucide-react';
+import type { SearchErrorCode } from '../searchQuery';
+import type {
+  TransactionType, RecurrenceFrequency, ValidationErrorCode, PeriodPreset, TimelineGranularity, StorageBackend,
+  CsvField, AccountType, RuleMatchMode, GoalPace, MessageKey, HistoryAction, BackupErrorCode, RestoreMode,
+  BackupEntity, LedgerRole, TableMode,
+} from '../types';
+
+export const STORAGE_BACKEND_LABELS: Record<StorageBackend, MessageKey> = {
+  server: 'storage.server',
+  session: 'storage.session',
+  local: 'storage.local',
+  indexedDB: 'storage.indexedDB',
+};
+
+export const CSV_FIELD_LABELS: Record<CsvField, MessageKey> = {
+  date: 'field.date',
+  description: 'field.description',
+  category: 'field.category',
+  type: 'field.type',
+  amount: 'field.amount',
+  currency: 'field.currency',
+};
+
+export const RECURRENCE_LABELS: Record<RecurrenceFrequency | 'none', MessageKey> = {
+  none: 'recurrence.none',
+  daily: 'recurrence.daily',
+  weekly: 'recurrence.weekly',
+  monthly: 'recurrence.monthly',
+  lastBusinessDay: 'recurrence.lastBusinessDay',
+  yearly: 'recurrence.yearly',
+};
+
+// Icons a category can pick; stored by name, unknown names fall back to Tag
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  Tag, House, Utensils, Car, Gamepad2, HeartPulse, GraduationCap, Briefcase, Laptop, PiggyBank,
+  ShoppingCart, Plane, Gift, Coffee, Shirt, Receipt, Zap, Wallet,
+};
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, MessageKey> = {
+  checking: 'accounts.type.checking',
+  savings: 'accounts.type.savings',
+  creditCard: 'accounts.type.creditCard',
+  cash: 'accounts.type.cash',
+  investment: 'accounts.type.investment',
+};
+
+export const TYPE_BADGE_CLASSES: Record<TransactionType, string> = {
+  income: 'bg-green-100 text-green-800',
+  expense: 'bg-red-100 text-red-800',
+  transfer: 'bg-blue-100 text-blue-800',
+};
+
+export const TYPE_AMOUNT_CLASSES: Record<TransactionType, string> = {
+  income: 'text-green-600',
+  expense: 'text-red-600',
+  transfer: 'text-blue-600',
+};
+
+export const PERIOD_LABELS: Record<PeriodPreset, MessageKey> = {
+  all: 'period.all',
+  day: 'period.day',
+  week: 'period.week',
+  month: 'period.month',
+  lastMonth: 'period.lastMonth',
+  last30Days: 'period.last30Days',
+  quarter: 'period.quarter',
+  year: 'period.year',
+  fiscalYear: 'period.fiscalYear',
+  custom: 'period.custom',
+};
+
+export const TIMELINE_GRANULARITY_LABELS: Record<TimelineGranularity, MessageKey> = {
+  day: 'charts.granularity.day',
+  week: 'charts.granularity.week',
+  month: 'charts.granularity.month',
+};
+
+export const TABLE_MODE_LABELS: Record<TableMode, MessageKey> = {
+  paginated: 'table.mode.paginated',
+  virtual: 'table.mode.virtual',
+};
+
+// Take a {pattern} param
+export const RULE_MATCH_LABELS: Record<RuleMatchMode, MessageKey> = {
+  contains: 'rules.match.contains',
+  regex: 'rules.match.regex',
+};
+
+export const RESTORE_MODE_LABELS: Record<RestoreMode, MessageKey> = {
+  merge: 'backup.mode.merge',
+  replace: 'backup.mode.replace',
+};
+
+export const RESTORE_MODE_HELP: Record<RestoreMode, MessageKey> = {
+  merge: 'backup.mode.mergeHelp',
+  replace: 'backup.mode.replaceHelp',
+};
+
+export const BACKUP_ENTITY_LABELS: Record<BackupEntity, MessageKey> = {
+  transactions: 'backup.entity.transactions',
+  recurrences: 'backup.entity.recurrences',
+  accounts: 'backup.entity.accounts',
+  categories: 'backup.entity.categories',
+  budgets: 'backup.entity.budgets',
+  exchangeRates: 'backup.entity.exchangeRates',
+  categorizationRules: 'backup.entity.categorizationRules',
+  savingsGoals: 'backup.entity.savingsGoals',
+};
+
+export const BACKUP_ERROR_LABELS: Record<BackupErrorCode, MessageKey> = {
+  invalidFile: 'backup.error.invalidFile',
+  unsupportedVersion: 'backup.error.unsupportedVersion',
+};
+
+export const GOAL_PACE_LABELS: Record<GoalPace, MessageKey> = {
+  reached: 'goals.pace.reached',
+  onTrack: 'goals.pace.onTrack',
+  behind: 'goals.pace.behind',
+  overdue: 'goals.pace.overdue',
+};
+
+export const LEDGER_ROLE_LABELS: Record<LedgerRole, MessageKey> = {
+  owner: 'auth.role.owner',
+  editor: 'auth.role.editor',
+  viewer: 'auth.role.viewer',
+};
+
+// Sign-in failures by HTTP status; anything else is reported as a generic failure
+export const AUTH_ERROR_LABELS: Record<number, MessageKey> = {
+  400: 'auth.error.invalidInput',
+  401: 'auth.error.invalidCredentials',
+  409: 'auth.error.usernameTaken',
+};
+
+export const HISTORY_ACTION_LABELS: Record<HistoryAction, MessageKey> = {
+  create: 'history.create',
+  update: 'history.update',
+  delete: 'history.delete',
+  skip: 'history.skip',
+  import: 'history.import',
+  categories: 'history.categories',
+  recategorize: 'history.recategorize',
+  restore: 'history.restore',
+  clear: 'history.clear',
+};
+
+export const SEARCH_ERROR_LABELS: Record<SearchErrorCode, MessageKey> = {
+  unclosedQuote: 'search.error.unclosedQuote',
+  danglingOr: 'search.error.danglingOr',
+  unknownField: 'search.error.unknownField',
+  emptyValue: 'search.error.emptyValue',
+  invalidNumber: 'search.error.invalidNumber',
+  invalidDate: 'search.error.invalidDate',
+  invalidType: 'search.error.invalidType',
+  invalidOperator: 'search.error.invalidOperator',
+};
+
+export const VALIDATION_ERROR_LABELS: Record<ValidationErrorCode, MessageKey> = {
+  required: 'validation.required',
+  invalidType: 'validation.invalidType',
+  invalidAmount: 'validation.invalidAmount',
+  notPositive: 'validation.notPositive',
+  tooManyDecimals: 'validation.tooManyDecimals',
+  unknownCategory: 'validation.unknownCategory',
+  invalidDate: 'validation.invalidDate',
+  tooLong: 'validation.tooLong',
+  invalidCurrency: 'validation.invalidCurrency',
+  invalidAccount: 'validation.invalidAccount',
+  sameAccount: 'validation.sameAccount',
+  beforeStart: 'validation.beforeStart',
+  invalidCount: 'validation.invalidCount',
+  invalidSplit: 'validation.invalidSplit',
+  splitTotal: 'validation.splitTotal',
+  invalidTag: 'validation.invalidTag',
+  invalidAttachment: 'validation.invalidAttachment',
+  attachmentTooLarge: 'validation.attachmentTooLarge',
+};
+
+export const WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+
+export const MONTHS = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
@@ -0,0 +1,84 @@
+import type { PeriodPreset, IPeriodSettings, Locale, IHistoryState, ITransactionSort } from './types';
+
+// Share of a budget after which it is flagged as close to the limit
+export const BUDGET_WARNING_RATIO = 0.8;
+
+// Currency of records saved before transactions carried one
+export const DEFAULT_CURRENCY = 'BRL';
+
+export const CURRENCIES = ['BRL', 'USD', 'EUR', 'GBP', 'ARS'];
+
+export const DEFAULT_LOCALE: Locale = 'pt-BR';
+
+// Account of records saved before transactions carried one
+export const DEFAULT_ACCOUNT_ID = 1;
+
+export const DEFAULT_PERIOD: PeriodPreset = 'month';
+
+export const DEFAULT_PERIOD_SETTINGS: IPeriodSettings = { weekStart: 0, fiscalYearStartMonth: 0 };
+
+// Calendar presets whose previous period is the same span a number of months earlier
+export const PERIOD_MONTHS: Partial<Record<PeriodPreset, number>> = {
+  month: 1,
+  lastMonth: 1,
+  quarter: 3,
+  year: 12,
+  fiscalYear: 12,
+};
+
+export const DEFAULT_TRANSACTION_SORT: ITransactionSort = { field: 'date', direction: 'desc' };
+
+// Rows per page of the paginated table
+export const PAGE_SIZE = 50;
+
+// The virtualized list assumes every row has this height (px), so it can tell which rows are on screen
+export const VIRTUAL_ROW_HEIGHT = 64;
+
+export const VIRTUAL_VIEWPORT_HEIGHT = 640;
+
+// Rows rendered above and below the visible ones, so fast scrolling shows no blank gap
+export const VIRTUAL_OVERSCAN = 8;
+
+// Wait for a pause in typing before filtering
+export const SEARCH_DEBOUNCE_MS = 250;
+
+export const DESCRIPTION_MAX_LENGTH = 200;
+
+export const NOTES_MAX_LENGTH = 2000;
+
+// A learned rule needs this many past transactions with the same description, this share of them
+// under one category
+export const SUGGESTION_MIN_COUNT = 2;
+
+export const SUGGESTION_MIN_SHARE = 0.8;
+
+// Largest expenses listed on the printable statement
+export const STATEMENT_TOP_EXPENSES = 10;
+
+export const TAG_MAX_LENGTH = 40;
+
+// Tags are lower-case words of letters, digits, "-" and "_", e.g. viagem-2025
+export const TAG_PATTERN = /^[\p{Ll}\p{Lo}\p{N}_-]+$/u;
+
+// Receipts are images or PDFs of up to 2 MB, stored as data URLs in the current storage backend
+export const ATTACHMENT_MAX_SIZE = 2 * 1024 * 1024;
+
+export const ATTACHMENT_TYPES = ['image/', 'application/pdf'];
+
+// Same minimum the server enforces on registration
+export const PASSWORD_MIN_LENGTH = 8;
+
+// Undoable changes kept per browser tab; older ones are dropped
+export const HISTORY_LIMIT = 50;
+
+export const EMPTY_HISTORY: IHistoryState = { undo: [], redo: [] };
+
+export const TOAST_DURATION_MS = 6000;
+
+// Colors handed out to new categories, in order, so each keeps its color as the data changes
+export const CATEGORY_COLORS = ['#3b82f6', '#8b5cf6', '#ec4899', '#f59e0b', '#10b981', '#ef4444', '#06b6d4', '#84cc16', '#f97316', '#6366f1'];
+
+export const DEFAULT_CATEGORY_ICON = 'Tag';
+
+// Color of a slice whose category is unknown
+export const DEFAULT_CATEGORY_COLOR = '#6b7280';
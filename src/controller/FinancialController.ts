@@ -0,0 +1,1950 @@
+import { SearchQuery } from '../searchQuery';
+import type {
+  TransactionType, CategoryType, ITransactionSplit, ITransaction, ISplitFormLine, IFormData, ISummary, PeriodPreset,
+  IDateRange, IStatement, IPeriodSettings, IPeriodOptions, TimelineGranularity, ICashFlowPoint, ITagData,
+  ICategoryData, ICategory, CategoryChanges, ICategoryState, ICategoryHierarchy, IStoragePayload, CsvField,
+  CsvDateFormat, DecimalSeparator, ICsvImportOptions, ICsvPreviewRow, StatementFormat, IStatementEntry,
+  IStatementImportResult, IAccount, IAccountBalance, IBudget, ICategorizationRule, ICategorizationChange,
+  ICategorizationSuggestion, IBudgetStatus, GoalFields, GoalFunding, GoalPace, IGoalStatus, Locale, MessageKey,
+  StorageSnapshot, IAppData, HistoryAction, IMergeCounts, MergeReport, IHistoryEntry, ITransactionSort, ITableRow,
+} from '../types';
+import {
+  BUDGET_WARNING_RATIO, DEFAULT_CURRENCY, DEFAULT_LOCALE, DEFAULT_ACCOUNT_ID, DEFAULT_PERIOD_SETTINGS, PERIOD_MONTHS,
+  DEFAULT_TRANSACTION_SORT, DESCRIPTION_MAX_LENGTH, SUGGESTION_MIN_COUNT, SUGGESTION_MIN_SHARE,
+  STATEMENT_TOP_EXPENSES, CATEGORY_COLORS, DEFAULT_CATEGORY_ICON,
+} from '../constants';
+import { AccountModel } from '../models/AccountModel';
+import { BudgetModel } from '../models/BudgetModel';
+import { CategorizationRuleModel } from '../models/CategorizationRuleModel';
+import { CategoryModel } from '../models/CategoryModel';
+import { ExchangeRateModel } from '../models/ExchangeRateModel';
+import { RecurrenceModel } from '../models/RecurrenceModel';
+import { SavingsGoalModel } from '../models/SavingsGoalModel';
+import { TransactionModel } from '../models/TransactionModel';
+import { CsvService } from '../services/CsvService';
+import { MigrationService } from '../services/MigrationService';
+import { StatementService } from '../services/StatementService';
+import { StorageService } from '../services/StorageService';
+import { ValidationError, ValidationService } from '../services/ValidationService';
+
+// Financial Controller - Business logic and calculations
+export class FinancialController {
+  // Group transactions by category for charts; with a hierarchy, subcategories roll up or are drilled into.
+  // Each line of a split transaction counts under its own category.
+  static groupByCategory(transactions: TransactionModel[], hierarchy?: ICategoryHierarchy): ICategoryData[] {
+    const grouped = transactions.reduce((acc, t) => {
+      if (t.isTransfer()) return acc;
+
+      for (const { category, amount } of t.getCategoryAmounts()) {
+        const key = hierarchy ? this.getReportingCategory(t.type, category, hierarchy) : category;
+        if (key === null) continue;
+
+        if (!acc[key]) {
+          acc[key] = { category: key, income: 0, expense: 0 };
+        }
+        if (t.type === 'income') {
+          acc[key].income += amount;
+        } else {
+          acc[key].expense += amount;
+        }
+      }
+      return acc;
+    }, {} as Record<string, ICategoryData>);
+
+    return Object.values(grouped);
+  }
+
+  // Totals per tag, biggest spending first; a transaction with several tags counts under each of them
+  static groupByTag(transactions: TransactionModel[]): ITagData[] {
+    const grouped = new Map<string, ITagData>();
+    for (const t of transactions) {
+      if (t.isTransfer() || !t.tags) continue;
+      for (const tag of t.tags) {
+        const data = grouped.get(tag) ?? { tag, income: 0, expense: 0, count: 0 };
+        if (t.type === 'income') {
+          data.income += t.amount;
+        } else {
+          data.expense += t.amount;
+        }
+        data.count++;
+        grouped.set(tag, data);
+      }
+    }
+    return [...grouped.values()].sort((a, b) => b.expense - a.expense || a.tag.localeCompare(b.tag));
+  }
+
+  // Every tag in use, alphabetically
+  static getAllTags(transactions: TransactionModel[]): string[] {
+    return [...new Set(transactions.flatMap(t => t.tags ?? []))].sort();
+  }
+
+  // Ids of the attachments listed by transactions or by their stored records
+  static getAttachmentIds(records: Pick<ITransaction, 'attachments'>[]): Set<string> {
+    return new Set(records.flatMap(r => r?.attachments?.map(a => a.id) ?? []));
+  }
+
+  // Bucket transactions by day, week or month, oldest first. Empty buckets between the first and last
+  // transaction are kept so the timeline has no gaps; transfers do not change the overall balance.
+  static groupByPeriod(
+    transactions: TransactionModel[],
+    granularity: TimelineGranularity,
+    weekStart: number = DEFAULT_PERIOD_SETTINGS.weekStart
+  ): ICashFlowPoint[] {
+    const flows = transactions.filter(t => !t.isTransfer());
+    if (flows.length === 0) return [];
+
+    // Keyed by bucket start time; formatting a key per transaction would dominate on long histories
+    const totals = new Map<number, { income: number; expense: number }>();
+    let first = flows[0].date;
+    let latest = flows[0].date;
+    for (const t of flows) {
+      if (t.date.getTime() < first.getTime()) first = t.date;
+      if (t.date.getTime() > latest.getTime()) latest = t.date;
+      const key = this.getBucketTime(t.date, granularity, weekStart);
+      let bucket = totals.get(key);
+      if (!bucket) {
+        bucket = { income: 0, expense: 0 };
+        totals.set(key, bucket);
+      }
+      if (t.type === 'income') {
+        bucket.income += t.amount;
+      } else {
+        bucket.expense += t.amount;
+      }
+    }
+
+    const last = this.getBucketStart(latest, granularity, weekStart);
+    const points: ICashFlowPoint[] = [];
+    let balance = 0;
+
+    for (
+      let bucket = this.getBucketStart(first, granularity, weekStart);
+      bucket <= last;
+      bucket = this.getNextBucket(bucket, granularity)
+    ) {
+      const period = bucket.toISOString().split('T')[0];
+      const { income, expense } = totals.get(bucket.getTime()) ?? { income: 0, expense: 0 };
+      const net = income - expense;
+      balance += net;
+      points.push({ period, income, expense, net, balance: Math.round(balance * 100) / 100 });
+    }
+
+    return points;
+  }
+
+  // First day (UTC midnight, like stored dates) of the bucket a date falls in
+  private static getBucketStart(date: Date, granularity: TimelineGranularity, weekStart: number): Date {
+    return new Date(this.getBucketTime(date, granularity, weekStart));
+  }
+
+  // Time of the bucket start, without building a Date for every transaction
+  private static getBucketTime(date: Date, granularity: TimelineGranularity, weekStart: number): number {
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    const day = date.getUTCDate();
+
+    switch (granularity) {
+      case 'day':
+        return Date.UTC(year, month, day);
+      case 'week':
+        return Date.UTC(year, month, day - (date.getUTCDay() - weekStart + 7) % 7);
+      case 'month':
+        return Date.UTC(year, month, 1);
+    }
+  }
+
+  private static getNextBucket(bucket: Date, granularity: TimelineGranularity): Date {
+    const year = bucket.getUTCFullYear();
+    const month = bucket.getUTCMonth();
+    const day = bucket.getUTCDate();
+    if (granularity === 'month') return new Date(Date.UTC(year, month + 1, 1));
+    return new Date(Date.UTC(year, month, day + (granularity === 'week' ? 7 : 1)));
+  }
+
+  // Get date range based on filter; null for 'all', an unknown filter or an incomplete custom range.
+  // Presets up to the present (day, week, month, quarter, year, fiscal year) end with today. Bounds are
+  // UTC, like stored dates, around the local calendar day of now.
+  static getDateRange(
+    filter: string,
+    options: IPeriodOptions = DEFAULT_PERIOD_SETTINGS,
+    now: Date = new Date()
+  ): IDateRange | null {
+    const year = now.getFullYear();
+    const month = now.getMonth();
+    const day = now.getDate();
+    const end = new Date(Date.UTC(year, month, day, 23, 59, 59));
+
+    switch (filter as PeriodPreset) {
+      case 'day':
+        return { start: new Date(Date.UTC(year, month, day)), end };
+      case 'week':
+        return { start: new Date(Date.UTC(year, month, day - (now.getDay() - options.weekStart + 7) % 7)), end };
+      case 'month':
+        return { start: new Date(Date.UTC(year, month, 1)), end };
+      case 'lastMonth':
+        return { start: new Date(Date.UTC(year, month - 1, 1)), end: new Date(Date.UTC(year, month, 0, 23, 59, 59)) };
+      case 'last30Days':
+        return { start: new Date(Date.UTC(year, month, day - 29)), end };
+      case 'quarter':
+        return { start: new Date(Date.UTC(year, month - month % 3, 1)), end };
+      case 'year':
+        return { start: new Date(Date.UTC(year, 0, 1)), end };
+      case 'fiscalYear': {
+        const startMonth = options.fiscalYearStartMonth;
+        return { start: new Date(Date.UTC(month >= startMonth ? year : year - 1, startMonth, 1)), end };
+      }
+      case 'custom':
+        return this.parseCustomRange(options.from, options.to);
+      default:
+        return null;
+    }
+  }
+
+  // Custom range from two YYYY-MM-DD days, inclusive; reversed bounds are swapped
+  private static parseCustomRange(from?: string, to?: string): IDateRange | null {
+    const parse = (key?: string) => {
+      const match = key?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+      return match ? [Number(match[1]), Number(match[2]) - 1, Number(match[3])] : null;
+    };
+    const first = parse(from);
+    const last = parse(to);
+    if (!first || !last) return null;
+
+    const start = new Date(Date.UTC(first[0], first[1], first[2]));
+    const end = new Date(Date.UTC(last[0], last[1], last[2], 23, 59, 59));
+    return start <= end
+      ? { start, end }
+      : {
+          start: new Date(Date.UTC(last[0], last[1], last[2])),
+          end: new Date(Date.UTC(first[0], first[1], first[2], 23, 59, 59)),
+        };
+  }
+
+  // The equivalent period right before a range. Calendar presets and ranges of whole months move back
+  // by months, so "this month so far" compares with the same days of last month; others move back by their length.
+  static getPreviousRange(filter: string, range: IDateRange): IDateRange | null {
+    if (filter === 'all') return null;
+    const { start, end } = range;
+    const months = PERIOD_MONTHS[filter as PeriodPreset] ?? this.countWholeMonths(range);
+    const endYear = end.getUTCFullYear();
+    const endMonth = end.getUTCMonth();
+
+    if (months) {
+      // A range ending on a month's last day ends on the last day of the earlier month too
+      const lastDay = new Date(Date.UTC(endYear, endMonth - months + 1, 0)).getUTCDate();
+      const endsMonth = end.getUTCDate() === new Date(Date.UTC(endYear, endMonth + 1, 0)).getUTCDate();
+      return {
+        start: new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() - months, 1)),
+        end: new Date(
+          Date.UTC(endYear, endMonth - months, endsMonth ? lastDay : Math.min(end.getUTCDate(), lastDay), 23, 59, 59)
+        ),
+      };
+    }
+
+    const days = Math.round((end.getTime() - start.getTime()) / 86400000);
+    return {
+      start: new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate() - days)),
+      end: new Date(Date.UTC(endYear, endMonth, end.getUTCDate() - days, 23, 59, 59)),
+    };
+  }
+
+  // Number of calendar months a range covers exactly (first day to last day), or null
+  private static countWholeMonths({ start, end }: IDateRange): number | null {
+    const endsMonth =
+      end.getUTCDate() === new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth() + 1, 0)).getUTCDate();
+    if (start.getUTCDate() !== 1 || !endsMonth) return null;
+    return (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth() + 1;
+  }
+
+  // Short name of a period for comparisons, e.g. "outubro", "2025" or "1 set. – 30 set."
+  // Years are shown once the range leaves the current year.
+  static getPeriodLabel(filter: string, range: IDateRange, locale: Locale = DEFAULT_LOCALE): string {
+    const { start, end } = range;
+    const timeZone = 'UTC';
+    if (start.toISOString().slice(0, 10) === end.toISOString().slice(0, 10)) {
+      return start.toLocaleDateString(locale, { timeZone });
+    }
+    if ((PERIOD_MONTHS[filter as PeriodPreset] ?? this.countWholeMonths(range)) === 1) {
+      return start.toLocaleDateString(locale, { month: 'long', timeZone });
+    }
+    if (filter === 'year') return String(start.getUTCFullYear());
+
+    const currentYear = new Date().getFullYear();
+    const withYear = start.getUTCFullYear() !== currentYear || end.getUTCFullYear() !== currentYear;
+    const format = (date: Date) =>
+      date.toLocaleDateString(locale, {
+        day: 'numeric', month: 'short', year: withYear ? 'numeric' : undefined, timeZone,
+      });
+    return `${format(start)} – ${format(end)}`;
+  }
+
+  // Range a statement covers: a calendar month, or the whole year when month is null (UTC, like stored dates)
+  static getStatementRange(year: number, month: number | null): IDateRange {
+    return month === null
+      ? { start: new Date(Date.UTC(year, 0, 1)), end: new Date(Date.UTC(year, 11, 31, 23, 59, 59)) }
+      : { start: new Date(Date.UTC(year, month - 1, 1)), end: new Date(Date.UTC(year, month, 0, 23, 59, 59)) };
+  }
+
+  // Printable statement of a month or year, compared with the month or year before it.
+  // Totals come from the transactions converted into the base currency (see convertTransactions).
+  static buildStatement(
+    conversion: { converted: TransactionModel[]; unconverted: TransactionModel[] },
+    year: number,
+    month: number | null
+  ): IStatement {
+    const range = this.getStatementRange(year, month);
+    const previousRange = month === null
+      ? this.getStatementRange(year - 1, null)
+      : this.getStatementRange(month === 1 ? year - 1 : year, month === 1 ? 12 : month - 1);
+
+    const current = this.filterByDateRange(conversion.converted, range);
+    const previous = this.filterByDateRange(conversion.converted, previousRange);
+    const totals = this.getCategoryTotals(current);
+    const previousTotals = this.getCategoryTotals(previous);
+    const summary = this.calculateSummary(current);
+
+    // Categories used only in the previous period are kept, so drops to zero show up
+    const lines = new Map([...[...previousTotals].map(([key, line]) => [key, { ...line, amount: 0 }] as const), ...totals]);
+    const categories = [...lines].map(([key, { type, category, amount }]) => {
+      const typeTotal = type === 'income' ? summary.totalIncome : summary.totalExpense;
+      return {
+        type,
+        category,
+        amount,
+        share: typeTotal > 0 ? amount / typeTotal : 0,
+        previousAmount: previousTotals.get(key)?.amount ?? 0,
+      };
+    });
+
+    return {
+      range,
+      previousRange,
+      summary,
+      previousSummary: this.calculateSummary(previous),
+      categories: categories.sort((a, b) =>
+        (a.type === b.type ? 0 : a.type === 'income' ? -1 : 1) || b.amount - a.amount || b.previousAmount - a.previousAmount
+      ),
+      topExpenses: current
+        .filter(t => t.type === 'expense')
+        .sort((a, b) => b.amount - a.amount)
+        .slice(0, STATEMENT_TOP_EXPENSES),
+      transactions: [...current].sort((a, b) => a.date.getTime() - b.date.getTime() || a.id - b.id),
+      unconverted: this.filterByDateRange(conversion.unconverted, range).length,
+    };
+  }
+
+  // Totals per type and category (split lines count under their own categories), keyed "type|category"
+  private static getCategoryTotals(
+    transactions: TransactionModel[]
+  ): Map<string, { type: CategoryType; category: string; amount: number }> {
+    const totals = new Map<string, { type: CategoryType; category: string; amount: number }>();
+    for (const t of transactions) {
+      if (t.isTransfer()) continue;
+      for (const { category, amount } of t.getCategoryAmounts()) {
+        const key = `${t.type}|${category}`;
+        const total = totals.get(key) ?? { type: t.type as CategoryType, category, amount: 0 };
+        totals.set(key, { ...total, amount: total.amount + amount });
+      }
+    }
+    return totals;
+  }
+
+  // Relative change between two totals; null when there is nothing to compare with
+  static getChange(current: number, previous: number): number | null {
+    if (previous === 0) return null;
+    return (current - previous) / Math.abs(previous);
+  }
+
+  // Keep transactions dated within a range
+  static filterByDateRange(transactions: TransactionModel[], range: IDateRange): TransactionModel[] {
+    return transactions.filter(t => t.isInDateRange(range.start, range.end));
+  }
+
+  // Filter transactions based on search, period and account, keeping their order (see sortTransactions)
+  static filterTransactions(
+    transactions: TransactionModel[],
+    searchTerm: string,
+    periodFilter: string,
+    accountId: number | null = null,
+    periodOptions: IPeriodOptions = DEFAULT_PERIOD_SETTINGS
+  ): TransactionModel[] {
+    let filtered = transactions;
+
+    if (accountId !== null) {
+      filtered = filtered.filter(t => t.involvesAccount(accountId));
+    }
+
+    if (searchTerm) {
+      const { node } = SearchQuery.parse(searchTerm);
+      filtered = filtered.filter(t => t.matchesSearch(node));
+    }
+
+    const range = this.getDateRange(periodFilter, periodOptions);
+    if (range) {
+      filtered = this.filterByDateRange(filtered, range);
+    }
+
+    return filtered;
+  }
+
+  // Sort a copy of the transactions by a table column; ties keep the newest first. Sort keys are read once
+  // per transaction, and amounts can come from elsewhere, e.g. the base-currency conversion.
+  static sortTransactions(
+    transactions: TransactionModel[],
+    sort: ITransactionSort = DEFAULT_TRANSACTION_SORT,
+    locale: Locale = DEFAULT_LOCALE,
+    amountOf: (transaction: TransactionModel) => number = t => t.amount
+  ): TransactionModel[] {
+    const collator = new Intl.Collator(locale, { sensitivity: 'base', numeric: true });
+    const sign = sort.direction === 'asc' ? 1 : -1;
+    const keyed = transactions.map(transaction => ({
+      transaction,
+      time: transaction.date.getTime(),
+      amount: sort.field === 'amount' ? amountOf(transaction) : 0,
+      text: sort.field === 'category' || sort.field === 'description' ? transaction[sort.field] : '',
+    }));
+
+    keyed.sort((a, b) => {
+      let order: number;
+      switch (sort.field) {
+        case 'date':
+          order = a.time - b.time;
+          break;
+        case 'amount':
+          order = a.amount - b.amount;
+          break;
+        default:
+          order = collator.compare(a.text, b.text);
+      }
+      return order * sign || b.time - a.time || b.transaction.id - a.transaction.id;
+    });
+
+    return keyed.map(k => k.transaction);
+  }
+
+  // Calculate summary statistics in a single pass; transfers only move money between accounts
+  static calculateSummary(transactions: TransactionModel[]): ISummary {
+    let totalIncome = 0;
+    let totalExpense = 0;
+    let highestExpense: TransactionModel | null = null;
+    const categoryTotals = new Map<string, number>();
+
+    for (const t of transactions) {
+      if (t.type === 'income') {
+        totalIncome += t.amount;
+      } else if (t.type === 'expense') {
+        totalExpense += t.amount;
+        if (!highestExpense || t.amount > highestExpense.amount) highestExpense = t;
+        for (const { category, amount } of t.getCategoryAmounts()) {
+          categoryTotals.set(category, (categoryTotals.get(category) ?? 0) + amount);
+        }
+      }
+    }
+
+    let dominantCategory: { category: string; total: number } | null = null;
+    for (const [category, total] of categoryTotals) {
+      if (!dominantCategory || total > dominantCategory.total) dominantCategory = { category, total };
+    }
+
+    return { balance: totalIncome - totalExpense, highestExpense, dominantCategory, totalIncome, totalExpense };
+  }
+
+  // Format currency
+  static formatCurrency(value: number, currency: string = DEFAULT_CURRENCY, locale: Locale = DEFAULT_LOCALE): string {
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency
+    }).format(value);
+  }
+
+  // Export transactions as CSV text (ISO dates, dot decimals)
+  static exportToCsv(transactions: TransactionModel[]): string {
+    const header: CsvField[] = ['date', 'description', 'category', 'type', 'amount', 'currency'];
+    const rows = transactions.map(t => [
+      t.date.toISOString().split('T')[0],
+      t.description,
+      t.category,
+      t.type,
+      t.amount.toFixed(2),
+      t.currency,
+    ]);
+    return CsvService.stringify([header, ...rows]);
+  }
+
+  // Guess which column holds each field from the header row
+  static guessCsvMapping(header: string[]): Record<CsvField, number | null> {
+    const aliases: Record<CsvField, string[]> = {
+      date: ['date', 'data', 'fecha'],
+      description: ['description', 'descricao', 'historico', 'descripcion'],
+      category: ['category', 'categoria'],
+      type: ['type', 'tipo'],
+      amount: ['amount', 'valor', 'value', 'importe'],
+      currency: ['currency', 'moeda', 'moneda'],
+    };
+    const normalized = header.map(h => h.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, ''));
+
+    return Object.fromEntries(
+      Object.entries(aliases).map(([field, names]) => {
+        const index = normalized.findIndex(h => names.includes(h));
+        return [field, index >= 0 ? index : null];
+      })
+    ) as Record<CsvField, number | null>;
+  }
+
+  // Parse an amount using the given decimal separator, e.g. "1.234,56" or "1234.56"
+  static parseCsvAmount(value: string, decimalSeparator: DecimalSeparator): number {
+    const thousandsSeparator = decimalSeparator === ',' ? '.' : ',';
+    let text = value.replace(/[^\d,.()-]/g, '');
+    const negative = /^\(.*\)$/.test(text) || text.startsWith('-');
+    text = text.replace(/[()-]/g, '').split(thousandsSeparator).join('').replace(decimalSeparator, '.');
+
+    if (!/^\d+(\.\d+)?$/.test(text)) return NaN;
+    return negative ? -parseFloat(text) : parseFloat(text);
+  }
+
+  // Parse a date in the given format into an ISO "yyyy-mm-dd" string, or null when invalid
+  static parseCsvDate(value: string, format: CsvDateFormat): string | null {
+    const parts = value.trim().split(/[\sT]/)[0].split(/[/.-]/).map(Number);
+    if (parts.length !== 3 || parts.some(Number.isNaN)) return null;
+
+    const [year, month, day] =
+      format === 'yyyy-mm-dd' ? parts
+        : format === 'dd/mm/yyyy' ? [parts[2], parts[1], parts[0]]
+          : [parts[2], parts[0], parts[1]];
+
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+      return null;
+    }
+    return date.toISOString().split('T')[0];
+  }
+
+  // Parse a type cell; accepts English, Portuguese and Spanish labels
+  static parseCsvType(value: string): TransactionType | null {
+    const normalized = value.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+    if (['income', 'receita', 'ingreso', 'credito', 'c'].includes(normalized)) return 'income';
+    if (['expense', 'despesa', 'gasto', 'debito', 'd'].includes(normalized)) return 'expense';
+    return null;
+  }
+
+  // Validate each CSV row against the mapping and build the import preview
+  static buildCsvPreview(rows: string[][], options: ICsvImportOptions): ICsvPreviewRow[] {
+    const { mapping, dateFormat, decimalSeparator, hasHeader } = options;
+    const cell = (row: string[], field: CsvField) =>
+      mapping[field] === null ? '' : (row[mapping[field]!] ?? '').trim();
+
+    return rows.slice(hasHeader ? 1 : 0).map((row, index) => {
+      const errors: MessageKey[] = [];
+
+      const date = this.parseCsvDate(cell(row, 'date'), dateFormat);
+      if (!date) errors.push('csv.error.date');
+
+      const rawAmount = this.parseCsvAmount(cell(row, 'amount'), decimalSeparator);
+      if (!Number.isFinite(rawAmount) || rawAmount === 0) errors.push('csv.error.amount');
+
+      // Without a type column, the sign of the amount decides: negative values are expenses
+      let type: TransactionType | null = rawAmount < 0 ? 'expense' : 'income';
+      if (mapping.type !== null) {
+        type = this.parseCsvType(cell(row, 'type'));
+        if (!type) errors.push('csv.error.type');
+      }
+
+      const description = cell(row, 'description');
+      if (!description) errors.push('csv.error.description');
+      if (description.length > DESCRIPTION_MAX_LENGTH) errors.push('csv.error.descriptionLength');
+
+      const currency = cell(row, 'currency').toUpperCase() || DEFAULT_CURRENCY;
+      if (!/^[A-Z]{3}$/.test(currency)) errors.push('csv.error.currency');
+
+      return {
+        line: index + (hasHeader ? 2 : 1),
+        errors,
+        data: errors.length > 0 ? null : {
+          type: type!,
+          // Amounts are kept in cents (see ValidationService)
+          amount: Math.round(Math.abs(rawAmount) * 100) / 100,
+          category: cell(row, 'category') || 'Outros',
+          description,
+          date: new Date(date!),
+          currency,
+        },
+      };
+    });
+  }
+
+  // Parse an OFX date such as "20251105120000[-3:BRT]" into UTC midnight of that day
+  static parseOfxDate(value: string): Date | null {
+    const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+    if (!match) return null;
+    const iso = this.parseCsvDate(`${match[1]}-${match[2]}-${match[3]}`, 'yyyy-mm-dd');
+    return iso ? new Date(iso) : null;
+  }
+
+  // Parse a statement amount; whichever of comma or dot appears last is the decimal separator
+  static parseStatementAmount(value: string): number {
+    const decimalSeparator: DecimalSeparator = value.lastIndexOf(',') > value.lastIndexOf('.') ? ',' : '.';
+    return this.parseCsvAmount(value, decimalSeparator);
+  }
+
+  // Guess the QIF date order: any first part above 12 means day first, any second part above 12 means month first
+  static detectQifDateFormat(values: string[]): CsvDateFormat {
+    const parts = values.map(v => v.split(/[/'.-]/).map(Number));
+    if (parts.some(p => p[1] > 12)) return 'mm/dd/yyyy';
+    if (parts.some(p => p[0] > 12)) return 'dd/mm/yyyy';
+    return 'dd/mm/yyyy';
+  }
+
+  // Parse a QIF date such as "05/11/2025" or "5/11'25"
+  static parseQifDate(value: string, format: CsvDateFormat): Date | null {
+    const [first, second, year] = value.trim().split(/[/'.-]/).map(p => p.trim());
+    if (!year) return null;
+    const fullYear = year.length <= 2 ? String(2000 + Number(year)) : year;
+    const iso = this.parseCsvDate(`${first}/${second}/${fullYear}`, format);
+    return iso ? new Date(iso) : null;
+  }
+
+  // Turn an OFX or QIF statement into entries with signed amounts
+  static parseStatement(text: string, format: StatementFormat): IStatementEntry[] {
+    if (format === 'ofx') {
+      const currency = /<CURDEF>\s*([A-Z]{3})/i.exec(text)?.[1].toUpperCase();
+      return StatementService.parseOfx(text).flatMap(record => {
+        const date = this.parseOfxDate(record.DTPOSTED ?? '');
+        const amount = this.parseStatementAmount(record.TRNAMT ?? '');
+        if (!date || !Number.isFinite(amount) || amount === 0) return [];
+        return [{
+          externalId: record.FITID || undefined,
+          date,
+          amount,
+          description: record.MEMO || record.NAME || record.TRNTYPE || '',
+          currency,
+        }];
+      });
+    }
+
+    const records = StatementService.parseQif(text);
+    const dateFormat = this.detectQifDateFormat(records.map(r => r.D ?? ''));
+    return records.flatMap(record => {
+      const date = this.parseQifDate(record.D ?? '', dateFormat);
+      const amount = this.parseStatementAmount(record.T ?? record.U ?? '');
+      if (!date || !Number.isFinite(amount) || amount === 0) return [];
+      // QIF has no unique entry id (N is a check number), so duplicates are found by fingerprint
+      return [{
+        date,
+        amount,
+        description: record.P || record.M || '',
+        category: record.L?.split(':')[0] || undefined,
+      }];
+    });
+  }
+
+  // Convert statement entries into new transactions, skipping anything already imported.
+  // An entry is a duplicate when its FITID matches, or when its fingerprint matches. A transaction
+  // with another FITID is another bank entry, so an entry with a FITID only matches the fingerprint
+  // of one without (entered by hand, or imported from QIF or CSV), each of those matching once.
+  static importStatement(
+    existing: TransactionModel[],
+    entries: IStatementEntry[],
+    accountId: number = DEFAULT_ACCOUNT_ID
+  ): IStatementImportResult {
+    const knownIds = new Set(existing.flatMap(t => t.externalId ? [t.externalId] : []));
+    const knownFingerprints = new Set(existing.map(t => t.getFingerprint()));
+    const unidentified = new Map<string, number>();
+    for (const t of existing) {
+      if (!t.externalId) unidentified.set(t.getFingerprint(), (unidentified.get(t.getFingerprint()) ?? 0) + 1);
+    }
+    const added: TransactionModel[] = [];
+    let nextId = Math.max(0, ...existing.map(t => t.id)) + 1;
+
+    for (const entry of entries) {
+      const transaction = new TransactionModel(
+        nextId,
+        entry.amount > 0 ? 'income' : 'expense',
+        // Stored records must pass validation: amounts in cents, descriptions within the limit
+        Math.round(Math.abs(entry.amount) * 100) / 100,
+        entry.category ?? 'Outros',
+        entry.description.slice(0, DESCRIPTION_MAX_LENGTH),
+        entry.date,
+        { currency: entry.currency, accountId, externalId: entry.externalId }
+      );
+      const fingerprint = transaction.getFingerprint();
+      const isDuplicate = entry.externalId
+        ? knownIds.has(entry.externalId) || this.takeMatch(unidentified, fingerprint)
+        : knownFingerprints.has(fingerprint);
+      if (isDuplicate) continue;
+
+      if (entry.externalId) knownIds.add(entry.externalId);
+      knownFingerprints.add(fingerprint);
+      added.push(transaction);
+      nextId++;
+    }
+
+    return { added, duplicates: entries.length - added.length };
+  }
+
+  // Use up one of the transactions counted under a fingerprint; false when none is left
+  private static takeMatch(counts: Map<string, number>, fingerprint: string): boolean {
+    const count = counts.get(fingerprint) ?? 0;
+    if (count > 0) counts.set(fingerprint, count - 1);
+    return count > 0;
+  }
+
+  // Create the missing occurrences of every rule up to the given date
+  static materializeRecurrences(
+    transactions: TransactionModel[],
+    rules: RecurrenceModel[],
+    until: Date = new Date()
+  ): TransactionModel[] {
+    const existing = new Set(
+      transactions.flatMap(t => t.isRecurring() ? [`${t.recurrenceId}|${t.occurrenceDate}`] : [])
+    );
+    let nextId = Math.max(0, ...transactions.map(t => t.id)) + 1;
+
+    return rules.flatMap(rule =>
+      rule.getOccurrenceDates(until)
+        .filter(date => !existing.has(`${rule.id}|${date}`))
+        .map(date => rule.createOccurrence(nextId++, date))
+    );
+  }
+
+  // Build a recurrence rule from the form, or null when the form does not repeat
+  static buildRecurrence(id: number, formData: IFormData): RecurrenceModel | null {
+    if (formData.recurrence === 'none') return null;
+
+    // Receipts belong to one occurrence, so the rule does not repeat them
+    const { tags, notes } = this.getFormAnnotations(formData);
+
+    return new RecurrenceModel(
+      id,
+      formData.recurrence,
+      {
+        type: formData.type,
+        amount: parseFloat(formData.amount),
+        description: formData.description,
+        currency: formData.currency,
+        ...this.getFormAccounts(formData),
+        ...this.getFormCategories(formData),
+        tags,
+        notes,
+      },
+      formData.date,
+      {
+        endDate: formData.recurrenceEnd === 'date' ? formData.recurrenceEndDate : null,
+        count: formData.recurrenceEnd === 'count' ? parseInt(formData.recurrenceCount, 10) : null,
+      }
+    );
+  }
+
+  // Add a new rule and materialize it; the first occurrence is created even when it lies in the future
+  static addRecurrence(
+    transactions: TransactionModel[],
+    rules: RecurrenceModel[],
+    formData: IFormData
+  ): { transactions: TransactionModel[]; rules: RecurrenceModel[] } {
+    const rule = this.buildRecurrence(Math.max(0, ...rules.map(r => r.id)) + 1, formData)!;
+    const until = rule.startDate > new Date() ? rule.startDate : new Date();
+    return {
+      transactions: [...transactions, ...this.materializeRecurrences(transactions, [rule], until)],
+      rules: [...rules, rule],
+    };
+  }
+
+  // Skip one occurrence so it is never materialized again
+  static skipOccurrence(rules: RecurrenceModel[], occurrence: TransactionModel): RecurrenceModel[] {
+    return rules.map(rule =>
+      rule.id === occurrence.recurrenceId
+        ? RecurrenceModel.fromJSON({ ...rule.toJSON(), skippedDates: [...rule.skippedDates, occurrence.occurrenceDate] })
+        : rule
+    );
+  }
+
+  // Apply an edit to an occurrence and all later ones: the current rule ends the day before it,
+  // and a new rule built from the form takes over from the edited occurrence onwards
+  static updateFutureOccurrences(
+    transactions: TransactionModel[],
+    rules: RecurrenceModel[],
+    occurrence: TransactionModel,
+    formData: IFormData
+  ): { transactions: TransactionModel[]; rules: RecurrenceModel[] } {
+    const dayBefore = new Date(new Date(occurrence.occurrenceDate!).getTime() - 24 * 60 * 60 * 1000);
+    const endedRules = rules
+      .map(rule =>
+        rule.id === occurrence.recurrenceId
+          ? RecurrenceModel.fromJSON({ ...rule.toJSON(), endDate: dayBefore.toISOString() })
+          : rule
+      )
+      .filter(rule => !rule.endDate || rule.endDate >= rule.startDate);
+    const remaining = transactions.filter(t =>
+      !(t.recurrenceId === occurrence.recurrenceId && t.occurrenceDate! >= occurrence.occurrenceDate!)
+    );
+
+    if (formData.recurrence === 'none') {
+      // Stopping the recurrence keeps the edited occurrence as a one-off transaction
+      const { category, splits } = this.getFormCategories(formData);
+      const oneOff = new TransactionModel(
+        occurrence.id, formData.type, formData.amount, category, formData.description, formData.date,
+        { currency: formData.currency, ...this.getFormAccounts(formData), splits, ...this.getFormAnnotations(formData) }
+      );
+      return { transactions: [...remaining, oneOff], rules: endedRules };
+    }
+
+    return this.addRecurrence(remaining, endedRules, formData);
+  }
+
+  // Form fields describing the rule behind an occurrence, counting only what is left from it
+  static getRecurrenceFormFields(
+    rule: RecurrenceModel,
+    occurrence: TransactionModel
+  ): Pick<IFormData, 'recurrence' | 'recurrenceEnd' | 'recurrenceEndDate' | 'recurrenceCount'> {
+    const remainingCount = rule.count === null ? null : rule.count - rule.countBefore(occurrence.occurrenceDate!);
+    return {
+      recurrence: rule.frequency,
+      recurrenceEnd: rule.endDate ? 'date' : remainingCount !== null ? 'count' : 'never',
+      recurrenceEndDate: rule.endDate?.toISOString().split('T')[0] ?? '',
+      recurrenceCount: remainingCount !== null ? String(remainingCount) : '',
+    };
+  }
+
+  // Compare each budget's available amount (limit plus rollover) with this month's spending
+  static getBudgetStatuses(
+    transactions: TransactionModel[],
+    budgets: BudgetModel[],
+    today: Date = new Date()
+  ): IBudgetStatus[] {
+    const currentMonth = today.toISOString().slice(0, 7);
+    const spentByMonth = new Map<string, Record<string, number>>();
+
+    for (const t of transactions) {
+      if (t.type !== 'expense') continue;
+      const month = t.date.toISOString().slice(0, 7);
+      const totals = spentByMonth.get(month) ?? {};
+      for (const { category, amount } of t.getCategoryAmounts()) {
+        totals[category] = (totals[category] || 0) + amount;
+      }
+      spentByMonth.set(month, totals);
+    }
+
+    const spentIn = (month: string, category: string) => spentByMonth.get(month)?.[category] ?? 0;
+
+    return budgets.map(budget => {
+      // Unspent amounts carry into the next month; an overspent month carries nothing
+      let carriedOver = 0;
+      if (budget.rollover) {
+        for (let month = budget.startMonth; month < currentMonth; month = this.nextMonth(month)) {
+          carriedOver = Math.max(0, carriedOver + budget.limit - spentIn(month, budget.category));
+        }
+      }
+
+      const spent = this.groupByCategory(
+        transactions.filter(t => t.date.toISOString().slice(0, 7) === currentMonth)
+      ).find(c => c.category === budget.category)?.expense ?? 0;
+      const available = budget.limit + carriedOver;
+      const remaining = available - spent;
+      const ratio = available > 0 ? spent / available : spent > 0 ? Infinity : 0;
+
+      const lastDay = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() + 1, 0)).getUTCDate();
+      const daysLeft = lastDay - today.getUTCDate() + 1;
+
+      return {
+        budget,
+        spent,
+        carriedOver,
+        available,
+        remaining,
+        ratio,
+        state: ratio >= 1 ? 'exceeded' : ratio >= BUDGET_WARNING_RATIO ? 'warning' : 'ok',
+        dailyAllowance: Math.max(0, remaining) / daysLeft,
+      };
+    });
+  }
+
+  // Next "yyyy-mm" month key
+  private static nextMonth(month: string): string {
+    const [year, m] = month.split('-').map(Number);
+    return new Date(Date.UTC(year, m, 1)).toISOString().slice(0, 7);
+  }
+
+  // Number of months from one "yyyy-mm" month key to another; negative when to comes first
+  private static monthsBetween(from: string, to: string): number {
+    const [fromYear, fromMonth] = from.split('-').map(Number);
+    const [toYear, toMonth] = to.split('-').map(Number);
+    return (toYear - fromYear) * 12 + toMonth - fromMonth;
+  }
+
+  // Progress of each goal: what its linked transactions and manual contributions saved, the monthly
+  // contribution still needed through the target month, and whether the monthly average since the goal
+  // started (or its first saving, if earlier) keeps up with it. Transactions are in the base currency, so
+  // a linked transaction without an exchange rate does not count yet.
+  static getGoalStatuses(
+    transactions: TransactionModel[],
+    goals: SavingsGoalModel[],
+    today: Date = new Date()
+  ): IGoalStatus[] {
+    const currentMonth = today.toISOString().slice(0, 7);
+    const byId = new Map(transactions.map(t => [t.id, t]));
+
+    return goals.map(goal => {
+      const linked = goal.transactionIds.flatMap(id => byId.get(id) ?? []);
+      const savings = [
+        ...linked.map(t => ({ month: t.date.toISOString().slice(0, 7), amount: t.amount })),
+        ...goal.contributions.map(c => ({ month: c.date.slice(0, 7), amount: c.amount })),
+      ];
+
+      const saved = savings.reduce((sum, { amount }) => sum + amount, 0);
+      const remaining = Math.max(0, goal.targetAmount - saved);
+      const ratio = goal.targetAmount > 0 ? saved / goal.targetAmount : 1;
+      const monthsLeft = Math.max(0, this.monthsBetween(currentMonth, goal.targetMonth) + 1);
+      const requiredMonthly = monthsLeft > 0 ? remaining / monthsLeft : remaining;
+
+      const firstMonth = savings.reduce((first, { month }) => (month < first ? month : first), goal.startMonth);
+      const monthlyAverage = saved / Math.max(1, this.monthsBetween(firstMonth, currentMonth) + 1);
+
+      let projectedMonth: string | null = null;
+      if (remaining === 0) {
+        projectedMonth = currentMonth;
+      } else if (monthlyAverage > 0) {
+        projectedMonth = currentMonth;
+        for (let months = Math.ceil(remaining / monthlyAverage) - 1; months > 0; months--) {
+          projectedMonth = this.nextMonth(projectedMonth);
+        }
+      }
+
+      const pace: GoalPace = remaining === 0 ? 'reached'
+        : monthsLeft === 0 ? 'overdue'
+          : monthlyAverage >= requiredMonthly ? 'onTrack' : 'behind';
+
+      return { goal, linked, saved, remaining, ratio, monthsLeft, requiredMonthly, monthlyAverage, projectedMonth, pace };
+    });
+  }
+
+  // Add a goal starting this month, or update the name, target and date of an existing one
+  static upsertGoal(goals: SavingsGoalModel[], data: GoalFields, id: number | null): SavingsGoalModel[] {
+    if (id !== null) {
+      return goals.map(g => g.id === id ? new SavingsGoalModel(g.id, { ...g, ...data }) : g);
+    }
+
+    const nextId = Math.max(0, ...goals.map(g => g.id)) + 1;
+    const startMonth = new Date().toISOString().slice(0, 7);
+    return [...goals, new SavingsGoalModel(nextId, { ...data, startMonth, transactionIds: [], contributions: [] })];
+  }
+
+  // Replace the linked transactions and manual contributions of a goal
+  static fundGoal(goals: SavingsGoalModel[], id: number, funding: GoalFunding): SavingsGoalModel[] {
+    return goals.map(g => g.id === id ? new SavingsGoalModel(g.id, { ...g, ...funding }) : g);
+  }
+
+  // Add a budget for a category, or update the existing one
+  static upsertBudget(budgets: BudgetModel[], data: Omit<IBudget, 'id' | 'startMonth'>): BudgetModel[] {
+    const existing = budgets.find(b => b.category === data.category);
+    if (existing) {
+      return budgets.map(b =>
+        b === existing ? new BudgetModel(b.id, data.category, data.limit, data.rollover, b.startMonth) : b
+      );
+    }
+
+    const id = Math.max(0, ...budgets.map(b => b.id)) + 1;
+    const startMonth = new Date().toISOString().slice(0, 7);
+    return [...budgets, new BudgetModel(id, data.category, data.limit, data.rollover, startMonth)];
+  }
+
+  // Apply the first matching rule: set its type and category and add its tags. Transfers and split
+  // transactions keep their categories. Returns the same transaction when nothing changes.
+  static applyCategorizationRules(transaction: TransactionModel, rules: CategorizationRuleModel[]): TransactionModel {
+    if (transaction.isTransfer() || transaction.isSplit()) return transaction;
+    const rule = rules.find(r => r.matches(transaction));
+    if (!rule) return transaction;
+
+    const tags = [...new Set([...(transaction.tags ?? []), ...rule.tags])];
+    if (rule.type === transaction.type && rule.category === transaction.category && tags.length === (transaction.tags?.length ?? 0)) {
+      return transaction;
+    }
+    return new TransactionModel(
+      transaction.id, rule.type, transaction.amount, rule.category, transaction.description, transaction.date,
+      { ...transaction.getDetails(), tags }
+    );
+  }
+
+  // What re-running the rules over existing transactions would change
+  static previewCategorization(transactions: TransactionModel[], rules: CategorizationRuleModel[]): ICategorizationChange[] {
+    return transactions.flatMap(before => {
+      const after = this.applyCategorizationRules(before, rules);
+      return after === before ? [] : [{ before, after }];
+    });
+  }
+
+  // Fill the type, category and tags of a new transaction from the first matching rule, while the
+  // category is still empty; anything picked by hand is kept
+  static applyRulesToForm(formData: IFormData, rules: CategorizationRuleModel[]): IFormData {
+    if (formData.category || formData.type === 'transfer' || formData.splits.length > 0) return formData;
+    const rule = rules.find(r => r.matches({ description: formData.description, amount: parseFloat(formData.amount) || 0 }));
+    if (!rule) return formData;
+
+    const tags = ValidationService.parseTags(formData.tags);
+    return {
+      ...formData,
+      type: rule.type,
+      category: rule.category,
+      tags: [...new Set([...tags, ...rule.tags])].join(' '),
+    };
+  }
+
+  // Learn rules from history: descriptions that, once digits and punctuation are dropped, were seen
+  // at least twice and almost always under the same category, and that no rule covers yet
+  static suggestCategorizationRules(
+    transactions: TransactionModel[],
+    rules: CategorizationRuleModel[]
+  ): ICategorizationSuggestion[] {
+    const groups = new Map<string, { type: CategoryType; counts: Map<string, number>; total: number }>();
+    for (const t of transactions) {
+      if (t.isTransfer() || t.isSplit() || rules.some(r => r.matches(t))) continue;
+      const key = SearchQuery.normalize(t.description).replace(/[^\p{L}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+      if (key.length < 3) continue;
+
+      const groupKey = `${t.type}|${key}`;
+      const group = groups.get(groupKey) ?? { type: t.type as CategoryType, counts: new Map<string, number>(), total: 0 };
+      group.counts.set(t.category, (group.counts.get(t.category) ?? 0) + 1);
+      group.total++;
+      groups.set(groupKey, group);
+    }
+
+    const suggestions: ICategorizationSuggestion[] = [];
+    for (const [groupKey, { type, counts, total }] of groups) {
+      const [category, count] = [...counts].reduce((best, entry) => entry[1] > best[1] ? entry : best);
+      if (total >= SUGGESTION_MIN_COUNT && count / total >= SUGGESTION_MIN_SHARE) {
+        suggestions.push({ pattern: groupKey.slice(groupKey.indexOf('|') + 1), type, category, count });
+      }
+    }
+    return suggestions.sort((a, b) => b.count - a.count || a.pattern.localeCompare(b.pattern));
+  }
+
+  // Add a categorization rule after the existing ones
+  static addCategorizationRule(
+    rules: CategorizationRuleModel[],
+    data: Omit<ICategorizationRule, 'id'>
+  ): CategorizationRuleModel[] {
+    const id = Math.max(0, ...rules.map(r => r.id)) + 1;
+    return [...rules, new CategorizationRuleModel(id, data)];
+  }
+
+  // Move a rule one place up or down; earlier rules win
+  static moveCategorizationRule(rules: CategorizationRuleModel[], id: number, offset: -1 | 1): CategorizationRuleModel[] {
+    const index = rules.findIndex(r => r.id === id);
+    const target = index + offset;
+    if (index === -1 || target < 0 || target >= rules.length) return rules;
+
+    const moved = [...rules];
+    [moved[index], moved[target]] = [moved[target], moved[index]];
+    return moved;
+  }
+
+  // Save categorization rules to storage
+  static saveCategorizationRules(rules: CategorizationRuleModel[]): Promise<void> {
+    return StorageService.saveToStorage(
+      StorageService.getKeys().CATEGORIZATION_RULES,
+      MigrationService.wrap(rules.map(r => r.toJSON()))
+    );
+  }
+
+  // Restore categorization rules from a stored payload
+  static restoreCategorizationRules(saved: unknown): CategorizationRuleModel[] {
+    const key = StorageService.getKeys().CATEGORIZATION_RULES;
+    return saved == null ? [] : MigrationService.migrate<any[]>(key, saved).map(CategorizationRuleModel.fromJSON);
+  }
+
+  // Save savings goals to storage
+  static saveSavingsGoals(goals: SavingsGoalModel[]): Promise<void> {
+    return StorageService.saveToStorage(
+      StorageService.getKeys().SAVINGS_GOALS,
+      MigrationService.wrap(goals.map(g => g.toJSON()))
+    );
+  }
+
+  // Restore savings goals from a stored payload
+  static restoreSavingsGoals(saved: unknown): SavingsGoalModel[] {
+    const key = StorageService.getKeys().SAVINGS_GOALS;
+    return saved == null ? [] : MigrationService.migrate<any[]>(key, saved).map(SavingsGoalModel.fromJSON);
+  }
+
+  // Save budgets to storage
+  static saveBudgets(budgets: BudgetModel[]): Promise<void> {
+    return StorageService.saveToStorage(
+      StorageService.getKeys().BUDGETS,
+      MigrationService.wrap(budgets.map(b => b.toJSON()))
+    );
+  }
+
+  // Restore budgets from a stored payload, upgrading older payloads
+  static restoreBudgets(saved: unknown): BudgetModel[] {
+    const key = StorageService.getKeys().BUDGETS;
+    return saved == null ? [] : MigrationService.migrate<any[]>(key, saved).map(BudgetModel.fromJSON);
+  }
+
+  // Find a category by type and name; names are unique within a type
+  static findCategory(categories: CategoryModel[], type: TransactionType, name: string): CategoryModel | undefined {
+    return categories.find(c => c.type === type && c.name === name);
+  }
+
+  // Names from the top-level category down, e.g. ['Alimentação', 'Restaurante']
+  static getCategoryPath(categories: CategoryModel[], type: TransactionType, name: string): string[] {
+    const category = this.findCategory(categories, type, name);
+    const parent = category?.parentId != null ? categories.find(c => c.id === category.parentId) : undefined;
+    return parent ? [parent.name, name] : [name];
+  }
+
+  // Active categories of a type in tree order (each parent followed by its subcategories).
+  // An archived category is still listed when it is the current value, so editing keeps it.
+  static getCategoryOptions(categories: CategoryModel[], type: TransactionType, current?: string): CategoryModel[] {
+    const visible = categories.filter(c => c.type === type && (!c.archived || c.name === current));
+    return visible
+      .filter(c => !c.isSubcategory() || !visible.some(p => p.id === c.parentId))
+      .flatMap(parent => [parent, ...visible.filter(c => c.parentId === parent.id)]);
+  }
+
+  // Name a transaction is reported under: its top-level category when rolling up, or its own
+  // category when drilling into a parent (null when it is outside that parent's subtree)
+  private static getReportingCategory(
+    type: TransactionType,
+    category: string,
+    hierarchy: ICategoryHierarchy
+  ): string | null {
+    const [top] = this.getCategoryPath(hierarchy.categories, type, category);
+    if (hierarchy.parent === null) return top;
+    return top === hierarchy.parent ? category : null;
+  }
+
+  // First palette color not taken yet, cycling once every color is in use
+  static getNextCategoryColor(categories: CategoryModel[]): string {
+    return CATEGORY_COLORS.find(color => !categories.some(c => c.color === color))
+      ?? CATEGORY_COLORS[categories.length % CATEGORY_COLORS.length];
+  }
+
+  // Add a category; a duplicate name within the type is ignored
+  static createCategory(categories: CategoryModel[], data: Omit<ICategory, 'id' | 'archived'>): CategoryModel[] {
+    const name = data.name.trim();
+    if (!name || this.findCategory(categories, data.type, name)) return categories;
+
+    const id = Math.max(0, ...categories.map(c => c.id)) + 1;
+    const parentId = this.canNestUnder(categories, { id, type: data.type }, data.parentId) ? data.parentId : null;
+    return [...categories, new CategoryModel(id, name, data.type, parentId, data.color, data.icon)];
+  }
+
+  // Change color, icon, parent or archived flag; an invalid parent is ignored
+  static updateCategory(categories: CategoryModel[], id: number, changes: CategoryChanges): CategoryModel[] {
+    return categories.map(c => {
+      if (c.id !== id) return c;
+
+      const parentId = changes.parentId === undefined || this.canNestUnder(categories, c, changes.parentId)
+        ? changes.parentId ?? c.parentId
+        : c.parentId;
+      return new CategoryModel(
+        c.id, c.name, c.type, parentId, changes.color ?? c.color, changes.icon ?? c.icon, changes.archived ?? c.archived
+      );
+    });
+  }
+
+  // Only one level of nesting: the parent must be a top-level category of the same type,
+  // and a category that has subcategories cannot itself be nested
+  private static canNestUnder(
+    categories: CategoryModel[],
+    category: Pick<ICategory, 'id' | 'type'>,
+    parentId: number | null
+  ): boolean {
+    if (parentId === null) return true;
+    const parent = categories.find(c => c.id === parentId);
+    return !!parent
+      && parent.id !== category.id
+      && parent.type === category.type
+      && !parent.isSubcategory()
+      && !categories.some(c => c.parentId === category.id);
+  }
+
+  // Rename a category and rewrite the transactions, recurrence templates, budgets and categorization
+  // rules that use it
+  static renameCategory(state: ICategoryState, id: number, name: string): ICategoryState {
+    const category = state.categories.find(c => c.id === id);
+    const newName = name.trim();
+    if (!category || !newName || this.findCategory(state.categories, category.type, newName)) return state;
+
+    const renamed = new CategoryModel(
+      category.id, newName, category.type, category.parentId, category.color, category.icon, category.archived
+    );
+    return {
+      ...this.rewriteCategory(state, category.type, category.name, newName),
+      categories: state.categories.map(c => c === category ? renamed : c),
+    };
+  }
+
+  // Merge one category into another of the same type: its transactions, rules and budget move to
+  // the target, its subcategories are re-parented, and the source is removed
+  static mergeCategories(state: ICategoryState, sourceId: number, targetId: number): ICategoryState {
+    const source = state.categories.find(c => c.id === sourceId);
+    const target = state.categories.find(c => c.id === targetId);
+    if (!source || !target || source === target || source.type !== target.type) return state;
+
+    // Subcategories of the source move under the target, or under the target's parent when the
+    // target is nested; a target nested under the source itself becomes top-level
+    const targetParentId = target.parentId === source.id ? null : target.parentId;
+    const newParentId = targetParentId ?? target.id;
+    const categories = state.categories
+      .filter(c => c !== source)
+      .map(c => {
+        if (c.parentId !== source.id) return c;
+        const parentId = c === target ? targetParentId : newParentId;
+        return new CategoryModel(c.id, c.name, c.type, parentId, c.color, c.icon, c.archived);
+      });
+
+    // The target's own budget wins over the source's
+    const budgets = source.type === 'expense' && state.budgets.some(b => b.category === target.name)
+      ? state.budgets.filter(b => b.category !== source.name)
+      : state.budgets;
+
+    return {
+      ...this.rewriteCategory({ ...state, budgets }, source.type, source.name, target.name),
+      categories,
+    };
+  }
+
+  private static rewriteCategory(state: ICategoryState, type: TransactionType, from: string, to: string): ICategoryState {
+    return {
+      categories: state.categories,
+      transactions: state.transactions.map(t =>
+        t.type === type && t.getCategoryAmounts().some(s => s.category === from)
+          ? new TransactionModel(t.id, t.type, t.amount, t.category === from ? to : t.category, t.description, t.date, {
+            ...t.getDetails(),
+            splits: t.splits && this.renameSplitCategory(t.splits, from, to),
+          })
+          : t
+      ),
+      rules: state.rules.map(r =>
+        r.template.type === type && (r.template.category === from || r.template.splits?.some(s => s.category === from))
+          ? RecurrenceModel.fromJSON({
+            ...r.toJSON(),
+            template: {
+              ...r.template,
+              category: r.template.category === from ? to : r.template.category,
+              splits: r.template.splits && this.renameSplitCategory(r.template.splits, from, to),
+            },
+          })
+          : r
+      ),
+      // Budgets only exist for expense categories
+      budgets: type !== 'expense' ? state.budgets : state.budgets.map(b =>
+        b.category === from ? new BudgetModel(b.id, to, b.limit, b.rollover, b.startMonth) : b
+      ),
+      categorizationRules: state.categorizationRules.map(r =>
+        r.type === type && r.category === from ? new CategorizationRuleModel(r.id, { ...r, category: to }) : r
+      ),
+    };
+  }
+
+  // Rename a category in split lines; lines that end up under the same category are merged
+  private static renameSplitCategory(splits: ITransactionSplit[], from: string, to: string): ITransactionSplit[] | undefined {
+    const merged = new Map<string, number>();
+    for (const { category, amount } of splits) {
+      const name = category === from ? to : category;
+      merged.set(name, Math.round(((merged.get(name) ?? 0) + amount) * 100) / 100);
+    }
+    // A transaction left with a single line is no longer split
+    return merged.size > 1 ? [...merged].map(([category, amount]) => ({ category, amount })) : undefined;
+  }
+
+  // Create categories for names used by transactions but missing from the list (imports, older data).
+  // Returns the same array when nothing is missing.
+  static ensureCategories(categories: CategoryModel[], transactions: TransactionModel[]): CategoryModel[] {
+    let result = categories;
+    for (const t of transactions) {
+      if (t.type === 'transfer') continue;
+      for (const { category } of t.getCategoryAmounts()) {
+        if (this.findCategory(result, t.type, category)) continue;
+        result = this.createCategory(result, {
+          name: category,
+          type: t.type,
+          parentId: null,
+          color: this.getNextCategoryColor(result),
+          icon: DEFAULT_CATEGORY_ICON,
+        });
+      }
+    }
+    return result;
+  }
+
+  // Save categories to storage
+  static saveCategories(categories: CategoryModel[]): Promise<void> {
+    return StorageService.saveToStorage(
+      StorageService.getKeys().CATEGORIES,
+      MigrationService.wrap(categories.map(c => c.toJSON()))
+    );
+  }
+
+  // Restore categories from a stored payload (none means first run, so the defaults are used)
+  static restoreCategories(saved: unknown): CategoryModel[] {
+    const key = StorageService.getKeys().CATEGORIES;
+    return saved == null
+      ? this.getDefaultCategories()
+      : MigrationService.migrate<any[]>(key, saved).map(CategoryModel.fromJSON);
+  }
+
+  // Get default categories
+  static getDefaultCategories(): CategoryModel[] {
+    return [
+      new CategoryModel(1, 'Salário', 'income', null, '#10b981', 'Briefcase'),
+      new CategoryModel(2, 'Freelance', 'income', null, '#3b82f6', 'Laptop'),
+      new CategoryModel(3, 'Investimentos', 'income', null, '#8b5cf6', 'PiggyBank'),
+      new CategoryModel(4, 'Outros', 'income', null, '#6b7280', 'Tag'),
+      new CategoryModel(5, 'Moradia', 'expense', null, '#3b82f6', 'House'),
+      new CategoryModel(6, 'Alimentação', 'expense', null, '#f59e0b', 'Utensils'),
+      new CategoryModel(7, 'Transporte', 'expense', null, '#06b6d4', 'Car'),
+      new CategoryModel(8, 'Lazer', 'expense', null, '#ec4899', 'Gamepad2'),
+      new CategoryModel(9, 'Saúde', 'expense', null, '#ef4444', 'HeartPulse'),
+      new CategoryModel(10, 'Educação', 'expense', null, '#8b5cf6', 'GraduationCap'),
+      new CategoryModel(11, 'Outros', 'expense', null, '#6b7280', 'Tag'),
+    ];
+  }
+
+  // Account fields from the form; only transfers have a destination
+  static getFormAccounts(formData: IFormData): Pick<ITransaction, 'accountId' | 'toAccountId'> {
+    return {
+      accountId: Number(formData.accountId),
+      toAccountId: formData.type === 'transfer' ? Number(formData.toAccountId) : undefined,
+    };
+  }
+
+  // Category and split lines from the form; a split transaction is filed under its first line's category
+  static getFormCategories(formData: IFormData): Pick<ITransaction, 'category' | 'splits'> {
+    if (formData.type === 'transfer' || formData.splits.length === 0) {
+      return { category: formData.category, splits: undefined };
+    }
+    return {
+      category: formData.splits[0].category,
+      splits: formData.splits.map(line => ({ category: line.category, amount: parseFloat(line.amount) })),
+    };
+  }
+
+  // Tags, notes and attachments from the form
+  static getFormAnnotations(formData: IFormData): Pick<ITransaction, 'tags' | 'notes' | 'attachments'> {
+    return {
+      tags: ValidationService.parseTags(formData.tags),
+      notes: formData.notes.trim(),
+      attachments: formData.attachments,
+    };
+  }
+
+  // Form lines for a transaction's splits, or none when it is not split
+  static getSplitFormLines(transaction: Pick<ITransaction, 'splits'>): ISplitFormLine[] {
+    return transaction.splits?.map(s => ({ category: s.category, amount: s.amount.toString() })) ?? [];
+  }
+
+  // Table rows for the given transactions, each expanded split transaction followed by its lines
+  static getTableRows(transactions: TransactionModel[], expandedIds: Set<number>): ITableRow[] {
+    if (expandedIds.size === 0) return transactions.map(transaction => ({ transaction }));
+    const rows: ITableRow[] = [];
+    for (const transaction of transactions) {
+      rows.push({ transaction });
+      if (!transaction.splits || !expandedIds.has(transaction.id)) continue;
+      transaction.splits.forEach((_, splitIndex) => rows.push({ transaction, splitIndex }));
+    }
+    return rows;
+  }
+
+  // Balance of each account in its own currency: opening balance, plus income and transfers in,
+  // minus expenses and transfers out. Amounts with no rate to the account currency are only counted.
+  static getAccountBalances(
+    transactions: TransactionModel[],
+    accounts: AccountModel[],
+    rates: ExchangeRateModel[]
+  ): IAccountBalance[] {
+    return accounts.map(account => {
+      let balance = account.openingBalance;
+      let unconverted = 0;
+
+      for (const t of transactions) {
+        const sign = t.accountId === account.id
+          ? (t.type === 'income' ? 1 : -1)
+          : (t.isTransfer() && t.toAccountId === account.id ? 1 : 0);
+        if (sign === 0) continue;
+
+        const rate = this.getExchangeRate(rates, t.currency, account.currency, t.date);
+        if (rate === null) {
+          unconverted++;
+          continue;
+        }
+        balance += sign * t.amount * rate;
+      }
+
+      return { account, balance: Math.round(balance * 100) / 100, unconverted };
+    });
+  }
+
+  // Add an account, or replace the one with the given id
+  static upsertAccount(accounts: AccountModel[], data: Omit<IAccount, 'id'>, id: number | null): AccountModel[] {
+    const accountId = id ?? Math.max(0, ...accounts.map(a => a.id)) + 1;
+    const account = new AccountModel(accountId, data.name.trim(), data.type, data.openingBalance, data.currency);
+    return id === null ? [...accounts, account] : accounts.map(a => a.id === id ? account : a);
+  }
+
+  // Wrap accounts in a versioned payload
+  static serializeAccounts(accounts: AccountModel[]): IStoragePayload<any[]> {
+    return MigrationService.wrap(accounts.map(a => a.toJSON()));
+  }
+
+  // Migrate a stored payload and turn it back into models
+  static deserializeAccounts(payload: unknown): AccountModel[] {
+    return MigrationService.migrate<any[]>(StorageService.getKeys().ACCOUNTS, payload).map(AccountModel.fromJSON);
+  }
+
+  // Save accounts to storage
+  static saveAccounts(accounts: AccountModel[]): Promise<void> {
+    return StorageService.saveToStorage(StorageService.getKeys().ACCOUNTS, this.serializeAccounts(accounts));
+  }
+
+  // Restore accounts from a stored payload (none means first run, so the default account is created)
+  static restoreAccounts(saved: unknown): AccountModel[] {
+    return saved == null ? this.getDefaultAccounts() : this.deserializeAccounts(saved);
+  }
+
+  // Get default accounts; existing transactions belong to the first one
+  static getDefaultAccounts(): AccountModel[] {
+    return [new AccountModel(DEFAULT_ACCOUNT_ID, 'Conta principal', 'checking', 0, DEFAULT_CURRENCY)];
+  }
+
+  // Rates of each currency pair sorted by date, and every currency they mention, built once per rate table.
+  // Rate tables are replaced, never changed in place, so the table itself is the cache key.
+  private static readonly rateIndexes = new WeakMap<
+    ExchangeRateModel[],
+    { pairs: Map<string, ExchangeRateModel[]>; currencies: Set<string> }
+  >();
+
+  private static getRateIndex(rates: ExchangeRateModel[]) {
+    let index = this.rateIndexes.get(rates);
+    if (!index) {
+      const pairs = new Map<string, ExchangeRateModel[]>();
+      for (const rate of rates) {
+        const key = `${rate.from}/${rate.to}`;
+        const sorted = pairs.get(key);
+        if (sorted) sorted.push(rate);
+        else pairs.set(key, [rate]);
+      }
+      for (const sorted of pairs.values()) sorted.sort((x, y) => x.date.localeCompare(y.date));
+      index = { pairs, currencies: new Set(rates.flatMap(r => [r.from, r.to])) };
+      this.rateIndexes.set(rates, index);
+    }
+    return index;
+  }
+
+  // Rate to turn one unit of `from` into `to` on a date: direct, inverse, or crossed through one
+  // other currency. The latest rate on or before the date wins; before a pair's first rate there is none.
+  static getExchangeRate(rates: ExchangeRateModel[], from: string, to: string, date: Date): number | null {
+    if (from === to) return 1;
+    const dateKey = date.toISOString().split('T')[0];
+    const { pairs, currencies } = this.getRateIndex(rates);
+
+    const pick = (a: string, b: string): number | null => {
+      const sorted = pairs.get(`${a}/${b}`);
+      if (!sorted) return null;
+      // Binary search for the first rate after the date; the one before it applies
+      let low = 0;
+      let high = sorted.length;
+      while (low < high) {
+        const middle = (low + high) >> 1;
+        if (sorted[middle].date <= dateKey) low = middle + 1;
+        else high = middle;
+      }
+      return low > 0 ? sorted[low - 1].rate : null;
+    };
+    const pair = (a: string, b: string): number | null => {
+      const direct = pick(a, b);
+      if (direct !== null) return direct;
+      const inverse = pick(b, a);
+      return inverse ? 1 / inverse : null;
+    };
+
+    const direct = pair(from, to);
+    if (direct !== null) return direct;
+
+    for (const via of currencies) {
+      const first = pair(from, via);
+      const second = first !== null ? pair(via, to) : null;
+      if (first !== null && second !== null) return first * second;
+    }
+    return null;
+  }
+
+  // Convert transactions into the base currency; those without a usable rate are returned apart
+  static convertTransactions(
+    transactions: TransactionModel[],
+    baseCurrency: string,
+    rates: ExchangeRateModel[]
+  ): { converted: TransactionModel[]; unconverted: TransactionModel[] } {
+    const converted: TransactionModel[] = [];
+    const unconverted: TransactionModel[] = [];
+
+    for (const t of transactions) {
+      const rate = this.getExchangeRate(rates, t.currency, baseCurrency, t.date);
+      if (rate === null) {
+        unconverted.push(t);
+        continue;
+      }
+      converted.push(rate === 1 && t.currency === baseCurrency ? t : new TransactionModel(
+        t.id, t.type, Math.round(t.amount * rate * 100) / 100, t.category, t.description, t.date,
+        {
+          ...t.getDetails(),
+          currency: baseCurrency,
+          splits: t.splits?.map(s => ({ ...s, amount: Math.round(s.amount * rate * 100) / 100 })),
+        }
+      ));
+    }
+
+    return { converted, unconverted };
+  }
+
+  // Parse exchange rates from CSV with date, from, to and rate columns (header required)
+  static parseExchangeRatesCsv(text: string): ExchangeRateModel[] {
+    const [header = [], ...rows] = CsvService.parse(text);
+    const columns = header.map(h => h.trim().toLowerCase());
+    const index = (names: string[]) => columns.findIndex(c => names.includes(c));
+    const [dateCol, fromCol, toCol, rateCol] = [
+      index(['date', 'data']),
+      index(['from', 'de']),
+      index(['to', 'para']),
+      index(['rate', 'taxa', 'cotacao', 'cotação']),
+    ];
+    if ([dateCol, fromCol, toCol, rateCol].includes(-1)) return [];
+
+    return rows.flatMap(row => {
+      const rawDate = row[dateCol] ?? '';
+      const date = this.parseCsvDate(rawDate, 'yyyy-mm-dd') ?? this.parseCsvDate(rawDate, 'dd/mm/yyyy');
+      const rate = this.parseStatementAmount(row[rateCol] ?? '');
+      const from = (row[fromCol] ?? '').trim();
+      const to = (row[toCol] ?? '').trim();
+      if (!date || !(rate > 0) || !/^[a-z]{3}$/i.test(from) || !/^[a-z]{3}$/i.test(to)) return [];
+      return [new ExchangeRateModel(date, from, to, rate)];
+    });
+  }
+
+  // Save the base currency to storage
+  static saveBaseCurrency(currency: string): Promise<void> {
+    return StorageService.saveToStorage(StorageService.getKeys().BASE_CURRENCY, currency);
+  }
+
+  // Restore the base currency from a stored value
+  static restoreBaseCurrency(saved: unknown): string {
+    return typeof saved === 'string' ? saved : DEFAULT_CURRENCY;
+  }
+
+  // Save the week start and fiscal year start to storage
+  static savePeriodSettings(settings: IPeriodSettings): Promise<void> {
+    return StorageService.saveToStorage(StorageService.getKeys().PERIOD_SETTINGS, settings);
+  }
+
+  // Restore period settings from a stored value, filling in any missing field
+  static restorePeriodSettings(saved: unknown): IPeriodSettings {
+    return { ...DEFAULT_PERIOD_SETTINGS, ...(saved as Partial<IPeriodSettings> | null) };
+  }
+
+  // Wrap exchange rates in a versioned payload
+  static serializeExchangeRates(rates: ExchangeRateModel[]): IStoragePayload<any[]> {
+    return MigrationService.wrap(rates.map(r => r.toJSON()));
+  }
+
+  // Migrate a stored payload and turn it back into models
+  static deserializeExchangeRates(payload: unknown): ExchangeRateModel[] {
+    return MigrationService.migrate<any[]>(StorageService.getKeys().EXCHANGE_RATES, payload).map(ExchangeRateModel.fromJSON);
+  }
+
+  // Save exchange rates to storage
+  static saveExchangeRates(rates: ExchangeRateModel[]): Promise<void> {
+    return StorageService.saveToStorage(StorageService.getKeys().EXCHANGE_RATES, this.serializeExchangeRates(rates));
+  }
+
+  // Restore exchange rates from a stored payload, upgrading older payloads
+  static restoreExchangeRates(saved: unknown): ExchangeRateModel[] {
+    return saved == null ? [] : this.deserializeExchangeRates(saved);
+  }
+
+  // Save recurrence rules to storage
+  static saveRecurrences(rules: RecurrenceModel[]): Promise<void> {
+    return StorageService.saveToStorage(
+      StorageService.getKeys().RECURRENCES,
+      MigrationService.wrap(rules.map(r => r.toJSON()))
+    );
+  }
+
+  // Restore recurrence rules from a stored payload, upgrading older payloads
+  static restoreRecurrences(saved: unknown): RecurrenceModel[] {
+    const key = StorageService.getKeys().RECURRENCES;
+    return saved == null ? [] : MigrationService.migrate<any[]>(key, saved).map(RecurrenceModel.fromJSON);
+  }
+
+  // Save dark mode to storage
+  static saveDarkMode(isDark: boolean): Promise<void> {
+    return StorageService.saveToStorage(StorageService.getKeys().DARK_MODE, isDark);
+  }
+
+  // Restore dark mode from a stored value
+  static restoreDarkMode(saved: unknown): boolean {
+    return saved === true;
+  }
+
+  // Wrap transactions in a versioned payload
+  static serializeTransactions(transactions: TransactionModel[]): IStoragePayload<any[]> {
+    return MigrationService.wrap(transactions.map(t => t.toJSON()));
+  }
+
+  // Migrate a stored payload and turn it back into models, leaving out records that fail validation
+  static deserializeTransactions(payload: unknown): TransactionModel[] {
+    return this.partitionTransactions(payload).transactions;
+  }
+
+  // Migrate a stored payload and split it into valid models and the records that fail validation
+  static partitionTransactions(payload: unknown): { transactions: TransactionModel[]; quarantined: any[] } {
+    const transactions: TransactionModel[] = [];
+    const quarantined: any[] = [];
+
+    for (const record of MigrationService.migrate<any[]>(StorageService.getKeys().TRANSACTIONS, payload)) {
+      try {
+        transactions.push(TransactionModel.fromJSON(record));
+      } catch (error) {
+        if (!(error instanceof ValidationError)) throw error;
+        console.warn(`Quarantined stored transaction ${record?.id}:`, error.message);
+        quarantined.push(record);
+      }
+    }
+
+    return { transactions, quarantined };
+  }
+
+  // Save transactions to storage
+  static saveTransactions(transactions: TransactionModel[]): Promise<void> {
+    return StorageService.saveToStorage(
+      StorageService.getKeys().TRANSACTIONS,
+      this.serializeTransactions(transactions)
+    );
+  }
+
+  // Restore transactions from a stored payload, upgrading older payloads; corrupt records come back apart
+  static restoreTransactions(saved: unknown): { transactions: TransactionModel[]; quarantined: any[] } {
+    if (saved == null) {
+      return { transactions: this.getDefaultTransactions(), quarantined: [] };
+    }
+    return this.partitionTransactions(saved);
+  }
+
+  // Save the quarantined records to storage, as they were stored
+  static saveQuarantine(records: any[]): Promise<void> {
+    return StorageService.saveToStorage(StorageService.getKeys().QUARANTINE, records);
+  }
+
+  // Restore quarantined records from a stored value
+  static restoreQuarantine(saved: unknown): any[] {
+    return Array.isArray(saved) ? saved : [];
+  }
+
+  // Load everything the dashboard keeps from the current storage backend
+  static async loadAppData(): Promise<IAppData> {
+    const keys = Object.values(StorageService.getKeys());
+    const values = await Promise.all(keys.map(key => StorageService.loadFromStorage<unknown>(key, null)));
+    return this.restoreAppData(Object.fromEntries(keys.map((key, i) => [key, values[i]])));
+  }
+
+  // Build the dashboard data from stored payloads; synchronous, so the server can render with it
+  // and the client can hydrate from the same snapshot. Missing keys get their first-run defaults.
+  static restoreAppData(snapshot: StorageSnapshot): IAppData {
+    const keys = StorageService.getKeys();
+    const { transactions, quarantined } = this.restoreTransactions(snapshot[keys.TRANSACTIONS]);
+    const recurrences = this.restoreRecurrences(snapshot[keys.RECURRENCES]);
+
+    return {
+      isDarkMode: this.restoreDarkMode(snapshot[keys.DARK_MODE]),
+      transactions: [...transactions, ...this.materializeRecurrences(transactions, recurrences)],
+      // Records found corrupt now join those quarantined before; saving the valid ones moves them out
+      quarantined: [...this.restoreQuarantine(snapshot[keys.QUARANTINE]), ...quarantined],
+      recurrences,
+      budgets: this.restoreBudgets(snapshot[keys.BUDGETS]),
+      categories: this.restoreCategories(snapshot[keys.CATEGORIES]),
+      accounts: this.restoreAccounts(snapshot[keys.ACCOUNTS]),
+      baseCurrency: this.restoreBaseCurrency(snapshot[keys.BASE_CURRENCY]),
+      exchangeRates: this.restoreExchangeRates(snapshot[keys.EXCHANGE_RATES]),
+      periodSettings: this.restorePeriodSettings(snapshot[keys.PERIOD_SETTINGS]),
+      categorizationRules: this.restoreCategorizationRules(snapshot[keys.CATEGORIZATION_RULES]),
+      savingsGoals: this.restoreSavingsGoals(snapshot[keys.SAVINGS_GOALS]),
+    };
+  }
+
+  // Record what a change replaces, so it can be undone and redone; null when it changes nothing.
+  // Models are never mutated, so a transaction that is not the same object has changed.
+  static recordChange(current: IAppData, next: Partial<IAppData>, action: HistoryAction): IHistoryEntry | null {
+    let removed: any[] = [];
+    let added: any[] = [];
+    if (next.transactions && next.transactions !== current.transactions) {
+      const previous = new Set(current.transactions);
+      const kept = new Set(next.transactions);
+      removed = current.transactions.filter(t => !kept.has(t)).map(t => t.toJSON());
+      added = next.transactions.filter(t => !previous.has(t)).map(t => t.toJSON());
+    }
+
+    const changed = (Object.keys(next) as (keyof IAppData)[])
+      .filter(key => key !== 'transactions' && next[key] !== current[key]);
+    if (removed.length === 0 && added.length === 0 && changed.length === 0) return null;
+
+    const pick = (data: Partial<IAppData>) => Object.fromEntries(changed.map(key => [key, data[key]])) as Partial<IAppData>;
+    return {
+      action,
+      removed,
+      added,
+      before: this.serializeAppData(pick(current)),
+      after: this.serializeAppData(pick(next)),
+    };
+  }
+
+  // Data that reverts a recorded change
+  static undoChange(transactions: TransactionModel[], entry: IHistoryEntry): Partial<IAppData> {
+    return this.applyChange(transactions, entry.added, entry.removed, entry.before);
+  }
+
+  // Data that applies a reverted change again
+  static redoChange(transactions: TransactionModel[], entry: IHistoryEntry): Partial<IAppData> {
+    return this.applyChange(transactions, entry.removed, entry.added, entry.after);
+  }
+
+  // Swap one set of transaction rows for another, by id, and restore the other data of a snapshot
+  private static applyChange(
+    transactions: TransactionModel[],
+    drop: any[],
+    restore: any[],
+    snapshot: StorageSnapshot
+  ): Partial<IAppData> {
+    const data = this.deserializeAppData(snapshot);
+    if (drop.length === 0 && restore.length === 0) return data;
+
+    const dropped = new Set(drop.map(row => row.id));
+    return {
+      ...data,
+      transactions: [...transactions.filter(t => !dropped.has(t.id)), ...restore.map(TransactionModel.fromJSON)],
+    };
+  }
+
+  // Storage payloads of the data other than transactions, keyed like a storage snapshot
+  private static serializeAppData(data: Partial<IAppData>): StorageSnapshot {
+    const keys = StorageService.getKeys();
+    const entries: [string, unknown][] = [
+      [keys.DARK_MODE, data.isDarkMode],
+      [keys.RECURRENCES, data.recurrences && MigrationService.wrap(data.recurrences.map(r => r.toJSON()))],
+      [keys.BUDGETS, data.budgets && MigrationService.wrap(data.budgets.map(b => b.toJSON()))],
+      [keys.CATEGORIES, data.categories && MigrationService.wrap(data.categories.map(c => c.toJSON()))],
+      [keys.ACCOUNTS, data.accounts && this.serializeAccounts(data.accounts)],
+      [keys.BASE_CURRENCY, data.baseCurrency],
+      [keys.EXCHANGE_RATES, data.exchangeRates && this.serializeExchangeRates(data.exchangeRates)],
+      [keys.PERIOD_SETTINGS, data.periodSettings],
+      [keys.QUARANTINE, data.quarantined],
+      [keys.CATEGORIZATION_RULES, data.categorizationRules && MigrationService.wrap(data.categorizationRules.map(r => r.toJSON()))],
+      [keys.SAVINGS_GOALS, data.savingsGoals && MigrationService.wrap(data.savingsGoals.map(g => g.toJSON()))],
+    ];
+    return Object.fromEntries(entries.filter(([, value]) => value !== undefined));
+  }
+
+  // Inverse of serializeAppData; only the keys in the snapshot are restored
+  private static deserializeAppData(snapshot: StorageSnapshot): Partial<IAppData> {
+    const keys = StorageService.getKeys();
+    const has = (key: string) => key in snapshot;
+    return {
+      ...(has(keys.DARK_MODE) && { isDarkMode: this.restoreDarkMode(snapshot[keys.DARK_MODE]) }),
+      ...(has(keys.RECURRENCES) && { recurrences: this.restoreRecurrences(snapshot[keys.RECURRENCES]) }),
+      ...(has(keys.BUDGETS) && { budgets: this.restoreBudgets(snapshot[keys.BUDGETS]) }),
+      ...(has(keys.CATEGORIES) && { categories: this.restoreCategories(snapshot[keys.CATEGORIES]) }),
+      ...(has(keys.ACCOUNTS) && { accounts: this.restoreAccounts(snapshot[keys.ACCOUNTS]) }),
+      ...(has(keys.BASE_CURRENCY) && { baseCurrency: this.restoreBaseCurrency(snapshot[keys.BASE_CURRENCY]) }),
+      ...(has(keys.EXCHANGE_RATES) && { exchangeRates: this.restoreExchangeRates(snapshot[keys.EXCHANGE_RATES]) }),
+      ...(has(keys.PERIOD_SETTINGS) && { periodSettings: this.restorePeriodSettings(snapshot[keys.PERIOD_SETTINGS]) }),
+      ...(has(keys.QUARANTINE) && { quarantined: this.restoreQuarantine(snapshot[keys.QUARANTINE]) }),
+      ...(has(keys.CATEGORIZATION_RULES) && {
+        categorizationRules: this.restoreCategorizationRules(snapshot[keys.CATEGORIZATION_RULES]),
+      }),
+      ...(has(keys.SAVINGS_GOALS) && { savingsGoals: this.restoreSavingsGoals(snapshot[keys.SAVINGS_GOALS]) }),
+    };
+  }
+
+  // Storage payloads of everything the dashboard keeps, keyed like a storage snapshot, for a backup file
+  static createBackupSnapshot(data: IAppData): StorageSnapshot {
+    return {
+      [StorageService.getKeys().TRANSACTIONS]: this.serializeTransactions(data.transactions),
+      ...this.serializeAppData(data),
+    };
+  }
+
+  // Merge restored data into the current data. Ids are only unique per device, so records are matched
+  // by what identifies them anywhere (an account's name, a category's type and name, ...); added ones
+  // get fresh ids and references to them are rewritten. This device's settings are kept.
+  static mergeAppData(current: IAppData, incoming: IAppData): { data: Partial<IAppData>; report: MergeReport } {
+    const accounts = this.mergeRecords(
+      current.accounts, incoming.accounts, a => [a.name.trim().toLowerCase()], AccountModel.fromJSON
+    );
+    const accountId = (id?: number) => id === undefined ? undefined : accounts.ids.get(id) ?? id;
+
+    // Parents first, so subcategories can point at their merged parent; an existing category keeps its place
+    const categoryKey = (c: CategoryModel) => [`${c.type}|${c.name}`];
+    const rebuildCategory = (json: any, match?: CategoryModel) =>
+      CategoryModel.fromJSON(match ? { ...json, parentId: match.parentId } : json);
+    const parents = this.mergeRecords(
+      current.categories, incoming.categories.filter(c => !c.isSubcategory()), categoryKey, rebuildCategory
+    );
+    const subcategories = this.mergeRecords(
+      parents.records,
+      incoming.categories.filter(c => c.isSubcategory()).map(c =>
+        CategoryModel.fromJSON({ ...c.toJSON(), parentId: parents.ids.get(c.parentId ?? -1) ?? null })
+      ),
+      categoryKey,
+      rebuildCategory
+    );
+
+    const recurrences = this.mergeRecords(
+      current.recurrences,
+      incoming.recurrences.map(r => RecurrenceModel.fromJSON({
+        ...r.toJSON(),
+        template: { ...r.template, accountId: accountId(r.template.accountId), toAccountId: accountId(r.template.toAccountId) },
+      })),
+      r => [`${r.frequency}|${r.startDate.toISOString()}|${r.template.type}|${r.template.description}`],
+      RecurrenceModel.fromJSON
+    );
+
+    const transactions = this.mergeRecords(
+      current.transactions,
+      incoming.transactions.map(t => TransactionModel.fromJSON({
+        ...t.toJSON(),
+        accountId: accountId(t.accountId),
+        toAccountId: accountId(t.toAccountId),
+        recurrenceId: t.recurrenceId === undefined ? undefined : recurrences.ids.get(t.recurrenceId) ?? t.recurrenceId,
+      })),
+      t => this.getMergeKeys(t),
+      TransactionModel.fromJSON
+    );
+
+    const budgets = this.mergeRecords(current.budgets, incoming.budgets, b => [b.category], BudgetModel.fromJSON);
+    const categorizationRules = this.mergeRecords(
+      current.categorizationRules, incoming.categorizationRules, r => [this.getContentKey(r)], CategorizationRuleModel.fromJSON
+    );
+    // Goals match by name; their linked transactions follow the transactions' new ids
+    const savingsGoals = this.mergeRecords(
+      current.savingsGoals,
+      incoming.savingsGoals.map(g => SavingsGoalModel.fromJSON({
+        ...g.toJSON(),
+        transactionIds: g.transactionIds.map(id => transactions.ids.get(id) ?? id),
+      })),
+      g => [g.name],
+      SavingsGoalModel.fromJSON
+    );
+
+    // Exchange rates have no id: one rate per date and currency pair
+    const rates = new Map(current.exchangeRates.map(r => [`${r.date}|${r.from}|${r.to}`, r]));
+    const rateCounts: IMergeCounts = { added: 0, updated: 0, skipped: 0 };
+    for (const rate of incoming.exchangeRates) {
+      const key = `${rate.date}|${rate.from}|${rate.to}`;
+      const existing = rates.get(key);
+      if (!existing) rateCounts.added++;
+      else if (existing.rate === rate.rate) rateCounts.skipped++;
+      else rateCounts.updated++;
+      if (existing?.rate !== rate.rate) rates.set(key, rate);
+    }
+
+    const quarantinedRows = new Set(current.quarantined.map(row => JSON.stringify(row)));
+
+    return {
+      data: {
+        transactions: transactions.records,
+        quarantined: [...current.quarantined, ...incoming.quarantined.filter(row => !quarantinedRows.has(JSON.stringify(row)))],
+        recurrences: recurrences.records,
+        budgets: budgets.records,
+        categories: subcategories.records,
+        accounts: accounts.records,
+        exchangeRates: [...rates.values()],
+        categorizationRules: categorizationRules.records,
+        savingsGoals: savingsGoals.records,
+      },
+      report: {
+        transactions: transactions.counts,
+        recurrences: recurrences.counts,
+        accounts: accounts.counts,
+        categories: {
+          added: parents.counts.added + subcategories.counts.added,
+          updated: parents.counts.updated + subcategories.counts.updated,
+          skipped: parents.counts.skipped + subcategories.counts.skipped,
+        },
+        budgets: budgets.counts,
+        exchangeRates: rateCounts,
+        categorizationRules: categorizationRules.counts,
+        savingsGoals: savingsGoals.counts,
+      },
+    };
+  }
+
+  // Merge records into the current ones. A record sharing a key with an existing one replaces it when it
+  // differs (keeping the existing id); the others are added under fresh ids. ids maps each incoming id to
+  // the id it ends up with. rebuild gets a record's JSON with its new id, and the record it replaces.
+  private static mergeRecords<T extends { id: number; toJSON(): any }>(
+    current: T[],
+    incoming: T[],
+    keysOf: (record: T) => string[],
+    rebuild: (json: any, match?: T) => T
+  ): { records: T[]; ids: Map<number, number>; counts: IMergeCounts } {
+    const records = [...current];
+    const index = new Map<string, number>();
+    const addKeys = (record: T, position: number) => keysOf(record).forEach(key => index.set(key, position));
+    records.forEach(addKeys);
+
+    const ids = new Map<number, number>();
+    const counts: IMergeCounts = { added: 0, updated: 0, skipped: 0 };
+    let nextId = Math.max(0, ...current.map(r => r.id)) + 1;
+
+    for (const record of incoming) {
+      const position = keysOf(record).map(key => index.get(key)).find(found => found !== undefined);
+      if (position === undefined) {
+        const added = rebuild({ ...record.toJSON(), id: nextId });
+        ids.set(record.id, nextId++);
+        addKeys(added, records.push(added) - 1);
+        counts.added++;
+        continue;
+      }
+
+      const match = records[position];
+      const merged = rebuild({ ...record.toJSON(), id: match.id }, match);
+      ids.set(record.id, match.id);
+      if (JSON.stringify(merged.toJSON()) === JSON.stringify(match.toJSON())) {
+        counts.skipped++;
+        continue;
+      }
+      keysOf(match).forEach(key => index.get(key) === position && index.delete(key));
+      records[position] = merged;
+      addKeys(merged, position);
+      counts.updated++;
+    }
+
+    return { records, ids, counts };
+  }
+
+  // What makes two transactions the same one across devices: the occurrence of a recurrence, the bank
+  // entry of an import, or the same content. The same id, date, type and description is the same
+  // transaction edited on another device.
+  private static getMergeKeys(t: TransactionModel): string[] {
+    return [
+      ...(t.recurrenceId !== undefined ? [`occurrence|${t.recurrenceId}|${t.occurrenceDate}`] : []),
+      ...(t.externalId ? [`external|${t.accountId}|${t.externalId}`] : []),
+      `content|${this.getContentKey(t)}`,
+      `edited|${t.id}|${t.date.toISOString()}|${t.type}|${t.description}`,
+    ];
+  }
+
+  // A record's stored form without its id
+  private static getContentKey(record: { toJSON(): any }): string {
+    return JSON.stringify({ ...record.toJSON(), id: undefined });
+  }
+
+  // Get default transactions (used to seed an empty store)
+  static getDefaultTransactions(): TransactionModel[] {
+    return [
+      new TransactionModel(1, 'income', 5000, 'Salário', 'Salário mensal', '2025-11-01'),
+      new TransactionModel(2, 'expense', 1200, 'Moradia', 'Aluguel', '2025-11-05'),
+      new TransactionModel(3, 'expense', 450, 'Alimentação', 'Supermercado', '2025-11-06'),
+      new TransactionModel(4, 'expense', 200, 'Transporte', 'Combustível', '2025-11-04'),
+      new TransactionModel(5, 'income', 800, 'Freelance', 'Projeto web', '2025-11-03'),
+      new TransactionModel(6, 'expense', 150, 'Lazer', 'Cinema e jantar', '2025-11-02'),
+    ];
+  }
+}
@@ -2,10 +2,36 @@ import './index.css'
 import { StrictMode } from 'react'
 import { hydrateRoot } from 'react-dom/client'
 import App from './App'
+import { I18nService } from './i18n/I18nService'
+import { RouterService } from './services/RouterService'
+import { StorageService } from './services/StorageService'
+
+// The server writes the negotiated locale into <html lang> and renders the requested URL,
+// so hydration starts from the same locale, route and filters
+const lang = document.documentElement.lang
+
+// Data the server rendered with, embedded next to the app HTML (absent for client-side backends)
+const dataScript = document.getElementById('app-data')
+const preloadedData = dataScript?.textContent ? JSON.parse(dataScript.textContent) : undefined
+
+// Versions of the preloaded keys, so saves only apply over the data this page was rendered with
+const versionsScript = document.getElementById('app-versions')
+if (preloadedData && versionsScript?.textContent) {
+  StorageService.restoreSnapshot(preloadedData, JSON.parse(versionsScript.textContent))
+}
+
+// The signed-in user, so the header matches what the server rendered (absent when signed out)
+const userScript = document.getElementById('app-user')
+const user = userScript?.textContent ? JSON.parse(userScript.textContent) : null
 
 hydrateRoot(
   document.getElementById('root') as HTMLElement,
   <StrictMode>
-    <App />
+    <App
+      initialLocale={I18nService.isLocale(lang) ? lang : undefined}
+      initialUrl={RouterService.getCurrentUrl()}
+      preloadedData={preloadedData}
+      initialUser={user}
+    />
   </StrictMode>,
 )
@@ -4,11 +4,47 @@ import {
   renderToPipeableStream,
 } from 'react-dom/server'
 import App from './App'
+import { I18nService } from './i18n/I18nService'
+import { RouterService } from './services/RouterService'
+import { StorageService } from './services/StorageService'
+import type { IAuthUser, Locale } from './types'
 
-export function render(_url: string, options?: RenderToPipeableStreamOptions) {
+export { TransactionModel } from './models/TransactionModel'
+export { FinancialController } from './controller/FinancialController'
+export { ValidationService } from './services/ValidationService'
+
+// Pick the locale of a request; a saved locale cookie wins over Accept-Language
+export function resolveLocale(headers: { cookie?: string; 'accept-language'?: string }): Locale {
+  return I18nService.resolveRequestLocale(headers.cookie, headers['accept-language'])
+}
+
+// Name of the route a URL matches, so the server can answer unknown paths with a 404
+export function resolveRoute(url: string) {
+  return RouterService.matchRoute(new URL(url, 'http://localhost/').pathname).name
+}
+
+// Storage backend a request's browser uses, so the server knows whether its store is involved
+export function resolveBackend(headers: { cookie?: string }) {
+  return StorageService.getRequestBackend(headers.cookie)
+}
+
+// Storage payloads to render with, read from the server store; null when this browser keeps
+// its data in a client-side backend, which only the client can read
+export function preloadData(headers: { cookie?: string }, store: Record<string, unknown>) {
+  if (StorageService.getRequestBackend(headers.cookie) !== 'server') return null
+  return StorageService.pickSnapshot(store)
+}
+
+export function render(
+  url: string,
+  options?: RenderToPipeableStreamOptions,
+  locale?: Locale,
+  preloadedData?: Record<string, unknown> | null,
+  user?: IAuthUser | null,
+) {
   return renderToPipeableStream(
     <StrictMode>
-      <App />
+      <App initialLocale={locale} initialUrl={url} preloadedData={preloadedData ?? undefined} initialUser={user} />
     </StrictMode>,
     options,
   )
@@ -0,0 +1,89 @@
+import { isClient } from '../utils';
+import type { Locale, MessageKey, MessageParams } from '../types';
+import { DEFAULT_LOCALE } from '../constants';
+import { MESSAGES, SEED_CATEGORY_LABELS } from './messages';
+
+// I18n Service - Message lookup and locale negotiation shared by the server and the client
+export class I18nService {
+  static readonly LOCALES: Locale[] = ['pt-BR', 'en-US', 'es'];
+
+  static readonly LOCALE_LABELS: Record<Locale, string> = {
+    'pt-BR': 'Português',
+    'en-US': 'English',
+    es: 'Español',
+  };
+
+  // Cookie read by the server, so the SSR HTML is rendered in the saved locale
+  private static readonly COOKIE_NAME = 'locale';
+  private static readonly COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+  static isLocale(value: unknown): value is Locale {
+    return typeof value === 'string' && (this.LOCALES as string[]).includes(value);
+  }
+
+  /**
+   * Get a message in the given locale, replacing {name} placeholders with params
+   */
+  static translate(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+    const message = MESSAGES[locale][key] ?? MESSAGES[DEFAULT_LOCALE][key];
+    return message.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+  }
+
+  /**
+   * Get a translate function bound to a locale, for use in components
+   */
+  static getTranslator(locale: Locale): (key: MessageKey, params?: MessageParams) => string {
+    return (key, params) => this.translate(locale, key, params);
+  }
+
+  /**
+   * Get the display label of a category; user-created categories are shown as typed
+   */
+  static translateCategory(locale: Locale, category: string): string {
+    return SEED_CATEGORY_LABELS[locale]?.[category] ?? category;
+  }
+
+  /**
+   * Pick the best supported locale from an Accept-Language header, e.g. "es-AR,es;q=0.9,en;q=0.8"
+   */
+  static negotiate(acceptLanguage?: string): Locale {
+    const ranges = (acceptLanguage ?? '')
+      .split(',')
+      .map(part => {
+        const [tag, ...params] = part.trim().split(';');
+        const q = params.map(p => p.trim()).find(p => p.startsWith('q='));
+        return { tag: tag.trim().toLowerCase(), q: q ? parseFloat(q.slice(2)) : 1 };
+      })
+      .filter(range => range.tag && range.q > 0)
+      .sort((a, b) => b.q - a.q);
+
+    for (const { tag } of ranges) {
+      const exact = this.LOCALES.find(locale => locale.toLowerCase() === tag);
+      if (exact) return exact;
+
+      const language = tag.split('-')[0];
+      const partial = this.LOCALES.find(locale => locale.toLowerCase().split('-')[0] === language);
+      if (partial) return partial;
+    }
+
+    return DEFAULT_LOCALE;
+  }
+
+  /**
+   * Resolve the locale of a request: the saved cookie wins over Accept-Language
+   */
+  static resolveRequestLocale(cookieHeader?: string, acceptLanguage?: string): Locale {
+    const match = (cookieHeader ?? '').match(new RegExp(`(?:^|;\\s*)${this.COOKIE_NAME}=([^;]*)`));
+    const saved = match ? decodeURIComponent(match[1]) : null;
+    return this.isLocale(saved) ? saved : this.negotiate(acceptLanguage);
+  }
+
+  /**
+   * Persist the chosen locale in a cookie (client-side only)
+   */
+  static saveLocale(locale: Locale): void {
+    if (!isClient) return;
+    document.cookie = `${this.COOKIE_NAME}=${encodeURIComponent(locale)}; path=${import.meta.env.BASE_URL}; max-age=${this.COOKIE_MAX_AGE}; SameSite=Lax`;
+    document.documentElement.lang = locale;
+  }
+}
@@ -0,0 +1,366 @@
+import type { MessageKey } from '../types';
+
+export const EN_US_MESSAGES: Record<MessageKey, string> = {
+  'app.title': 'Personal Finances',
+  'nav.dashboard': 'Dashboard',
+  'nav.transactions': 'Transactions',
+  'nav.reports': 'Reports',
+  'reports.title': 'Report for {month}',
+  'reports.previous': 'Previous month',
+  'reports.next': 'Next month',
+  'statement.open': 'Printable version',
+  'statement.title': 'Financial statement – {period}',
+  'statement.generated': 'Generated on {date} · amounts in {currency}',
+  'statement.back': 'Back to report',
+  'statement.annual': '{year} annual statement',
+  'statement.download': 'Download PDF',
+  'statement.downloadHint': 'In the print dialog, choose "Save as PDF". Works offline.',
+  'statement.fileName': 'statement',
+  'statement.summary': 'Period summary',
+  'statement.net': 'Net',
+  'statement.change': 'Change',
+  'statement.dominantCategory': 'Top category: {category} ({amount})',
+  'statement.categories': 'By category',
+  'statement.share': '% of type',
+  'statement.topExpenses': 'Largest expenses',
+  'statement.transactions': 'Transactions ({count})',
+  'statement.empty': 'No transactions in this period.',
+  'notFound.message': 'Page not found.',
+  'notFound.back': 'Back to the dashboard',
+  'header.locale': 'Language',
+  'header.storage': 'Data storage',
+  'header.baseCurrency': 'Base currency for totals and charts',
+  'header.exchangeRates': 'Exchange rates',
+  'header.clearData': 'Clear Data',
+  'header.clearDataTitle': 'Clear all data',
+  'storage.server': 'Server',
+  'storage.session': 'Session',
+  'storage.local': 'Browser',
+  'storage.indexedDB': 'IndexedDB',
+  'summary.balance': 'Current Balance',
+  'summary.income': 'Income',
+  'summary.expense': 'Expenses',
+  'summary.highestExpense': 'Highest Expense',
+  'summary.notAvailable': 'N/A',
+  'summary.unconverted': '{count} transactions were left out of the totals because there is no rate to {currency}.',
+  'summary.delta': '{change} vs. {period}',
+  'charts.byCategory': 'Spending by Category',
+  'charts.incomeVsExpense': 'Income vs Expenses',
+  'filters.search': 'Search transactions...',
+  'filters.searchHelp': 'E.g. amount>500 category:Lazer type:expense date:2025-11-01..2025-11-15 tag:viagem-2025 "exact phrase" -exclude OR other',
+  'search.error.unclosedQuote': 'Unclosed quote',
+  'search.error.danglingOr': 'OR needs terms on both sides',
+  'search.error.unknownField': 'Unknown field in "{term}"',
+  'search.error.emptyValue': 'Missing value in "{term}"',
+  'search.error.invalidNumber': 'Invalid number in "{term}"',
+  'search.error.invalidDate': 'Invalid date in "{term}" (use YYYY-MM-DD, YYYY-MM or YYYY)',
+  'search.error.invalidType': 'Invalid type in "{term}" (use income, expense or transfer)',
+  'search.error.invalidOperator': 'Unsupported operator in "{term}"',
+  'period.all': 'All',
+  'period.day': 'Today',
+  'period.week': 'Week',
+  'period.month': 'Month',
+  'period.lastMonth': 'Last month',
+  'period.last30Days': 'Last 30 days',
+  'period.quarter': 'Quarter',
+  'period.year': 'Year',
+  'period.fiscalYear': 'Fiscal year',
+  'period.custom': 'Custom',
+  'period.from': 'From',
+  'period.to': 'To',
+  'period.weekStart': 'Week starts on',
+  'period.fiscalYearStart': 'Fiscal year starts in',
+  'actions.exportCsvTitle': 'Export filtered transactions as CSV',
+  'actions.import': 'Import',
+  'actions.importCsvTitle': 'Import transactions from a CSV',
+  'actions.importStatementTitle': 'Import an OFX or QIF bank statement',
+  'actions.newTransaction': 'New Transaction',
+  'field.date': 'Date',
+  'field.description': 'Description',
+  'field.tags': 'Tags',
+  'field.notes': 'Notes',
+  'field.attachments': 'Receipts',
+  'form.tagsPlaceholder': 'viagem-2025, reembolsável',
+  'attachments.add': 'Attach image or PDF',
+  'attachments.remove': 'Remove attachment',
+  'attachments.rejected': '"{name}" was not attached: use an image or PDF of up to {max} MB',
+  'attachments.missing': 'The file "{name}" is no longer stored',
+  'attachments.saveFailed': '"{name}" was not attached: it could not be stored (storage may be full)',
+  'tags.all': 'All tags',
+  'tags.report': 'Spending by tag',
+  'tags.count': '{count} transactions',
+  'validation.invalidTag': 'Use lower-case letters, digits, - and _ (up to {max} characters per tag)',
+  'validation.invalidAttachment': 'Invalid attachment',
+  'validation.attachmentTooLarge': 'Attachment is too large',
+  'field.category': 'Category',
+  'field.type': 'Type',
+  'field.amount': 'Amount',
+  'field.currency': 'Currency',
+  'field.account': 'Account',
+  'table.actions': 'Actions',
+  'table.empty': 'No transactions found',
+  'table.skipOccurrence': 'Skip occurrence',
+  'table.showing': '{from}–{to} of {total} transactions',
+  'table.total': '{total} transactions',
+  'table.page': 'Page {page} of {pages}',
+  'table.previousPage': 'Previous page',
+  'table.nextPage': 'Next page',
+  'table.mode': 'Table display',
+  'table.mode.paginated': 'Pages',
+  'table.mode.virtual': 'Continuous list',
+  'type.income': 'Income',
+  'type.expense': 'Expense',
+  'type.transfer': 'Transfer',
+  'confirm.clear': 'Are you sure you want to clear all data? You can still undo it during this session.',
+  'history.create': 'Transaction added',
+  'history.update': 'Transaction updated',
+  'history.delete': 'Transaction deleted',
+  'history.skip': 'Occurrence skipped',
+  'history.import': 'Transactions imported',
+  'history.categories': 'Categories updated',
+  'history.recategorize': 'Rules applied to transactions',
+  'history.restore': 'Backup restored',
+  'history.clear': 'All data was cleared',
+  'history.undone': 'Undone: {action}',
+  'history.undo': 'Undo',
+  'history.redo': 'Redo',
+  'history.undoTitle': 'Undo (Ctrl+Z)',
+  'history.redoTitle': 'Redo (Ctrl+Shift+Z)',
+  'history.dismiss': 'Dismiss',
+  'alert.statementImported': '{added} transactions imported, {duplicates} duplicates skipped.',
+  'alert.storageConflict': 'This data was changed in another tab or by another editor. The page will reload with the latest version; your last change was not saved.',
+  'form.newTitle': 'New Transaction',
+  'form.editTitle': 'Edit Transaction',
+  'form.scopeThis': 'This occurrence only',
+  'form.scopeFuture': 'This and future ones',
+  'form.select': 'Select...',
+  'form.fromAccount': 'From account',
+  'form.toAccount': 'To account',
+  'form.recurrence': 'Repeat',
+  'form.endNever': 'Never ends',
+  'form.endDate': 'Until date',
+  'form.endCount': 'Number of times',
+  'form.cancel': 'Cancel',
+  'form.create': 'Create',
+  'form.update': 'Update',
+  'recurrence.none': 'Does not repeat',
+  'recurrence.daily': 'Daily',
+  'recurrence.weekly': 'Weekly',
+  'recurrence.monthly': 'Monthly (same day)',
+  'recurrence.monthlyOn': 'Monthly on day {day}',
+  'recurrence.lastBusinessDay': 'Last business day of the month',
+  'recurrence.yearly': 'Yearly',
+  'budget.title': 'Budgets for {month}',
+  'budget.warning': 'Heads up: {percent}% used',
+  'budget.exceeded': 'Over budget',
+  'budget.remaining': '{amount} left · {daily}/day',
+  'budget.over': 'Over by {amount}',
+  'budget.carriedOver': ' · includes {amount} rolled over',
+  'budget.edit': 'Edit budget',
+  'budget.remove': 'Remove budget',
+  'budget.empty': 'No budgets set',
+  'budget.category': 'Category...',
+  'budget.limit': 'Monthly limit',
+  'budget.rollover': 'Roll over unspent',
+  'budget.save': 'Save budget',
+  'goals.title': 'Savings goals',
+  'goals.until': 'by {month}',
+  'goals.progress': '{saved} of {target}',
+  'goals.required': '{amount} to go · {monthly}/month for {months} months',
+  'goals.average': 'Average so far: {amount}/month',
+  'goals.projection': 'At this pace, reached in {month}',
+  'goals.pace.reached': 'Goal reached',
+  'goals.pace.onTrack': 'On track',
+  'goals.pace.behind': 'Behind pace',
+  'goals.pace.overdue': 'Past target date',
+  'goals.funding': 'Funding ({count})',
+  'goals.linkTransaction': 'Link a transaction...',
+  'goals.unlink': 'Unlink transaction',
+  'goals.manual': 'Manual contribution',
+  'goals.manualHelp': 'Use a negative amount for a withdrawal',
+  'goals.contribute': 'Add',
+  'goals.removeContribution': 'Remove contribution',
+  'goals.edit': 'Edit goal',
+  'goals.remove': 'Remove goal',
+  'goals.empty': 'No goals yet',
+  'goals.name': 'Goal name',
+  'goals.target': 'Target amount',
+  'goals.targetMonth': 'Target month',
+  'goals.save': 'Save goal',
+  'goals.cancel': 'Cancel',
+  'rates.title': 'Exchange rates',
+  'rates.hint': 'Each rate applies from its date onwards. CSV: columns date, from, to, rate.',
+  'rates.pair': 'Pair',
+  'rates.rate': 'Rate',
+  'rates.add': 'Add',
+  'rates.remove': 'Remove rate',
+  'rates.empty': 'No exchange rates yet',
+  'rates.imported': '{count} rates imported.',
+  'rates.close': 'Close',
+  'csv.title': 'Import CSV',
+  'csv.ignore': '(ignore)',
+  'csv.column': 'Column {index}',
+  'csv.dateFormat': 'Date format',
+  'csv.dateDmy': 'dd/mm/yyyy',
+  'csv.dateMdy': 'mm/dd/yyyy',
+  'csv.dateYmd': 'yyyy-mm-dd',
+  'csv.decimalSeparator': 'Decimal separator',
+  'csv.comma': 'Comma (1.234,56)',
+  'csv.dot': 'Dot (1234.56)',
+  'csv.hasHeader': 'First row is a header',
+  'csv.validRows': '{valid} of {total} rows valid',
+  'csv.line': 'Row',
+  'csv.import': 'Import {count} transactions',
+  'csv.error.date': 'Invalid date',
+  'csv.error.amount': 'Invalid amount',
+  'csv.error.type': 'Invalid type',
+  'csv.error.description': 'Empty description',
+  'csv.error.descriptionLength': 'Description longer than 200 characters',
+  'validation.required': 'Required field',
+  'validation.invalidType': 'Invalid transaction type',
+  'validation.invalidAmount': 'Enter a numeric amount',
+  'validation.notPositive': 'The amount must be greater than zero',
+  'validation.tooManyDecimals': 'Use at most 2 decimal places',
+  'validation.unknownCategory': 'This category does not exist for this type',
+  'validation.invalidDate': 'Invalid date',
+  'validation.tooLong': 'At most {max} characters',
+  'validation.invalidCurrency': 'Invalid currency',
+  'validation.invalidAccount': 'Invalid account',
+  'validation.sameAccount': 'Choose an account other than the source one',
+  'validation.beforeStart': 'The end date must be after the start date',
+  'validation.invalidCount': 'Enter a whole number greater than zero',
+  'validation.invalidSplit': 'Split into at least 2 lines, each with a category and an amount',
+  'validation.splitTotal': 'The lines must add up to the total amount',
+  'split.title': 'Split by category',
+  'split.add': 'Split',
+  'split.remove': 'Undo split',
+  'split.addLine': 'Add line',
+  'split.removeLine': 'Remove line',
+  'split.remaining': 'Remaining: {amount}',
+  'table.split': 'Split into {count}',
+  'validation.quarantined': '{count} corrupted records were set aside and are left out of the totals',
+  'csv.error.currency': 'Invalid currency',
+  'header.categories': 'Categories',
+  'header.rules': 'Categorization rules',
+  'rules.title': 'Categorization rules',
+  'rules.help': 'New and imported transactions get the category and tags of the first rule that matches their description and amount.',
+  'rules.match.contains.option': 'Contains',
+  'rules.match.regex.option': 'Regular expression',
+  'rules.match.contains': 'contains "{pattern}"',
+  'rules.match.regex': 'matches /{pattern}/',
+  'rules.anyDescription': 'any description',
+  'rules.amountRange': 'amount from {min} to {max}',
+  'rules.pattern': 'Description text or expression',
+  'rules.minAmount': 'Min. amount',
+  'rules.maxAmount': 'Max. amount',
+  'rules.add': 'Add rule',
+  'rules.list': 'Rules (the first match wins)',
+  'rules.empty': 'No rules yet.',
+  'rules.moveUp': 'Move up',
+  'rules.moveDown': 'Move down',
+  'rules.delete': 'Delete rule',
+  'rules.invalidPattern': 'The regular expression is invalid.',
+  'rules.invalidRange': 'The minimum amount is greater than the maximum.',
+  'rules.suggestions': 'Suggestions from history',
+  'rules.suggestionCount': '{count} transactions',
+  'rules.preview': 'Re-run on existing transactions',
+  'rules.previewEmpty': 'The rules do not change any existing transaction.',
+  'rules.apply': 'Apply to {count} transactions',
+  'header.backup': 'Backup and restore',
+  'header.ledgers': 'Ledgers and sharing',
+  'backup.title': 'Backup and restore',
+  'backup.download': 'Download backup',
+  'backup.downloadHelp': 'A JSON file with every transaction, setting and receipt, to move your data to another browser or computer.',
+  'backup.restore': 'Restore from a file',
+  'backup.mode.merge': 'Merge with the current data',
+  'backup.mode.mergeHelp': 'Adds what is missing and updates what changed; this device keeps its settings.',
+  'backup.mode.replace': 'Replace all data',
+  'backup.mode.replaceHelp': 'The current data, settings included, is swapped for the backup.',
+  'backup.chooseFile': 'Choose backup file',
+  'backup.confirmReplace': 'Replace all data with the backup from {date}? You can undo it right after.',
+  'backup.replaced': 'Backup restored.',
+  'backup.report': 'Merge result',
+  'backup.added': 'Added',
+  'backup.updated': 'Updated',
+  'backup.skipped': 'Already there',
+  'backup.entity.transactions': 'Transactions',
+  'backup.entity.recurrences': 'Recurrences',
+  'backup.entity.accounts': 'Accounts',
+  'backup.entity.categories': 'Categories',
+  'backup.entity.budgets': 'Budgets',
+  'backup.entity.exchangeRates': 'Exchange rates',
+  'backup.entity.categorizationRules': 'Categorization rules',
+  'backup.entity.savingsGoals': 'Savings goals',
+  'backup.error.invalidFile': 'The file is not a valid backup.',
+  'backup.error.unsupportedVersion': 'This backup was made by a newer version of the app.',
+  'backup.close': 'Close',
+  'auth.signIn': 'Sign in',
+  'auth.register': 'Create account',
+  'auth.signOut': 'Sign out',
+  'auth.signedInAs': 'Signed in as {username}',
+  'auth.signInTitle': 'Sign in to see your data',
+  'auth.registerTitle': 'Create your account',
+  'auth.username': 'Username',
+  'auth.password': 'Password',
+  'auth.usernameHelp': '3 to 32 lower-case letters, digits, ".", "_" or "-"',
+  'auth.passwordHelp': 'At least 8 characters',
+  'auth.switchToRegister': 'No account yet? Create one',
+  'auth.switchToSignIn': 'Already have an account? Sign in',
+  'auth.continueLocally': 'Continue without an account, keeping the data in this browser',
+  'auth.error.invalidInput': 'Check the username and password',
+  'auth.error.invalidCredentials': 'Invalid username or password',
+  'auth.error.usernameTaken': 'This username is already taken',
+  'auth.error.failed': 'Could not sign in. Please try again.',
+  'auth.error.userNotFound': 'User "{username}" not found',
+  'auth.error.shareFailed': 'Could not change the access of "{username}"',
+  'auth.openLedger': 'Open ledger',
+  'auth.ownLedger': 'My ledger',
+  'auth.sharedLedger': "{owner}'s ledger ({role})",
+  'auth.members': 'Shared with',
+  'auth.noMembers': 'Your ledger is not shared with anyone yet.',
+  'auth.ownerOnly': 'Only the owner of this ledger can share it.',
+  'auth.share': 'Share',
+  'auth.unshare': 'Remove access',
+  'auth.shareHelp': 'Viewers can only see the ledger; editors can also change it.',
+  'auth.role.owner': 'owner',
+  'auth.role.editor': 'editor',
+  'auth.role.viewer': 'viewer',
+  'auth.readOnlyBanner': "You are viewing {owner}'s ledger read-only; your changes will not be saved.",
+  'auth.sharedBanner': "You are editing {owner}'s ledger.",
+  'auth.close': 'Close',
+  'charts.back': 'Back',
+  'charts.byCategoryIn': 'Spending in {category}',
+  'charts.cashFlow': 'Cash flow',
+  'charts.net': 'Net',
+  'charts.runningBalance': 'Running balance',
+  'charts.granularity.day': 'Daily',
+  'charts.granularity.week': 'Weekly',
+  'charts.granularity.month': 'Monthly',
+  'categories.title': 'Categories',
+  'categories.name': 'Name',
+  'categories.parent': 'Parent category',
+  'categories.noParent': 'No parent',
+  'categories.icon': 'Icon',
+  'categories.color': 'Color',
+  'categories.add': 'Add',
+  'categories.mergeInto': 'Merge into...',
+  'categories.confirmMerge': 'Merge "{source}" into "{target}"? Its transactions will be moved and "{source}" removed.',
+  'categories.archive': 'Archive',
+  'categories.unarchive': 'Restore',
+  'categories.duplicate': 'A "{name}" category of this type already exists.',
+  'categories.close': 'Close',
+  'accounts.title': 'Accounts',
+  'accounts.all': 'All accounts',
+  'accounts.name': 'Account name',
+  'accounts.openingBalance': 'Opening balance',
+  'accounts.save': 'Save account',
+  'accounts.edit': 'Edit account',
+  'accounts.delete': 'Delete account',
+  'accounts.inUse': 'Accounts with transactions cannot be deleted',
+  'accounts.unconverted': '{count} entries with no rate to the account currency',
+  'accounts.type.checking': 'Checking',
+  'accounts.type.savings': 'Savings',
+  'accounts.type.creditCard': 'Credit card',
+  'accounts.type.cash': 'Cash',
+  'accounts.type.investment': 'Investments',
+};
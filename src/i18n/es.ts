@@ -0,0 +1,366 @@
+import type { MessageKey } from '../types';
+
+export const ES_MESSAGES: Record<MessageKey, string> = {
+  'app.title': 'Finanzas Personales',
+  'nav.dashboard': 'Panel',
+  'nav.transactions': 'Transacciones',
+  'nav.reports': 'Informes',
+  'reports.title': 'Informe de {month}',
+  'reports.previous': 'Mes anterior',
+  'reports.next': 'Mes siguiente',
+  'statement.open': 'Versión para imprimir',
+  'statement.title': 'Estado financiero – {period}',
+  'statement.generated': 'Generado el {date} · montos en {currency}',
+  'statement.back': 'Volver al informe',
+  'statement.annual': 'Estado anual de {year}',
+  'statement.download': 'Descargar PDF',
+  'statement.downloadHint': 'En el diálogo de impresión, elige "Guardar como PDF". Funciona sin conexión.',
+  'statement.fileName': 'estado',
+  'statement.summary': 'Resumen del período',
+  'statement.net': 'Resultado',
+  'statement.change': 'Variación',
+  'statement.dominantCategory': 'Categoría principal: {category} ({amount})',
+  'statement.categories': 'Por categoría',
+  'statement.share': '% del tipo',
+  'statement.topExpenses': 'Mayores gastos',
+  'statement.transactions': 'Transacciones ({count})',
+  'statement.empty': 'No hay transacciones en este período.',
+  'notFound.message': 'Página no encontrada.',
+  'notFound.back': 'Volver al panel',
+  'header.locale': 'Idioma',
+  'header.storage': 'Almacenamiento de datos',
+  'header.baseCurrency': 'Moneda base de totales y gráficos',
+  'header.exchangeRates': 'Tipos de cambio',
+  'header.clearData': 'Borrar Datos',
+  'header.clearDataTitle': 'Borrar todos los datos',
+  'storage.server': 'Servidor',
+  'storage.session': 'Sesión',
+  'storage.local': 'Navegador',
+  'storage.indexedDB': 'IndexedDB',
+  'summary.balance': 'Saldo Actual',
+  'summary.income': 'Ingresos',
+  'summary.expense': 'Gastos',
+  'summary.highestExpense': 'Mayor Gasto',
+  'summary.notAvailable': 'N/D',
+  'summary.unconverted': '{count} transacciones quedaron fuera de los totales por falta de cotización a {currency}.',
+  'summary.delta': '{change} vs. {period}',
+  'charts.byCategory': 'Gastos por Categoría',
+  'charts.incomeVsExpense': 'Ingresos vs Gastos',
+  'filters.search': 'Buscar transacciones...',
+  'filters.searchHelp': 'Ej.: monto>500 categoria:Lazer tipo:gasto fecha:2025-11-01..2025-11-15 etiqueta:viagem-2025 "frase exacta" -excluir OR otro',
+  'search.error.unclosedQuote': 'Comillas sin cerrar',
+  'search.error.danglingOr': 'OR necesita términos a ambos lados',
+  'search.error.unknownField': 'Campo desconocido en "{term}"',
+  'search.error.emptyValue': 'Falta el valor en "{term}"',
+  'search.error.invalidNumber': 'Número no válido en "{term}"',
+  'search.error.invalidDate': 'Fecha no válida en "{term}" (use AAAA-MM-DD, AAAA-MM o AAAA)',
+  'search.error.invalidType': 'Tipo no válido en "{term}" (use ingreso, gasto o transferencia)',
+  'search.error.invalidOperator': 'Operador no admitido en "{term}"',
+  'period.all': 'Todos',
+  'period.day': 'Hoy',
+  'period.week': 'Semana',
+  'period.month': 'Mes',
+  'period.lastMonth': 'Mes pasado',
+  'period.last30Days': 'Últimos 30 días',
+  'period.quarter': 'Trimestre',
+  'period.year': 'Año',
+  'period.fiscalYear': 'Año fiscal',
+  'period.custom': 'Personalizado',
+  'period.from': 'Desde',
+  'period.to': 'Hasta',
+  'period.weekStart': 'La semana empieza el',
+  'period.fiscalYearStart': 'El año fiscal empieza en',
+  'actions.exportCsvTitle': 'Exportar transacciones filtradas en CSV',
+  'actions.import': 'Importar',
+  'actions.importCsvTitle': 'Importar transacciones de un CSV',
+  'actions.importStatementTitle': 'Importar extracto bancario OFX o QIF',
+  'actions.newTransaction': 'Nueva Transacción',
+  'field.date': 'Fecha',
+  'field.description': 'Descripción',
+  'field.tags': 'Etiquetas',
+  'field.notes': 'Notas',
+  'field.attachments': 'Comprobantes',
+  'form.tagsPlaceholder': 'viaje-2025, reembolsable',
+  'attachments.add': 'Adjuntar imagen o PDF',
+  'attachments.remove': 'Quitar adjunto',
+  'attachments.rejected': '"{name}" no se adjuntó: usa una imagen o PDF de hasta {max} MB',
+  'attachments.missing': 'El archivo "{name}" ya no está guardado',
+  'attachments.saveFailed': '"{name}" no se adjuntó: no se pudo guardar (el almacenamiento puede estar lleno)',
+  'tags.all': 'Todas las etiquetas',
+  'tags.report': 'Gastos por etiqueta',
+  'tags.count': '{count} transacciones',
+  'validation.invalidTag': 'Usa minúsculas, números, - y _ (hasta {max} caracteres por etiqueta)',
+  'validation.invalidAttachment': 'Adjunto no válido',
+  'validation.attachmentTooLarge': 'El adjunto supera el tamaño permitido',
+  'field.category': 'Categoría',
+  'field.type': 'Tipo',
+  'field.amount': 'Importe',
+  'field.currency': 'Moneda',
+  'field.account': 'Cuenta',
+  'table.actions': 'Acciones',
+  'table.empty': 'No se encontraron transacciones',
+  'table.skipOccurrence': 'Omitir ocurrencia',
+  'table.showing': '{from}–{to} de {total} transacciones',
+  'table.total': '{total} transacciones',
+  'table.page': 'Página {page} de {pages}',
+  'table.previousPage': 'Página anterior',
+  'table.nextPage': 'Página siguiente',
+  'table.mode': 'Vista de la tabla',
+  'table.mode.paginated': 'Páginas',
+  'table.mode.virtual': 'Lista continua',
+  'type.income': 'Ingreso',
+  'type.expense': 'Gasto',
+  'type.transfer': 'Transferencia',
+  'confirm.clear': '¿Seguro que desea borrar todos los datos? Todavía podrá deshacerlo en esta sesión.',
+  'history.create': 'Transacción añadida',
+  'history.update': 'Transacción actualizada',
+  'history.delete': 'Transacción eliminada',
+  'history.skip': 'Ocurrencia omitida',
+  'history.import': 'Transacciones importadas',
+  'history.categories': 'Categorías actualizadas',
+  'history.recategorize': 'Reglas aplicadas a las transacciones',
+  'history.restore': 'Copia restaurada',
+  'history.clear': 'Se borraron todos los datos',
+  'history.undone': 'Deshecho: {action}',
+  'history.undo': 'Deshacer',
+  'history.redo': 'Rehacer',
+  'history.undoTitle': 'Deshacer (Ctrl+Z)',
+  'history.redoTitle': 'Rehacer (Ctrl+Shift+Z)',
+  'history.dismiss': 'Cerrar',
+  'alert.statementImported': '{added} transacciones importadas, {duplicates} duplicadas omitidas.',
+  'alert.storageConflict': 'Estos datos se cambiaron en otra pestaña o por otro editor. La página se recargará con la versión más reciente; tu último cambio no se guardó.',
+  'form.newTitle': 'Nueva Transacción',
+  'form.editTitle': 'Editar Transacción',
+  'form.scopeThis': 'Solo esta ocurrencia',
+  'form.scopeFuture': 'Esta y las futuras',
+  'form.select': 'Seleccione...',
+  'form.fromAccount': 'Cuenta de origen',
+  'form.toAccount': 'Cuenta de destino',
+  'form.recurrence': 'Repetición',
+  'form.endNever': 'Sin fin',
+  'form.endDate': 'Hasta la fecha',
+  'form.endCount': 'Número de veces',
+  'form.cancel': 'Cancelar',
+  'form.create': 'Crear',
+  'form.update': 'Actualizar',
+  'recurrence.none': 'No se repite',
+  'recurrence.daily': 'Diariamente',
+  'recurrence.weekly': 'Semanalmente',
+  'recurrence.monthly': 'Mensualmente (mismo día)',
+  'recurrence.monthlyOn': 'Mensualmente el día {day}',
+  'recurrence.lastBusinessDay': 'Último día hábil del mes',
+  'recurrence.yearly': 'Anualmente',
+  'budget.title': 'Presupuestos de {month}',
+  'budget.warning': 'Atención: {percent}% usado',
+  'budget.exceeded': 'Presupuesto superado',
+  'budget.remaining': 'Quedan {amount} · {daily}/día',
+  'budget.over': 'Excedido en {amount}',
+  'budget.carriedOver': ' · incluye {amount} acumulados',
+  'budget.edit': 'Editar presupuesto',
+  'budget.remove': 'Eliminar presupuesto',
+  'budget.empty': 'No hay presupuestos definidos',
+  'budget.category': 'Categoría...',
+  'budget.limit': 'Límite mensual',
+  'budget.rollover': 'Acumular saldo',
+  'budget.save': 'Guardar presupuesto',
+  'goals.title': 'Metas de ahorro',
+  'goals.until': 'hasta {month}',
+  'goals.progress': '{saved} de {target}',
+  'goals.required': 'Faltan {amount} · {monthly}/mes durante {months} meses',
+  'goals.average': 'Promedio hasta ahora: {amount}/mes',
+  'goals.projection': 'A este ritmo, se alcanza en {month}',
+  'goals.pace.reached': 'Meta alcanzada',
+  'goals.pace.onTrack': 'En camino',
+  'goals.pace.behind': 'Por debajo del ritmo',
+  'goals.pace.overdue': 'Plazo vencido',
+  'goals.funding': 'Aportes ({count})',
+  'goals.linkTransaction': 'Vincular transacción...',
+  'goals.unlink': 'Desvincular transacción',
+  'goals.manual': 'Aporte manual',
+  'goals.manualHelp': 'Usa un monto negativo para un retiro',
+  'goals.contribute': 'Agregar',
+  'goals.removeContribution': 'Eliminar aporte',
+  'goals.edit': 'Editar meta',
+  'goals.remove': 'Eliminar meta',
+  'goals.empty': 'No hay metas definidas',
+  'goals.name': 'Nombre de la meta',
+  'goals.target': 'Monto objetivo',
+  'goals.targetMonth': 'Mes objetivo',
+  'goals.save': 'Guardar meta',
+  'goals.cancel': 'Cancelar',
+  'rates.title': 'Tipos de cambio',
+  'rates.hint': 'Cada cotización vale a partir de su fecha. CSV: columnas date, from, to, rate.',
+  'rates.pair': 'Par',
+  'rates.rate': 'Tasa',
+  'rates.add': 'Agregar',
+  'rates.remove': 'Eliminar cotización',
+  'rates.empty': 'No hay cotizaciones registradas',
+  'rates.imported': '{count} cotizaciones importadas.',
+  'rates.close': 'Cerrar',
+  'csv.title': 'Importar CSV',
+  'csv.ignore': '(ignorar)',
+  'csv.column': 'Columna {index}',
+  'csv.dateFormat': 'Formato de fecha',
+  'csv.dateDmy': 'dd/mm/aaaa',
+  'csv.dateMdy': 'mm/dd/aaaa',
+  'csv.dateYmd': 'aaaa-mm-dd',
+  'csv.decimalSeparator': 'Separador decimal',
+  'csv.comma': 'Coma (1.234,56)',
+  'csv.dot': 'Punto (1234.56)',
+  'csv.hasHeader': 'La primera fila es encabezado',
+  'csv.validRows': '{valid} de {total} filas válidas',
+  'csv.line': 'Fila',
+  'csv.import': 'Importar {count} transacciones',
+  'csv.error.date': 'Fecha inválida',
+  'csv.error.amount': 'Importe inválido',
+  'csv.error.type': 'Tipo inválido',
+  'csv.error.description': 'Descripción vacía',
+  'csv.error.descriptionLength': 'Descripción de más de 200 caracteres',
+  'validation.required': 'Campo obligatorio',
+  'validation.invalidType': 'Tipo de transacción no válido',
+  'validation.invalidAmount': 'Introduce un importe numérico',
+  'validation.notPositive': 'El importe debe ser mayor que cero',
+  'validation.tooManyDecimals': 'Usa como máximo 2 decimales',
+  'validation.unknownCategory': 'La categoría no existe para este tipo',
+  'validation.invalidDate': 'Fecha no válida',
+  'validation.tooLong': 'Máximo {max} caracteres',
+  'validation.invalidCurrency': 'Moneda no válida',
+  'validation.invalidAccount': 'Cuenta no válida',
+  'validation.sameAccount': 'Elige una cuenta distinta de la de origen',
+  'validation.beforeStart': 'La fecha final debe ser posterior a la inicial',
+  'validation.invalidCount': 'Introduce un número entero mayor que cero',
+  'validation.invalidSplit': 'Divide en al menos 2 líneas, cada una con categoría e importe',
+  'validation.splitTotal': 'Las líneas deben sumar el importe total',
+  'split.title': 'División por categoría',
+  'split.add': 'Dividir',
+  'split.remove': 'Deshacer división',
+  'split.addLine': 'Añadir línea',
+  'split.removeLine': 'Quitar línea',
+  'split.remaining': 'Restante: {amount}',
+  'table.split': 'Dividida en {count}',
+  'validation.quarantined': '{count} registros dañados se apartaron y no cuentan en los totales',
+  'csv.error.currency': 'Moneda inválida',
+  'header.categories': 'Categorías',
+  'header.rules': 'Reglas de categorización',
+  'rules.title': 'Reglas de categorización',
+  'rules.help': 'Las transacciones nuevas e importadas reciben la categoría y las etiquetas de la primera regla que coincida con su descripción y monto.',
+  'rules.match.contains.option': 'Contiene',
+  'rules.match.regex.option': 'Expresión regular',
+  'rules.match.contains': 'contiene "{pattern}"',
+  'rules.match.regex': 'coincide con /{pattern}/',
+  'rules.anyDescription': 'cualquier descripción',
+  'rules.amountRange': 'monto de {min} a {max}',
+  'rules.pattern': 'Texto o expresión de la descripción',
+  'rules.minAmount': 'Monto mín.',
+  'rules.maxAmount': 'Monto máx.',
+  'rules.add': 'Agregar regla',
+  'rules.list': 'Reglas (gana la primera que coincida)',
+  'rules.empty': 'Aún no hay reglas.',
+  'rules.moveUp': 'Subir',
+  'rules.moveDown': 'Bajar',
+  'rules.delete': 'Eliminar regla',
+  'rules.invalidPattern': 'La expresión regular no es válida.',
+  'rules.invalidRange': 'El monto mínimo es mayor que el máximo.',
+  'rules.suggestions': 'Sugerencias del historial',
+  'rules.suggestionCount': '{count} transacciones',
+  'rules.preview': 'Volver a aplicar a las transacciones existentes',
+  'rules.previewEmpty': 'Las reglas no cambian ninguna transacción existente.',
+  'rules.apply': 'Aplicar a {count} transacciones',
+  'header.backup': 'Copia de seguridad',
+  'header.ledgers': 'Libros y uso compartido',
+  'backup.title': 'Copia de seguridad y restauración',
+  'backup.download': 'Descargar copia',
+  'backup.downloadHelp': 'Un archivo JSON con todas las transacciones, configuraciones y comprobantes, para llevar los datos a otro navegador o equipo.',
+  'backup.restore': 'Restaurar desde un archivo',
+  'backup.mode.merge': 'Combinar con los datos actuales',
+  'backup.mode.mergeHelp': 'Agrega lo que falta y actualiza lo que cambió; este dispositivo conserva su configuración.',
+  'backup.mode.replace': 'Reemplazar todos los datos',
+  'backup.mode.replaceHelp': 'Los datos actuales, configuración incluida, se cambian por los de la copia.',
+  'backup.chooseFile': 'Elegir archivo de copia',
+  'backup.confirmReplace': '¿Reemplazar todos los datos por la copia del {date}? Puedes deshacerlo justo después.',
+  'backup.replaced': 'Copia restaurada.',
+  'backup.report': 'Resultado de la combinación',
+  'backup.added': 'Agregados',
+  'backup.updated': 'Actualizados',
+  'backup.skipped': 'Ya existentes',
+  'backup.entity.transactions': 'Transacciones',
+  'backup.entity.recurrences': 'Recurrencias',
+  'backup.entity.accounts': 'Cuentas',
+  'backup.entity.categories': 'Categorías',
+  'backup.entity.budgets': 'Presupuestos',
+  'backup.entity.exchangeRates': 'Tipos de cambio',
+  'backup.entity.categorizationRules': 'Reglas de categorización',
+  'backup.entity.savingsGoals': 'Metas de ahorro',
+  'backup.error.invalidFile': 'El archivo no es una copia válida.',
+  'backup.error.unsupportedVersion': 'Esta copia fue creada por una versión más nueva de la aplicación.',
+  'backup.close': 'Cerrar',
+  'auth.signIn': 'Iniciar sesión',
+  'auth.register': 'Crear cuenta',
+  'auth.signOut': 'Cerrar sesión',
+  'auth.signedInAs': 'Sesión iniciada como {username}',
+  'auth.signInTitle': 'Inicia sesión para ver tus datos',
+  'auth.registerTitle': 'Crea tu cuenta',
+  'auth.username': 'Usuario',
+  'auth.password': 'Contraseña',
+  'auth.usernameHelp': 'De 3 a 32 letras minúsculas, números, ".", "_" o "-"',
+  'auth.passwordHelp': 'Al menos 8 caracteres',
+  'auth.switchToRegister': '¿No tienes cuenta? Crea una',
+  'auth.switchToSignIn': '¿Ya tienes cuenta? Inicia sesión',
+  'auth.continueLocally': 'Continuar sin cuenta, con los datos solo en este navegador',
+  'auth.error.invalidInput': 'Revisa el usuario y la contraseña',
+  'auth.error.invalidCredentials': 'Usuario o contraseña no válidos',
+  'auth.error.usernameTaken': 'Este usuario ya existe',
+  'auth.error.failed': 'No se pudo iniciar sesión. Inténtalo de nuevo.',
+  'auth.error.userNotFound': 'Usuario "{username}" no encontrado',
+  'auth.error.shareFailed': 'No se pudo cambiar el acceso de "{username}"',
+  'auth.openLedger': 'Libro abierto',
+  'auth.ownLedger': 'Mi libro',
+  'auth.sharedLedger': 'Libro de {owner} ({role})',
+  'auth.members': 'Compartido con',
+  'auth.noMembers': 'Tu libro aún no está compartido.',
+  'auth.ownerOnly': 'Solo el dueño de este libro puede compartirlo.',
+  'auth.share': 'Compartir',
+  'auth.unshare': 'Quitar acceso',
+  'auth.shareHelp': 'Los lectores solo ven el libro; los editores también pueden cambiarlo.',
+  'auth.role.owner': 'dueño',
+  'auth.role.editor': 'editor',
+  'auth.role.viewer': 'lector',
+  'auth.readOnlyBanner': 'Estás viendo el libro de {owner} en solo lectura; tus cambios no se guardarán.',
+  'auth.sharedBanner': 'Estás editando el libro de {owner}.',
+  'auth.close': 'Cerrar',
+  'charts.back': 'Volver',
+  'charts.byCategoryIn': 'Gastos en {category}',
+  'charts.cashFlow': 'Flujo de caja',
+  'charts.net': 'Resultado',
+  'charts.runningBalance': 'Saldo acumulado',
+  'charts.granularity.day': 'Diario',
+  'charts.granularity.week': 'Semanal',
+  'charts.granularity.month': 'Mensual',
+  'categories.title': 'Categorías',
+  'categories.name': 'Nombre',
+  'categories.parent': 'Categoría padre',
+  'categories.noParent': 'Sin categoría padre',
+  'categories.icon': 'Ícono',
+  'categories.color': 'Color',
+  'categories.add': 'Agregar',
+  'categories.mergeInto': 'Fusionar con...',
+  'categories.confirmMerge': '¿Fusionar "{source}" con "{target}"? Sus transacciones se moverán y "{source}" se eliminará.',
+  'categories.archive': 'Archivar',
+  'categories.unarchive': 'Restaurar',
+  'categories.duplicate': 'Ya existe una categoría "{name}" de este tipo.',
+  'categories.close': 'Cerrar',
+  'accounts.title': 'Cuentas',
+  'accounts.all': 'Todas las cuentas',
+  'accounts.name': 'Nombre de la cuenta',
+  'accounts.openingBalance': 'Saldo inicial',
+  'accounts.save': 'Guardar cuenta',
+  'accounts.edit': 'Editar cuenta',
+  'accounts.delete': 'Eliminar cuenta',
+  'accounts.inUse': 'Las cuentas con transacciones no se pueden eliminar',
+  'accounts.unconverted': '{count} movimientos sin cotización para la moneda de la cuenta',
+  'accounts.type.checking': 'Cuenta corriente',
+  'accounts.type.savings': 'Ahorros',
+  'accounts.type.creditCard': 'Tarjeta de crédito',
+  'accounts.type.cash': 'Efectivo',
+  'accounts.type.investment': 'Inversiones',
+};
@@ -0,0 +1,38 @@
+import type { Locale, MessageKey } from '../types';
+import { PT_BR_MESSAGES } from './pt-BR';
+import { EN_US_MESSAGES } from './en-US';
+import { ES_MESSAGES } from './es';
+
+export const MESSAGES: Record<Locale, Record<MessageKey, string>> = {
+  'pt-BR': PT_BR_MESSAGES,
+  'en-US': EN_US_MESSAGES,
+  es: ES_MESSAGES,
+};
+
+// Labels of the seed categories; stored transactions keep the pt-BR name as their key
+export const SEED_CATEGORY_LABELS: Partial<Record<Locale, Record<string, string>>> = {
+  'en-US': {
+    'Salário': 'Salary',
+    'Freelance': 'Freelance',
+    'Investimentos': 'Investments',
+    'Outros': 'Other',
+    'Moradia': 'Housing',
+    'Alimentação': 'Food',
+    'Transporte': 'Transportation',
+    'Lazer': 'Leisure',
+    'Saúde': 'Health',
+    'Educação': 'Education',
+  },
+  es: {
+    'Salário': 'Salario',
+    'Freelance': 'Freelance',
+    'Investimentos': 'Inversiones',
+    'Outros': 'Otros',
+    'Moradia': 'Vivienda',
+    'Alimentação': 'Alimentación',
+    'Transporte': 'Transporte',
+    'Lazer': 'Ocio',
+    'Saúde': 'Salud',
+    'Educação': 'Educación',
+  },
+};
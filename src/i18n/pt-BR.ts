@@ -0,0 +1,364 @@
+export const PT_BR_MESSAGES = {
+  'app.title': 'Finanças Pessoais',
+  'nav.dashboard': 'Painel',
+  'nav.transactions': 'Transações',
+  'nav.reports': 'Relatórios',
+  'reports.title': 'Relatório de {month}',
+  'reports.previous': 'Mês anterior',
+  'reports.next': 'Próximo mês',
+  'statement.open': 'Versão para impressão',
+  'statement.title': 'Extrato financeiro – {period}',
+  'statement.generated': 'Gerado em {date} · valores em {currency}',
+  'statement.back': 'Voltar ao relatório',
+  'statement.annual': 'Extrato anual de {year}',
+  'statement.download': 'Baixar PDF',
+  'statement.downloadHint': 'Na janela de impressão, escolha "Salvar como PDF". Funciona sem conexão.',
+  'statement.fileName': 'extrato',
+  'statement.summary': 'Resumo do período',
+  'statement.net': 'Resultado',
+  'statement.change': 'Variação',
+  'statement.dominantCategory': 'Maior categoria: {category} ({amount})',
+  'statement.categories': 'Por categoria',
+  'statement.share': '% do tipo',
+  'statement.topExpenses': 'Maiores despesas',
+  'statement.transactions': 'Transações ({count})',
+  'statement.empty': 'Nenhuma transação no período.',
+  'notFound.message': 'Página não encontrada.',
+  'notFound.back': 'Voltar ao painel',
+  'header.locale': 'Idioma',
+  'header.storage': 'Armazenamento dos dados',
+  'header.baseCurrency': 'Moeda base dos totais e gráficos',
+  'header.exchangeRates': 'Tabela de câmbio',
+  'header.clearData': 'Limpar Dados',
+  'header.clearDataTitle': 'Limpar todos os dados',
+  'storage.server': 'Servidor',
+  'storage.session': 'Sessão',
+  'storage.local': 'Navegador',
+  'storage.indexedDB': 'IndexedDB',
+  'summary.balance': 'Saldo Atual',
+  'summary.income': 'Receitas',
+  'summary.expense': 'Despesas',
+  'summary.highestExpense': 'Maior Gasto',
+  'summary.notAvailable': 'N/A',
+  'summary.unconverted': '{count} transações ficaram fora dos totais por falta de cotação para {currency}.',
+  'summary.delta': '{change} vs. {period}',
+  'charts.byCategory': 'Gastos por Categoria',
+  'charts.incomeVsExpense': 'Receitas vs Despesas',
+  'filters.search': 'Buscar transações...',
+  'filters.searchHelp': 'Ex.: valor>500 categoria:Lazer tipo:despesa data:2025-11-01..2025-11-15 tag:viagem-2025 "frase exata" -excluir OR outro',
+  'search.error.unclosedQuote': 'Aspas sem fechamento',
+  'search.error.danglingOr': 'OR precisa de termos dos dois lados',
+  'search.error.unknownField': 'Campo desconhecido em "{term}"',
+  'search.error.emptyValue': 'Falta o valor em "{term}"',
+  'search.error.invalidNumber': 'Número inválido em "{term}"',
+  'search.error.invalidDate': 'Data inválida em "{term}" (use AAAA-MM-DD, AAAA-MM ou AAAA)',
+  'search.error.invalidType': 'Tipo inválido em "{term}" (use receita, despesa ou transferencia)',
+  'search.error.invalidOperator': 'Operador não suportado em "{term}"',
+  'period.all': 'Todos',
+  'period.day': 'Hoje',
+  'period.week': 'Semana',
+  'period.month': 'Mês',
+  'period.lastMonth': 'Mês passado',
+  'period.last30Days': 'Últimos 30 dias',
+  'period.quarter': 'Trimestre',
+  'period.year': 'Ano',
+  'period.fiscalYear': 'Ano fiscal',
+  'period.custom': 'Personalizado',
+  'period.from': 'De',
+  'period.to': 'Até',
+  'period.weekStart': 'Semana começa em',
+  'period.fiscalYearStart': 'Ano fiscal começa em',
+  'actions.exportCsvTitle': 'Exportar transações filtradas em CSV',
+  'actions.import': 'Importar',
+  'actions.importCsvTitle': 'Importar transações de um CSV',
+  'actions.importStatementTitle': 'Importar extrato bancário OFX ou QIF',
+  'actions.newTransaction': 'Nova Transação',
+  'field.date': 'Data',
+  'field.description': 'Descrição',
+  'field.tags': 'Tags',
+  'field.notes': 'Observações',
+  'field.attachments': 'Comprovantes',
+  'form.tagsPlaceholder': 'viagem-2025, reembolsável',
+  'attachments.add': 'Anexar imagem ou PDF',
+  'attachments.remove': 'Remover anexo',
+  'attachments.rejected': '"{name}" não foi anexado: use uma imagem ou PDF de até {max} MB',
+  'attachments.missing': 'O arquivo "{name}" não está mais armazenado',
+  'attachments.saveFailed': '"{name}" não foi anexado: não foi possível armazená-lo (o armazenamento pode estar cheio)',
+  'tags.all': 'Todas as tags',
+  'tags.report': 'Gastos por tag',
+  'tags.count': '{count} transações',
+  'validation.invalidTag': 'Use letras minúsculas, números, - e _ (até {max} caracteres por tag)',
+  'validation.invalidAttachment': 'Anexo inválido',
+  'validation.attachmentTooLarge': 'Anexo maior que o permitido',
+  'field.category': 'Categoria',
+  'field.type': 'Tipo',
+  'field.amount': 'Valor',
+  'field.currency': 'Moeda',
+  'field.account': 'Conta',
+  'table.actions': 'Ações',
+  'table.empty': 'Nenhuma transação encontrada',
+  'table.skipOccurrence': 'Pular ocorrência',
+  'table.showing': '{from}–{to} de {total} transações',
+  'table.total': '{total} transações',
+  'table.page': 'Página {page} de {pages}',
+  'table.previousPage': 'Página anterior',
+  'table.nextPage': 'Próxima página',
+  'table.mode': 'Exibição da tabela',
+  'table.mode.paginated': 'Páginas',
+  'table.mode.virtual': 'Lista contínua',
+  'type.income': 'Receita',
+  'type.expense': 'Despesa',
+  'type.transfer': 'Transferência',
+  'confirm.clear': 'Tem certeza que deseja limpar todos os dados? Você ainda poderá desfazer nesta sessão.',
+  'history.create': 'Transação adicionada',
+  'history.update': 'Transação atualizada',
+  'history.delete': 'Transação excluída',
+  'history.skip': 'Ocorrência pulada',
+  'history.import': 'Transações importadas',
+  'history.categories': 'Categorias atualizadas',
+  'history.recategorize': 'Regras aplicadas às transações',
+  'history.restore': 'Backup restaurado',
+  'history.clear': 'Todos os dados foram apagados',
+  'history.undone': 'Desfeito: {action}',
+  'history.undo': 'Desfazer',
+  'history.redo': 'Refazer',
+  'history.undoTitle': 'Desfazer (Ctrl+Z)',
+  'history.redoTitle': 'Refazer (Ctrl+Shift+Z)',
+  'history.dismiss': 'Fechar',
+  'alert.statementImported': '{added} transações importadas, {duplicates} duplicadas ignoradas.',
+  'alert.storageConflict': 'Estes dados foram alterados em outra aba ou por outro editor. A página será recarregada com a versão mais recente; sua última alteração não foi salva.',
+  'form.newTitle': 'Nova Transação',
+  'form.editTitle': 'Editar Transação',
+  'form.scopeThis': 'Somente esta ocorrência',
+  'form.scopeFuture': 'Esta e as futuras',
+  'form.select': 'Selecione...',
+  'form.fromAccount': 'Conta de origem',
+  'form.toAccount': 'Conta de destino',
+  'form.recurrence': 'Repetição',
+  'form.endNever': 'Sem fim',
+  'form.endDate': 'Até a data',
+  'form.endCount': 'Número de vezes',
+  'form.cancel': 'Cancelar',
+  'form.create': 'Criar',
+  'form.update': 'Atualizar',
+  'recurrence.none': 'Não repete',
+  'recurrence.daily': 'Diariamente',
+  'recurrence.weekly': 'Semanalmente',
+  'recurrence.monthly': 'Mensalmente (mesmo dia)',
+  'recurrence.monthlyOn': 'Mensalmente no dia {day}',
+  'recurrence.lastBusinessDay': 'Último dia útil do mês',
+  'recurrence.yearly': 'Anualmente',
+  'budget.title': 'Orçamentos de {month}',
+  'budget.warning': 'Atenção: {percent}% usado',
+  'budget.exceeded': 'Orçamento estourado',
+  'budget.remaining': 'Restam {amount} · {daily}/dia',
+  'budget.over': 'Excedido em {amount}',
+  'budget.carriedOver': ' · inclui {amount} acumulados',
+  'budget.edit': 'Editar orçamento',
+  'budget.remove': 'Remover orçamento',
+  'budget.empty': 'Nenhum orçamento definido',
+  'budget.category': 'Categoria...',
+  'budget.limit': 'Limite mensal',
+  'budget.rollover': 'Acumular saldo',
+  'budget.save': 'Salvar orçamento',
+  'goals.title': 'Metas de economia',
+  'goals.until': 'até {month}',
+  'goals.progress': '{saved} de {target}',
+  'goals.required': 'Faltam {amount} · {monthly}/mês por {months} meses',
+  'goals.average': 'Média até agora: {amount}/mês',
+  'goals.projection': 'Neste ritmo, atinge a meta em {month}',
+  'goals.pace.reached': 'Meta atingida',
+  'goals.pace.onTrack': 'No ritmo',
+  'goals.pace.behind': 'Abaixo do ritmo',
+  'goals.pace.overdue': 'Prazo vencido',
+  'goals.funding': 'Aportes ({count})',
+  'goals.linkTransaction': 'Vincular transação...',
+  'goals.unlink': 'Desvincular transação',
+  'goals.manual': 'Aporte manual',
+  'goals.manualHelp': 'Use um valor negativo para uma retirada',
+  'goals.contribute': 'Adicionar',
+  'goals.removeContribution': 'Remover aporte',
+  'goals.edit': 'Editar meta',
+  'goals.remove': 'Remover meta',
+  'goals.empty': 'Nenhuma meta definida',
+  'goals.name': 'Nome da meta',
+  'goals.target': 'Valor alvo',
+  'goals.targetMonth': 'Mês alvo',
+  'goals.save': 'Salvar meta',
+  'goals.cancel': 'Cancelar',
+  'rates.title': 'Tabela de câmbio',
+  'rates.hint': 'Cada cotação vale a partir da sua data. CSV: colunas date, from, to, rate.',
+  'rates.pair': 'Par',
+  'rates.rate': 'Taxa',
+  'rates.add': 'Adicionar',
+  'rates.remove': 'Remover cotação',
+  'rates.empty': 'Nenhuma cotação cadastrada',
+  'rates.imported': '{count} cotações importadas.',
+  'rates.close': 'Fechar',
+  'csv.title': 'Importar CSV',
+  'csv.ignore': '(ignorar)',
+  'csv.column': 'Coluna {index}',
+  'csv.dateFormat': 'Formato da data',
+  'csv.dateDmy': 'dd/mm/aaaa',
+  'csv.dateMdy': 'mm/dd/aaaa',
+  'csv.dateYmd': 'aaaa-mm-dd',
+  'csv.decimalSeparator': 'Separador decimal',
+  'csv.comma': 'Vírgula (1.234,56)',
+  'csv.dot': 'Ponto (1234.56)',
+  'csv.hasHeader': 'Primeira linha é cabeçalho',
+  'csv.validRows': '{valid} de {total} linhas válidas',
+  'csv.line': 'Linha',
+  'csv.import': 'Importar {count} transações',
+  'csv.error.date': 'Data inválida',
+  'csv.error.amount': 'Valor inválido',
+  'csv.error.type': 'Tipo inválido',
+  'csv.error.description': 'Descrição vazia',
+  'csv.error.descriptionLength': 'Descrição com mais de 200 caracteres',
+  'validation.required': 'Campo obrigatório',
+  'validation.invalidType': 'Tipo de transação inválido',
+  'validation.invalidAmount': 'Informe um valor numérico',
+  'validation.notPositive': 'O valor deve ser maior que zero',
+  'validation.tooManyDecimals': 'Use no máximo 2 casas decimais',
+  'validation.unknownCategory': 'Categoria inexistente para este tipo',
+  'validation.invalidDate': 'Data inválida',
+  'validation.tooLong': 'Máximo de {max} caracteres',
+  'validation.invalidCurrency': 'Moeda inválida',
+  'validation.invalidAccount': 'Conta inválida',
+  'validation.sameAccount': 'Escolha uma conta diferente da de origem',
+  'validation.beforeStart': 'A data final deve ser posterior à data inicial',
+  'validation.invalidCount': 'Informe um número inteiro maior que zero',
+  'validation.invalidSplit': 'Divida em pelo menos 2 linhas, cada uma com categoria e valor',
+  'validation.splitTotal': 'As linhas devem somar o valor total',
+  'split.title': 'Divisão por categoria',
+  'split.add': 'Dividir',
+  'split.remove': 'Desfazer divisão',
+  'split.addLine': 'Adicionar linha',
+  'split.removeLine': 'Remover linha',
+  'split.remaining': 'Restante: {amount}',
+  'table.split': 'Dividida em {count}',
+  'validation.quarantined': '{count} registros corrompidos foram isolados e não entram nos totais',
+  'csv.error.currency': 'Moeda inválida',
+  'header.categories': 'Categorias',
+  'header.rules': 'Regras de categorização',
+  'rules.title': 'Regras de categorização',
+  'rules.help': 'Novas transações e importações recebem a categoria e as tags da primeira regra que combinar com a descrição e o valor.',
+  'rules.match.contains.option': 'Contém',
+  'rules.match.regex.option': 'Expressão regular',
+  'rules.match.contains': 'contém "{pattern}"',
+  'rules.match.regex': 'combina com /{pattern}/',
+  'rules.anyDescription': 'qualquer descrição',
+  'rules.amountRange': 'valor de {min} a {max}',
+  'rules.pattern': 'Texto ou expressão da descrição',
+  'rules.minAmount': 'Valor mín.',
+  'rules.maxAmount': 'Valor máx.',
+  'rules.add': 'Adicionar regra',
+  'rules.list': 'Regras (a primeira que combinar vale)',
+  'rules.empty': 'Nenhuma regra criada.',
+  'rules.moveUp': 'Subir',
+  'rules.moveDown': 'Descer',
+  'rules.delete': 'Excluir regra',
+  'rules.invalidPattern': 'A expressão regular é inválida.',
+  'rules.invalidRange': 'O valor mínimo é maior que o máximo.',
+  'rules.suggestions': 'Sugestões a partir do histórico',
+  'rules.suggestionCount': '{count} transações',
+  'rules.preview': 'Reaplicar às transações existentes',
+  'rules.previewEmpty': 'As regras não alteram nenhuma transação existente.',
+  'rules.apply': 'Aplicar a {count} transações',
+  'header.backup': 'Backup e restauração',
+  'header.ledgers': 'Livros e compartilhamento',
+  'backup.title': 'Backup e restauração',
+  'backup.download': 'Baixar backup',
+  'backup.downloadHelp': 'Um arquivo JSON com todas as transações, configurações e comprovantes, para levar os dados a outro navegador ou computador.',
+  'backup.restore': 'Restaurar de um arquivo',
+  'backup.mode.merge': 'Mesclar com os dados atuais',
+  'backup.mode.mergeHelp': 'Adiciona o que falta e atualiza o que mudou; as configurações deste dispositivo são mantidas.',
+  'backup.mode.replace': 'Substituir todos os dados',
+  'backup.mode.replaceHelp': 'Os dados atuais, inclusive as configurações, são trocados pelos do backup.',
+  'backup.chooseFile': 'Escolher arquivo de backup',
+  'backup.confirmReplace': 'Substituir todos os dados pelos do backup de {date}? Você pode desfazer logo em seguida.',
+  'backup.replaced': 'Backup restaurado.',
+  'backup.report': 'Resultado da mesclagem',
+  'backup.added': 'Adicionados',
+  'backup.updated': 'Atualizados',
+  'backup.skipped': 'Já existentes',
+  'backup.entity.transactions': 'Transações',
+  'backup.entity.recurrences': 'Recorrências',
+  'backup.entity.accounts': 'Contas',
+  'backup.entity.categories': 'Categorias',
+  'backup.entity.budgets': 'Orçamentos',
+  'backup.entity.exchangeRates': 'Cotações',
+  'backup.entity.categorizationRules': 'Regras de categorização',
+  'backup.entity.savingsGoals': 'Metas de economia',
+  'backup.error.invalidFile': 'O arquivo não é um backup válido.',
+  'backup.error.unsupportedVersion': 'Este backup foi criado por uma versão mais nova do aplicativo.',
+  'backup.close': 'Fechar',
+  'auth.signIn': 'Entrar',
+  'auth.register': 'Criar conta',
+  'auth.signOut': 'Sair',
+  'auth.signedInAs': 'Conectado como {username}',
+  'auth.signInTitle': 'Entre para ver seus dados',
+  'auth.registerTitle': 'Crie sua conta',
+  'auth.username': 'Usuário',
+  'auth.password': 'Senha',
+  'auth.usernameHelp': 'De 3 a 32 letras minúsculas, números, ".", "_" ou "-"',
+  'auth.passwordHelp': 'Pelo menos 8 caracteres',
+  'auth.switchToRegister': 'Não tem conta? Crie uma',
+  'auth.switchToSignIn': 'Já tem conta? Entre',
+  'auth.continueLocally': 'Continuar sem conta, com os dados só neste navegador',
+  'auth.error.invalidInput': 'Confira o usuário e a senha',
+  'auth.error.invalidCredentials': 'Usuário ou senha inválidos',
+  'auth.error.usernameTaken': 'Este usuário já existe',
+  'auth.error.failed': 'Não foi possível entrar. Tente novamente.',
+  'auth.error.userNotFound': 'Usuário "{username}" não encontrado',
+  'auth.error.shareFailed': 'Não foi possível alterar o acesso de "{username}"',
+  'auth.openLedger': 'Livro aberto',
+  'auth.ownLedger': 'Meu livro',
+  'auth.sharedLedger': 'Livro de {owner} ({role})',
+  'auth.members': 'Compartilhado com',
+  'auth.noMembers': 'Seu livro ainda não foi compartilhado.',
+  'auth.ownerOnly': 'Só o dono deste livro pode compartilhá-lo.',
+  'auth.share': 'Compartilhar',
+  'auth.unshare': 'Remover acesso',
+  'auth.shareHelp': 'Leitores só veem o livro; editores também podem alterá-lo.',
+  'auth.role.owner': 'dono',
+  'auth.role.editor': 'editor',
+  'auth.role.viewer': 'leitor',
+  'auth.readOnlyBanner': 'Você está vendo o livro de {owner} somente para leitura; suas alterações não serão salvas.',
+  'auth.sharedBanner': 'Você está editando o livro de {owner}.',
+  'auth.close': 'Fechar',
+  'charts.back': 'Voltar',
+  'charts.byCategoryIn': 'Gastos em {category}',
+  'charts.cashFlow': 'Fluxo de caixa',
+  'charts.net': 'Resultado',
+  'charts.runningBalance': 'Saldo acumulado',
+  'charts.granularity.day': 'Diário',
+  'charts.granularity.week': 'Semanal',
+  'charts.granularity.month': 'Mensal',
+  'categories.title': 'Categorias',
+  'categories.name': 'Nome',
+  'categories.parent': 'Categoria pai',
+  'categories.noParent': 'Sem categoria pai',
+  'categories.icon': 'Ícone',
+  'categories.color': 'Cor',
+  'categories.add': 'Adicionar',
+  'categories.mergeInto': 'Mesclar em...',
+  'categories.confirmMerge': 'Mesclar "{source}" em "{target}"? As transações serão movidas e "{source}" será removida.',
+  'categories.archive': 'Arquivar',
+  'categories.unarchive': 'Restaurar',
+  'categories.duplicate': 'Já existe uma categoria "{name}" deste tipo.',
+  'categories.close': 'Fechar',
+  'accounts.title': 'Contas',
+  'accounts.all': 'Todas as contas',
+  'accounts.name': 'Nome da conta',
+  'accounts.openingBalance': 'Saldo inicial',
+  'accounts.save': 'Salvar conta',
+  'accounts.edit': 'Editar conta',
+  'accounts.delete': 'Excluir conta',
+  'accounts.inUse': 'Contas com transações não podem ser excluídas',
+  'accounts.unconverted': '{count} lançamentos sem cotação para a moeda da conta',
+  'accounts.type.checking': 'Conta corrente',
+  'accounts.type.savings': 'Poupança',
+  'accounts.type.creditCard': 'Cartão de crédito',
+  'accounts.type.cash': 'Dinheiro',
+  'accounts.type.investment': 'Investimentos',
+};
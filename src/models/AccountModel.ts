@@ -0,0 +1,34 @@
+import type { AccountType, IAccount } from '../types';
+
+// Account Model - Where money is held: a bank account, a card, cash, etc.
+export class AccountModel implements IAccount {
+  id: number;
+  name: string;
+  type: AccountType;
+  openingBalance: number;
+  currency: string;
+
+  constructor(id: number, name: string, type: AccountType, openingBalance: number | string, currency: string) {
+    this.id = id;
+    this.name = name;
+    this.type = type;
+    this.openingBalance = typeof openingBalance === 'string' ? parseFloat(openingBalance) : openingBalance;
+    this.currency = currency;
+  }
+
+  // Serialize for storage
+  toJSON(): any {
+    return {
+      id: this.id,
+      name: this.name,
+      type: this.type,
+      openingBalance: this.openingBalance,
+      currency: this.currency
+    };
+  }
+
+  // Deserialize from storage
+  static fromJSON(json: any): AccountModel {
+    return new AccountModel(json.id, json.name, json.type, json.openingBalance, json.currency);
+  }
+}
@@ -0,0 +1,34 @@
+import type { IBudget } from '../types';
+
+// Budget Model - Monthly spending limit for an expense category
+export class BudgetModel implements IBudget {
+  id: number;
+  category: string;
+  limit: number;
+  rollover: boolean;
+  startMonth: string;
+
+  constructor(id: number, category: string, limit: number | string, rollover: boolean, startMonth: string) {
+    this.id = id;
+    this.category = category;
+    this.limit = typeof limit === 'string' ? parseFloat(limit) : limit;
+    this.rollover = rollover;
+    this.startMonth = startMonth;
+  }
+
+  // Serialize for storage
+  toJSON(): any {
+    return {
+      id: this.id,
+      category: this.category,
+      limit: this.limit,
+      rollover: this.rollover,
+      startMonth: this.startMonth
+    };
+  }
+
+  // Deserialize from storage
+  static fromJSON(json: any): BudgetModel {
+    return new BudgetModel(json.id, json.category, json.limit, json.rollover, json.startMonth);
+  }
+}
@@ -0,0 +1,84 @@
+import { SearchQuery } from '../searchQuery';
+import type { CategoryType, ITransaction, RuleMatchMode, ICategorizationRule } from '../types';
+
+// Categorization Rule Model - Files transactions whose description (and amount) match under a category
+export class CategorizationRuleModel implements ICategorizationRule {
+  id: number;
+  match: RuleMatchMode;
+  pattern: string;
+  minAmount: number | null;
+  maxAmount: number | null;
+  type: CategoryType;
+  category: string;
+  tags: string[];
+  private readonly matcher: (description: string) => boolean;
+
+  constructor(id: number, data: Omit<ICategorizationRule, 'id'>) {
+    this.id = id;
+    this.match = data.match;
+    this.pattern = data.pattern;
+    this.minAmount = data.minAmount;
+    this.maxAmount = data.maxAmount;
+    this.type = data.type;
+    this.category = data.category;
+    this.tags = data.tags;
+    this.matcher = CategorizationRuleModel.createMatcher(data.match, data.pattern);
+  }
+
+  // Check if a pattern can be used: any text when matching a substring, a valid expression otherwise
+  static isValidPattern(match: RuleMatchMode, pattern: string): boolean {
+    if (match === 'contains') return true;
+    try {
+      new RegExp(pattern, 'iu');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // An invalid expression (from older or edited data) never matches
+  private static createMatcher(match: RuleMatchMode, pattern: string): (description: string) => boolean {
+    if (!pattern) return () => true;
+    if (match === 'contains') {
+      const needle = SearchQuery.normalize(pattern);
+      return description => SearchQuery.normalize(description).includes(needle);
+    }
+    if (!CategorizationRuleModel.isValidPattern(match, pattern)) return () => false;
+    const regex = new RegExp(pattern, 'iu');
+    return description => regex.test(description);
+  }
+
+  // Check if a transaction's description and amount meet the rule's conditions
+  matches(transaction: Pick<ITransaction, 'description' | 'amount'>): boolean {
+    return (this.minAmount === null || transaction.amount >= this.minAmount)
+      && (this.maxAmount === null || transaction.amount <= this.maxAmount)
+      && this.matcher(transaction.description);
+  }
+
+  // Serialize for storage
+  toJSON(): any {
+    return {
+      id: this.id,
+      match: this.match,
+      pattern: this.pattern,
+      minAmount: this.minAmount,
+      maxAmount: this.maxAmount,
+      type: this.type,
+      category: this.category,
+      tags: this.tags
+    };
+  }
+
+  // Deserialize from storage
+  static fromJSON(json: any): CategorizationRuleModel {
+    return new CategorizationRuleModel(json.id, {
+      match: json.match === 'regex' ? 'regex' : 'contains',
+      pattern: json.pattern ?? '',
+      minAmount: json.minAmount ?? null,
+      maxAmount: json.maxAmount ?? null,
+      type: json.type,
+      category: json.category,
+      tags: json.tags ?? [],
+    });
+  }
+}
@@ -0,0 +1,54 @@
+import type { CategoryType, ICategory } from '../types';
+import { DEFAULT_CATEGORY_ICON } from '../constants';
+
+// Category Model - User-managed category, optionally nested one level under a parent of the same type
+export class CategoryModel implements ICategory {
+  id: number;
+  name: string;
+  type: CategoryType;
+  parentId: number | null;
+  color: string;
+  icon: string;
+  archived: boolean;
+
+  constructor(
+    id: number,
+    name: string,
+    type: CategoryType,
+    parentId: number | null,
+    color: string,
+    icon: string = DEFAULT_CATEGORY_ICON,
+    archived: boolean = false
+  ) {
+    this.id = id;
+    this.name = name;
+    this.type = type;
+    this.parentId = parentId;
+    this.color = color;
+    this.icon = icon;
+    this.archived = archived;
+  }
+
+  // Check if category is nested under another one
+  isSubcategory(): boolean {
+    return this.parentId !== null;
+  }
+
+  // Serialize for storage
+  toJSON(): any {
+    return {
+      id: this.id,
+      name: this.name,
+      type: this.type,
+      parentId: this.parentId,
+      color: this.color,
+      icon: this.icon,
+      archived: this.archived
+    };
+  }
+
+  // Deserialize from storage
+  static fromJSON(json: any): CategoryModel {
+    return new CategoryModel(json.id, json.name, json.type, json.parentId ?? null, json.color, json.icon, json.archived ?? false);
+  }
+}
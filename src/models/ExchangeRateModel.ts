@@ -0,0 +1,31 @@
+import type { IExchangeRate } from '../types';
+
+// Exchange Rate Model - How many units of one currency buy one unit of another from a given date
+export class ExchangeRateModel implements IExchangeRate {
+  date: string;
+  from: string;
+  to: string;
+  rate: number;
+
+  constructor(date: string, from: string, to: string, rate: number | string) {
+    this.date = date;
+    this.from = from.toUpperCase();
+    this.to = to.toUpperCase();
+    this.rate = typeof rate === 'string' ? parseFloat(rate) : rate;
+  }
+
+  // Serialize for storage
+  toJSON(): any {
+    return {
+      date: this.date,
+      from: this.from,
+      to: this.to,
+      rate: this.rate
+    };
+  }
+
+  // Deserialize from storage
+  static fromJSON(json: any): ExchangeRateModel {
+    return new ExchangeRateModel(json.date, json.from, json.to, json.rate);
+  }
+}
@@ -0,0 +1,141 @@
+import type { RecurrenceFrequency, IRecurrenceTemplate, IRecurrenceRule, Locale } from '../types';
+import { DEFAULT_LOCALE } from '../constants';
+import { I18nService } from '../i18n/I18nService';
+import { TransactionModel } from './TransactionModel';
+
+// Recurrence Model - A rule that materializes a template transaction on a schedule
+export class RecurrenceModel implements IRecurrenceRule {
+  id: number;
+  frequency: RecurrenceFrequency;
+  template: IRecurrenceTemplate;
+  startDate: Date;
+  endDate: Date | null;
+  count: number | null;
+  dayOfMonth: number;
+  skippedDates: string[];
+
+  constructor(
+    id: number,
+    frequency: RecurrenceFrequency,
+    template: IRecurrenceTemplate,
+    startDate: string | Date,
+    end: { endDate?: string | Date | null; count?: number | null } = {},
+    skippedDates: string[] = []
+  ) {
+    this.id = id;
+    this.frequency = frequency;
+    this.template = template;
+    this.startDate = typeof startDate === 'string' ? new Date(startDate) : startDate;
+    this.endDate = end.endDate ? new Date(end.endDate) : null;
+    this.count = end.count ?? null;
+    this.dayOfMonth = this.startDate.getUTCDate();
+    this.skippedDates = skippedDates;
+  }
+
+  // Get the nth scheduled date (0-based), counting skipped occurrences too
+  getNthDate(n: number): Date {
+    const year = this.startDate.getUTCFullYear();
+    const month = this.startDate.getUTCMonth();
+    const day = this.startDate.getUTCDate();
+
+    switch (this.frequency) {
+      case 'daily':
+        return new Date(Date.UTC(year, month, day + n));
+      case 'weekly':
+        return new Date(Date.UTC(year, month, day + n * 7));
+      case 'monthly':
+        return RecurrenceModel.clampDay(year, month + n, this.dayOfMonth);
+      case 'lastBusinessDay': {
+        // Skip the start month when its last business day has already passed
+        const first = RecurrenceModel.lastBusinessDay(year, month) < this.startDate ? 1 : 0;
+        return RecurrenceModel.lastBusinessDay(year, month + first + n);
+      }
+      case 'yearly':
+        return RecurrenceModel.clampDay(year + n, month, day);
+    }
+  }
+
+  // Get every non-skipped occurrence date ("yyyy-mm-dd") up to the given date
+  getOccurrenceDates(until: Date): string[] {
+    const limit = this.endDate && this.endDate < until ? this.endDate : until;
+    const dates: string[] = [];
+
+    for (let n = 0; this.count === null || n < this.count; n++) {
+      const date = this.getNthDate(n);
+      if (date > limit) break;
+      dates.push(date.toISOString().split('T')[0]);
+    }
+
+    return dates.filter(d => !this.skippedDates.includes(d));
+  }
+
+  // Count scheduled dates (skipped included) before the given "yyyy-mm-dd" date
+  countBefore(dateKey: string): number {
+    let n = 0;
+    while (this.getNthDate(n).toISOString().split('T')[0] < dateKey) n++;
+    return n;
+  }
+
+  // Build the transaction for one occurrence
+  createOccurrence(id: number, occurrenceDate: string): TransactionModel {
+    const { type, amount, category, description, currency, accountId, toAccountId, splits, tags, notes } = this.template;
+    return new TransactionModel(id, type, amount, category, description, occurrenceDate, {
+      currency,
+      accountId,
+      toAccountId,
+      splits,
+      tags,
+      notes,
+      recurrenceId: this.id,
+      occurrenceDate,
+    });
+  }
+
+  // Describe the schedule for display
+  getLabel(locale: Locale = DEFAULT_LOCALE): string {
+    if (this.frequency === 'monthly') {
+      return I18nService.translate(locale, 'recurrence.monthlyOn', { day: this.dayOfMonth });
+    }
+    return I18nService.translate(locale, `recurrence.${this.frequency}`);
+  }
+
+  // Serialize for storage
+  toJSON(): any {
+    return {
+      id: this.id,
+      frequency: this.frequency,
+      template: this.template,
+      startDate: this.startDate.toISOString(),
+      endDate: this.endDate?.toISOString() ?? null,
+      count: this.count,
+      skippedDates: this.skippedDates
+    };
+  }
+
+  // Deserialize from storage
+  static fromJSON(json: any): RecurrenceModel {
+    return new RecurrenceModel(
+      json.id,
+      json.frequency,
+      json.template,
+      json.startDate,
+      { endDate: json.endDate, count: json.count },
+      json.skippedDates ?? []
+    );
+  }
+
+  // Day of a month clamped to its length, e.g. day 31 in November becomes the 30th
+  private static clampDay(year: number, month: number, day: number): Date {
+    const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    return new Date(Date.UTC(year, month, Math.min(day, lastDay)));
+  }
+
+  // Last Monday-to-Friday of a month (holidays are not considered)
+  private static lastBusinessDay(year: number, month: number): Date {
+    const date = new Date(Date.UTC(year, month + 1, 0));
+    while (date.getUTCDay() === 0 || date.getUTCDay() === 6) {
+      date.setUTCDate(date.getUTCDate() - 1);
+    }
+    return date;
+  }
+}
@@ -0,0 +1,47 @@
+import type { IGoalContribution, ISavingsGoal } from '../types';
+
+// Savings Goal Model - Amount to save by a target month and what funds it
+export class SavingsGoalModel implements ISavingsGoal {
+  id: number;
+  name: string;
+  targetAmount: number;
+  targetMonth: string;
+  startMonth: string;
+  transactionIds: number[];
+  contributions: IGoalContribution[];
+
+  constructor(id: number, data: Omit<ISavingsGoal, 'id'>) {
+    this.id = id;
+    this.name = data.name;
+    this.targetAmount = data.targetAmount;
+    this.targetMonth = data.targetMonth;
+    this.startMonth = data.startMonth;
+    this.transactionIds = data.transactionIds;
+    this.contributions = data.contributions;
+  }
+
+  // Serialize for storage
+  toJSON(): any {
+    return {
+      id: this.id,
+      name: this.name,
+      targetAmount: this.targetAmount,
+      targetMonth: this.targetMonth,
+      startMonth: this.startMonth,
+      transactionIds: this.transactionIds,
+      contributions: this.contributions
+    };
+  }
+
+  // Deserialize from storage
+  static fromJSON(json: any): SavingsGoalModel {
+    return new SavingsGoalModel(json.id, {
+      name: json.name,
+      targetAmount: json.targetAmount,
+      targetMonth: json.targetMonth,
+      startMonth: json.startMonth,
+      transactionIds: json.transactionIds ?? [],
+      contributions: json.contributions ?? [],
+    });
+  }
+}
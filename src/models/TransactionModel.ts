@@ -0,0 +1,194 @@
+import { SearchQuery, type ISearchTarget, type SearchNode } from '../searchQuery';
+import type {
+  TransactionType, ITransactionSplit, IAttachment, ITransaction, TransactionDetails, Locale,
+} from '../types';
+import { DEFAULT_CURRENCY, DEFAULT_LOCALE, DEFAULT_ACCOUNT_ID } from '../constants';
+import { ValidationError, ValidationService } from '../services/ValidationService';
+
+// Transaction Model - Represents a financial transaction with business logic
+export class TransactionModel implements ITransaction {
+  id: number;
+  type: TransactionType;
+  amount: number;
+  category: string;
+  description: string;
+  date: Date;
+  currency: string;
+  accountId: number;
+  toAccountId?: number;
+  externalId?: string;
+  recurrenceId?: number;
+  occurrenceDate?: string;
+  splits?: ITransactionSplit[];
+  tags?: string[];
+  notes?: string;
+  attachments?: IAttachment[];
+  // What the search language reads, normalized on the first search; transactions are never changed in place
+  private searchTarget?: ISearchTarget;
+
+  constructor(
+    id: number,
+    type: TransactionType,
+    amount: number | string,
+    category: string,
+    description: string,
+    date: string | Date,
+    details: TransactionDetails = {}
+  ) {
+    this.id = id;
+    this.type = type;
+    this.amount = typeof amount === 'string' ? parseFloat(amount) : amount;
+    this.category = category;
+    this.description = description;
+    this.date = typeof date === 'string' ? new Date(date) : date;
+    this.currency = details.currency ?? DEFAULT_CURRENCY;
+    this.accountId = details.accountId ?? DEFAULT_ACCOUNT_ID;
+    this.toAccountId = details.toAccountId;
+    this.externalId = details.externalId;
+    this.recurrenceId = details.recurrenceId;
+    this.occurrenceDate = details.occurrenceDate;
+    this.splits = details.splits?.length ? details.splits : undefined;
+    this.tags = details.tags?.length ? details.tags : undefined;
+    this.notes = details.notes || undefined;
+    this.attachments = details.attachments?.length ? details.attachments : undefined;
+  }
+
+  // Get optional fields to carry over when rebuilding this transaction
+  getDetails(): TransactionDetails {
+    return {
+      currency: this.currency,
+      accountId: this.accountId,
+      toAccountId: this.toAccountId,
+      externalId: this.externalId,
+      recurrenceId: this.recurrenceId,
+      occurrenceDate: this.occurrenceDate,
+      splits: this.splits,
+      tags: this.tags,
+      notes: this.notes,
+      attachments: this.attachments,
+    };
+  }
+
+  // Check if transaction is divided into several category lines
+  isSplit(): boolean {
+    return this.splits !== undefined;
+  }
+
+  // Amount spent or received per category: the split lines, or the whole amount under its category
+  getCategoryAmounts(): ITransactionSplit[] {
+    return this.splits ?? [{ category: this.category, amount: this.amount }];
+  }
+
+  // Check if transaction moves money between two accounts
+  isTransfer(): boolean {
+    return this.type === 'transfer';
+  }
+
+  // Check if transaction touches an account, as source or as transfer destination
+  involvesAccount(accountId: number): boolean {
+    return this.accountId === accountId || this.toAccountId === accountId;
+  }
+
+  // Check if transaction was generated by a recurrence rule
+  isRecurring(): boolean {
+    return this.recurrenceId !== undefined;
+  }
+
+  // Identify the same bank entry across imports when there is no FITID
+  getFingerprint(): string {
+    return [
+      this.type,
+      this.amount.toFixed(2),
+      this.date.toISOString().split('T')[0],
+      this.description.trim().toLowerCase().replace(/\s+/g, ' '),
+    ].join('|');
+  }
+
+  // Check if transaction has the given tag
+  hasTag(tag: string): boolean {
+    return this.tags?.includes(tag) ?? false;
+  }
+
+  // Check if transaction matches a parsed search query (see searchQuery.ts); a split transaction
+  // matches the categories of all its lines
+  matchesSearch(query: SearchNode | null): boolean {
+    this.searchTarget ??= SearchQuery.index({
+      description: this.description,
+      category: this.splits ? this.splits.map(s => s.category).join('\n') : this.category,
+      type: this.type,
+      amount: this.amount,
+      date: this.date,
+      tags: this.tags ?? [],
+      notes: this.notes ?? '',
+    });
+    return SearchQuery.matches(query, this.searchTarget);
+  }
+
+  // Check if transaction is within date range
+  isInDateRange(startDate: Date, endDate: Date): boolean {
+    const time = this.date.getTime();
+    return time >= startDate.getTime() && time <= endDate.getTime();
+  }
+
+  // Format amount for display
+  getFormattedAmount(locale: Locale = DEFAULT_LOCALE): string {
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency: this.currency
+    }).format(this.amount);
+  }
+
+  // Format date for display
+  getFormattedDate(locale: Locale = DEFAULT_LOCALE): string {
+    return this.date.toLocaleDateString(locale);
+  }
+
+  // Serialize for storage
+  toJSON(): any {
+    return {
+      id: this.id,
+      type: this.type,
+      amount: this.amount,
+      category: this.category,
+      description: this.description,
+      date: this.date.toISOString(),
+      currency: this.currency,
+      accountId: this.accountId,
+      toAccountId: this.toAccountId,
+      externalId: this.externalId,
+      recurrenceId: this.recurrenceId,
+      occurrenceDate: this.occurrenceDate,
+      splits: this.splits,
+      tags: this.tags,
+      notes: this.notes,
+      attachments: this.attachments
+    };
+  }
+
+  // Deserialize, rejecting records that fail the validation schema
+  static fromJSON(json: any): TransactionModel {
+    const errors = ValidationService.validateTransaction(json ?? {});
+    if (!ValidationService.isValid(errors)) throw new ValidationError(errors);
+
+    return new TransactionModel(
+      json.id,
+      json.type,
+      json.amount,
+      json.category ?? '',
+      json.description,
+      json.date,
+      {
+        currency: json.currency,
+        accountId: json.accountId,
+        toAccountId: json.toAccountId,
+        externalId: json.externalId,
+        recurrenceId: json.recurrenceId,
+        occurrenceDate: json.occurrenceDate,
+        splits: json.splits?.map((s: any) => ({ category: s.category, amount: Number(s.amount) })),
+        tags: json.tags,
+        notes: json.notes,
+        attachments: json.attachments?.map((a: any) => ({ id: a.id, name: a.name, type: a.type, size: a.size })),
+      }
+    );
+  }
+}
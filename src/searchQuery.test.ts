@@ -0,0 +1,209 @@
+import { describe, expect, it } from 'vitest';
+import { SearchQuery, type ISearchTarget } from './searchQuery';
+
+const target = (fields: Partial<ISearchTarget> = {}): ISearchTarget => ({
+  description: 'Conta de luz',
+  category: 'Moradia',
+  type: 'expense',
+  amount: 250,
+  date: new Date('2025-11-10'),
+  tags: [],
+  notes: '',
+  ...fields,
+});
+
+// Parse a query and check a transaction against it
+const search = (query: string, fields: Partial<ISearchTarget> = {}) =>
+  SearchQuery.matches(SearchQuery.parse(query).node, target(fields));
+
+const errorCodes = (query: string) => SearchQuery.parse(query).errors.map(error => error.code);
+
+describe('SearchQuery.parse', () => {
+  it('gives a null node for an empty query, which matches everything', () => {
+    expect(SearchQuery.parse('   ')).toEqual({ node: null, errors: [] });
+    expect(search('')).toBe(true);
+  });
+
+  it('ANDs terms and splits alternatives on upper-case OR', () => {
+    expect(SearchQuery.parse('luz OR agua conta').node).toEqual({
+      kind: 'or',
+      nodes: [
+        { kind: 'text', text: 'luz' },
+        { kind: 'and', nodes: [{ kind: 'text', text: 'agua' }, { kind: 'text', text: 'conta' }] },
+      ],
+    });
+    expect(search('luz moradia')).toBe(true);
+    expect(search('luz lazer')).toBe(false);
+    expect(search('lazer OR luz')).toBe(true);
+    expect(search('lazer or luz')).toBe(false);
+  });
+});
+
+describe('free text', () => {
+  it('matches description, category and notes, ignoring case and accents', () => {
+    expect(search('LUZ')).toBe(true);
+    expect(search('moradia')).toBe(true);
+    expect(search('vencimento', { notes: 'Vencimento dia 10' })).toBe(true);
+    expect(search('alimentacao', { category: 'Alimentação' })).toBe(true);
+    expect(search('uber')).toBe(false);
+  });
+});
+
+describe('field filters', () => {
+  it('restricts text to one field', () => {
+    expect(search('category:mora')).toBe(true);
+    expect(search('description:mora')).toBe(false);
+    expect(search('notes:luz')).toBe(false);
+    expect(search('desc:luz')).toBe(true);
+  });
+
+  it('accepts Portuguese and Spanish field names', () => {
+    expect(search('categoria:moradia')).toBe(true);
+    expect(search('descrição:luz')).toBe(true);
+    expect(search('descripcion:luz')).toBe(true);
+    expect(search('valor:250')).toBe(true);
+    expect(search('fecha:2025-11-10')).toBe(true);
+  });
+
+  it('matches types by name in every language', () => {
+    expect(search('type:expense')).toBe(true);
+    expect(search('tipo:despesa')).toBe(true);
+    expect(search('tipo:gasto')).toBe(true);
+    expect(search('type:income')).toBe(false);
+    expect(search('tipo:receita', { type: 'income' })).toBe(true);
+  });
+
+  it('matches whole tags, with an optional "#"', () => {
+    const tags = ['viagem-2025', 'Família'];
+    expect(search('tag:viagem-2025', { tags })).toBe(true);
+    expect(search('tag:#viagem-2025', { tags })).toBe(true);
+    expect(search('tag:viagem', { tags })).toBe(false);
+    expect(search('etiqueta:familia', { tags })).toBe(true);
+  });
+});
+
+describe('quoting', () => {
+  it('keeps a quoted phrase as one term', () => {
+    expect(SearchQuery.parse('"conta de luz"').node).toEqual({ kind: 'text', text: 'conta de luz' });
+    expect(search('"conta de luz"')).toBe(true);
+    expect(search('"conta de agua"')).toBe(false);
+  });
+
+  it('accepts quoted field values', () => {
+    expect(search('category:"Contas Fixas"', { category: 'Contas Fixas' })).toBe(true);
+    expect(search('category:"Contas Fixas"')).toBe(false);
+  });
+
+  it('treats quoted OR as text and ignores empty quotes', () => {
+    expect(SearchQuery.parse('luz "OR" agua').node).toEqual({
+      kind: 'and',
+      nodes: [{ kind: 'text', text: 'luz' }, { kind: 'text', text: 'or' }, { kind: 'text', text: 'agua' }],
+    });
+    expect(SearchQuery.parse('""')).toEqual({ node: null, errors: [] });
+  });
+});
+
+describe('negation', () => {
+  it('excludes terms with a leading "-"', () => {
+    expect(search('-uber')).toBe(true);
+    expect(search('-luz')).toBe(false);
+    expect(search('-category:moradia')).toBe(false);
+    expect(search('-"conta de luz"')).toBe(false);
+    expect(search('conta -type:income')).toBe(true);
+  });
+
+  it('treats a lone "-" as text', () => {
+    expect(SearchQuery.parse('-').node).toEqual({ kind: 'text', text: '-' });
+  });
+});
+
+describe('amount ranges', () => {
+  it('compares amounts', () => {
+    expect(search('amount:250')).toBe(true);
+    expect(search('amount=250.00')).toBe(true);
+    expect(search('amount>250')).toBe(false);
+    expect(search('amount>=250')).toBe(true);
+    expect(search('amount<300')).toBe(true);
+    expect(search('amount<=249,99')).toBe(false);
+  });
+
+  it('filters by ranges with optional ends', () => {
+    expect(search('amount:200..300')).toBe(true);
+    expect(search('amount:251..300')).toBe(false);
+    expect(search('amount:..250')).toBe(true);
+    expect(search('amount:300..')).toBe(false);
+    expect(SearchQuery.parse('amount:99,90..')).toEqual({
+      node: { kind: 'range', field: 'amount', min: 99.9, max: null },
+      errors: [],
+    });
+  });
+});
+
+describe('date ranges', () => {
+  it('matches a day, month or year', () => {
+    expect(search('date:2025-11-10')).toBe(true);
+    expect(search('date:2025-11-11')).toBe(false);
+    expect(search('date:2025-11')).toBe(true);
+    expect(search('date:2025')).toBe(true);
+    expect(search('date:2024')).toBe(false);
+  });
+
+  it('filters by ranges with optional ends', () => {
+    expect(search('date:2025-11-01..2025-11-15')).toBe(true);
+    expect(search('date:2025-11-11..2025-11-15')).toBe(false);
+    expect(search('date:2025-10..2025-11')).toBe(true);
+    expect(search('date:..2025-10')).toBe(false);
+    expect(search('date:2025-11-10..')).toBe(true);
+  });
+
+  it('compares against the whole span of a partial date', () => {
+    expect(search('date>2025-10')).toBe(true);
+    expect(search('date>2025-11')).toBe(false);
+    expect(search('date>=2025-11')).toBe(true);
+    expect(search('date<2025-11')).toBe(false);
+    expect(search('date<=2025-11')).toBe(true);
+  });
+
+  it('reads the UTC day stored dates fall on', () => {
+    expect(search('date:2025-11-01', { date: new Date('2025-11-01') })).toBe(true);
+    expect(search('date:2025-10', { date: new Date('2025-11-01') })).toBe(false);
+  });
+});
+
+describe('malformed input', () => {
+  it('reports each problem with its position', () => {
+    expect(SearchQuery.parse('luz preco:10').errors).toEqual([{ code: 'unknownField', start: 4, end: 12 }]);
+    expect(SearchQuery.parse('luz "conta').errors).toEqual([{ code: 'unclosedQuote', start: 4, end: 10 }]);
+  });
+
+  it('flags each kind of error', () => {
+    expect(errorCodes('OR luz')).toEqual(['danglingOr']);
+    expect(errorCodes('luz OR')).toEqual(['danglingOr']);
+    expect(errorCodes('luz OR OR agua')).toEqual(['danglingOr']);
+    expect(errorCodes('preco:10')).toEqual(['unknownField']);
+    expect(errorCodes('category:')).toEqual(['emptyValue']);
+    expect(errorCodes('amount:abc')).toEqual(['invalidNumber']);
+    expect(errorCodes('amount:10..abc')).toEqual(['invalidNumber']);
+    expect(errorCodes('amount:..')).toEqual(['invalidNumber']);
+    expect(errorCodes('date:2025-13')).toEqual(['invalidDate']);
+    expect(errorCodes('date:2025-11-32')).toEqual(['invalidDate']);
+    expect(errorCodes('date:11/2025')).toEqual(['invalidDate']);
+    expect(errorCodes('type:gift')).toEqual(['invalidType']);
+    expect(errorCodes('category>10')).toEqual(['invalidOperator']);
+    expect(errorCodes('type>expense')).toEqual(['invalidOperator']);
+    expect(errorCodes('tag<viagem')).toEqual(['invalidOperator']);
+    expect(errorCodes('amount>10..20')).toEqual(['invalidOperator']);
+  });
+
+  it('leaves invalid terms out so the rest of the query still filters', () => {
+    expect(search('luz amount:abc')).toBe(true);
+    expect(search('uber amount:abc')).toBe(false);
+    expect(search('OR luz')).toBe(true);
+    expect(search('-preco:10')).toBe(true);
+  });
+
+  it('keeps the text of an unclosed quote', () => {
+    expect(SearchQuery.parse('"conta de').node).toEqual({ kind: 'text', text: 'conta de' });
+    expect(search('"conta de')).toBe(true);
+  });
+});
@@ -0,0 +1,365 @@
+// ==================== TYPES ====================
+// Fields of a transaction the query language can read; TransactionModel satisfies it structurally
+export interface ISearchTarget {
+  description: string;
+  category: string;
+  type: string;
+  amount: number;
+  date: Date;
+  tags: string[];
+  notes: string;
+  normalized?: INormalizedText; // set by SearchQuery.index
+}
+
+// Text fields of a target as queries compare them (see SearchQuery.normalize)
+export interface INormalizedText {
+  description: string;
+  category: string;
+  notes: string;
+  tags: string[];
+}
+
+export type SearchComparison = '=' | '>' | '>=' | '<' | '<=';
+
+// Numeric fields; dates are compared as yyyymmdd numbers so both share the same nodes
+type NumericField = 'amount' | 'date';
+
+type TextField = 'category' | 'description' | 'notes';
+
+export type SearchNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'field'; field: TextField; text: string }
+  | { kind: 'type'; value: string }
+  | { kind: 'tag'; tag: string }
+  | { kind: 'compare'; field: NumericField; op: SearchComparison; value: number }
+  | { kind: 'range'; field: NumericField; min: number | null; max: number | null }
+  | { kind: 'not'; node: SearchNode }
+  | { kind: 'and'; nodes: SearchNode[] }
+  | { kind: 'or'; nodes: SearchNode[] };
+
+export type SearchErrorCode =
+  | 'unclosedQuote'
+  | 'danglingOr'
+  | 'unknownField'
+  | 'emptyValue'
+  | 'invalidNumber'
+  | 'invalidDate'
+  | 'invalidType'
+  | 'invalidOperator';
+
+// A problem in the query; start and end are offsets into the input, for inline highlighting
+export interface ISearchError {
+  code: SearchErrorCode;
+  start: number;
+  end: number;
+}
+
+// Terms with errors are left out, so the rest of the query still filters
+export interface IParsedSearch {
+  node: SearchNode | null;
+  errors: ISearchError[];
+}
+
+interface IToken {
+  text: string;
+  start: number;
+  end: number;
+  quoted: boolean; // the whole token is one "quoted phrase"
+}
+
+// Field names, including the Portuguese and Spanish ones, mapped to the field they read
+const FIELD_ALIASES: Record<string, NumericField | TextField | 'type' | 'tag'> = {
+  amount: 'amount',
+  valor: 'amount',
+  monto: 'amount',
+  category: 'category',
+  categoria: 'category',
+  description: 'description',
+  descricao: 'description',
+  descripcion: 'description',
+  desc: 'description',
+  notes: 'notes',
+  nota: 'notes',
+  notas: 'notes',
+  tag: 'tag',
+  tags: 'tag',
+  etiqueta: 'tag',
+  type: 'type',
+  tipo: 'type',
+  date: 'date',
+  data: 'date',
+  fecha: 'date',
+};
+
+const TYPE_ALIASES: Record<string, string> = {
+  income: 'income',
+  receita: 'income',
+  ingreso: 'income',
+  expense: 'expense',
+  despesa: 'expense',
+  gasto: 'expense',
+  transfer: 'transfer',
+  transferencia: 'transfer',
+};
+
+// ==================== SERVICE ====================
+// Search Query - Parses and evaluates the transaction search language, e.g.
+// `amount>500 category:Lazer -uber "conta de luz" OR type:income date:2025-11-01..2025-11-15 tag:viagem-2025`.
+// Terms are ANDed; OR (upper case) separates alternatives; a leading "-" excludes a term.
+export class SearchQuery {
+  /**
+   * Lower-case a text and strip its accents, so "alimentacao" matches "Alimentação"
+   */
+  static normalize(text: string): string {
+    return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+  }
+
+  /**
+   * Parse a query into a tree; an empty query gives a null node, which matches everything
+   */
+  static parse(input: string): IParsedSearch {
+    const errors: ISearchError[] = [];
+    const tokens = this.tokenize(input, errors);
+    const groups: SearchNode[][] = [[]];
+
+    tokens.forEach((token, index) => {
+      if (token.text === 'OR' && !token.quoted) {
+        const previous = groups[groups.length - 1];
+        const next = tokens[index + 1];
+        if (previous.length === 0 || !next || (next.text === 'OR' && !next.quoted)) {
+          errors.push({ code: 'danglingOr', start: token.start, end: token.end });
+          return;
+        }
+        groups.push([]);
+        return;
+      }
+
+      const node = this.parseTerm(token, errors);
+      if (node) groups[groups.length - 1].push(node);
+    });
+
+    const alternatives = groups
+      .filter(group => group.length > 0)
+      .map(group => (group.length === 1 ? group[0] : { kind: 'and', nodes: group } as SearchNode));
+
+    const node = alternatives.length === 0
+      ? null
+      : alternatives.length === 1 ? alternatives[0] : { kind: 'or', nodes: alternatives } as SearchNode;
+
+    return { node, errors };
+  }
+
+  /**
+   * Normalize a target's text ahead of time, for records that are searched again on every query
+   */
+  static index(target: ISearchTarget): ISearchTarget {
+    return { ...target, normalized: this.getNormalizedText(target) };
+  }
+
+  /**
+   * Check a transaction against a parsed query
+   */
+  static matches(node: SearchNode | null, target: ISearchTarget): boolean {
+    if (node === null) return true;
+
+    switch (node.kind) {
+      case 'text': {
+        const text = this.getNormalizedText(target);
+        return text.description.includes(node.text) || text.category.includes(node.text) || text.notes.includes(node.text);
+      }
+      case 'field':
+        return this.getNormalizedText(target)[node.field].includes(node.text);
+      case 'type':
+        return target.type === node.value;
+      case 'tag':
+        return this.getNormalizedText(target).tags.includes(node.tag);
+      case 'compare':
+        return this.compare(this.getNumericValue(node.field, target), node.op, node.value);
+      case 'range': {
+        const value = this.getNumericValue(node.field, target);
+        return (node.min === null || value >= node.min) && (node.max === null || value <= node.max);
+      }
+      case 'not':
+        return !this.matches(node.node, target);
+      // Plain loops: this runs for every transaction on every search
+      case 'and':
+        for (const child of node.nodes) if (!this.matches(child, target)) return false;
+        return true;
+      case 'or':
+        for (const child of node.nodes) if (this.matches(child, target)) return true;
+        return false;
+    }
+  }
+
+  // Text of a target as queries compare it; indexed targets carry it already
+  private static getNormalizedText(target: ISearchTarget): INormalizedText {
+    return target.normalized ?? {
+      description: this.normalize(target.description),
+      category: this.normalize(target.category),
+      notes: this.normalize(target.notes),
+      tags: target.tags.map(tag => this.normalize(tag)),
+    };
+  }
+
+  private static compare(value: number, op: SearchComparison, expected: number): boolean {
+    switch (op) {
+      case '=': return value === expected;
+      case '>': return value > expected;
+      case '>=': return value >= expected;
+      case '<': return value < expected;
+      case '<=': return value <= expected;
+    }
+  }
+
+  // Split on whitespace, keeping "quoted phrases" (also as field values, e.g. category:"Contas Fixas") whole
+  private static tokenize(input: string, errors: ISearchError[]): IToken[] {
+    const tokens: IToken[] = [];
+    let i = 0;
+
+    while (i < input.length) {
+      if (/\s/.test(input[i])) {
+        i++;
+        continue;
+      }
+
+      const start = i;
+      let text = '';
+      let quotedParts = 0;
+      while (i < input.length && !/\s/.test(input[i])) {
+        if (input[i] !== '"') {
+          text += input[i++];
+          continue;
+        }
+        const close = input.indexOf('"', i + 1);
+        if (close === -1) {
+          errors.push({ code: 'unclosedQuote', start: i, end: input.length });
+          text += input.slice(i + 1);
+          i = input.length;
+          break;
+        }
+        text += input.slice(i + 1, close);
+        quotedParts++;
+        i = close + 1;
+      }
+
+      const quoted = quotedParts === 1 && input[start] === '"' && input[i - 1] === '"';
+      tokens.push({ text, start, end: i, quoted });
+    }
+
+    return tokens;
+  }
+
+  private static parseTerm(token: IToken, errors: ISearchError[]): SearchNode | null {
+    if (token.quoted) {
+      return token.text.trim() ? { kind: 'text', text: this.normalize(token.text) } : null;
+    }
+
+    // "-term" excludes; a lone "-" is just text
+    if (token.text.startsWith('-') && token.text.length > 1) {
+      const node = this.parseTerm({ ...token, text: token.text.slice(1), start: token.start + 1 }, errors);
+      return node && { kind: 'not', node };
+    }
+
+    const match = token.text.match(/^(\p{L}+)(:|>=|<=|>|<|=)(.*)$/u);
+    if (!match) {
+      return { kind: 'text', text: this.normalize(token.text) };
+    }
+
+    const [, name, op, rawValue] = match;
+    const field = FIELD_ALIASES[this.normalize(name)];
+    const error = (code: SearchErrorCode): null => {
+      errors.push({ code, start: token.start, end: token.end });
+      return null;
+    };
+
+    if (!field) return error('unknownField');
+    if (!rawValue) return error('emptyValue');
+
+    switch (field) {
+      case 'category':
+      case 'description':
+      case 'notes':
+        return op === ':' || op === '=' ? { kind: 'field', field, text: this.normalize(rawValue) } : error('invalidOperator');
+      case 'type': {
+        const value = TYPE_ALIASES[this.normalize(rawValue)];
+        if (op !== ':' && op !== '=') return error('invalidOperator');
+        return value ? { kind: 'type', value } : error('invalidType');
+      }
+      // Tags match whole, so tag:viagem does not also find viagem-2025; "#" is optional
+      case 'tag':
+        return op === ':' || op === '=' ? { kind: 'tag', tag: this.normalize(rawValue.replace(/^#/, '')) } : error('invalidOperator');
+      case 'amount':
+        return this.parseNumericTerm('amount', op, rawValue, value => this.parseAmount(value), 'invalidNumber', error);
+      case 'date':
+        return this.parseNumericTerm('date', op, rawValue, value => this.parseDate(value), 'invalidDate', error);
+    }
+  }
+
+  // "field:value" is equality (or the whole period of a partial date), "field:min..max" a range
+  // with optional ends, and the other operators compare
+  private static parseNumericTerm(
+    field: NumericField,
+    op: string,
+    rawValue: string,
+    parse: (value: string) => { min: number; max: number } | null,
+    invalid: SearchErrorCode,
+    error: (code: SearchErrorCode) => null
+  ): SearchNode | null {
+    if (rawValue.includes('..')) {
+      if (op !== ':' && op !== '=') return error('invalidOperator');
+      const [from, to] = rawValue.split('..', 2);
+      const min = from ? parse(from) : null;
+      const max = to ? parse(to) : null;
+      if ((from && !min) || (to && !max) || (!min && !max)) return error(invalid);
+      return { kind: 'range', field, min: min?.min ?? null, max: max?.max ?? null };
+    }
+
+    const value = parse(rawValue);
+    if (!value) return error(invalid);
+
+    switch (op) {
+      case ':':
+      case '=':
+        return value.min === value.max
+          ? { kind: 'compare', field, op: '=', value: value.min }
+          : { kind: 'range', field, min: value.min, max: value.max };
+      case '>':
+        return { kind: 'compare', field, op, value: value.max };
+      case '>=':
+        return { kind: 'compare', field, op, value: value.min };
+      case '<':
+        return { kind: 'compare', field, op, value: value.min };
+      default:
+        return { kind: 'compare', field, op: '<=', value: value.max };
+    }
+  }
+
+  // Amounts accept a decimal point or comma: 500, 99.90, 99,90
+  private static parseAmount(value: string): { min: number; max: number } | null {
+    if (!/^\d+([.,]\d+)?$/.test(value)) return null;
+    const amount = parseFloat(value.replace(',', '.'));
+    return { min: amount, max: amount };
+  }
+
+  // A day (2025-11-01), month (2025-11) or year (2025), as the yyyymmdd span it covers
+  private static parseDate(value: string): { min: number; max: number } | null {
+    const match = value.match(/^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/);
+    if (!match) return null;
+
+    const [, year, month, day] = match;
+    if (month && (Number(month) < 1 || Number(month) > 12)) return null;
+    if (day && (Number(day) < 1 || Number(day) > 31)) return null;
+
+    const base = Number(year) * 10000;
+    if (day) return { min: base + Number(month) * 100 + Number(day), max: base + Number(month) * 100 + Number(day) };
+    if (month) return { min: base + Number(month) * 100 + 1, max: base + Number(month) * 100 + 31 };
+    return { min: base + 101, max: base + 1231 };
+  }
+
+  // Dates are stored at UTC midnight, so their UTC day is the calendar day the user entered
+  private static getNumericValue(field: NumericField, target: ISearchTarget): number {
+    if (field === 'amount') return target.amount;
+    const { date } = target;
+    return date.getUTCFullYear() * 10000 + (date.getUTCMonth() + 1) * 100 + date.getUTCDate();
+  }
+}
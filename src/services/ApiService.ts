@@ -0,0 +1,166 @@
+import type { MemberRole, IAuthUser, ICredentials } from '../types';
+
+// Api Error - Carries the HTTP status of a failed API request
+export class ApiError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Api Service - Handles all requests to the server REST API
+export class ApiService {
+  private static readonly BASE_URL = `${import.meta.env.BASE_URL}api`;
+  private static readonly CSRF_COOKIE = 'csrfToken';
+
+  // Version (ETag) of each storage key as last read or written here; null for a key known not to exist
+  private static readonly storageVersions = new Map<string, string | null>();
+  // Pending write of each storage key; writes of one key go out one at a time, each naming the
+  // version the one before it left
+  private static readonly storageWrites = new Map<string, Promise<void>>();
+
+  /**
+   * CSRF token of the session, which the server sets in a readable cookie and expects back in a header
+   */
+  private static getCsrfToken(): string {
+    const match = document.cookie.match(new RegExp(`(?:^|;\\s*)${this.CSRF_COOKIE}=([^;]*)`));
+    return match ? decodeURIComponent(match[1]) : '';
+  }
+
+  /**
+   * Send a JSON request to the API and turn error responses into an ApiError
+   */
+  private static async send(path: string, init?: RequestInit): Promise<Response> {
+    const response = await fetch(`${this.BASE_URL}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', 'X-CSRF-Token': this.getCsrfToken(), ...init?.headers },
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new ApiError(response.status, body?.error ?? `Request failed with status ${response.status}`);
+    }
+
+    return response;
+  }
+
+  /**
+   * Perform a JSON request against the API and unwrap error responses
+   */
+  private static async request<T>(path: string, init?: RequestInit): Promise<T> {
+    const response = await this.send(path, init);
+    return response.status === 204 ? (undefined as T) : response.json();
+  }
+
+  /**
+   * Fetch a stored value by key, or null when it does not exist
+   */
+  static async getStorageItem<T>(key: string): Promise<T | null> {
+    try {
+      const response = await this.send(`/storage/${encodeURIComponent(key)}`);
+      this.storageVersions.set(key, response.headers.get('ETag'));
+      return await response.json();
+    } catch (error) {
+      if (!(error instanceof ApiError && error.status === 404)) throw error;
+      this.storageVersions.set(key, null);
+      return null;
+    }
+  }
+
+  /**
+   * Store a value under the given key. It only replaces the version last read or written here, so
+   * when another tab or editor changed the key since, the write fails with a 412 ApiError
+   */
+  static setStorageItem(key: string, value: unknown): Promise<void> {
+    const write = (this.storageWrites.get(key) ?? Promise.resolve())
+      .catch(() => {})
+      .then(() => this.putStorageItem(key, value));
+    this.storageWrites.set(key, write);
+    write.catch(() => {}).then(() => this.storageWrites.get(key) === write && this.storageWrites.delete(key));
+    return write;
+  }
+
+  /**
+   * Send one write of a storage key, naming the version it replaces when one is known
+   */
+  private static async putStorageItem(key: string, value: unknown): Promise<void> {
+    const version = this.storageVersions.get(key);
+    const precondition: Record<string, string> = version === undefined ? {}
+      : version === null ? { 'If-None-Match': '*' }
+      : { 'If-Match': version };
+    const response = await this.send(`/storage/${encodeURIComponent(key)}`, {
+      method: 'PUT',
+      headers: precondition,
+      body: JSON.stringify(value),
+    });
+    this.storageVersions.set(key, response.headers.get('ETag'));
+  }
+
+  /**
+   * Take the versions of the keys the server rendered the page with; the other keys of the snapshot
+   * do not exist yet
+   */
+  static setStorageVersions(keys: string[], versions: Record<string, string>): void {
+    for (const key of keys) this.storageVersions.set(key, versions[key] ?? null);
+  }
+
+  /**
+   * List the keys in the store
+   */
+  static getStorageKeys(): Promise<string[]> {
+    return this.request<string[]>('/storage');
+  }
+
+  /**
+   * Remove the value stored under the given key
+   */
+  static async removeStorageItem(key: string): Promise<void> {
+    await this.request<void>(`/storage/${encodeURIComponent(key)}`, { method: 'DELETE' });
+    this.storageVersions.set(key, null);
+  }
+
+  /**
+   * Create an account and sign in to it
+   */
+  static register(credentials: ICredentials): Promise<IAuthUser> {
+    return this.request<IAuthUser>('/auth/register', { method: 'POST', body: JSON.stringify(credentials) });
+  }
+
+  /**
+   * Sign in; the session lives in a cookie
+   */
+  static login(credentials: ICredentials): Promise<IAuthUser> {
+    return this.request<IAuthUser>('/auth/login', { method: 'POST', body: JSON.stringify(credentials) });
+  }
+
+  /**
+   * End the session
+   */
+  static async logout(): Promise<void> {
+    await this.request<void>('/auth/logout', { method: 'POST' });
+  }
+
+  /**
+   * Open another ledger the user has access to
+   */
+  static switchLedger(ledgerId: string): Promise<IAuthUser> {
+    return this.request<IAuthUser>('/auth/ledger', { method: 'PUT', body: JSON.stringify({ ledgerId }) });
+  }
+
+  /**
+   * Share the open ledger with a user, or change their role
+   */
+  static setMember(username: string, role: MemberRole): Promise<IAuthUser> {
+    return this.request<IAuthUser>(`/auth/members/${encodeURIComponent(username)}`, {
+      method: 'PUT',
+      body: JSON.stringify({ role }),
+    });
+  }
+
+  /**
+   * Stop sharing the open ledger with a user
+   */
+  static removeMember(username: string): Promise<IAuthUser> {
+    return this.request<IAuthUser>(`/auth/members/${encodeURIComponent(username)}`, { method: 'DELETE' });
+  }
+}
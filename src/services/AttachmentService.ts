@@ -0,0 +1,77 @@
+import type { IAttachment, StorageBackend } from '../types';
+import { StorageService } from './StorageService';
+
+// Attachment Service - Keeps receipt files as data URLs in the current storage backend, one key per
+// file, apart from the transactions that list them
+export class AttachmentService {
+  private static readonly KEY_PREFIX = 'attachment-';
+
+  /**
+   * Store a file and get the metadata to keep on its transaction; rejects when the file could not
+   * be stored (client-side only)
+   */
+  static async save(file: File): Promise<IAttachment> {
+    const id = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+    const content = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(file);
+    });
+    await StorageService.writeToStorage(this.KEY_PREFIX + id, content);
+    return { id, name: file.name, type: file.type, size: file.size };
+  }
+
+  /**
+   * Open an attachment in a new tab; false when its content is no longer stored (client-side only)
+   */
+  static async open(attachment: IAttachment): Promise<boolean> {
+    const content = await StorageService.loadFromStorage<string | null>(this.KEY_PREFIX + attachment.id, null);
+    if (!content) return false;
+
+    // Browsers block navigating to data URLs, so the content is opened through a blob URL
+    const url = URL.createObjectURL(await (await fetch(content)).blob());
+    window.open(url, '_blank', 'noopener');
+    setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+    return true;
+  }
+
+  /**
+   * Read the stored content of the given attachments, for a backup; missing files are left out
+   */
+  static async exportFiles(ids: Set<string>): Promise<Record<string, string>> {
+    const entries = await Promise.all([...ids].map(async id =>
+      [id, await StorageService.loadFromStorage<string | null>(this.KEY_PREFIX + id, null)] as const
+    ));
+    return Object.fromEntries(entries.flatMap(([id, content]) => content === null ? [] : [[id, content]]));
+  }
+
+  /**
+   * Store the files of a restored backup; ids are random, so they never clash with local ones
+   */
+  static async importFiles(files: Record<string, string>): Promise<void> {
+    await Promise.all(Object.entries(files).map(([id, content]) => StorageService.saveToStorage(this.KEY_PREFIX + id, content)));
+  }
+
+  /**
+   * Copy the given attachments into another backend, before switching to it
+   */
+  static copyToBackend(ids: Set<string>, backend: StorageBackend): Promise<void> {
+    return StorageService.copyToBackend([...ids].map(id => this.KEY_PREFIX + id), backend);
+  }
+
+  /**
+   * Remove stored files that are not in the given set. Removed attachments stay stored while an
+   * undoable change still refers to them, so they are only dropped here.
+   */
+  static async prune(keep: Set<string>): Promise<void> {
+    try {
+      const keys = await StorageService.listKeys(this.KEY_PREFIX);
+      await Promise.all(keys
+        .filter(key => !keep.has(key.slice(this.KEY_PREFIX.length)))
+        .map(key => StorageService.removeFromStorage(key)));
+    } catch (error) {
+      console.error('Error pruning attachments:', error);
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import type { StorageSnapshot, IBackupFile, BackupErrorCode } from '../types';
+import { MigrationService } from './MigrationService';
+import { StorageService } from './StorageService';
+
+// Backup Error - A file that cannot be restored as a backup
+export class BackupError extends Error {
+  constructor(readonly code: BackupErrorCode) {
+    super(`Cannot restore backup: ${code}`);
+    this.name = 'BackupError';
+  }
+}
+
+// Backup Service - Versioned backup files, to move all data between browsers or machines
+export class BackupService {
+  static readonly FORMAT = 'my-finances-backup';
+  static readonly CURRENT_VERSION = 1;
+
+  /**
+   * Build a backup file from storage payloads and attached files
+   */
+  static create(data: StorageSnapshot, attachments: Record<string, string>): IBackupFile {
+    return { format: this.FORMAT, version: this.CURRENT_VERSION, createdAt: new Date().toISOString(), data, attachments };
+  }
+
+  /**
+   * Read a backup file, keeping only known storage keys. Payloads from older schema versions are
+   * upgraded when restored; a backup from a newer version of the app is rejected.
+   */
+  static parse(text: string): IBackupFile {
+    let json: any;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      throw new BackupError('invalidFile');
+    }
+    if (!json || json.format !== this.FORMAT || !json.data || typeof json.data !== 'object') {
+      throw new BackupError('invalidFile');
+    }
+
+    const data = StorageService.pickSnapshot(json.data);
+    const newer = Object.values(data).some(payload =>
+      typeof (payload as any)?.version === 'number' && (payload as any).version > MigrationService.CURRENT_VERSION
+    );
+    if (typeof json.version !== 'number' || json.version > this.CURRENT_VERSION || newer) {
+      throw new BackupError('unsupportedVersion');
+    }
+
+    const attachments: Record<string, unknown> = json.attachments && typeof json.attachments === 'object' ? json.attachments : {};
+    return {
+      format: json.format,
+      version: json.version,
+      createdAt: String(json.createdAt ?? ''),
+      data,
+      attachments: Object.fromEntries(Object.entries(attachments).flatMap(([id, content]) =>
+        typeof content === 'string' ? [[id, content]] : []
+      )),
+    };
+  }
+
+  /**
+   * File name of a backup taken on a date, e.g. financas-backup-2026-10-19.json
+   */
+  static getFileName(date: Date = new Date()): string {
+    return `financas-backup-${date.toISOString().split('T')[0]}.json`;
+  }
+}
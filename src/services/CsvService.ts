@@ -0,0 +1,69 @@
+// Csv Service - Parses and writes delimited text (RFC 4180 quoting)
+export class CsvService {
+  private static readonly DELIMITERS = [',', ';', '\t'];
+
+  /**
+   * Guess the delimiter from the first line, ignoring quoted text
+   */
+  static detectDelimiter(text: string): string {
+    const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+    return this.DELIMITERS.reduce((best, d) =>
+      firstLine.split(d).length > firstLine.split(best).length ? d : best
+    );
+  }
+
+  /**
+   * Parse CSV text into rows of cells, skipping blank lines
+   */
+  static parse(text: string, delimiter = this.detectDelimiter(text)): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+    const input = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+
+      if (inQuotes) {
+        if (char === '"' && input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && input[i + 1] === '\n') i++;
+        row.push(cell);
+        rows.push(row);
+        row = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+
+    row.push(cell);
+    rows.push(row);
+    return rows.filter(r => r.some(c => c.trim() !== ''));
+  }
+
+  /**
+   * Serialize rows into CSV text, quoting cells when needed
+   */
+  static stringify(rows: (string | number)[][], delimiter = ','): string {
+    return rows
+      .map(r => r.map(value => {
+        const text = String(value);
+        return /[",\r\n;\t]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      }).join(delimiter))
+      .join('\r\n');
+  }
+}
@@ -0,0 +1,75 @@
+import { isClient } from '../utils';
+import type { IHistoryEntry, IHistoryState } from '../types';
+import { HISTORY_LIMIT, EMPTY_HISTORY } from '../constants';
+
+// History Service - Keeps the undo and redo stacks in sessionStorage, so they survive a reload
+// of the tab but not the end of the session
+export class HistoryService {
+  private static readonly STORAGE_KEY = 'history';
+
+  /**
+   * Load the stacks saved for this tab (client-side only)
+   */
+  static load(): IHistoryState {
+    if (!isClient) return EMPTY_HISTORY;
+
+    try {
+      const saved = sessionStorage.getItem(this.STORAGE_KEY);
+      return saved ? { ...EMPTY_HISTORY, ...JSON.parse(saved) } : EMPTY_HISTORY;
+    } catch (error) {
+      console.error('Error loading history:', error);
+      return EMPTY_HISTORY;
+    }
+  }
+
+  /**
+   * Save the stacks (client-side only). When they exceed the storage quota, the oldest entries are
+   * dropped until they fit; the full history stays available until the tab reloads.
+   */
+  static save(history: IHistoryState): void {
+    if (!isClient) return;
+
+    let { undo, redo } = history;
+    while (true) {
+      try {
+        sessionStorage.setItem(this.STORAGE_KEY, JSON.stringify({ undo, redo }));
+        return;
+      } catch (error) {
+        if (undo.length === 0 && redo.length === 0) {
+          console.error('Error saving history:', error);
+          return;
+        }
+        if (undo.length >= redo.length) {
+          undo = undo.slice(1);
+        } else {
+          redo = redo.slice(1);
+        }
+      }
+    }
+  }
+
+  /**
+   * Record a new change; it can be undone, and anything undone before it can no longer be redone
+   */
+  static push(history: IHistoryState, entry: IHistoryEntry): IHistoryState {
+    return { undo: [...history.undo, entry].slice(-HISTORY_LIMIT), redo: [] };
+  }
+
+  /**
+   * Take the latest change off the undo stack and make it redoable
+   */
+  static undo(history: IHistoryState): { entry: IHistoryEntry; history: IHistoryState } | null {
+    const entry = history.undo[history.undo.length - 1];
+    if (!entry) return null;
+    return { entry, history: { undo: history.undo.slice(0, -1), redo: [...history.redo, entry] } };
+  }
+
+  /**
+   * Take the latest undone change off the redo stack and make it undoable again
+   */
+  static redo(history: IHistoryState): { entry: IHistoryEntry; history: IHistoryState } | null {
+    const entry = history.redo[history.redo.length - 1];
+    if (!entry) return null;
+    return { entry, history: { undo: [...history.undo, entry], redo: history.redo.slice(0, -1) } };
+  }
+}
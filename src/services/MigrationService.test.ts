@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { MigrationService } from './MigrationService';
+import { FinancialController } from '../controller/FinancialController';
+import storageV0 from './__fixtures__/storage-v0.json';
+import storageV1 from './__fixtures__/storage-v1.json';
+import storageV2 from './__fixtures__/storage-v2.json';
+
+// What every fixture holds once upgraded to the current schema version
+const CURRENT_TRANSACTIONS = [
+  {
+    id: 1, type: 'income', amount: 5000, category: 'Salário', description: 'Salário mensal',
+    date: '2024-03-01T00:00:00.000Z', currency: 'BRL', accountId: 1,
+  },
+  {
+    id: 2, type: 'expense', amount: 1200, category: 'Moradia', description: 'Aluguel',
+    date: '2024-03-05T00:00:00.000Z', currency: 'BRL', accountId: 1,
+  },
+];
+
+const CURRENT_RECURRENCES = [
+  {
+    id: 1,
+    frequency: 'monthly',
+    template: { type: 'expense', amount: 1200, category: 'Moradia', description: 'Aluguel', currency: 'BRL', accountId: 1 },
+    startDate: '2024-03-05T00:00:00.000Z',
+    endDate: null,
+    skippedDates: [],
+  },
+];
+
+describe('MigrationService', () => {
+  it.each([
+    ['v0', storageV0],
+    ['v1', storageV1],
+    ['v2', storageV2],
+  ])('upgrades %s transactions to the current version', (_, storage) => {
+    expect(MigrationService.migrate('transactions', storage.transactions)).toEqual(CURRENT_TRANSACTIONS);
+  });
+
+  it.each([
+    ['v0', storageV0],
+    ['v1', storageV1],
+    ['v2', storageV2],
+  ])('upgrades %s recurrences to the current version', (_, storage) => {
+    expect(MigrationService.migrate('recurrences', storage.recurrences)).toEqual(CURRENT_RECURRENCES);
+  });
+
+  it.each([
+    ['v0', storageV0],
+    ['v1', storageV1],
+    ['v2', storageV2],
+  ])('loads %s transactions as models', (_, storage) => {
+    const { transactions, quarantined } = FinancialController.partitionTransactions(storage.transactions);
+    expect(quarantined).toEqual([]);
+    expect(transactions.map(t => t.toJSON())).toEqual(
+      CURRENT_TRANSACTIONS.map(t => expect.objectContaining(t))
+    );
+  });
+
+  it('keeps fields an older version already had', () => {
+    const payload = { version: 1, data: [{ ...CURRENT_TRANSACTIONS[0], currency: 'USD', accountId: 2 }] };
+    expect(MigrationService.migrate('transactions', payload)).toEqual([
+      { ...CURRENT_TRANSACTIONS[0], currency: 'USD', accountId: 2 },
+    ]);
+  });
+
+  it('leaves current payloads unchanged', () => {
+    const payload = MigrationService.wrap(CURRENT_TRANSACTIONS);
+    expect(payload.version).toBe(MigrationService.CURRENT_VERSION);
+    expect(MigrationService.migrate('transactions', payload)).toEqual(CURRENT_TRANSACTIONS);
+  });
+
+  it('passes keys without migrations through', () => {
+    expect(MigrationService.migrate('budgets', [{ category: 'Lazer', limit: 300 }])).toEqual([
+      { category: 'Lazer', limit: 300 },
+    ]);
+  });
+
+  it('rejects versions newer than the current one', () => {
+    const version = MigrationService.CURRENT_VERSION + 1;
+    expect(() => MigrationService.migrate('transactions', { version, data: [] }))
+      .toThrow(`Unsupported storage schema version for transactions: ${version}`);
+  });
+
+  it('rejects payloads that are neither arrays nor objects', () => {
+    for (const payload of [null, undefined, 'transactions', 3]) {
+      expect(() => MigrationService.migrate('transactions', payload))
+        .toThrow(`Unsupported storage schema version for transactions: ${payload}`);
+    }
+  });
+});
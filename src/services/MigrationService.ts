@@ -0,0 +1,56 @@
+import type { IStoragePayload } from '../types';
+import { DEFAULT_CURRENCY, DEFAULT_ACCOUNT_ID } from '../constants';
+
+// Migration Service - Upgrades stored payloads to the current schema version
+export class MigrationService {
+  static readonly CURRENT_VERSION = 3;
+
+  // Per storage key, each entry upgrades the data of a payload from version N to N + 1.
+  // A missing step means that key's data did not change in that version.
+  private static readonly MIGRATIONS: Record<string, Record<number, (data: any) => any>> = {
+    transactions: {
+      // v0: bare toJSON() array saved before payloads carried a version marker
+      0: (data: any[]) => data,
+      // v1: transactions had no currency; everything was BRL
+      1: (data: any[]) => data.map(t => ({ ...t, currency: t.currency ?? DEFAULT_CURRENCY })),
+      // v2: there was a single pool of money, which becomes the default account
+      2: (data: any[]) => data.map(t => ({ ...t, accountId: t.accountId ?? DEFAULT_ACCOUNT_ID })),
+    },
+    recurrences: {
+      // v1: templates had no currency; everything was BRL
+      1: (data: any[]) => data.map(r => ({ ...r, template: { currency: DEFAULT_CURRENCY, ...r.template } })),
+      // v2: templates had no account; everything went to the default account
+      2: (data: any[]) => data.map(r => ({ ...r, template: { accountId: DEFAULT_ACCOUNT_ID, ...r.template } })),
+    },
+  };
+
+  /**
+   * Wrap data in a payload tagged with the current schema version
+   */
+  static wrap<T>(data: T): IStoragePayload<T> {
+    return { version: this.CURRENT_VERSION, data };
+  }
+
+  /**
+   * Run every migration for the key between the payload version and the current one
+   */
+  static migrate<T>(key: string, payload: unknown): T {
+    if (payload === null || typeof payload !== 'object') {
+      throw new Error(`Unsupported storage schema version for ${key}: ${payload}`);
+    }
+
+    let { version, data } = Array.isArray(payload)
+      ? { version: 0, data: payload as unknown }
+      : payload as IStoragePayload<unknown>;
+
+    if (typeof version !== 'number' || version > this.CURRENT_VERSION) {
+      throw new Error(`Unsupported storage schema version for ${key}: ${version}`);
+    }
+
+    for (; version < this.CURRENT_VERSION; version++) {
+      const step = this.MIGRATIONS[key]?.[version];
+      if (step) data = step(data);
+    }
+    return data as T;
+  }
+}
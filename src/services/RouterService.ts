@@ -0,0 +1,139 @@
+import { isClient } from '../utils';
+import type { PeriodPreset, AppRoute, ILocationState } from '../types';
+import { DEFAULT_PERIOD } from '../constants';
+
+// Router Service - Maps URLs to routes and filters, so every view can be bookmarked and rendered by SSR.
+// Routes are matched on paths relative to the app's base URL, which the server strips too; the paths and
+// URLs built for links and the address bar carry the base.
+export class RouterService {
+  private static readonly BASE = import.meta.env.BASE_URL;
+
+  private static readonly PERIODS: PeriodPreset[] = [
+    'all', 'day', 'week', 'month', 'lastMonth', 'last30Days', 'quarter', 'year', 'fiscalYear', 'custom',
+  ];
+
+  /**
+   * Match a path such as "/transactions/3/edit", "/reports/2026/10" or "/reports/2026/10/print";
+   * the leading slash is optional
+   */
+  static matchRoute(pathname: string): AppRoute {
+    let segments: string[];
+    try {
+      segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    } catch {
+      // A malformed escape such as "%E0" names no route
+      return { name: 'notFound' };
+    }
+
+    if (segments.length === 0) return { name: 'dashboard' };
+    if (segments.length === 1 && segments[0] === 'login') return { name: 'login' };
+    if (segments[0] === 'transactions') {
+      if (segments.length === 1) return { name: 'transactions' };
+      if (segments.length === 3 && segments[2] === 'edit' && /^[1-9]\d*$/.test(segments[1])) {
+        return { name: 'editTransaction', id: Number(segments[1]) };
+      }
+    }
+    if (segments[0] === 'reports' && /^\d{4}$/.test(segments[1] ?? '')) {
+      const year = Number(segments[1]);
+      if (segments.length === 3 && segments[2] === 'print') return { name: 'statement', year, month: null };
+
+      const month = /^\d{1,2}$/.test(segments[2] ?? '') ? Number(segments[2]) : 0;
+      if (month >= 1 && month <= 12) {
+        if (segments.length === 3) return { name: 'report', year, month };
+        if (segments.length === 4 && segments[3] === 'print') return { name: 'statement', year, month };
+      }
+    }
+    return { name: 'notFound' };
+  }
+
+  /**
+   * Parse a URL (path and query string, relative to the base URL) into a route and filters
+   */
+  static parse(url: string): ILocationState {
+    const { pathname, searchParams } = new URL(url, 'http://localhost/');
+    const period = searchParams.get('period');
+
+    return {
+      route: this.matchRoute(pathname),
+      searchTerm: searchParams.get('search') ?? '',
+      periodFilter: this.PERIODS.includes(period as PeriodPreset) ? period as PeriodPreset : DEFAULT_PERIOD,
+      customRange: { from: searchParams.get('from') ?? '', to: searchParams.get('to') ?? '' },
+    };
+  }
+
+  /**
+   * Path of a route under the base URL
+   */
+  static getPath(route: AppRoute): string {
+    return this.BASE + this.getRelativePath(route);
+  }
+
+  private static getRelativePath(route: AppRoute): string {
+    switch (route.name) {
+      case 'dashboard':
+      case 'notFound':
+        return '';
+      case 'transactions':
+        return 'transactions';
+      case 'editTransaction':
+        return `transactions/${route.id}/edit`;
+      case 'report':
+        return `reports/${route.year}/${String(route.month).padStart(2, '0')}`;
+      case 'statement':
+        return route.month === null
+          ? `reports/${route.year}/print`
+          : `reports/${route.year}/${String(route.month).padStart(2, '0')}/print`;
+      case 'login':
+        return 'login';
+    }
+  }
+
+  /**
+   * Build the URL of a location under the base URL; filters at their defaults are left out of the query string
+   */
+  static format(state: ILocationState): string {
+    const params = new URLSearchParams();
+    // The printable statement lists the whole period, so no filter applies there
+    if (state.route.name === 'statement') return this.getPath(state.route);
+    if (state.searchTerm) params.set('search', state.searchTerm);
+    // A report always covers its month, so the period filter does not apply there
+    if (state.route.name !== 'report' && state.periodFilter !== DEFAULT_PERIOD) {
+      params.set('period', state.periodFilter);
+      if (state.periodFilter === 'custom') {
+        if (state.customRange.from) params.set('from', state.customRange.from);
+        if (state.customRange.to) params.set('to', state.customRange.to);
+      }
+    }
+    const query = params.toString();
+    return query ? `${this.getPath(state.route)}?${query}` : this.getPath(state.route);
+  }
+
+  /**
+   * Report route of the month a date falls in
+   */
+  static getReportRoute(date: Date = new Date()): AppRoute {
+    return { name: 'report', year: date.getFullYear(), month: date.getMonth() + 1 };
+  }
+
+  /**
+   * Update the address bar (client-side only); filter changes replace the entry instead of adding one
+   */
+  static updateHistory(url: string, replace: boolean): void {
+    if (!isClient || url === window.location.pathname + window.location.search) return;
+    if (replace) {
+      window.history.replaceState(null, '', url);
+    } else {
+      window.history.pushState(null, '', url);
+    }
+  }
+
+  /**
+   * Current URL of the page relative to the base URL, as parse expects it (client-side only)
+   */
+  static getCurrentUrl(): string {
+    if (!isClient) return '/';
+    const { pathname, search } = window.location;
+    const path = pathname.startsWith(this.BASE) ? `/${pathname.slice(this.BASE.length)}` : pathname;
+    return path + search;
+  }
+}
@@ -0,0 +1,50 @@
+// Statement Service - Splits OFX and QIF bank statements into raw field records
+export class StatementService {
+  /**
+   * Extract one tag/value record per <STMTTRN> block; handles both SGML (OFX 1.x) and XML (OFX 2.x)
+   */
+  static parseOfx(text: string): Record<string, string>[] {
+    const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>|$)/gi) ?? [];
+
+    return blocks.map(block => {
+      const record: Record<string, string> = {};
+      for (const [, tag, value] of block.matchAll(/<(\w+)>([^<\r\n]*)/g)) {
+        if (tag.toUpperCase() === 'STMTTRN') continue;
+        record[tag.toUpperCase()] = this.decodeEntities(value.trim());
+      }
+      return record;
+    });
+  }
+
+  /**
+   * Extract one code/value record per "^"-terminated QIF entry; split lines are ignored
+   */
+  static parseQif(text: string): Record<string, string>[] {
+    const records: Record<string, string>[] = [];
+    let record: Record<string, string> = {};
+
+    for (const line of text.split(/\r?\n/)) {
+      if (line.startsWith('!') || line.trim() === '') continue;
+      if (line.startsWith('^')) {
+        if (Object.keys(record).length > 0) records.push(record);
+        record = {};
+        continue;
+      }
+
+      const code = line[0].toUpperCase();
+      if (!(code in record)) record[code] = line.slice(1).trim();
+    }
+
+    if (Object.keys(record).length > 0) records.push(record);
+    return records;
+  }
+
+  private static decodeEntities(value: string): string {
+    return value
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
+}
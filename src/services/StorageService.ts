@@ -0,0 +1,322 @@
+import { isClient } from '../utils';
+import type { StorageBackend, IStorageAdapter, StorageSnapshot } from '../types';
+import { ApiError, ApiService } from './ApiService';
+
+// Storage Adapters - Interchangeable persistence backends behind StorageService
+class WebStorageAdapter implements IStorageAdapter {
+  constructor(private readonly getStorage: () => Storage) {}
+
+  async getItem<T>(key: string): Promise<T | null> {
+    const saved = this.getStorage().getItem(key);
+    return saved ? JSON.parse(saved) : null;
+  }
+
+  async setItem(key: string, value: unknown): Promise<void> {
+    this.getStorage().setItem(key, JSON.stringify(value));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.getStorage().removeItem(key);
+  }
+
+  async keys(): Promise<string[]> {
+    const storage = this.getStorage();
+    return Array.from({ length: storage.length }, (_, i) => storage.key(i)!);
+  }
+}
+
+class IndexedDBAdapter implements IStorageAdapter {
+  private static readonly DB_NAME = 'my-finances';
+  private static readonly STORE_NAME = 'keyval';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Open the database once and reuse the connection
+   */
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(IndexedDBAdapter.DB_NAME, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(IndexedDBAdapter.STORE_NAME);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Run a single request against the key-value object store
+   */
+  private async run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const request = action(db.transaction(IndexedDBAdapter.STORE_NAME, mode).objectStore(IndexedDBAdapter.STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getItem<T>(key: string): Promise<T | null> {
+    const value = await this.run<T | undefined>('readonly', store => store.get(key));
+    return value ?? null;
+  }
+
+  async setItem(key: string, value: unknown): Promise<void> {
+    await this.run('readwrite', store => store.put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(key));
+  }
+
+  async keys(): Promise<string[]> {
+    return (await this.run('readonly', store => store.getAllKeys())).map(String);
+  }
+}
+
+class ServerStorageAdapter implements IStorageAdapter {
+  getItem<T>(key: string): Promise<T | null> {
+    return ApiService.getStorageItem<T>(key);
+  }
+
+  setItem(key: string, value: unknown): Promise<void> {
+    return ApiService.setStorageItem(key, value);
+  }
+
+  removeItem(key: string): Promise<void> {
+    return ApiService.removeStorageItem(key);
+  }
+
+  keys(): Promise<string[]> {
+    return ApiService.getStorageKeys();
+  }
+}
+
+// Storage Service - Handles all persistence through the selected adapter with SSR support
+export class StorageService {
+  private static readonly STORAGE_KEYS = Object.freeze({
+    DARK_MODE: 'darkMode',
+    TRANSACTIONS: 'transactions',
+    RECURRENCES: 'recurrences',
+    BUDGETS: 'budgets',
+    CATEGORIES: 'categories',
+    ACCOUNTS: 'accounts',
+    BASE_CURRENCY: 'baseCurrency',
+    EXCHANGE_RATES: 'exchangeRates',
+    PERIOD_SETTINGS: 'periodSettings',
+    QUARANTINE: 'quarantinedTransactions',
+    CATEGORIZATION_RULES: 'categorizationRules',
+    SAVINGS_GOALS: 'savingsGoals',
+  });
+
+  // The backend choice itself always lives in localStorage so it survives reloads; a cookie copy
+  // tells the server whether its store holds this browser's data
+  private static readonly BACKEND_KEY = 'storageBackend';
+  private static readonly COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+  private static readonly DEFAULT_BACKEND: StorageBackend = 'server';
+
+  private static readonly ADAPTER_FACTORIES: Record<StorageBackend, () => IStorageAdapter> = {
+    server: () => new ServerStorageAdapter(),
+    session: () => new WebStorageAdapter(() => sessionStorage),
+    local: () => new WebStorageAdapter(() => localStorage),
+    indexedDB: () => new IndexedDBAdapter(),
+  };
+
+  private static readonly adapters = new Map<StorageBackend, IStorageAdapter>();
+
+  // Set for a viewer of a shared ledger, whose writes the server would refuse
+  private static readOnly = false;
+
+  // JSON of each app data key as last loaded from or saved to the current backend, so saving data
+  // that did not change (as the sync effects do right after hydration) writes nothing
+  private static readonly synced = new Map<string, string>();
+
+  /**
+   * Get the persistence backend chosen by the user
+   */
+  static getBackend(): StorageBackend {
+    if (!isClient) return this.DEFAULT_BACKEND;
+
+    const saved = localStorage.getItem(this.BACKEND_KEY);
+    return saved && saved in this.ADAPTER_FACTORIES ? saved as StorageBackend : this.DEFAULT_BACKEND;
+  }
+
+  /**
+   * Switch the persistence backend (client-side only)
+   */
+  static setBackend(backend: StorageBackend): void {
+    if (!isClient) return;
+    this.synced.clear();
+    localStorage.setItem(this.BACKEND_KEY, backend);
+    document.cookie = `${this.BACKEND_KEY}=${backend}; path=${import.meta.env.BASE_URL}; max-age=${this.COOKIE_MAX_AGE}; SameSite=Lax`;
+  }
+
+  /**
+   * Skip writes to the server backend while a shared ledger is open read-only
+   */
+  static setReadOnly(readOnly: boolean): void {
+    this.readOnly = readOnly;
+  }
+
+  private static isReadOnly(): boolean {
+    return this.readOnly && this.getBackend() === 'server';
+  }
+
+  /**
+   * Get the backend of a request from its cookie header; without the cookie it is the default one
+   */
+  static getRequestBackend(cookieHeader?: string): StorageBackend {
+    const match = (cookieHeader ?? '').match(new RegExp(`(?:^|;\\s*)${this.BACKEND_KEY}=([^;]*)`));
+    const saved = match?.[1];
+    return saved && saved in this.ADAPTER_FACTORIES ? saved as StorageBackend : this.DEFAULT_BACKEND;
+  }
+
+  /**
+   * Pick the storage keys the dashboard reads out of a server store document
+   */
+  static pickSnapshot(store: Record<string, unknown>): StorageSnapshot {
+    return Object.fromEntries(Object.values(this.STORAGE_KEYS).filter(key => key in store).map(key => [key, store[key]]));
+  }
+
+  // Only the dashboard's own keys are remembered; attachments are large and never saved twice
+  private static isAppDataKey(key: string): boolean {
+    return (Object.values(this.STORAGE_KEYS) as string[]).includes(key);
+  }
+
+  /**
+   * Get the adapter for a backend (the current one by default), creating it on first use
+   */
+  private static getAdapter(backend: StorageBackend = this.getBackend()): IStorageAdapter {
+    let adapter = this.adapters.get(backend);
+    if (!adapter) {
+      adapter = this.ADAPTER_FACTORIES[backend]();
+      this.adapters.set(backend, adapter);
+    }
+    return adapter;
+  }
+
+  /**
+   * Whether an error is the server refusing a save because another tab or editor changed the key first
+   */
+  static isConflict(error: unknown): boolean {
+    return error instanceof ApiError && error.status === 412;
+  }
+
+  /**
+   * Record the snapshot the server rendered the page with as what the server backend holds, with
+   * the version of each key, so hydrating from it saves nothing and later saves are checked against it
+   */
+  static restoreSnapshot(snapshot: StorageSnapshot, versions: Record<string, string>): void {
+    const keys = Object.values(this.STORAGE_KEYS);
+    for (const key of keys) {
+      if (key in snapshot) this.synced.set(key, JSON.stringify(snapshot[key]));
+    }
+    ApiService.setStorageVersions(keys, versions);
+  }
+
+  /**
+   * Save data to the current backend, unless it already holds this value (client-side only).
+   * A conflict is rethrown so the caller can reload the data saved by someone else.
+   */
+  static async saveToStorage(key: string, value: unknown): Promise<void> {
+    if (!isClient || this.isReadOnly()) return;
+
+    const json = this.isAppDataKey(key) ? JSON.stringify(value) : undefined;
+    if (json !== undefined && this.synced.get(key) === json) return;
+
+    try {
+      if (json !== undefined) this.synced.set(key, json);
+      await this.getAdapter().setItem(key, value);
+    } catch (error) {
+      this.synced.delete(key);
+      if (this.isConflict(error)) throw error;
+      console.error(`Error saving ${key} to storage:`, error);
+    }
+  }
+
+  /**
+   * Save data to the current backend, rethrowing write errors (e.g. a full quota) for callers
+   * that must know the data was stored (client-side only)
+   */
+  static async writeToStorage(key: string, value: unknown): Promise<void> {
+    if (!isClient) return;
+    if (this.isReadOnly()) throw new Error(`Cannot save ${key}: the ledger is read-only`);
+    await this.getAdapter().setItem(key, value);
+  }
+
+  /**
+   * Load data from the current backend with default fallback (client-side only).
+   * Read errors are rethrown so an unreachable backend is never mistaken for empty storage.
+   */
+  static async loadFromStorage<T>(key: string, defaultValue: T): Promise<T> {
+    if (!isClient) return defaultValue;
+
+    try {
+      const value = await this.getAdapter().getItem<T>(key);
+      if (value !== null && this.isAppDataKey(key)) this.synced.set(key, JSON.stringify(value));
+      return value ?? defaultValue;
+    } catch (error) {
+      console.error(`Error loading ${key} from storage:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove one key from the current backend (client-side only)
+   */
+  static async removeFromStorage(key: string): Promise<void> {
+    if (!isClient || this.isReadOnly()) return;
+
+    try {
+      await this.getAdapter().removeItem(key);
+    } catch (error) {
+      console.error(`Error removing ${key} from storage:`, error);
+    }
+  }
+
+  /**
+   * List the keys in the current backend that start with a prefix (client-side only)
+   */
+  static async listKeys(prefix: string): Promise<string[]> {
+    if (!isClient) return [];
+    return (await this.getAdapter().keys()).filter(key => key.startsWith(prefix));
+  }
+
+  /**
+   * Copy keys from the current backend into another one, skipping keys that are not stored
+   * (client-side only)
+   */
+  static async copyToBackend(keys: string[], backend: StorageBackend): Promise<void> {
+    if (!isClient || backend === this.getBackend()) return;
+
+    const source = this.getAdapter();
+    const target = this.getAdapter(backend);
+    await Promise.all(keys.map(async key => {
+      const value = await source.getItem(key);
+      if (value !== null) await target.setItem(key, value);
+    }));
+  }
+
+  /**
+   * Clear all app data from the current backend (client-side only)
+   */
+  static async clearStorage(): Promise<void> {
+    if (!isClient) return;
+
+    try {
+      const adapter = this.getAdapter();
+      this.synced.clear();
+      await Promise.all(Object.values(this.STORAGE_KEYS).map(key => adapter.removeItem(key)));
+    } catch (error) {
+      console.error('Error clearing storage:', error);
+    }
+  }
+
+  /**
+   * Get storage keys
+   */
+  static getKeys() {
+    return this.STORAGE_KEYS;
+  }
+}
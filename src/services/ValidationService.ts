@@ -0,0 +1,220 @@
+import type {
+  FormField, ValidationErrorCode, ValidationErrors, TransactionInput, IFormData, ICategory,
+} from '../types';
+import {
+  DEFAULT_ACCOUNT_ID, DESCRIPTION_MAX_LENGTH, NOTES_MAX_LENGTH, TAG_MAX_LENGTH, TAG_PATTERN, ATTACHMENT_MAX_SIZE,
+  ATTACHMENT_TYPES,
+} from '../constants';
+
+// Validation Error - Carries the invalid fields of a transaction
+export class ValidationError extends Error {
+  constructor(readonly errors: ValidationErrors) {
+    super(`Invalid transaction: ${Object.entries(errors).map(([field, code]) => `${field} (${code})`).join(', ')}`);
+    this.name = 'ValidationError';
+  }
+}
+
+// Validation Service - The one transaction schema, shared by the form, stored records and the API
+export class ValidationService {
+  /**
+   * Check a transaction. Optional fields (currency, accounts) may be missing from older records;
+   * with a category list, the category must exist for the transaction's type.
+   */
+  static validateTransaction(
+    input: TransactionInput,
+    categories?: Pick<ICategory, 'name' | 'type'>[]
+  ): ValidationErrors {
+    const errors: ValidationErrors = {};
+    const type = input.type;
+    if (type !== 'income' && type !== 'expense' && type !== 'transfer') {
+      errors.type = 'invalidType';
+    }
+
+    const amountError = this.checkAmount(input.amount);
+    if (amountError) errors.amount = amountError;
+
+    if (type !== 'transfer') {
+      if (typeof input.category !== 'string' || !input.category.trim()) {
+        errors.category = 'required';
+      } else if (categories && !categories.some(c => c.type === type && c.name === input.category)) {
+        errors.category = 'unknownCategory';
+      }
+    }
+
+    if (typeof input.description !== 'string') {
+      errors.description = 'required';
+    } else if (input.description.length > DESCRIPTION_MAX_LENGTH) {
+      errors.description = 'tooLong';
+    }
+
+    if (input.date === undefined || input.date === '') {
+      errors.date = 'required';
+    } else if (!this.isRealDate(input.date)) {
+      errors.date = 'invalidDate';
+    }
+
+    if (input.currency !== undefined && !(typeof input.currency === 'string' && /^[A-Z]{3}$/.test(input.currency))) {
+      errors.currency = 'invalidCurrency';
+    }
+
+    const accountId = input.accountId === undefined ? DEFAULT_ACCOUNT_ID : this.toAccountId(input.accountId);
+    if (accountId === null) errors.accountId = 'invalidAccount';
+
+    if (type === 'transfer') {
+      const toAccountId = input.toAccountId === undefined || input.toAccountId === '' ? undefined : this.toAccountId(input.toAccountId);
+      if (toAccountId === undefined) {
+        errors.toAccountId = 'required';
+      } else if (toAccountId === null) {
+        errors.toAccountId = 'invalidAccount';
+      } else if (toAccountId === accountId) {
+        errors.toAccountId = 'sameAccount';
+      }
+    }
+
+    if (input.splits !== undefined) {
+      const splitError = this.checkSplits(input.splits, type, input.amount, categories);
+      if (splitError) errors.splits = splitError;
+    }
+
+    if (input.tags !== undefined && !(Array.isArray(input.tags) && input.tags.every(tag => this.isValidTag(tag)))) {
+      errors.tags = 'invalidTag';
+    }
+
+    if (input.notes !== undefined && typeof input.notes !== 'string') {
+      errors.notes = 'required';
+    } else if (typeof input.notes === 'string' && input.notes.length > NOTES_MAX_LENGTH) {
+      errors.notes = 'tooLong';
+    }
+
+    if (input.attachments !== undefined) {
+      const attachmentError = this.checkAttachments(input.attachments);
+      if (attachmentError) errors.attachments = attachmentError;
+    }
+
+    return errors;
+  }
+
+  /**
+   * Check the transaction form: the transaction schema against the current categories, plus a
+   * description and the end of a recurrence
+   */
+  static validateForm(formData: IFormData, categories: Pick<ICategory, 'name' | 'type'>[]): ValidationErrors<FormField> {
+    const split = formData.splits.length > 0;
+    const errors: ValidationErrors<FormField> = this.validateTransaction({
+      ...formData,
+      toAccountId: formData.type === 'transfer' ? formData.toAccountId : undefined,
+      splits: split ? formData.splits : undefined,
+      tags: this.parseTags(formData.tags),
+    }, categories);
+
+    // A split form has no category of its own: its lines carry them and are checked instead
+    if (split) delete errors.category;
+
+    if (!errors.description && !formData.description.trim()) errors.description = 'required';
+
+    if (formData.recurrence !== 'none') {
+      if (formData.recurrenceEnd === 'date') {
+        if (!this.isRealDate(formData.recurrenceEndDate)) {
+          errors.recurrenceEndDate = formData.recurrenceEndDate ? 'invalidDate' : 'required';
+        } else if (formData.recurrenceEndDate < formData.date) {
+          errors.recurrenceEndDate = 'beforeStart';
+        }
+      }
+      if (formData.recurrenceEnd === 'count' && !/^[1-9]\d*$/.test(formData.recurrenceCount)) {
+        errors.recurrenceCount = 'invalidCount';
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Whether a validation result has no errors
+   */
+  static isValid(errors: ValidationErrors<string>): boolean {
+    return Object.keys(errors).length === 0;
+  }
+
+  // A positive, finite amount with at most two decimals; form strings must be plain numbers
+  private static checkAmount(value: unknown): ValidationErrorCode | null {
+    if (value === undefined || value === null || value === '') return 'required';
+    const amount = typeof value === 'string' && /^\s*-?\d+(\.\d+)?\s*$/.test(value) ? Number(value) : value;
+    if (typeof amount !== 'number' || !Number.isFinite(amount)) return 'invalidAmount';
+    if (amount <= 0) return 'notPositive';
+    // Compared in cents with a tolerance, since binary floats cannot hold most decimals exactly
+    if (Math.abs(amount * 100 - Math.round(amount * 100)) > 1e-6) return 'tooManyDecimals';
+    return null;
+  }
+
+  // At least two lines, each with a category of the transaction's type and a valid amount, adding up
+  // to the transaction amount (compared in cents)
+  private static checkSplits(
+    value: unknown,
+    type: unknown,
+    amount: unknown,
+    categories?: Pick<ICategory, 'name' | 'type'>[]
+  ): ValidationErrorCode | null {
+    if (type === 'transfer' || !Array.isArray(value) || value.length < 2) return 'invalidSplit';
+
+    let cents = 0;
+    for (const line of value) {
+      if (typeof line?.category !== 'string' || !line.category.trim()) return 'invalidSplit';
+      if (categories && !categories.some(c => c.type === type && c.name === line.category)) return 'unknownCategory';
+      if (this.checkAmount(line.amount) !== null) return 'invalidSplit';
+      cents += Math.round(Number(line.amount) * 100);
+    }
+
+    return this.checkAmount(amount) === null && cents !== Math.round(Number(amount) * 100) ? 'splitTotal' : null;
+  }
+
+  /**
+   * Turn typed tags ("#Viagem 2025, reembolsável") into tags: lower-case, without a leading "#",
+   * split on commas and spaces, without repeats
+   */
+  static parseTags(text: string): string[] {
+    const tags = text.split(/[\s,]+/).map(tag => tag.replace(/^#/, '').toLowerCase()).filter(Boolean);
+    return [...new Set(tags)];
+  }
+
+  /**
+   * Whether a file type can be attached as a receipt
+   */
+  static isAcceptedAttachmentType(type: unknown): boolean {
+    return typeof type === 'string' && ATTACHMENT_TYPES.some(accepted => type.startsWith(accepted));
+  }
+
+  private static isValidTag(tag: unknown): boolean {
+    return typeof tag === 'string' && tag.length <= TAG_MAX_LENGTH && TAG_PATTERN.test(tag);
+  }
+
+  // Attachment metadata with an id and a name, of an accepted type and within the size limit
+  private static checkAttachments(value: unknown): ValidationErrorCode | null {
+    if (!Array.isArray(value)) return 'invalidAttachment';
+    for (const attachment of value) {
+      if (typeof attachment?.id !== 'string' || !attachment.id || typeof attachment.name !== 'string') return 'invalidAttachment';
+      if (!this.isAcceptedAttachmentType(attachment.type)) return 'invalidAttachment';
+      if (typeof attachment.size !== 'number' || attachment.size > ATTACHMENT_MAX_SIZE) return 'attachmentTooLarge';
+    }
+    return null;
+  }
+
+  // A Date that is not Invalid Date, or a string that parses to one; YYYY-MM-DD days must exist
+  // in the calendar, so 2025-02-30 is rejected instead of rolling over to March
+  private static isRealDate(value: unknown): boolean {
+    if (value instanceof Date) return !Number.isNaN(value.getTime());
+    if (typeof value !== 'string') return false;
+
+    const day = value.match(/^(\d{4})-(\d{2})-(\d{2})(T|$)/);
+    if (day) {
+      const date = new Date(Date.UTC(Number(day[1]), Number(day[2]) - 1, Number(day[3])));
+      if (date.getUTCMonth() !== Number(day[2]) - 1 || date.getUTCDate() !== Number(day[3])) return false;
+    }
+    return !Number.isNaN(new Date(value).getTime());
+  }
+
+  // Account ids are positive integers, given as numbers or (in the form) numeric strings
+  private static toAccountId(value: unknown): number | null {
+    const id = typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : value;
+    return typeof id === 'number' && Number.isInteger(id) && id > 0 ? id : null;
+  }
+}
@@ -0,0 +1,556 @@
+import type { PT_BR_MESSAGES } from './i18n/pt-BR';
+import type { AccountModel } from './models/AccountModel';
+import type { BudgetModel } from './models/BudgetModel';
+import type { CategorizationRuleModel } from './models/CategorizationRuleModel';
+import type { CategoryModel } from './models/CategoryModel';
+import type { ExchangeRateModel } from './models/ExchangeRateModel';
+import type { RecurrenceModel } from './models/RecurrenceModel';
+import type { SavingsGoalModel } from './models/SavingsGoalModel';
+import type { TransactionModel } from './models/TransactionModel';
+
+// A transfer moves money from accountId to toAccountId and is neither income nor expense
+export type TransactionType = 'income' | 'expense' | 'transfer';
+
+// Transfers have no category
+export type CategoryType = Exclude<TransactionType, 'transfer'>;
+
+// One category line of a split transaction; the lines add up to the transaction amount
+export interface ITransactionSplit {
+  category: string;
+  amount: number;
+}
+
+// A receipt attached to a transaction; the file content is stored apart, under its id
+export interface IAttachment {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+}
+
+export interface ITransaction {
+  id: number;
+  type: TransactionType;
+  amount: number;
+  category: string;
+  description: string;
+  date: Date;
+  currency: string;
+  accountId: number;
+  toAccountId?: number;
+  externalId?: string;
+  recurrenceId?: number;
+  occurrenceDate?: string;
+  splits?: ITransactionSplit[];
+  tags?: string[];
+  notes?: string;
+  attachments?: IAttachment[];
+}
+
+// Optional fields passed to the TransactionModel constructor
+export type TransactionDetails = Partial<Pick<
+  ITransaction,
+  'currency' | 'accountId' | 'toAccountId' | 'externalId' | 'recurrenceId' | 'occurrenceDate' | 'splits' | 'tags' | 'notes' | 'attachments'
+>>;
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'lastBusinessDay' | 'yearly';
+
+export type RecurrenceEnd = 'never' | 'date' | 'count';
+
+// Which occurrences an edit of a recurring transaction applies to
+type RecurrenceEditScope = 'this' | 'future';
+
+export type IRecurrenceTemplate = Pick<
+  ITransaction,
+  'type' | 'amount' | 'category' | 'description' | 'currency' | 'accountId' | 'toAccountId' | 'splits' | 'tags' | 'notes'
+>;
+
+export interface IRecurrenceRule {
+  id: number;
+  frequency: RecurrenceFrequency;
+  template: IRecurrenceTemplate;
+  startDate: Date;
+  endDate: Date | null;
+  count: number | null;
+  dayOfMonth: number;
+  skippedDates: string[];
+}
+
+// Transaction fields the validation schema checks
+type TransactionField =
+  | 'type' | 'amount' | 'category' | 'description' | 'date' | 'currency' | 'accountId' | 'toAccountId' | 'splits'
+  | 'tags' | 'notes' | 'attachments';
+
+// The form also checks how a recurrence ends
+export type FormField = TransactionField | 'recurrenceEndDate' | 'recurrenceCount';
+
+export type ValidationErrorCode =
+  | 'required'
+  | 'invalidType'
+  | 'invalidAmount'
+  | 'notPositive'
+  | 'tooManyDecimals'
+  | 'unknownCategory'
+  | 'invalidDate'
+  | 'tooLong'
+  | 'invalidCurrency'
+  | 'invalidAccount'
+  | 'sameAccount'
+  | 'beforeStart'
+  | 'invalidCount'
+  | 'invalidSplit'
+  | 'splitTotal'
+  | 'invalidTag'
+  | 'invalidAttachment'
+  | 'attachmentTooLarge';
+
+// First problem found in each invalid field; an empty object means valid
+export type ValidationErrors<F extends string = TransactionField> = Partial<Record<F, ValidationErrorCode>>;
+
+// What the schema reads: form fields are strings, stored records and API bodies have numbers and ISO dates
+export type TransactionInput = Partial<Record<TransactionField, unknown>>;
+
+// A split line as typed in the form
+export interface ISplitFormLine {
+  category: string;
+  amount: string;
+}
+
+export interface IFormData {
+  type: TransactionType;
+  amount: string;
+  category: string;
+  splits: ISplitFormLine[]; // empty when the transaction is not split
+  tags: string; // as typed, separated by commas or spaces
+  notes: string;
+  attachments: IAttachment[];
+  description: string;
+  date: string;
+  currency: string;
+  accountId: string;
+  toAccountId: string;
+  recurrence: RecurrenceFrequency | 'none';
+  recurrenceEnd: RecurrenceEnd;
+  recurrenceEndDate: string;
+  recurrenceCount: string;
+  editScope: RecurrenceEditScope;
+}
+
+export interface ISummary {
+  balance: number;
+  highestExpense: ITransaction | null;
+  dominantCategory: { category: string; total: number } | null;
+  totalIncome: number;
+  totalExpense: number;
+}
+
+export type PeriodPreset =
+  | 'all' | 'day' | 'week' | 'month' | 'lastMonth' | 'last30Days' | 'quarter' | 'year' | 'fiscalYear' | 'custom';
+
+export interface IDateRange {
+  start: Date;
+  end: Date;
+}
+
+// One category line of the printable statement; share is of its type's total for the period
+interface IStatementCategory {
+  type: CategoryType;
+  category: string;
+  amount: number;
+  share: number;
+  previousAmount: number;
+}
+
+// Everything the printable statement shows, in the base currency
+export interface IStatement {
+  range: IDateRange;
+  previousRange: IDateRange;
+  summary: ISummary;
+  previousSummary: ISummary;
+  categories: IStatementCategory[];
+  topExpenses: TransactionModel[];
+  transactions: TransactionModel[]; // oldest first
+  unconverted: number; // transactions in the period left out for lack of an exchange rate
+}
+
+export interface IPeriodSettings {
+  weekStart: number; // 0 = Sunday ... 6 = Saturday
+  fiscalYearStartMonth: number; // 0 = January ... 11 = December
+}
+
+// Settings plus the bounds of the custom range (YYYY-MM-DD), only read by the 'custom' preset
+export interface IPeriodOptions extends IPeriodSettings {
+  from?: string;
+  to?: string;
+}
+
+export type TimelineGranularity = 'day' | 'week' | 'month';
+
+// One bucket of the cash-flow timeline; balance is the running total of net up to this bucket
+export interface ICashFlowPoint {
+  period: string; // YYYY-MM-DD of the bucket's first day
+  income: number;
+  expense: number;
+  net: number;
+  balance: number;
+}
+
+export interface ITagData {
+  tag: string;
+  income: number;
+  expense: number;
+  count: number;
+}
+
+export interface ICategoryData {
+  category: string;
+  income: number;
+  expense: number;
+}
+
+export interface ICategory {
+  id: number;
+  name: string;
+  type: CategoryType;
+  parentId: number | null;
+  color: string;
+  icon: string;
+  archived: boolean;
+}
+
+export type CategoryChanges = Partial<Pick<ICategory, 'color' | 'icon' | 'parentId' | 'archived'>>;
+
+// Everything a category rename or merge has to rewrite
+export interface ICategoryState {
+  categories: CategoryModel[];
+  transactions: TransactionModel[];
+  rules: RecurrenceModel[];
+  budgets: BudgetModel[];
+  categorizationRules: CategorizationRuleModel[];
+}
+
+// Subcategories roll up into their parent, or, when drilling into a parent, only its subtree is kept
+export interface ICategoryHierarchy {
+  categories: CategoryModel[];
+  parent: string | null;
+}
+
+export type StorageBackend = 'server' | 'session' | 'local' | 'indexedDB';
+
+export interface IStorageAdapter {
+  getItem<T>(key: string): Promise<T | null>;
+  setItem(key: string, value: unknown): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+export interface IStoragePayload<T> {
+  version: number;
+  data: T;
+}
+
+export type CsvField = 'date' | 'description' | 'category' | 'type' | 'amount' | 'currency';
+
+export type CsvDateFormat = 'yyyy-mm-dd' | 'dd/mm/yyyy' | 'mm/dd/yyyy';
+
+export type DecimalSeparator = ',' | '.';
+
+export interface ICsvImportOptions {
+  mapping: Record<CsvField, number | null>;
+  dateFormat: CsvDateFormat;
+  decimalSeparator: DecimalSeparator;
+  hasHeader: boolean;
+}
+
+// A CSV row carries no account; imported rows go to the account chosen on import
+export type CsvTransaction = Omit<ITransaction, 'id' | 'accountId' | 'toAccountId'>;
+
+export interface ICsvPreviewRow {
+  line: number;
+  data: CsvTransaction | null;
+  errors: MessageKey[];
+}
+
+export type StatementFormat = 'ofx' | 'qif';
+
+export interface IStatementEntry {
+  externalId?: string;
+  currency?: string;
+  date: Date;
+  amount: number;
+  description: string;
+  category?: string;
+}
+
+export interface IStatementImportResult {
+  added: TransactionModel[];
+  duplicates: number;
+}
+
+export interface IExchangeRate {
+  date: string;
+  from: string;
+  to: string;
+  rate: number;
+}
+
+export type AccountType = 'checking' | 'savings' | 'creditCard' | 'cash' | 'investment';
+
+export interface IAccount {
+  id: number;
+  name: string;
+  type: AccountType;
+  openingBalance: number;
+  currency: string;
+}
+
+export interface IAccountBalance {
+  account: AccountModel;
+  balance: number;
+  unconverted: number;
+}
+
+export interface IBudget {
+  id: number;
+  category: string;
+  limit: number;
+  rollover: boolean;
+  startMonth: string;
+}
+
+// How a categorization rule reads the description: a case- and accent-insensitive substring, or a regex
+export type RuleMatchMode = 'contains' | 'regex';
+
+// "If the description matches (and the amount is in range), file it under this type and category and
+// add these tags"; an empty pattern matches any description
+export interface ICategorizationRule {
+  id: number;
+  match: RuleMatchMode;
+  pattern: string;
+  minAmount: number | null;
+  maxAmount: number | null;
+  type: CategoryType;
+  category: string;
+  tags: string[];
+}
+
+// A transaction the rules would change, before and after
+export interface ICategorizationChange {
+  before: TransactionModel;
+  after: TransactionModel;
+}
+
+// A rule learned from past transactions whose similar descriptions were filed under the same category
+export interface ICategorizationSuggestion {
+  pattern: string;
+  type: CategoryType;
+  category: string;
+  count: number;
+}
+
+export type BudgetState = 'ok' | 'warning' | 'exceeded';
+
+export interface IBudgetStatus {
+  budget: IBudget;
+  spent: number;
+  carriedOver: number;
+  available: number;
+  remaining: number;
+  ratio: number;
+  state: BudgetState;
+  dailyAllowance: number;
+}
+
+// Money put into a goal by hand; a negative amount takes money out
+export interface IGoalContribution {
+  date: string; // yyyy-mm-dd
+  amount: number;
+}
+
+// "Save targetAmount by the end of targetMonth", funded by linked transactions and manual contributions,
+// in the base currency
+export interface ISavingsGoal {
+  id: number;
+  name: string;
+  targetAmount: number;
+  targetMonth: string; // yyyy-mm
+  startMonth: string; // yyyy-mm the goal was created
+  transactionIds: number[];
+  contributions: IGoalContribution[];
+}
+
+export type GoalFields = Pick<ISavingsGoal, 'name' | 'targetAmount' | 'targetMonth'>;
+
+export type GoalFunding = Pick<ISavingsGoal, 'transactionIds' | 'contributions'>;
+
+// Reached, on track when the monthly average so far covers the required contribution, behind it,
+// or past the target month without reaching it
+export type GoalPace = 'reached' | 'onTrack' | 'behind' | 'overdue';
+
+export interface IGoalStatus {
+  goal: ISavingsGoal;
+  linked: TransactionModel[]; // linked transactions that still exist, in the base currency
+  saved: number;
+  remaining: number;
+  ratio: number;
+  monthsLeft: number; // from the current month through the target month
+  requiredMonthly: number;
+  monthlyAverage: number;
+  projectedMonth: string | null; // yyyy-mm the monthly average reaches the target; null before any saving
+  pace: GoalPace;
+}
+
+export type Locale = 'pt-BR' | 'en-US' | 'es';
+
+export type MessageKey = keyof typeof PT_BR_MESSAGES;
+
+export type MessageParams = Record<string, string | number>;
+
+export type AppRoute =
+  | { name: 'dashboard' }
+  | { name: 'transactions' }
+  | { name: 'editTransaction'; id: number }
+  | { name: 'report'; year: number; month: number } // month is 1-12
+  | { name: 'statement'; year: number; month: number | null } // printable; a null month covers the year
+  | { name: 'login' }
+  | { name: 'notFound' };
+
+// Everything a URL carries: the route plus the filters mirrored in its query string
+export interface ILocationState {
+  route: AppRoute;
+  searchTerm: string;
+  periodFilter: PeriodPreset;
+  customRange: { from: string; to: string };
+}
+
+// Stored payloads keyed by storage key, as the server store keeps them
+export type StorageSnapshot = Record<string, unknown>;
+
+// Everything the dashboard loads from storage; transactions include materialized recurrences
+export interface IAppData {
+  isDarkMode: boolean;
+  transactions: TransactionModel[];
+  // Stored records that failed validation, kept aside (as stored) so they are never lost
+  quarantined: any[];
+  recurrences: RecurrenceModel[];
+  budgets: BudgetModel[];
+  categories: CategoryModel[];
+  accounts: AccountModel[];
+  baseCurrency: string;
+  exchangeRates: ExchangeRateModel[];
+  periodSettings: IPeriodSettings;
+  categorizationRules: CategorizationRuleModel[];
+  savingsGoals: SavingsGoalModel[];
+}
+
+// Changes that can be undone, named in the undo toast
+export type HistoryAction =
+  | 'create' | 'update' | 'delete' | 'skip' | 'import' | 'categories' | 'recategorize' | 'restore' | 'clear';
+
+// A backup file: every storage payload, each keeping its own schema version, plus the attached files
+export interface IBackupFile {
+  format: string;
+  version: number;
+  createdAt: string; // ISO timestamp
+  data: StorageSnapshot;
+  attachments: Record<string, string>; // attachment id -> data URL
+}
+
+export type BackupErrorCode = 'invalidFile' | 'unsupportedVersion';
+
+// Replace swaps all data for the backup's; merge adds the backup's records to the current ones
+export type RestoreMode = 'replace' | 'merge';
+
+// Records a merge reports on; settings are not merged
+export type BackupEntity =
+  | 'transactions' | 'recurrences' | 'accounts' | 'categories' | 'budgets' | 'exchangeRates' | 'categorizationRules'
+  | 'savingsGoals';
+
+export interface IMergeCounts {
+  added: number;
+  updated: number;
+  skipped: number; // already there, unchanged
+}
+
+export type MergeReport = Record<BackupEntity, IMergeCounts>;
+
+// One undoable change. Only the transactions it touched are kept (as toJSON() rows, before and after);
+// any other data it replaced is kept whole, as storage payloads keyed like a storage snapshot.
+export interface IHistoryEntry {
+  action: HistoryAction;
+  removed: any[];
+  added: any[];
+  before: StorageSnapshot;
+  after: StorageSnapshot;
+}
+
+export interface IHistoryState {
+  undo: IHistoryEntry[];
+  redo: IHistoryEntry[];
+}
+
+// The last change, undo or redo, shown in a toast that offers to reverse it
+export interface IHistoryToast {
+  id: number;
+  action: HistoryAction;
+  undone: boolean;
+}
+
+// Access to a ledger: its owner, or a user it was shared with
+export type LedgerRole = 'owner' | 'editor' | 'viewer';
+
+export type MemberRole = Exclude<LedgerRole, 'owner'>;
+
+export interface ILedgerAccess {
+  id: string;
+  owner: string; // username of the owner
+  role: LedgerRole;
+}
+
+interface ILedgerMember {
+  username: string;
+  role: MemberRole;
+}
+
+// The signed-in user, as the server sends it: the open ledger, the ledgers they can switch to,
+// and who the open ledger is shared with (listed for its owner only)
+export interface IAuthUser {
+  username: string;
+  ledger: ILedgerAccess;
+  ledgers: ILedgerAccess[];
+  members: ILedgerMember[];
+}
+
+export type AuthMode = 'login' | 'register';
+
+export interface ICredentials {
+  username: string;
+  password: string;
+}
+
+// Columns the transaction table can be sorted by
+export type SortField = 'date' | 'amount' | 'category' | 'description';
+
+type SortDirection = 'asc' | 'desc';
+
+export interface ITransactionSort {
+  field: SortField;
+  direction: SortDirection;
+}
+
+// The transaction table shows one page at a time, or one scrolling list that only renders the visible rows
+export type TableMode = 'paginated' | 'virtual';
+
+// A row of the transaction table: a transaction, or one line of an expanded split transaction
+export interface ITableRow {
+  transaction: TransactionModel;
+  splitIndex?: number;
+}
+
+export interface IPieData {
+  name: string;
+  value: number;
+  category: string;
+  color: string;
+  [key: string]: string | number; // Index signature for Recharts compatibility
+}
@@ -0,0 +1,4 @@
+/**
+ * Check if code is running on client-side
+ */
+export const isClient = typeof window !== 'undefined';
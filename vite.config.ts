@@ -4,6 +4,8 @@ import tailwindcss from '@tailwindcss/vite'
 
 // https://vite.dev/config/
 export default defineConfig({
+  // Same base as the server (BASE), so built asset URLs and import.meta.env.BASE_URL match it
+  base: process.env.BASE || '/',
   plugins: [
     react(),
     tailwindcss(),